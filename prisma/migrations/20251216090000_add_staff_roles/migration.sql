@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'OPERATOR';
+ALTER TYPE "UserRole" ADD VALUE 'ADMIN';
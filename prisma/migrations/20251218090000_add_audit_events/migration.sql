@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('USER_UPDATED', 'USER_DELETED', 'USER_ROLE_CHANGED', 'USER_GRID_DATA_UPDATED', 'TRANSFER_STATUS_OVERRIDDEN', 'YIELD_TRANSACTION_STATUS_OVERRIDDEN', 'GASLESS_CREDIT_CONSUMED');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "actorUserId" TEXT,
+    "actorRole" "UserRole",
+    "actorIp" TEXT,
+    "actorUserAgent" TEXT,
+    "action" "AuditAction" NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT,
+    "changes" JSONB,
+    "metadata" JSONB,
+    "previousHash" TEXT,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_events_sequence_key" ON "audit_events"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_events_hash_key" ON "audit_events"("hash");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorUserId_idx" ON "audit_events"("actorUserId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetType_targetId_idx" ON "audit_events"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_idx" ON "audit_events"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_events_createdAt_idx" ON "audit_events"("createdAt");
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'OTP_LOCKOUT_TRIGGERED';
+ALTER TYPE "AuditAction" ADD VALUE 'OTP_LOCKOUT_CLEARED';
+
+-- CreateEnum
+CREATE TYPE "OtpAttemptScope" AS ENUM ('EMAIL', 'IP');
+
+-- CreateTable
+CREATE TABLE "otp_attempt_trackers" (
+    "id" TEXT NOT NULL,
+    "scope" "OtpAttemptScope" NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3),
+    "nextAttemptAt" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "lockoutCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "otp_attempt_trackers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "otp_attempt_trackers_scope_identifier_key" ON "otp_attempt_trackers"("scope", "identifier");
+
+-- CreateIndex
+CREATE INDEX "otp_attempt_trackers_lockedUntil_idx" ON "otp_attempt_trackers"("lockedUntil");
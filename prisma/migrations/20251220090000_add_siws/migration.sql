@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'WALLET_LINKED';
+ALTER TYPE "AuditAction" ADD VALUE 'WALLET_UNLINKED';
+
+-- CreateEnum
+CREATE TYPE "SiwsPurpose" AS ENUM ('SIGN_IN', 'LINK_WALLET');
+
+-- CreateTable
+CREATE TABLE "linked_wallets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "linked_wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "siws_challenges" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "purpose" "SiwsPurpose" NOT NULL,
+    "userId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "siws_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "linked_wallets_address_key" ON "linked_wallets"("address");
+
+-- CreateIndex
+CREATE INDEX "linked_wallets_userId_idx" ON "linked_wallets"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "siws_challenges_nonce_key" ON "siws_challenges"("nonce");
+
+-- CreateIndex
+CREATE INDEX "siws_challenges_expiresAt_idx" ON "siws_challenges"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "linked_wallets" ADD CONSTRAINT "linked_wallets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'FEE_PAYER_ADDED';
+ALTER TYPE "AuditAction" ADD VALUE 'FEE_PAYER_RETIRED';
+
+-- CreateEnum
+CREATE TYPE "FeePayerSource" AS ENUM ('ENV', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "FeePayerStatus" AS ENUM ('ACTIVE', 'DEPLETED', 'RETIRED');
+
+-- CreateTable
+CREATE TABLE "fee_payer_keys" (
+    "id" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "label" TEXT,
+    "source" "FeePayerSource" NOT NULL,
+    "encryptedSecretKey" JSONB,
+    "status" "FeePayerStatus" NOT NULL DEFAULT 'ACTIVE',
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "balanceLamports" BIGINT,
+    "balanceCheckedAt" TIMESTAMP(3),
+    "retiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fee_payer_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_payer_keys_publicKey_key" ON "fee_payer_keys"("publicKey");
+
+-- CreateIndex
+CREATE INDEX "fee_payer_keys_status_idx" ON "fee_payer_keys"("status");
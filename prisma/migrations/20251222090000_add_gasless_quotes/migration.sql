@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "gasless_quotes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "amountUSDC" DOUBLE PRECISION NOT NULL,
+    "signatures" INTEGER NOT NULL,
+    "computeUnits" INTEGER NOT NULL,
+    "computeUnitPrice" INTEGER NOT NULL,
+    "estimatedLamports" INTEGER NOT NULL,
+    "solPriceUSDC" DOUBLE PRECISION NOT NULL,
+    "priceSource" TEXT NOT NULL,
+    "marginBps" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gasless_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "gasless_quotes_expiresAt_idx" ON "gasless_quotes"("expiresAt");
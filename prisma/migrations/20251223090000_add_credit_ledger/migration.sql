@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "CreditLedgerDirection" AS ENUM ('CREDIT', 'DEBIT');
+
+-- CreateEnum
+CREATE TYPE "CreditLedgerReason" AS ENUM ('OPENING_BALANCE', 'PAYMENT', 'SPONSORED_TRANSACTION');
+
+-- CreateTable
+CREATE TABLE "credit_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "balanceMicroUsdc" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_accounts_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "credit_accounts_balance_non_negative" CHECK ("balanceMicroUsdc" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "credit_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "direction" "CreditLedgerDirection" NOT NULL,
+    "reason" "CreditLedgerReason" NOT NULL,
+    "amountMicroUsdc" BIGINT NOT NULL,
+    "balanceAfterMicroUsdc" BIGINT NOT NULL,
+    "paymentId" TEXT,
+    "transactionType" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_accounts_userId_key" ON "credit_accounts"("userId");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_userId_createdAt_idx" ON "credit_ledger_entries"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_paymentId_idx" ON "credit_ledger_entries"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "credit_accounts" ADD CONSTRAINT "credit_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "gasless_payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: open an account for every user with unspent credit on verified payments
+INSERT INTO "credit_accounts" ("id", "userId", "balanceMicroUsdc", "updatedAt")
+SELECT 'ca' || md5(random()::text || "userId"), "userId", ROUND(SUM("creditRemaining") * 1000000)::BIGINT, CURRENT_TIMESTAMP
+FROM "gasless_payments"
+WHERE "status" = 'VERIFIED' AND "userId" IS NOT NULL
+GROUP BY "userId";
+
+INSERT INTO "credit_ledger_entries" ("id", "userId", "direction", "reason", "amountMicroUsdc", "balanceAfterMicroUsdc")
+SELECT 'cl' || md5(random()::text || "userId"), "userId", 'CREDIT', 'OPENING_BALANCE', "balanceMicroUsdc", "balanceMicroUsdc"
+FROM "credit_accounts"
+WHERE "balanceMicroUsdc" > 0;
+
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "creditRemainingMicroUsdc" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "creditUsedMicroUsdc" BIGINT NOT NULL DEFAULT 0;
+
+-- Convert the USDC floats to integer micro-USDC
+UPDATE "gasless_payments" SET
+  "creditRemainingMicroUsdc" = ROUND("creditRemaining" * 1000000)::BIGINT,
+  "creditUsedMicroUsdc" = ROUND("creditUsed" * 1000000)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "gasless_payments" DROP COLUMN "creditRemaining",
+DROP COLUMN "creditUsed";
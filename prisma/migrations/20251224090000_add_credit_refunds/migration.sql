@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "CreditLedgerReason" ADD VALUE 'REFUND';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'GASLESS_CREDIT_REFUNDED';
+
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "creditRefundedMicroUsdc" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "credit_ledger_entries" ADD COLUMN "refundOfEntryId" TEXT;
+
+-- AlterTable
+ALTER TABLE "sponsored_transactions" ADD COLUMN "debitEntryId" TEXT,
+ADD COLUMN "lastValidBlockHeight" INTEGER,
+ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_ledger_entries_refundOfEntryId_key" ON "credit_ledger_entries"("refundOfEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sponsored_transactions_debitEntryId_key" ON "sponsored_transactions"("debitEntryId");
+
+-- CreateIndex
+CREATE INDEX "sponsored_transactions_status_idx" ON "sponsored_transactions"("status");
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_refundOfEntryId_fkey" FOREIGN KEY ("refundOfEntryId") REFERENCES "credit_ledger_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sponsored_transactions" ADD CONSTRAINT "sponsored_transactions_debitEntryId_fkey" FOREIGN KEY ("debitEntryId") REFERENCES "credit_ledger_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
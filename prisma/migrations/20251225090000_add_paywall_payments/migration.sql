@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "resource" TEXT;
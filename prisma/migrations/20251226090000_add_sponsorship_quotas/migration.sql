@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "QuotaPeriod" AS ENUM ('DAY', 'MONTH');
+
+-- CreateTable
+CREATE TABLE "sponsorship_usage" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "period" "QuotaPeriod" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "lamports" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sponsorship_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sponsorship_usage_scope_period_periodStart_key" ON "sponsorship_usage"("scope", "period", "periodStart");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "sponsored_transactions" ADD COLUMN "yieldTransactionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sponsored_transactions_yieldTransactionId_key" ON "sponsored_transactions"("yieldTransactionId");
+
+-- AddForeignKey
+ALTER TABLE "sponsored_transactions" ADD CONSTRAINT "sponsored_transactions_yieldTransactionId_fkey" FOREIGN KEY ("yieldTransactionId") REFERENCES "yield_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "PromoCodeType" AS ENUM ('PROMO', 'VOUCHER');
+
+-- AlterEnum
+ALTER TYPE "CreditLedgerReason" ADD VALUE 'PACKAGE_BONUS';
+ALTER TYPE "CreditLedgerReason" ADD VALUE 'PROMO_CODE';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'CREDIT_PACKAGE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE 'CREDIT_PACKAGE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'PROMO_CODE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE 'PROMO_CODE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'PROMO_CODE_REDEEMED';
+
+-- AlterTable
+ALTER TABLE "credit_accounts" ADD COLUMN "bonusBalanceMicroUsdc" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "credit_ledger_entries" ADD COLUMN "bonusMicroUsdc" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "packageId" TEXT;
+
+-- CreateTable
+CREATE TABLE "credit_packages" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "priceMicroUsdc" BIGINT NOT NULL,
+    "bonusBps" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "PromoCodeType" NOT NULL DEFAULT 'PROMO',
+    "description" TEXT,
+    "creditMicroUsdc" BIGINT NOT NULL,
+    "maxRedemptions" INTEGER,
+    "maxRedemptionsPerUser" INTEGER NOT NULL DEFAULT 1,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "redemptionNumber" INTEGER NOT NULL,
+    "ledgerEntryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_ledgerEntryId_key" ON "promo_redemptions"("ledgerEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_promoCodeId_userId_redemptionNumber_key" ON "promo_redemptions"("promoCodeId", "userId", "redemptionNumber");
+
+-- AddForeignKey
+ALTER TABLE "gasless_payments" ADD CONSTRAINT "gasless_payments_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "credit_packages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "promo_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "credit_ledger_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
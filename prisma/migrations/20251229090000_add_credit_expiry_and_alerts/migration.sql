@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "CreditLedgerReason" ADD VALUE 'EXPIRY';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'GASLESS_CREDIT_EXPIRED';
+
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "creditExpiredMicroUsdc" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "creditExpiresAt" TIMESTAMP(3),
+ADD COLUMN "expiryWarnedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "credit_packages" ADD COLUMN "creditTtlDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "credit_accounts" ADD COLUMN "lowBalanceThresholdMicroUsdc" BIGINT,
+ADD COLUMN "lowBalanceAlertedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "gasless_payments_creditExpiresAt_idx" ON "gasless_payments"("creditExpiresAt");
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "CreditTopUpStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'CREDIT_AUTO_TOP_UP';
+
+-- AlterTable
+ALTER TABLE "credit_accounts" ADD COLUMN "autoTopUpEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "autoTopUpAmountMicroUsdc" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "autoTopUpMonthlyCapMicroUsdc" BIGINT NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "credit_top_ups" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amountMicroUsdc" BIGINT NOT NULL,
+    "status" "CreditTopUpStatus" NOT NULL DEFAULT 'PENDING',
+    "trigger" TEXT NOT NULL,
+    "signature" TEXT,
+    "paymentId" TEXT,
+    "errorMessage" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "lastValidBlockHeight" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_top_ups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_top_ups_signature_key" ON "credit_top_ups"("signature");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_top_ups_paymentId_key" ON "credit_top_ups"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "credit_top_ups_userId_createdAt_idx" ON "credit_top_ups"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "credit_top_ups_status_updatedAt_idx" ON "credit_top_ups"("status", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_top_ups" ADD CONSTRAINT "credit_top_ups_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_top_ups" ADD CONSTRAINT "credit_top_ups_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "gasless_payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "gasless_payments" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USDC',
+ADD COLUMN "exchangeRateUSDC" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "gasless_quotes" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USDC',
+ADD COLUMN "paymentAmount" BIGINT,
+ADD COLUMN "exchangeRateUSDC" DOUBLE PRECISION;
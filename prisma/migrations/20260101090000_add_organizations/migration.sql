@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "OrganizationCreditPolicy" AS ENUM ('PERSONAL_FIRST', 'ORGANIZATION_FIRST');
+
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+-- AlterEnum
+ALTER TYPE "CreditLedgerReason" ADD VALUE 'ORGANIZATION_FUNDING';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_MEMBER_ADDED';
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_MEMBER_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_MEMBER_REMOVED';
+ALTER TYPE "AuditAction" ADD VALUE 'ORGANIZATION_CREDIT_FUNDED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "credit_ledger_entries" ADD COLUMN "organizationId" TEXT;
+
+-- DropForeignKey
+ALTER TABLE "credit_ledger_entries" DROP CONSTRAINT "credit_ledger_entries_userId_fkey";
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "creditBalanceMicroUsdc" BIGINT NOT NULL DEFAULT 0,
+    "creditPolicy" "OrganizationCreditPolicy" NOT NULL DEFAULT 'PERSONAL_FIRST',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "monthlySpendLimitMicroUsdc" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_userId_key" ON "organization_members"("userId");
+
+-- CreateIndex
+CREATE INDEX "organization_members_organizationId_idx" ON "organization_members"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_organizationId_createdAt_idx" ON "credit_ledger_entries"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
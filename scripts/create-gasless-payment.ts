@@ -45,6 +45,8 @@ const PAYMENT_QUOTE = {
     : 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'),
   amount: parseInt(process.env.QUOTE_AMOUNT || '300'), // Amount in smallest units
   amountUSDC: parseFloat(process.env.QUOTE_AMOUNT_USDC || '0.0003'),
+  // Quotes expire; pay before payment.expiresAt from the Step 1 response
+  quoteId: process.env.QUOTE_ID || '',
 };
 
 // User wallet private key (base58 format)
@@ -168,6 +170,7 @@ async function createAndSendGaslessPayment() {
       network: SOLANA_NETWORK === 'devnet' ? 'solana-devnet' : 'solana-mainnet',
       payload: {
         serializedTransaction: serializedTx,
+        quoteId: PAYMENT_QUOTE.quoteId,
       },
     };
 
@@ -0,0 +1,201 @@
+// scripts/fetch-grid-balances.ts
+// Fetches and prints the balances of a Grid account
+
+import { GridClient } from '@sqds/grid';
+import { config } from '../src/config/env';
+
+// Grid account address to fetch balances for
+const GRID_ACCOUNT_ADDRESS = process.argv[2] || '4UPqaqbN8caP5NBs7k4jf9py4jsRyM75VdixLvifkqDa';
+
+// Initialize Grid client
+const gridClient = new GridClient({
+  environment: config.grid.environment,
+  apiKey: config.grid.apiKey,
+});
+
+// Token mint addresses for reference
+const TOKEN_MINTS = {
+  USDC_MAINNET: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  USDC_DEVNET: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+};
+
+// Grid returns raw amounts as bigint, which JSON.stringify cannot serialize
+const toJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? field.toString() : field), 2);
+
+// Helper function to get token symbol
+function getTokenSymbol(mint: string, symbol?: string): string {
+  switch (mint) {
+    case TOKEN_MINTS.USDC_MAINNET:
+    case TOKEN_MINTS.USDC_DEVNET:
+      return 'USDC';
+    default:
+      return symbol || 'UNKNOWN';
+  }
+}
+
+// Main function to fetch and display balances
+export async function fetchGridBalances() {
+  try {
+    console.log('🔍 Fetching Grid account balances...');
+    console.log(`📋 Account Address: ${GRID_ACCOUNT_ADDRESS}`);
+    console.log(`🌐 Environment: ${config.grid.environment}`);
+    console.log(`🔑 API Key: ${config.grid.apiKey ? '✅ Set' : '❌ Missing'}`);
+    console.log('─'.repeat(60));
+
+    // Validate Grid configuration
+    if (!config.grid.apiKey) {
+      throw new Error('Grid API key is not configured');
+    }
+
+    // Fetch account balances using Grid SDK
+    console.log('📡 Calling Grid API...');
+    const balances = await gridClient.getAccountBalances(GRID_ACCOUNT_ADDRESS);
+
+    // Check if the API call was successful
+    if (!balances.success) {
+      console.error('❌ Grid API call failed:');
+      console.error('Error:', balances.error);
+      console.error('Response:', balances);
+      return;
+    }
+
+    console.log('✅ Grid API call successful!');
+    console.log('─'.repeat(60));
+
+    // Display raw response for debugging
+    console.log('📊 Raw Grid API Response:');
+    console.log(toJson(balances));
+    console.log('─'.repeat(60));
+
+    const data = balances.data;
+    if (!data) {
+      console.log('⚠️  No balance data received');
+      return;
+    }
+
+    console.log('💰 Account Balances:');
+    console.log('─'.repeat(60));
+
+    // Display native SOL balance
+    console.log('🟡 SOL (Native):');
+    console.log(`   Balance: ${data.lamports} lamports`);
+    console.log(`   Formatted: ${data.sol} SOL`);
+
+    // Display SPL token balances
+    const tokens = data.tokens || [];
+    if (tokens.length > 0) {
+      console.log(`\n🪙 SPL Tokens (${tokens.length} tokens):`);
+      tokens.forEach((token, index) => {
+        const symbol = getTokenSymbol(token.token_address, token.symbol);
+        console.log(`\n   ${index + 1}. ${symbol}:`);
+        console.log(`      Mint: ${token.token_address}`);
+        console.log(`      Balance: ${token.amount}`);
+        console.log(`      Formatted: ${token.amount_decimal} ${symbol}`);
+        console.log(`      Decimals: ${token.decimals}`);
+      });
+    } else {
+      console.log('\n🪙 SPL Tokens: None');
+    }
+
+    // Display summary
+    const hasUsdcMainnet = tokens.some((t) => t.token_address === TOKEN_MINTS.USDC_MAINNET);
+    const hasUsdcDevnet = tokens.some((t) => t.token_address === TOKEN_MINTS.USDC_DEVNET);
+
+    console.log('\n📈 Summary:');
+    console.log('─'.repeat(60));
+    console.log(`Total SPL Tokens: ${tokens.length}`);
+    console.log(`Has Native SOL: ${data.lamports > BigInt(0)}`);
+    console.log(`Has USDC: ${hasUsdcMainnet || hasUsdcDevnet}`);
+
+    if (hasUsdcMainnet) {
+      console.log('✅ USDC (Mainnet) detected');
+    }
+    if (hasUsdcDevnet) {
+      console.log('✅ USDC (Devnet) detected');
+    }
+  } catch (error) {
+    console.error('❌ Error fetching Grid balances:');
+    console.error('Error:', error);
+    if (error instanceof Error) {
+      console.error('Message:', error.message);
+      console.error('Stack:', error.stack);
+    }
+  }
+}
+
+// Function to test with query parameters
+export async function fetchGridBalancesWithParams() {
+  try {
+    console.log('\n🔍 Fetching Grid account balances with query parameters...');
+    console.log('─'.repeat(60));
+
+    const queryParams = {
+      limit: 10, // Maximum number of tokens to return
+      page: 1, // Page of tokens to return
+    };
+
+    console.log('📋 Query Parameters:');
+    console.log(toJson(queryParams));
+
+    const balances = await gridClient.getAccountBalances(GRID_ACCOUNT_ADDRESS, queryParams);
+
+    if (!balances.success) {
+      console.error('❌ Grid API call with params failed:');
+      console.error('Error:', balances.error);
+      return;
+    }
+
+    console.log('✅ Grid API call with params successful!');
+    console.log('📊 Response with query params:');
+    console.log(toJson(balances));
+  } catch (error) {
+    console.error('❌ Error fetching Grid balances with params:');
+    console.error('Error:', error);
+  }
+}
+
+// Function to test Grid configuration
+export async function testGridConfig() {
+  try {
+    console.log('\n🔧 Testing Grid Configuration...');
+    console.log('─'.repeat(60));
+    console.log(`Environment: ${config.grid.environment}`);
+    console.log(`API Key Length: ${config.grid.apiKey?.length || 0}`);
+    console.log(`API Key Set: ${config.grid.apiKey ? 'Yes' : 'No'}`);
+
+    // Test with a simple call
+    console.log('\n🧪 Testing Grid API connectivity...');
+    const testBalances = await gridClient.getAccountBalances(GRID_ACCOUNT_ADDRESS);
+
+    console.log(`API Call Success: ${testBalances.success}`);
+    if (!testBalances.success) {
+      console.log(`API Error: ${testBalances.error}`);
+    }
+  } catch (error) {
+    console.error('❌ Grid configuration test failed:');
+    console.error('Error:', error);
+  }
+}
+
+// Main execution
+async function main() {
+  console.log('🚀 Grid Balance Fetcher Script');
+  console.log('═'.repeat(60));
+
+  // Test Grid configuration first
+  await testGridConfig();
+
+  // Fetch balances without parameters
+  await fetchGridBalances();
+
+  // Fetch balances with parameters
+  await fetchGridBalancesWithParams();
+
+  console.log('\n✅ Script completed!');
+}
+
+// Run the script
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,114 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import kmsService from '../src/services/kms.service';
+
+const prisma = new PrismaClient();
+
+// Fields holding Grid signing material that are encrypted at rest
+const ENCRYPTED_FIELDS = ['authResult', 'sessionSecrets'] as const;
+const BATCH_SIZE = 100;
+// Times a user is re-read when their credentials change while being re-encrypted
+const MAX_ATTEMPTS = 3;
+
+const CREDENTIALS_SELECT = { id: true, email: true, authResult: true, sessionSecrets: true } as const;
+
+type UserCredentials = Prisma.UserGetPayload<{ select: typeof CREDENTIALS_SELECT }>;
+
+// Match a JSON column on the value that was read
+const jsonEquals = (value: Prisma.JsonValue) => ({
+  equals: value === null ? Prisma.AnyNull : (value as Prisma.InputJsonValue),
+});
+
+/**
+ * Re-encrypts one user's credentials, only writing them if they still hold the
+ * values that were read, so a login that stores new credentials meanwhile is
+ * not overwritten. Returns the re-encrypted fields, or null if the user kept changing.
+ */
+async function reencryptUser(user: UserCredentials): Promise<string[] | null> {
+  let current: UserCredentials | null = user;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && current; attempt++) {
+    const data: Record<string, any> = {};
+
+    for (const field of ENCRYPTED_FIELDS) {
+      if (kmsService.needsReencryption(current[field])) {
+        data[field] = await kmsService.encryptJson(await kmsService.decryptJson(current[field]));
+      }
+    }
+
+    if (Object.keys(data).length === 0) {
+      return [];
+    }
+
+    const result = await prisma.user.updateMany({
+      where: {
+        id: current.id,
+        authResult: jsonEquals(current.authResult),
+        sessionSecrets: jsonEquals(current.sessionSecrets),
+      },
+      data,
+    });
+
+    if (result.count === 1) {
+      return Object.keys(data);
+    }
+
+    current = await prisma.user.findUnique({ where: { id: user.id }, select: CREDENTIALS_SELECT });
+  }
+
+  return current ? null : [];
+}
+
+/**
+ * Encrypts plaintext Grid credentials and re-wraps values encrypted with a
+ * retired master key under the active key. Safe to run repeatedly.
+ */
+async function rotateKmsKeys() {
+  if (!kmsService.isConfigured()) {
+    throw new Error('KMS master key not configured (set KMS_MASTER_KEY, KMS_MASTER_KEYS or KMS_MASTER_KEY_FILE)');
+  }
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      select: CREDENTIALS_SELECT,
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (users.length === 0) {
+      break;
+    }
+
+    for (const user of users) {
+      scanned++;
+      const fields = await reencryptUser(user);
+
+      if (fields === null) {
+        skipped++;
+        console.warn(`⚠️  Credentials for ${user.email} kept changing during rotation; re-run to re-encrypt them`);
+      } else if (fields.length > 0) {
+        updated++;
+        console.log(`✅ Re-encrypted ${fields.join(', ')} for ${user.email}`);
+      }
+    }
+
+    cursor = users[users.length - 1].id;
+  }
+
+  console.log(`\nScanned ${scanned} users, re-encrypted ${updated}, skipped ${skipped}`);
+  if (skipped > 0) {
+    process.exitCode = 1;
+  }
+}
+
+rotateKmsKeys()
+  .catch((error) => {
+    console.error('❌ Key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
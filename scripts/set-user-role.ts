@@ -0,0 +1,35 @@
+import { PrismaClient, UserRole } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Assigns a role to a user by email. Used to bootstrap the first ADMIN,
+ * after which roles can be managed through PUT /api/users/:id/role.
+ *
+ * Usage: npm run user:set-role -- <email> <USER|OPERATOR|ADMIN>
+ */
+async function setUserRole() {
+  const [email, role] = process.argv.slice(2);
+  const roles = Object.values(UserRole) as string[];
+
+  if (!email || !role || !roles.includes(role)) {
+    console.error(`Usage: npm run user:set-role -- <email> <${roles.join('|')}>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const user = await prisma.user.update({
+    where: { email },
+    data: { role: role as UserRole },
+    select: { id: true, email: true, role: true },
+  });
+
+  console.log(`✅ ${user.email} (${user.id}) is now ${user.role}`);
+}
+
+setUserRole()
+  .catch((error) => {
+    console.error('❌ Failed to set user role:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
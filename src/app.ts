@@ -8,6 +8,12 @@ import swaggerSpec from './config/swagger';
 
 const app = express();
 
+// Resolve client IPs from X-Forwarded-For when behind a proxy (used for rate limiting)
+if (config.rateLimit.trustProxy) {
+  const trustProxy = config.rateLimit.trustProxy;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === 'true' || trustProxy);
+}
+
 // Basic middleware
 app.use(cors({
   origin: config.cors.allowedOrigins,
@@ -21,10 +27,26 @@ app.use(cors({
     'Accept',
     'Origin',
     'Cache-Control',
-    'Pragma'
+    'Pragma',
+    'Idempotency-Key',
+    'X-PAYMENT'
   ],
   exposedHeaders: [
-    'X-Total-Count'
+    'X-Total-Count',
+    'Retry-After',
+    'X-RateLimit-Limit',
+    'X-RateLimit-Remaining',
+    'Idempotent-Replayed',
+    'X-PAYMENT-RESPONSE',
+    'X-Sponsor-Quota-Daily-Limit',
+    'X-Sponsor-Quota-Daily-Remaining',
+    'X-Sponsor-Quota-Monthly-Limit',
+    'X-Sponsor-Quota-Monthly-Remaining',
+    'X-Sponsor-Quota-Daily-Lamports-Limit',
+    'X-Sponsor-Quota-Daily-Lamports-Remaining',
+    'X-Sponsor-Quota-Monthly-Lamports-Limit',
+    'X-Sponsor-Quota-Monthly-Lamports-Remaining',
+    'X-Sponsor-Quota-Reset'
   ],
   maxAge: config.cors.maxAge,
 }));
@@ -105,10 +127,16 @@ app.get('/health', (req, res) => {
 import userRoutes from './routes/user.routes';
 import authRoutes from './routes/auth.routes';
 import transactionRoutes from './routes/transaction.routes';
+import meRoutes from './routes/me.routes';
+import adminRoutes from './routes/admin.routes';
+import x402Routes from './routes/x402.routes';
 
 app.use('/api/users', userRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/transaction', transactionRoutes);
+app.use('/api/me', meRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/x402', x402Routes);
 
 // 404 handler
 app.use((req, res) => {
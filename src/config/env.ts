@@ -1,4 +1,8 @@
 // src/config/env.ts
+import dotenv from 'dotenv';
+
+dotenv.config();
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -9,6 +13,153 @@ export const config = {
     environment: (process.env.GRID_ENVIRONMENT as 'sandbox' | 'production') || 'sandbox',
     apiKey: process.env.GRID_API_KEY || '',
   },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET || '',
+    accessTokenExpiry: process.env.ACCESS_TOKEN_EXPIRY || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
+  },
+  siws: {
+    // Values embedded in Sign-In With Solana messages; must match the frontend origin
+    domain: process.env.SIWS_DOMAIN || 'localhost:3000',
+    uri: process.env.SIWS_URI || 'http://localhost:3000',
+    statement: process.env.SIWS_STATEMENT || 'Sign in to Solick with your Solana wallet.',
+    chainId: process.env.SOLANA_NETWORK || 'mainnet',
+    nonceTtlMs: parseInt(process.env.SIWS_NONCE_TTL_MS || '300000', 10),
+  },
+  kms: {
+    provider: process.env.KMS_PROVIDER || 'local',
+    masterKey: process.env.KMS_MASTER_KEY || '',
+    masterKeys: process.env.KMS_MASTER_KEYS || '',
+    masterKeyFile: process.env.KMS_MASTER_KEY_FILE || '',
+    activeKeyId: process.env.KMS_ACTIVE_KEY_ID || '',
+  },
+  redis: {
+    url: process.env.REDIS_URL || '',
+    host: process.env.REDIS_HOST || '',
+    port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    password: process.env.REDIS_PASSWORD || '',
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // 'redis' (falls back to memory when Redis is unavailable) or 'memory'
+    store: process.env.RATE_LIMIT_STORE || 'redis',
+    trustProxy: process.env.TRUST_PROXY || '',
+    auth: {
+      windowMs: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || '900000', 10),
+      max: parseInt(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS || '10', 10),
+    },
+    otp: {
+      windowMs: parseInt(process.env.OTP_RATE_LIMIT_WINDOW_MS || '900000', 10),
+      max: parseInt(process.env.OTP_RATE_LIMIT_MAX_REQUESTS || '5', 10),
+    },
+    transaction: {
+      windowMs: parseInt(process.env.TRANSACTION_RATE_LIMIT_WINDOW_MS || '60000', 10),
+      max: parseInt(process.env.TRANSACTION_RATE_LIMIT_MAX_REQUESTS || '10', 10),
+    },
+  },
+  otpLockout: {
+    // Failed OTP attempts allowed within the window before a temporary lockout
+    maxAttemptsPerEmail: parseInt(process.env.OTP_MAX_ATTEMPTS_PER_EMAIL || '5', 10),
+    maxAttemptsPerIp: parseInt(process.env.OTP_MAX_ATTEMPTS_PER_IP || '20', 10),
+    attemptWindowMs: parseInt(process.env.OTP_ATTEMPT_WINDOW_MS || '900000', 10),
+    // Back-off doubles with each failure after the free attempts
+    backoffFreeAttempts: parseInt(process.env.OTP_BACKOFF_FREE_ATTEMPTS || '2', 10),
+    backoffBaseMs: parseInt(process.env.OTP_BACKOFF_BASE_MS || '2000', 10),
+    // Lockout duration doubles with each consecutive lockout, up to the maximum
+    lockoutMs: parseInt(process.env.OTP_LOCKOUT_MS || '1800000', 10),
+    maxLockoutMs: parseInt(process.env.OTP_MAX_LOCKOUT_MS || '86400000', 10),
+  },
+  feePayerPool: {
+    // Primary key (base58 or JSON array) plus optional comma-separated base58 keys
+    privateKey: process.env.GASLESS_FEE_PAYER_PRIVATE_KEY || '',
+    privateKeys: process.env.GASLESS_FEE_PAYER_PRIVATE_KEYS || '',
+    // 'least_used' or 'round_robin'
+    selection: process.env.FEE_PAYER_SELECTION || 'least_used',
+    // Below the minimum a payer leaves rotation until refilled; below the low mark an alert is raised
+    minBalanceLamports: parseInt(process.env.FEE_PAYER_MIN_BALANCE_LAMPORTS || '5000000', 10),
+    lowBalanceLamports: parseInt(process.env.FEE_PAYER_LOW_BALANCE_LAMPORTS || '100000000', 10),
+    balanceCheckIntervalMs: parseInt(process.env.FEE_PAYER_BALANCE_CHECK_INTERVAL_MS || '300000', 10),
+    alertWebhookUrl: process.env.FEE_PAYER_ALERT_WEBHOOK_URL || '',
+  },
+  gaslessPricing: {
+    // SOL/USDC price source: 'jupiter' or 'fixed' (local development and tests)
+    priceSource: process.env.GASLESS_PRICE_SOURCE || 'jupiter',
+    priceFeedUrl: process.env.GASLESS_PRICE_FEED_URL || 'https://lite-api.jup.ag/price/v3',
+    fixedSolPriceUsdc: parseFloat(process.env.GASLESS_FIXED_SOL_PRICE_USDC || '150'),
+    priceCacheTtlMs: parseInt(process.env.GASLESS_PRICE_CACHE_TTL_MS || '30000', 10),
+    // Margin on top of the estimated network fee, in basis points
+    marginBps: parseInt(process.env.GASLESS_PRICE_MARGIN_BPS || '2000', 10),
+    minPriceUsdc: parseFloat(process.env.GASLESS_MIN_PRICE_USDC || '0.0001'),
+    // Used when a transaction cannot be simulated
+    defaultComputeUnits: parseInt(process.env.GASLESS_DEFAULT_COMPUTE_UNITS || '200000', 10),
+    // Percentile of recent prioritization fees used for the estimate
+    priorityFeePercentile: parseInt(process.env.GASLESS_PRIORITY_FEE_PERCENTILE || '75', 10),
+    quoteTtlMs: parseInt(process.env.GASLESS_QUOTE_TTL_MS || '60000', 10),
+  },
+  paymentCurrencies: {
+    // Accept native SOL for credit purchases, converted at the SOL price from the price source
+    acceptSol: process.env.GASLESS_ACCEPT_SOL !== 'false',
+    // Extra SPL tokens as SYMBOL:MINT:DECIMALS[:FIXED_PRICE_USDC], comma-separated;
+    // tokens without a fixed price are priced from the Jupiter feed
+    extraTokens: (process.env.GASLESS_EXTRA_PAYMENT_TOKENS || '')
+      .split(',')
+      .map((token) => token.trim())
+      .filter(Boolean),
+  },
+  sponsorshipPolicy: {
+    // Program IDs allowed in sponsored transactions on top of the built-in allowlist
+    extraProgramIds: (process.env.SPONSOR_EXTRA_PROGRAM_IDS || '')
+      .split(',')
+      .map((programId) => programId.trim())
+      .filter(Boolean),
+    // Programs allowed only in gasless Lulo yield operations
+    yieldProgramIds: (process.env.SPONSOR_YIELD_PROGRAM_IDS || 'FL3X2pRsQ9zHENpZSKDRREtccwJuei8yg9fwDu9UN69Q')
+      .split(',')
+      .map((programId) => programId.trim())
+      .filter(Boolean),
+    maxInstructions: parseInt(process.env.SPONSOR_MAX_INSTRUCTIONS || '10', 10),
+    maxComputeUnits: parseInt(process.env.SPONSOR_MAX_COMPUTE_UNITS || '400000', 10),
+    // Priority fee cap, in micro-lamports per compute unit
+    maxComputeUnitPrice: parseInt(process.env.SPONSOR_MAX_COMPUTE_UNIT_PRICE || '100000', 10),
+    // Total lamports a transaction may move through System Program instructions
+    maxLamports: parseInt(process.env.SPONSOR_MAX_LAMPORTS || '10000000', 10),
+  },
+  sponsorshipQuotas: {
+    // Per-user limits on sponsored transactions and the fee payer SOL they cost; 0 disables a limit
+    userDailyTransactions: parseInt(process.env.SPONSOR_QUOTA_USER_DAILY_TRANSACTIONS || '100', 10),
+    userMonthlyTransactions: parseInt(process.env.SPONSOR_QUOTA_USER_MONTHLY_TRANSACTIONS || '2000', 10),
+    userDailyLamports: parseInt(process.env.SPONSOR_QUOTA_USER_DAILY_LAMPORTS || '50000000', 10),
+    userMonthlyLamports: parseInt(process.env.SPONSOR_QUOTA_USER_MONTHLY_LAMPORTS || '1000000000', 10),
+    // Server-wide fee payer spend per UTC day, including x402 settlements
+    globalDailyLamports: parseInt(process.env.SPONSOR_QUOTA_GLOBAL_DAILY_LAMPORTS || '10000000000', 10),
+  },
+  creditRefunds: {
+    // How often SUBMITTED sponsored transactions are checked for landing or being dropped
+    reconcileIntervalMs: parseInt(process.env.SPONSORED_TX_RECONCILE_INTERVAL_MS || '60000', 10),
+  },
+  creditExpiry: {
+    // Days purchased credit stays usable; 0 never expires. Credit packages can override it
+    ttlDays: parseInt(process.env.CREDIT_EXPIRY_DAYS || '0', 10),
+    // Users are warned this many days before credit expires
+    warningDays: parseInt(process.env.CREDIT_EXPIRY_WARNING_DAYS || '7', 10),
+    checkIntervalMs: parseInt(process.env.CREDIT_EXPIRY_CHECK_INTERVAL_MS || '3600000', 10),
+  },
+  creditAlerts: {
+    // Default low-balance alert threshold; users can set their own, 0 disables
+    lowBalanceThresholdUsdc: parseFloat(process.env.CREDIT_LOW_BALANCE_THRESHOLD_USDC || '0.01'),
+    // Optional URL that receives a JSON POST for every credit notification
+    webhookUrl: process.env.CREDIT_ALERT_WEBHOOK_URL || '',
+  },
+  autoTopUp: {
+    // Upper bounds on what users may configure for auto top-ups from their Grid wallet
+    maxAmountUsdc: parseFloat(process.env.AUTO_TOP_UP_MAX_AMOUNT_USDC || '10'),
+    maxMonthlyCapUsdc: parseFloat(process.env.AUTO_TOP_UP_MAX_MONTHLY_CAP_USDC || '100'),
+    // How often top-ups left PENDING after their payment was submitted are settled
+    reconcileIntervalMs: parseInt(process.env.AUTO_TOP_UP_RECONCILE_INTERVAL_MS || '60000', 10),
+  },
+  idempotency: {
+    keyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+  },
   cors: {
     allowedOrigins: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
     maxAge: parseInt(process.env.CORS_MAX_AGE || '86400', 10),
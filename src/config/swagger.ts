@@ -68,7 +68,7 @@ const options: swaggerJsdoc.Options = {
             },
             role: {
               type: 'string',
-              enum: ['USER'],
+              enum: ['USER', 'OPERATOR', 'ADMIN'],
               description: 'User role',
               example: 'USER',
             },
@@ -456,6 +456,160 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        SponsorshipPolicyError: {
+          type: 'object',
+          required: ['error', 'violation'],
+          properties: {
+            error: {
+              type: 'string',
+              example: 'Transaction rejected by sponsorship policy',
+            },
+            details: {
+              type: 'string',
+              example: 'Instruction uses the fee payer as a writable account',
+            },
+            violation: {
+              type: 'object',
+              required: ['rule', 'reason'],
+              properties: {
+                rule: {
+                  type: 'string',
+                  enum: [
+                    'instruction_count',
+                    'program_not_allowed',
+                    'instruction_not_allowed',
+                    'malformed_instruction',
+                    'fee_payer_misuse',
+                    'compute_units',
+                    'compute_unit_price',
+                    'lamports',
+                  ],
+                  description: 'Policy rule that rejected the transaction',
+                },
+                reason: {
+                  type: 'string',
+                  description: 'Human-readable explanation',
+                },
+                instructionIndex: {
+                  type: 'integer',
+                  description: 'Index of the offending instruction, when the rule applies to one',
+                },
+                programId: {
+                  type: 'string',
+                  description: 'Program of the offending instruction',
+                },
+              },
+            },
+          },
+        },
+        X402FacilitatorRequest: {
+          type: 'object',
+          required: ['paymentPayload', 'paymentRequirements'],
+          properties: {
+            x402Version: {
+              type: 'integer',
+              example: 1,
+            },
+            paymentPayload: {
+              type: 'object',
+              required: ['x402Version', 'scheme', 'network', 'payload'],
+              description: 'Decoded X-PAYMENT header sent by the client',
+              properties: {
+                x402Version: { type: 'integer', example: 1 },
+                scheme: { type: 'string', example: 'exact' },
+                network: { type: 'string', example: 'solana-devnet' },
+                payload: {
+                  type: 'object',
+                  properties: {
+                    transaction: {
+                      type: 'string',
+                      description: 'Base64-encoded legacy or v0 transaction signed by the payer, with a facilitator fee payer',
+                    },
+                  },
+                },
+              },
+            },
+            paymentRequirements: {
+              type: 'object',
+              required: ['scheme', 'network', 'maxAmountRequired', 'resource', 'payTo', 'asset'],
+              description: 'Payment requirements the resource server sent to the client',
+              properties: {
+                scheme: { type: 'string', example: 'exact' },
+                network: { type: 'string', example: 'solana-devnet' },
+                maxAmountRequired: {
+                  type: 'string',
+                  description: 'Amount in the asset\'s smallest units',
+                  example: '10000',
+                },
+                resource: { type: 'string', example: 'https://api.example.com/premium' },
+                description: { type: 'string' },
+                mimeType: { type: 'string' },
+                payTo: { type: 'string', description: 'Wallet that receives the payment' },
+                maxTimeoutSeconds: { type: 'integer' },
+                asset: { type: 'string', description: 'Token mint address' },
+                extra: {
+                  type: 'object',
+                  properties: {
+                    feePayer: { type: 'string', description: 'Fee payer from /api/x402/supported' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        X402VerifyResponse: {
+          type: 'object',
+          required: ['isValid'],
+          properties: {
+            isValid: { type: 'boolean' },
+            invalidReason: {
+              type: 'string',
+              example: 'invalid_amount',
+            },
+            invalidMessage: { type: 'string' },
+            payer: {
+              type: 'string',
+              description: 'Wallet that authorized the transfer',
+            },
+          },
+        },
+        X402SettleResponse: {
+          type: 'object',
+          required: ['success', 'transaction', 'network'],
+          properties: {
+            success: { type: 'boolean' },
+            errorReason: { type: 'string', example: 'settlement_failed' },
+            errorMessage: { type: 'string' },
+            payer: { type: 'string' },
+            transaction: {
+              type: 'string',
+              description: 'Signature of the settled transaction, empty when nothing was submitted',
+            },
+            network: { type: 'string', example: 'solana-devnet' },
+          },
+        },
+        X402SupportedResponse: {
+          type: 'object',
+          properties: {
+            kinds: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  x402Version: { type: 'integer', example: 1 },
+                  scheme: { type: 'string', example: 'exact' },
+                  network: { type: 'string', example: 'solana-devnet' },
+                  extra: {
+                    type: 'object',
+                    properties: {
+                      feePayer: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         SuccessResponse: {
           type: 'object',
           required: ['message'],
@@ -718,7 +872,7 @@ const options: swaggerJsdoc.Options = {
             },
             authData: {
               type: 'object',
-              description: 'Grid authentication data',
+              description: 'Grid authentication result (session tokens and key material are never returned)',
               properties: {
                 success: {
                   type: 'boolean',
@@ -727,38 +881,25 @@ const options: swaggerJsdoc.Options = {
                 },
                 data: {
                   type: 'object',
-                  description: 'Grid authentication response data',
-                },
-              },
-            },
-            sessionSecrets: {
-              type: 'array',
-              description: 'Grid session secrets for transaction signing',
-              items: {
-                type: 'object',
-                properties: {
-                  publicKey: {
-                    type: 'string',
-                    description: 'Public key',
-                  },
-                  privateKey: {
-                    type: 'string',
-                    description: 'Private key',
-                  },
-                  provider: {
-                    type: 'string',
-                    description: 'Key provider',
-                  },
-                  tag: {
-                    type: 'string',
-                    description: 'Key tag',
-                  },
+                  description: 'Grid account address and policies',
                 },
               },
             },
           },
         },
       },
+      parameters: {
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          required: false,
+          description: 'Unique key for safely retrying this request. Retries with the same key and body replay the original response (marked with an Idempotent-Replayed header); reusing the key with a different body returns 422.',
+          schema: {
+            type: 'string',
+            maxLength: 255,
+          },
+        },
+      },
       securitySchemes: {
         ApiKeyAuth: {
           type: 'apiKey',
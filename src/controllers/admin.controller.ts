@@ -0,0 +1,288 @@
+import { Request, Response } from 'express';
+import { FeePayerKey } from '@prisma/client';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import auditService, { auditContextFromRequest } from '../services/audit.service';
+import otpGuardService from '../services/otp-guard.service';
+import feePayerPoolService from '../services/fee-payer-pool.service';
+import creditPackageService from '../services/credit-package.service';
+import promoCodeService from '../services/promo-code.service';
+import { serializeCreditPackage, serializePromoCode } from '../serializers/gasless.serializer';
+import {
+  AddFeePayerInput,
+  AuditEventQueryInput,
+  CreateCreditPackageInput,
+  CreatePromoCodeInput,
+  OtpUnlockInput,
+  PromoCodeQueryInput,
+  UpdateCreditPackageInput,
+  UpdatePromoCodeInput,
+} from '../schemas/admin.schemas';
+
+// List audit events with filters (admin only)
+export const getAuditEvents = async (req: Request, res: Response) => {
+  try {
+    const filters = req.validatedQuery as AuditEventQueryInput;
+    const { events, nextCursor } = await auditService.query(filters);
+
+    res.json({
+      events,
+      pagination: {
+        limit: filters.limit,
+        nextCursor,
+      },
+    });
+  } catch (error) {
+    Logger.error('Error fetching audit events:', error);
+    res.status(500).json({ error: 'Failed to fetch audit events' });
+  }
+};
+
+// Verify the audit log hash chain (admin only)
+export const verifyAuditChain = async (req: Request, res: Response) => {
+  try {
+    const verification = await auditService.verifyChain();
+
+    if (!verification.valid) {
+      Logger.error(`Audit chain verification failed at event ${verification.firstInvalidSequence}: ${verification.reason}`);
+    }
+
+    res.json({ verification });
+  } catch (error) {
+    Logger.error('Error verifying audit chain:', error);
+    res.status(500).json({ error: 'Failed to verify audit chain' });
+  }
+};
+
+// List emails and IPs currently locked out of OTP verification (admin only)
+export const getOtpLockouts = async (req: Request, res: Response) => {
+  try {
+    const lockouts = await otpGuardService.listLockouts();
+
+    res.json({
+      lockouts: lockouts.map((lockout) => ({
+        scope: lockout.scope,
+        identifier: lockout.identifier,
+        lockedUntil: lockout.lockedUntil,
+        lockoutCount: lockout.lockoutCount,
+        lastFailedAt: lockout.lastFailedAt,
+      })),
+    });
+  } catch (error) {
+    Logger.error('Error fetching OTP lockouts:', error);
+    res.status(500).json({ error: 'Failed to fetch OTP lockouts' });
+  }
+};
+
+// Lift an OTP lockout for an email and/or IP (admin only)
+export const unlockOtp = async (req: Request, res: Response) => {
+  try {
+    const { email, ip } = req.body as OtpUnlockInput;
+    const cleared = await otpGuardService.unlock({ email, ip }, auditContextFromRequest(req));
+
+    if (cleared === 0) {
+      return res.status(404).json({
+        error: 'No OTP attempt history found',
+        details: 'Nothing to unlock for the given email or IP address',
+      });
+    }
+
+    res.json({ message: 'OTP lockout cleared successfully', cleared });
+  } catch (error) {
+    Logger.error('Error clearing OTP lockout:', error);
+    res.status(500).json({ error: 'Failed to clear OTP lockout' });
+  }
+};
+
+// Fee payer fields safe to return (the secret key never leaves the service)
+const toFeePayerResponse = (feePayer: FeePayerKey) => ({
+  publicKey: feePayer.publicKey,
+  label: feePayer.label,
+  source: feePayer.source,
+  status: feePayer.status,
+  balanceLamports: feePayer.balanceLamports === null ? null : Number(feePayer.balanceLamports),
+  balanceCheckedAt: feePayer.balanceCheckedAt,
+  useCount: feePayer.useCount,
+  lastUsedAt: feePayer.lastUsedAt,
+  retiredAt: feePayer.retiredAt,
+  createdAt: feePayer.createdAt,
+});
+
+// List the fee payer pool with balances (admin only)
+export const getFeePayers = async (req: Request, res: Response) => {
+  try {
+    const feePayers = await feePayerPoolService.listPayers();
+
+    res.json({
+      feePayers: feePayers.map(toFeePayerResponse),
+      selection: config.feePayerPool.selection,
+    });
+  } catch (error) {
+    Logger.error('Error fetching fee payers:', error);
+    res.status(500).json({ error: 'Failed to fetch fee payers' });
+  }
+};
+
+// Add a fee payer keypair to the pool without a restart (admin only)
+export const addFeePayer = async (req: Request, res: Response) => {
+  try {
+    const { privateKey, label } = req.body as AddFeePayerInput;
+    const result = await feePayerPoolService.addPayer(privateKey, label, auditContextFromRequest(req));
+
+    if (!result.success) {
+      return res.status(result.conflict ? 409 : 400).json({
+        error: 'Failed to add fee payer',
+        details: result.error,
+      });
+    }
+
+    res.status(201).json({
+      message: 'Fee payer added successfully',
+      feePayer: toFeePayerResponse(result.feePayer),
+    });
+  } catch (error) {
+    Logger.error('Error adding fee payer:', error);
+    res.status(500).json({ error: 'Failed to add fee payer' });
+  }
+};
+
+// Permanently remove a fee payer from rotation (admin only)
+export const retireFeePayer = async (req: Request, res: Response) => {
+  try {
+    const { publicKey } = req.params;
+    const retired = await feePayerPoolService.retirePayer(publicKey, auditContextFromRequest(req));
+
+    if (!retired) {
+      return res.status(404).json({
+        error: 'Fee payer not found',
+        details: 'No active or depleted fee payer with this public key',
+      });
+    }
+
+    res.json({
+      message: 'Fee payer retired successfully',
+      feePayer: toFeePayerResponse(retired),
+    });
+  } catch (error) {
+    Logger.error('Error retiring fee payer:', error);
+    res.status(500).json({ error: 'Failed to retire fee payer' });
+  }
+};
+
+// List every credit package, including inactive ones (admin only)
+export const getCreditPackages = async (req: Request, res: Response) => {
+  try {
+    const packages = await creditPackageService.listPackages(true);
+    res.json({ packages: packages.map(serializeCreditPackage) });
+  } catch (error) {
+    Logger.error('Error fetching credit packages:', error);
+    res.status(500).json({ error: 'Failed to fetch credit packages' });
+  }
+};
+
+// Create a purchasable credit package (admin only)
+export const createCreditPackage = async (req: Request, res: Response) => {
+  try {
+    const created = await creditPackageService.createPackage(
+      req.body as CreateCreditPackageInput,
+      auditContextFromRequest(req)
+    );
+
+    res.status(201).json({
+      message: 'Credit package created successfully',
+      package: serializeCreditPackage(created),
+    });
+  } catch (error) {
+    Logger.error('Error creating credit package:', error);
+    res.status(500).json({ error: 'Failed to create credit package' });
+  }
+};
+
+// Change a credit package's price, bonus or availability (admin only)
+export const updateCreditPackage = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updated = await creditPackageService.updatePackage(
+      id,
+      req.body as UpdateCreditPackageInput,
+      auditContextFromRequest(req)
+    );
+
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Credit package not found',
+        details: 'No credit package with this ID',
+      });
+    }
+
+    res.json({
+      message: 'Credit package updated successfully',
+      package: serializeCreditPackage(updated),
+    });
+  } catch (error) {
+    Logger.error('Error updating credit package:', error);
+    res.status(500).json({ error: 'Failed to update credit package' });
+  }
+};
+
+// List promo codes and vouchers with their redemption counts (admin only)
+export const getPromoCodes = async (req: Request, res: Response) => {
+  try {
+    const promoCodes = await promoCodeService.listPromoCodes(req.validatedQuery as PromoCodeQueryInput);
+
+    res.json({
+      promoCodes: promoCodes.map((promoCode) => ({
+        ...serializePromoCode(promoCode),
+        available: promoCodeService.isAvailable(promoCode),
+      })),
+    });
+  } catch (error) {
+    Logger.error('Error fetching promo codes:', error);
+    res.status(500).json({ error: 'Failed to fetch promo codes' });
+  }
+};
+
+// Issue a promo code or a batch of vouchers (admin only)
+export const createPromoCode = async (req: Request, res: Response) => {
+  try {
+    const result = await promoCodeService.createPromoCodes(req.body as CreatePromoCodeInput, auditContextFromRequest(req));
+
+    if (!result.success) {
+      return res.status(result.conflict ? 409 : 400).json({
+        error: 'Failed to create promo code',
+        details: result.error,
+      });
+    }
+
+    res.status(201).json({
+      message: `${result.promoCodes.length} promo code(s) created successfully`,
+      promoCodes: result.promoCodes.map(serializePromoCode),
+    });
+  } catch (error) {
+    Logger.error('Error creating promo code:', error);
+    res.status(500).json({ error: 'Failed to create promo code' });
+  }
+};
+
+// Deactivate a promo code or change its expiry and redemption limit (admin only)
+export const updatePromoCode = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updated = await promoCodeService.updatePromoCode(id, req.body as UpdatePromoCodeInput, auditContextFromRequest(req));
+
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Promo code not found',
+        details: 'No promo code with this ID',
+      });
+    }
+
+    res.json({
+      message: 'Promo code updated successfully',
+      promoCode: serializePromoCode(updated),
+    });
+  } catch (error) {
+    Logger.error('Error updating promo code:', error);
+    res.status(500).json({ error: 'Failed to update promo code' });
+  }
+};
@@ -0,0 +1,300 @@
+import { Request, Response } from 'express';
+import Logger from '../utils/logger';
+import prisma from '../lib/prisma';
+import sessionService from '../services/session.service';
+import siwsService from '../services/siws.service';
+import auditService, { auditContextFromRequest } from '../services/audit.service';
+import { issueAuthTokens, refreshAuthTokens } from '../middleware/auth.middleware';
+import { serializeUser } from '../serializers/user.serializer';
+import { RefreshTokenInput, LogoutInput, SiwsNonceInput, SiwsVerifyInput } from '../schemas/auth.schemas';
+
+// Exchange a refresh token for a new access/refresh token pair
+export const refreshSession = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as RefreshTokenInput;
+
+    const { tokens, error } = await refreshAuthTokens(refreshToken, req);
+    if (!tokens) {
+      return res.status(401).json({ error: error || 'Invalid refresh token' });
+    }
+
+    res.json({
+      message: 'Token refreshed successfully',
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+    });
+  } catch (error) {
+    Logger.error('Error refreshing session:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+};
+
+// Log out the current session (or every session) and revoke the access token
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { allDevices } = req.body as LogoutInput;
+    const userId = req.userId!;
+
+    if (req.tokenId && req.tokenExpiresAt) {
+      await sessionService.revokeAccessToken(req.tokenId, userId, req.tokenExpiresAt);
+    }
+
+    let revokedSessions = 0;
+    if (allDevices) {
+      revokedSessions = await sessionService.revokeOtherSessions(userId);
+    } else if (req.sessionId) {
+      revokedSessions = (await sessionService.revokeSession(req.sessionId, userId)) ? 1 : 0;
+    }
+
+    Logger.info(`User ${userId} logged out (${allDevices ? 'all devices' : 'current session'})`);
+
+    res.json({
+      message: 'Logged out successfully',
+      revokedSessions,
+    });
+  } catch (error) {
+    Logger.error('Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+};
+
+// List the authenticated user's active sessions
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const sessions = await sessionService.listActiveSessions(req.userId!);
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })),
+      count: sessions.length,
+    });
+  } catch (error) {
+    Logger.error('Error listing sessions:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+};
+
+// Revoke one of the authenticated user's sessions
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    const revoked = await sessionService.revokeSession(sessionId, req.userId!);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked successfully', sessionId });
+  } catch (error) {
+    Logger.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+};
+
+// Sign out every session except the current one
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const revokedSessions = await sessionService.revokeOtherSessions(req.userId!, req.sessionId);
+
+    res.json({ message: 'Other sessions revoked successfully', revokedSessions });
+  } catch (error) {
+    Logger.error('Error revoking other sessions:', error);
+    res.status(500).json({ error: 'Failed to revoke other sessions' });
+  }
+};
+
+// Issue a Sign-In With Solana nonce and message for a wallet to sign
+export const createSiwsNonce = async (req: Request, res: Response) => {
+  try {
+    const { address } = req.body as SiwsNonceInput;
+
+    if (!siwsService.isValidAddress(address)) {
+      return res.status(400).json({
+        error: 'Invalid wallet address',
+        details: 'Address must be a Solana wallet public key',
+      });
+    }
+
+    const challenge = await siwsService.createChallenge(address, 'SIGN_IN');
+
+    res.json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      issuedAt: challenge.issuedAt,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error) {
+    Logger.error('Error creating SIWS nonce:', error);
+    res.status(500).json({ error: 'Failed to create sign-in nonce' });
+  }
+};
+
+// Verify a signed SIWS message and sign in the wallet's owner
+export const verifySiws = async (req: Request, res: Response) => {
+  try {
+    const { address, nonce, signature } = req.body as SiwsVerifyInput;
+
+    const verification = await siwsService.verifyChallenge({ address, nonce, signature }, 'SIGN_IN');
+    if (!verification.success) {
+      Logger.warn(`SIWS verification failed for ${address}: ${verification.error}`);
+      return res.status(401).json({ error: 'Authentication failed', details: verification.error });
+    }
+
+    const userId = await siwsService.findUserIdByWallet(address);
+    const user = userId
+      ? await prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            walletAddress: true,
+            role: true,
+            isActive: true,
+            gridAddress: true,
+            gridStatus: true,
+          },
+        })
+      : null;
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'No account linked to this wallet',
+        details: 'Sign in with email first, then link this wallet to your account',
+      });
+    }
+
+    if (!user.isActive) {
+      return res.status(401).json({ error: 'Account is inactive. Please contact support.' });
+    }
+
+    const { token, refreshToken } = await issueAuthTokens(user.id, req);
+
+    Logger.info(`SIWS login completed for user ${user.email} with wallet ${address}`);
+
+    res.json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: serializeUser(user),
+      wallet: { address },
+    });
+  } catch (error) {
+    Logger.error('Error verifying SIWS message:', error);
+    res.status(500).json({ error: 'Failed to verify sign-in message' });
+  }
+};
+
+// Issue a SIWS nonce for linking a wallet to the authenticated user
+export const createWalletLinkNonce = async (req: Request, res: Response) => {
+  try {
+    const { address } = req.body as SiwsNonceInput;
+
+    if (!siwsService.isValidAddress(address)) {
+      return res.status(400).json({
+        error: 'Invalid wallet address',
+        details: 'Address must be a Solana wallet public key',
+      });
+    }
+
+    const challenge = await siwsService.createChallenge(address, 'LINK_WALLET', req.userId!);
+
+    res.json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      issuedAt: challenge.issuedAt,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error) {
+    Logger.error('Error creating wallet link nonce:', error);
+    res.status(500).json({ error: 'Failed to create wallet link nonce' });
+  }
+};
+
+// Link a wallet to the authenticated user after verifying its signature
+export const linkWallet = async (req: Request, res: Response) => {
+  try {
+    const { address, nonce, signature } = req.body as SiwsVerifyInput;
+    const userId = req.userId!;
+
+    const verification = await siwsService.verifyChallenge({ address, nonce, signature }, 'LINK_WALLET', userId);
+    if (!verification.success) {
+      return res.status(401).json({ error: 'Wallet verification failed', details: verification.error });
+    }
+
+    const result = await siwsService.linkWallet(userId, address);
+    if (!result.success) {
+      return res.status(409).json({ error: 'Wallet already linked', details: result.error });
+    }
+
+    if (result.created) {
+      await auditService.record(auditContextFromRequest(req), {
+        action: 'WALLET_LINKED',
+        targetType: 'User',
+        targetId: userId,
+        before: { linkedWallet: null },
+        after: { linkedWallet: address },
+      });
+    }
+
+    res.status(result.created ? 201 : 200).json({
+      message: result.created ? 'Wallet linked successfully' : 'Wallet is already linked to your account',
+      wallet: {
+        address: result.wallet.address,
+        createdAt: result.wallet.createdAt,
+      },
+    });
+  } catch (error) {
+    Logger.error('Error linking wallet:', error);
+    res.status(500).json({ error: 'Failed to link wallet' });
+  }
+};
+
+// List the authenticated user's linked wallets
+export const getLinkedWallets = async (req: Request, res: Response) => {
+  try {
+    const wallets = await siwsService.listWallets(req.userId!);
+
+    res.json({
+      wallets: wallets.map((wallet) => ({
+        address: wallet.address,
+        lastUsedAt: wallet.lastUsedAt,
+        createdAt: wallet.createdAt,
+      })),
+      count: wallets.length,
+    });
+  } catch (error) {
+    Logger.error('Error listing linked wallets:', error);
+    res.status(500).json({ error: 'Failed to list linked wallets' });
+  }
+};
+
+// Unlink a wallet from the authenticated user
+export const unlinkWallet = async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const userId = req.userId!;
+
+    const removed = await siwsService.unlinkWallet(userId, address);
+    if (!removed) {
+      return res.status(404).json({ error: 'Linked wallet not found' });
+    }
+
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'WALLET_UNLINKED',
+      targetType: 'User',
+      targetId: userId,
+      before: { linkedWallet: address },
+      after: { linkedWallet: null },
+    });
+
+    res.json({ message: 'Wallet unlinked successfully', address });
+  } catch (error) {
+    Logger.error('Error unlinking wallet:', error);
+    res.status(500).json({ error: 'Failed to unlink wallet' });
+  }
+};
@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import Logger from '../utils/logger';
+import { auditContextFromRequest } from '../services/audit.service';
+import organizationService, { OrganizationFailure } from '../services/organization.service';
+import {
+  serializeOrganization,
+  serializeOrganizationLedgerEntry,
+  serializeOrganizationMember,
+} from '../serializers/organization.serializer';
+import {
+  AddOrganizationMemberInput,
+  CreateOrganizationInput,
+  FundOrganizationInput,
+  OrganizationLedgerQueryInput,
+  OrganizationUsageQueryInput,
+  UpdateOrganizationInput,
+  UpdateOrganizationMemberInput,
+} from '../schemas/organization.schemas';
+
+const FAILURE_STATUS: Record<OrganizationFailure, number> = {
+  not_member: 404,
+  forbidden: 403,
+  not_found: 404,
+  already_member: 409,
+  last_owner: 409,
+  insufficient_credit: 402,
+  spend_limit_reached: 402,
+};
+
+// Send an organization action's failure with the matching status
+const respondFailure = (res: Response, message: string, failure: { reason: OrganizationFailure; error: string }) =>
+  res.status(FAILURE_STATUS[failure.reason]).json({
+    error: message,
+    details: failure.error,
+  });
+
+// Create an organization owned by the authenticated user
+export const createOrganization = async (req: Request, res: Response) => {
+  try {
+    const result = await organizationService.createOrganization(
+      req.userId!,
+      req.body as CreateOrganizationInput,
+      auditContextFromRequest(req)
+    );
+    if (!result.success) {
+      return respondFailure(res, 'Failed to create organization', result);
+    }
+
+    res.status(201).json({
+      message: 'Organization created successfully',
+      organization: serializeOrganization(result.organization),
+    });
+  } catch (error) {
+    Logger.error('Error creating organization:', error);
+    res.status(500).json({ error: 'Failed to create organization' });
+  }
+};
+
+// Get the authenticated user's organization, its credit pool and members
+export const getOrganization = async (req: Request, res: Response) => {
+  try {
+    const result = await organizationService.getOrganization(req.userId!);
+    if (!result.success) {
+      return respondFailure(res, 'Organization not found', result);
+    }
+
+    res.json({ organization: result.organization });
+  } catch (error) {
+    Logger.error('Error fetching organization:', error);
+    res.status(500).json({ error: 'Failed to fetch organization' });
+  }
+};
+
+// Rename the organization or change its credit policy (owners and admins)
+export const updateOrganization = async (req: Request, res: Response) => {
+  try {
+    const result = await organizationService.updateOrganization(
+      req.userId!,
+      req.body as UpdateOrganizationInput,
+      auditContextFromRequest(req)
+    );
+    if (!result.success) {
+      return respondFailure(res, 'Failed to update organization', result);
+    }
+
+    res.json({
+      message: 'Organization updated successfully',
+      organization: serializeOrganization(result.organization),
+    });
+  } catch (error) {
+    Logger.error('Error updating organization:', error);
+    res.status(500).json({ error: 'Failed to update organization' });
+  }
+};
+
+// Add a user to the organization (owners and admins)
+export const addOrganizationMember = async (req: Request, res: Response) => {
+  try {
+    const result = await organizationService.addMember(
+      req.userId!,
+      req.body as AddOrganizationMemberInput,
+      auditContextFromRequest(req)
+    );
+    if (!result.success) {
+      return respondFailure(res, 'Failed to add organization member', result);
+    }
+
+    res.status(201).json({
+      message: 'Organization member added successfully',
+      member: serializeOrganizationMember(result.member),
+    });
+  } catch (error) {
+    Logger.error('Error adding organization member:', error);
+    res.status(500).json({ error: 'Failed to add organization member' });
+  }
+};
+
+// Change a member's role or monthly spend limit (owners and admins)
+export const updateOrganizationMember = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await organizationService.updateMember(
+      req.userId!,
+      userId,
+      req.body as UpdateOrganizationMemberInput,
+      auditContextFromRequest(req)
+    );
+    if (!result.success) {
+      return respondFailure(res, 'Failed to update organization member', result);
+    }
+
+    res.json({
+      message: 'Organization member updated successfully',
+      member: serializeOrganizationMember(result.member),
+    });
+  } catch (error) {
+    Logger.error('Error updating organization member:', error);
+    res.status(500).json({ error: 'Failed to update organization member' });
+  }
+};
+
+// Remove a member (owners and admins), or leave the organization
+export const removeOrganizationMember = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await organizationService.removeMember(req.userId!, userId, auditContextFromRequest(req));
+    if (!result.success) {
+      return respondFailure(res, 'Failed to remove organization member', result);
+    }
+
+    res.json({
+      message: userId === req.userId ? 'You left the organization' : 'Organization member removed successfully',
+      member: serializeOrganizationMember(result.member),
+    });
+  } catch (error) {
+    Logger.error('Error removing organization member:', error);
+    res.status(500).json({ error: 'Failed to remove organization member' });
+  }
+};
+
+// Move credit from the authenticated user's balance into the organization's pool
+export const fundOrganizationCredit = async (req: Request, res: Response) => {
+  try {
+    const { amountUSDC } = req.body as FundOrganizationInput;
+    const result = await organizationService.fundCredit(req.userId!, amountUSDC, auditContextFromRequest(req));
+    if (!result.success) {
+      return respondFailure(res, 'Failed to fund organization credit', result);
+    }
+
+    res.json({
+      message: `${result.amountUSDC} USDC credit moved to the organization`,
+      credit: {
+        added: result.amountUSDC,
+        organizationBalanceUSDC: result.creditBalanceUSDC,
+        remaining: result.remainingCredit,
+      },
+    });
+  } catch (error) {
+    Logger.error('Error funding organization credit:', error);
+    res.status(500).json({ error: 'Failed to fund organization credit' });
+  }
+};
+
+// Report organization credit usage per member and transaction type (owners and admins)
+export const getOrganizationUsage = async (req: Request, res: Response) => {
+  try {
+    const result = await organizationService.getUsageReport(
+      req.userId!,
+      req.validatedQuery as OrganizationUsageQueryInput
+    );
+    if (!result.success) {
+      return respondFailure(res, 'Failed to fetch organization usage', result);
+    }
+
+    res.json({ usage: result.report });
+  } catch (error) {
+    Logger.error('Error fetching organization usage:', error);
+    res.status(500).json({ error: 'Failed to fetch organization usage' });
+  }
+};
+
+// List the organization's credit pool ledger, newest first
+export const getOrganizationLedger = async (req: Request, res: Response) => {
+  try {
+    const { limit } = req.validatedQuery as OrganizationLedgerQueryInput;
+    const result = await organizationService.getLedger(req.userId!, limit);
+    if (!result.success) {
+      return respondFailure(res, 'Failed to fetch organization ledger', result);
+    }
+
+    res.json({
+      entries: result.entries.map(serializeOrganizationLedgerEntry),
+      count: result.entries.length,
+    });
+  } catch (error) {
+    Logger.error('Error fetching organization ledger:', error);
+    res.status(500).json({ error: 'Failed to fetch organization ledger' });
+  }
+};
@@ -1,6 +1,7 @@
 ﻿// src/controllers/user.controller.ts
 import { Request, Response } from 'express';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import { Prisma, SponsoredTransaction, User, YieldTransactionType } from '@prisma/client';
 import prisma from '../lib/prisma';
 import Logger from '../utils/logger';
 
@@ -8,20 +9,52 @@ export interface AuthenticatedRequest extends Request {
   userId: string;
 }
 import gridClient from '../lib/squad';
-import luloService from '../services/lulo.service';
+import luloService, { LuloTransactionResponse } from '../services/lulo.service';
 // Pending key utilities removed - no longer needed
 import {
   CreateUserInput,
   UpdateUserInput,
+  UpdateUserRoleInput,
   InitiateGridAccountInput,
   CompleteGridAccountInput,
   UserLoginInput,
 } from '../schemas/user.schemas';
-import { generateToken } from '../middleware/auth.middleware';
+import { issueAuthTokens } from '../middleware/auth.middleware';
+import sessionService from '../services/session.service';
 import { CompleteLoginInput } from '../schemas/auth.schemas';
 import { blockchainService, TOKEN_MINTS } from '../services/blockchain.service';
 import gaslessService from '../services/gasless.service';
-import gaslessCreditService from '../services/gasless-credit.service';
+import gaslessCreditService, { fromMicroUsdc } from '../services/gasless-credit.service';
+import creditPackageService from '../services/credit-package.service';
+import creditTopUpService from '../services/credit-top-up.service';
+import organizationService from '../services/organization.service';
+import paymentCurrencyService, { USDC_CURRENCY } from '../services/payment-currency.service';
+import promoCodeService from '../services/promo-code.service';
+import sponsorshipPolicyService, { findFeePayerMisuse } from '../services/sponsorship-policy.service';
+import sponsorshipQuotaService, { QuotaReservation, QuotaStatus } from '../services/sponsorship-quota.service';
+import {
+  AnyTransaction,
+  DecodedTransaction,
+  decodeTransaction,
+  deserializeTransaction,
+  getTransactionSignature,
+  isVersionedTransaction,
+  signTransaction,
+} from '../utils/solana-transaction';
+import kmsService from '../services/kms.service';
+import { config } from '../config/env';
+import auditService, { auditContextFromRequest } from '../services/audit.service';
+import otpGuardService from '../services/otp-guard.service';
+import { resolveSerializerView } from '../serializers/view';
+import { serializeUser, serializeGridAuthResult } from '../serializers/user.serializer';
+import { serializeTransfer } from '../serializers/transfer.serializer';
+import { serializeYieldTransaction } from '../serializers/yield-transaction.serializer';
+import {
+  serializeCreditLedgerEntry,
+  serializeCreditPackage,
+  serializeGaslessPayment,
+  serializeSponsoredTransaction,
+} from '../serializers/gasless.serializer';
 // Transaction schemas import
 import {
   PrepareTransactionInput,
@@ -33,7 +66,10 @@ import {
   GaslessTransactionInput,
   GetCreditBalanceInput,
   GetPaymentHistoryInput,
+  RedeemPromoCodeInput,
   SponsorTransactionInput,
+  UpdateCreditAlertsInput,
+  UpdateAutoTopUpInput,
   CreateTransactionForSponsorInput,
 } from '../schemas/transaction.schemas';
 
@@ -115,6 +151,39 @@ const extractWalletAddress = (authResult: any): string => {
   }
 };
 
+// Helper function to settle the OTP attempt reserved by otpAttemptGuard
+const trackOtpOutcome = async (req: Request, email: string, success: boolean) => {
+  req.otpAttemptSettled = true;
+  try {
+    if (success) {
+      await otpGuardService.recordSuccess(email, req.ip);
+    } else {
+      const { attemptsRemaining, lockedUntil } = await otpGuardService.recordFailure(email, auditContextFromRequest(req));
+      Logger.warn(`Failed OTP verification for ${email} (ip: ${req.ip}), attempts remaining: ${attemptsRemaining}${lockedUntil ? `, locked until ${lockedUntil.toISOString()}` : ''}`);
+    }
+  } catch (error) {
+    Logger.error('Failed to track OTP attempt:', error);
+  }
+};
+
+// Helper function to run a Grid OTP verification, counting failed codes toward lockout
+const verifyGridOtp = async <T extends { success?: boolean } | null | undefined>(
+  req: Request,
+  email: string,
+  verify: () => Promise<T>
+): Promise<T> => {
+  let result: T;
+  try {
+    result = await verify();
+  } catch (error) {
+    await trackOtpOutcome(req, email, false);
+    throw error;
+  }
+
+  await trackOtpOutcome(req, email, !!result?.success);
+  return result;
+};
+
 // Helper function to check user uniqueness
 const checkUserUniqueness = async (data: {
   email?: string;
@@ -201,7 +270,7 @@ export const getUserById = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: serializeUser(user, resolveSerializerView(req)) });
   } catch (error) {
     Logger.error('Error fetching user:', error);
     res.status(500).json({ error: 'Failed to fetch user' });
@@ -241,7 +310,7 @@ export const getUserByEmail = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: serializeUser(user, resolveSerializerView(req)) });
   } catch (error) {
     Logger.error('Error fetching user by email:', error);
     res.status(500).json({ error: 'Failed to fetch user' });
@@ -252,6 +321,7 @@ export const getUserByEmail = async (req: Request, res: Response) => {
 export const getUsers = async (req: Request, res: Response) => {
   try {
     const users = await prisma.user.findMany({
+      where: { deletedAt: null },
       select: {
         id: true,
         email: true,
@@ -272,7 +342,10 @@ export const getUsers = async (req: Request, res: Response) => {
       orderBy: { createdAt: 'desc' },
     });
 
-    res.json({ users, count: users.length });
+    res.json({
+      users: users.map((user) => serializeUser(user, resolveSerializerView(req))),
+      count: users.length,
+    });
   } catch (error) {
     Logger.error('Error fetching users:', error);
     res.status(500).json({ error: 'Failed to fetch users' });
@@ -334,7 +407,7 @@ export const createUser = async (req: Request, res: Response) => {
       },
     });
 
-    res.status(201).json({ user });
+    res.status(201).json({ user: serializeUser(user) });
   } catch (error) {
     Logger.error('Error creating user:', error);
     res.status(500).json({ error: 'Failed to create user' });
@@ -402,13 +475,39 @@ export const updateUser = async (req: Request, res: Response) => {
       },
     });
 
-    res.json({ user });
+    const updatedFields = Object.keys(validatedData) as Array<keyof typeof existingUser>;
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'USER_UPDATED',
+      targetType: 'User',
+      targetId: id,
+      before: Object.fromEntries(updatedFields.map((field) => [field, existingUser[field]])),
+      after: Object.fromEntries(updatedFields.map((field) => [field, (user as Record<string, unknown>)[field]])),
+    });
+
+    res.json({ user: serializeUser(user, resolveSerializerView(req)) });
   } catch (error) {
     Logger.error('Error updating user:', error);
     res.status(500).json({ error: 'Failed to update user' });
   }
 };
 
+// Deleted users are deactivated and kept rather than removed, so their credit ledger, payments and
+// organization membership stay on record. Their Grid credentials are dropped and their sessions revoked
+const softDeleteUser = async <T extends Prisma.UserSelect>(userId: string, select: T) => {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      isActive: false,
+      deletedAt: new Date(),
+      authResult: Prisma.DbNull,
+      sessionSecrets: Prisma.DbNull,
+    },
+    select,
+  });
+  await sessionService.revokeOtherSessions(userId);
+  return user;
+};
+
 // Delete user
 export const deleteUser = async (req: Request, res: Response) => {
   try {
@@ -418,36 +517,99 @@ export const deleteUser = async (req: Request, res: Response) => {
       where: { id },
     });
 
+    if (!existingUser || existingUser.deletedAt) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await softDeleteUser(id, {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      middleName: true,
+      phoneNumber: true,
+      walletAddress: true,
+      role: true,
+      isActive: true,
+      createdAt: true,
+      updatedAt: true,
+      gridAddress: true,
+      gridStatus: true,
+      authResult: true,
+      sessionSecrets: true,
+    });
+
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'USER_DELETED',
+      targetType: 'User',
+      targetId: user.id,
+      before: {
+        email: user.email,
+        role: user.role,
+        walletAddress: user.walletAddress,
+        gridAddress: user.gridAddress,
+        gridStatus: user.gridStatus,
+      },
+      after: null,
+    });
+
+    Logger.info(`Deleted user from database: ${user.email}`);
+    res.status(200).json({ message: 'User deleted successfully', user: serializeUser(user) });
+  } catch (error) {
+    Logger.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+};
+
+// Assign a role to a user (admin only)
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body as UpdateUserRoleInput;
+
+    if (id === req.userId) {
+      return res.status(400).json({
+        error: 'Cannot change your own role',
+        details: 'Ask another administrator to change your role',
+      });
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true },
+    });
+
     if (!existingUser) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const user = await prisma.user.delete({
+    const user = await prisma.user.update({
       where: { id },
+      data: { role },
       select: {
         id: true,
         email: true,
         firstName: true,
         lastName: true,
-        middleName: true,
-        phoneNumber: true,
-        walletAddress: true,
         role: true,
         isActive: true,
-        createdAt: true,
         updatedAt: true,
-        gridAddress: true,
-        gridStatus: true,
-        authResult: true,
-        sessionSecrets: true,
       },
     });
 
-    Logger.info(`Deleted user from database: ${user.email}`);
-    res.status(200).json({ message: 'User deleted successfully', user });
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'USER_ROLE_CHANGED',
+      targetType: 'User',
+      targetId: user.id,
+      before: { role: existingUser.role },
+      after: { role: user.role },
+    });
+
+    Logger.info(`User ${req.userId} changed role of ${user.email} from ${existingUser.role} to ${role}`);
+    res.json({ message: 'User role updated successfully', user });
   } catch (error) {
-    Logger.error('Error deleting user:', error);
-    res.status(500).json({ error: 'Failed to delete user' });
+    Logger.error('Error updating user role:', error);
+    res.status(500).json({ error: 'Failed to update user role' });
   }
 };
 
@@ -545,16 +707,7 @@ export const initiateGridAccount = async (req: Request, res: Response) => {
 
       res.status(201).json({ 
         message: 'Account creation initiated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          middleName: user.middleName,
-          phoneNumber: user.phoneNumber,
-          gridStatus: user.gridStatus,
-          createdAt: user.createdAt,
-        },
+        user: serializeUser(user),
         instructions: 'Check your email for the OTP code and use it with the complete endpoint. User details have been saved.',
         nextStep: {
           endpoint: '/api/users/grid/complete',
@@ -699,7 +852,7 @@ export const checkGridAccountStatus = async (req: Request, res: Response) => {
       return res.status(200).json({
         status: 'user_exists',
         message: 'User account exists in database',
-        user: existingUser,
+        user: serializeUser(existingUser),
         guidance: {
           message: 'User account already exists. You can log in directly.',
           action: 'Use the login endpoint',
@@ -955,6 +1108,7 @@ export const completeGridAccount = async (req: Request, res: Response) => {
           statusText: createError?.response?.statusText
         });
         
+        await trackOtpOutcome(req, email, false);
         return res.status(500).json({
           error: 'Failed to create Grid account',
           details: createError?.message || createError?.error || 'Account creation failed',
@@ -1069,6 +1223,8 @@ export const completeGridAccount = async (req: Request, res: Response) => {
             }
           });
           
+          await trackOtpOutcome(req, email, false);
+
           // Return detailed error information
           return res.status(500).json({
             error: 'Failed to complete Grid account setup',
@@ -1085,6 +1241,8 @@ export const completeGridAccount = async (req: Request, res: Response) => {
       }
     }
 
+    await trackOtpOutcome(req, email, !!authResult?.success);
+
     if (authResult?.success) {
       // Extract wallet address from Grid response
       const walletAddress = extractWalletAddress(authResult);
@@ -1106,9 +1264,11 @@ export const completeGridAccount = async (req: Request, res: Response) => {
               // Store Grid account data
               gridAddress: authResult.data?.address || null,
               gridStatus: 'success', // Default to success since authentication was successful
-              // Store Grid authentication data
-              authResult: authResult.data as any || null,
-              sessionSecrets: sessionSecrets as any || null,
+              // Store Grid authentication data (envelope-encrypted at rest)
+              ...(await kmsService.encryptGridCredentials({
+                authResult: authResult.data || null,
+                sessionSecrets: sessionSecrets || null,
+              })),
             },
             select: {
               id: true,
@@ -1145,9 +1305,11 @@ export const completeGridAccount = async (req: Request, res: Response) => {
               // Store Grid account data
               gridAddress: authResult.data?.address || null,
               gridStatus: 'success', // Default to success since authentication was successful
-              // Store Grid authentication data
-              authResult: authResult.data as any || null,
-              sessionSecrets: sessionSecrets as any || null,
+              // Store Grid authentication data (envelope-encrypted at rest)
+              ...(await kmsService.encryptGridCredentials({
+                authResult: authResult.data || null,
+                sessionSecrets: sessionSecrets || null,
+              })),
             },
             select: {
               id: true,
@@ -1172,29 +1334,14 @@ export const completeGridAccount = async (req: Request, res: Response) => {
         }
 
         // Generate JWT token for page refresh functionality
-        const token = generateToken(user.id);
+        const { token, refreshToken } = await issueAuthTokens(user.id, req);
 
         // Return user and Grid account details in the simplified format
         return res.status(201).json({ 
           message: existingUser ? 'Grid account completed successfully for existing user' : 'User account created and Grid account completed successfully',
           token,
-          user: {
-            id: user.id,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            middleName: user.middleName,
-            phoneNumber: user.phoneNumber,
-            walletAddress: user.walletAddress,
-            role: user.role,
-            isActive: user.isActive,
-            createdAt: user.createdAt,
-            updatedAt: user.updatedAt,
-            gridAddress: user.gridAddress,
-            gridStatus: user.gridStatus,
-            authResult: user.authResult,
-            sessionSecrets: user.sessionSecrets,
-          }
+          refreshToken,
+          user: serializeUser(user)
         });
       } catch (dbError) {
         Logger.error('Database error during user creation/update:', dbError);
@@ -1354,14 +1501,7 @@ export const getUserBalances = async (req: Request, res: Response) => {
     }
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       balances: processedBalances,
       gridResponse: {
         success: balancesResponse.success,
@@ -1504,14 +1644,7 @@ export const getUserBalancesByWallet = async (req: Request, res: Response) => {
     }
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       balances: processedBalances,
       gridResponse: {
         success: balancesResponse.success,
@@ -1566,8 +1699,10 @@ export const updateUserGridData = async (req: Request, res: Response) => {
       data: {
         gridAddress,
         gridStatus: gridStatus || 'success',
-        authResult: authResult as any || undefined,
-        sessionSecrets: sessionSecrets as any || undefined,
+        ...(await kmsService.encryptGridCredentials({
+          authResult: authResult || undefined,
+          sessionSecrets: sessionSecrets || undefined,
+        })),
       },
       select: {
         id: true,
@@ -1584,11 +1719,29 @@ export const updateUserGridData = async (req: Request, res: Response) => {
       },
     });
 
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'USER_GRID_DATA_UPDATED',
+      targetType: 'User',
+      targetId: user.id,
+      before: {
+        gridAddress: user.gridAddress,
+        gridStatus: user.gridStatus,
+        authResult: user.authResult,
+        sessionSecrets: user.sessionSecrets,
+      },
+      after: {
+        gridAddress: updatedUser.gridAddress,
+        gridStatus: updatedUser.gridStatus,
+        authResult: updatedUser.authResult,
+        sessionSecrets: updatedUser.sessionSecrets,
+      },
+    });
+
     Logger.info(`Updated user ${email} with Grid account data: ${gridAddress}`);
 
     res.json({
       message: 'User Grid account data updated successfully',
-      user: updatedUser,
+      user: serializeUser(updatedUser),
     });
   } catch (error) {
     Logger.error('Error updating user Grid account data:', error);
@@ -1663,17 +1816,7 @@ export const debugUserBalances = async (req: Request, res: Response) => {
     });
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-        gridStatus: user.gridStatus,
-        authResult: user.authResult,
-        sessionSecrets: user.sessionSecrets,
-      },
+      user: serializeUser(user),
       debug: {
         gridAddress,
         source: 'grid-sdk',
@@ -1799,14 +1942,7 @@ export const getUserTransfers = async (req: Request, res: Response) => {
     })) : [];
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       transfers: {
         data: processedTransfers,
         summary: {
@@ -1907,17 +2043,7 @@ export const debugUserTransfers = async (req: Request, res: Response) => {
     });
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-        gridStatus: user.gridStatus,
-        authResult: user.authResult,
-        sessionSecrets: user.sessionSecrets,
-      },
+      user: serializeUser(user),
       debug: {
         gridAddress,
         source: 'grid-sdk',
@@ -1937,67 +2063,6 @@ export const debugUserTransfers = async (req: Request, res: Response) => {
   }
 };
 
-// Regular login process
-export const login = async (req: Request, res: Response) => {
-  try {
-    const { email } = req.body as UserLoginInput;
-
-    // Decode URL-encoded email address
-    const decodedEmail = decodeURIComponent(email);
-
-    // Check if user exists in our database
-    const existingUser = await prisma.user.findUnique({
-      where: { email: decodedEmail },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        walletAddress: true,
-        gridAddress: true,
-        gridStatus: true,
-        authResult: true,
-        sessionSecrets: true,
-        isActive: true,
-      },
-    });
-
-    if (!existingUser) {
-      return res.status(401).json({
-        message: "User doesn't exist. Please sign up before proceeding",
-      });
-    }
-
-    if (!existingUser.isActive) {
-      return res.status(401).json({
-        message: 'Account is inactive. Please contact support.',
-      });
-    }
-
-    // Generate JWT token
-    const token = generateToken(existingUser.id);
-
-    Logger.info(`Login successful for user ${email}`);
-
-    return res.status(200).json({
-      message: 'Login successful',
-      token,
-      user: {
-        id: existingUser.id,
-        email: existingUser.email,
-        firstName: existingUser.firstName,
-        lastName: existingUser.lastName,
-        walletAddress: existingUser.walletAddress,
-        gridAddress: existingUser.gridAddress,
-        gridStatus: existingUser.gridStatus,
-      },
-    });
-  } catch (error) {
-    Logger.error('Error initiating login:', error);
-    res.status(500).json({ error: 'Failed to initiate login process' });
-  }
-};
-
 // Initiate Grid-based login (sends OTP email)
 export const initiateLogin = async (req: Request, res: Response) => {
   try {
@@ -2114,11 +2179,13 @@ export const completeLogin = async (req: Request, res: Response) => {
     };
 
     // Complete Grid authentication using completeAuth
-    const authResult = await gridClient.completeAuth({
-      user: tempUser,
-      otpCode,
-      sessionSecrets,
-    });
+    const authResult = await verifyGridOtp(req, decodedEmail, () =>
+      gridClient.completeAuth({
+        user: tempUser,
+        otpCode,
+        sessionSecrets,
+      })
+    );
 
     if (!authResult?.success) {
       Logger.error('Grid authentication completion failed:', authResult);
@@ -2133,9 +2200,11 @@ export const completeLogin = async (req: Request, res: Response) => {
       await prisma.user.update({
         where: { id: existingUser.id },
         data: {
-          // Store Grid authentication data
-          authResult: authResult.data as any || null,
-          sessionSecrets: sessionSecrets as any || null,
+          // Store Grid authentication data (envelope-encrypted at rest)
+          ...(await kmsService.encryptGridCredentials({
+            authResult: authResult.data || null,
+            sessionSecrets: sessionSecrets || null,
+          })),
         }
       });
 
@@ -2146,27 +2215,16 @@ export const completeLogin = async (req: Request, res: Response) => {
     }
 
     // Generate JWT token
-    const token = generateToken(existingUser.id);
+    const { token, refreshToken } = await issueAuthTokens(existingUser.id, req);
 
     Logger.info(`Login completed successfully for user ${existingUser.email}`);
 
     return res.status(200).json({
       message: 'Login successful',
       token,
-      user: {
-        id: existingUser.id,
-        email: existingUser.email,
-        firstName: existingUser.firstName,
-        lastName: existingUser.lastName,
-        walletAddress: existingUser.walletAddress,
-        gridAddress: existingUser.gridAddress,
-        gridStatus: existingUser.gridStatus,
-      },
-      authData: {
-        success: authResult.success,
-        data: authResult.data,
-      },
-      sessionSecrets: sessionSecrets,
+      refreshToken,
+      user: serializeUser(existingUser),
+      authData: serializeGridAuthResult(authResult),
     });
   } catch (error) {
     Logger.error('Error completing login:', error);
@@ -2307,11 +2365,13 @@ export const completeGridAuth = async (req: Request, res: Response) => {
       };
 
       try {
-        const authResult = await gridClient.completeAuthAndCreateAccount({
-          otpCode,
-          user: tempUser,
-          sessionSecrets: authSessionSecrets,
-        });
+        const authResult = await verifyGridOtp(req, decodedEmail, () =>
+          gridClient.completeAuthAndCreateAccount({
+            otpCode,
+            user: tempUser,
+            sessionSecrets: authSessionSecrets,
+          })
+        );
 
         if (authResult?.success) {
           Logger.info(`Successfully created Grid account for existing user: ${existingUser.email}`);
@@ -2323,17 +2383,20 @@ export const completeGridAuth = async (req: Request, res: Response) => {
               walletAddress: extractWalletAddress(authResult),
               gridAddress: authResult.data?.address || null,
               gridStatus: 'success',
-              authResult: authResult.data as any || null,
-              sessionSecrets: authSessionSecrets as any || null,
+              ...(await kmsService.encryptGridCredentials({
+                authResult: authResult.data || null,
+                sessionSecrets: authSessionSecrets || null,
+              })),
             }
           });
 
           // Generate JWT token
-          const token = generateToken(existingUser.id);
+          const { token, refreshToken } = await issueAuthTokens(existingUser.id, req);
 
           return res.status(200).json({
             message: 'Grid account created and authentication successful',
             token,
+            refreshToken,
             user: {
               id: existingUser.id,
               email: existingUser.email,
@@ -2370,11 +2433,13 @@ export const completeGridAuth = async (req: Request, res: Response) => {
     };
 
     // Complete Grid authentication using completeAuth
-    const authResult = await gridClient.completeAuth({
-      otpCode,
-      user: tempUser,
-      sessionSecrets: authSessionSecrets,
-    });
+    const authResult = await verifyGridOtp(req, decodedEmail, () =>
+      gridClient.completeAuth({
+        otpCode,
+        user: tempUser,
+        sessionSecrets: authSessionSecrets,
+      })
+    );
 
     if (!authResult?.success) {
       Logger.error('Grid authentication completion failed:', authResult);
@@ -2389,9 +2454,11 @@ export const completeGridAuth = async (req: Request, res: Response) => {
       await prisma.user.update({
         where: { id: existingUser.id },
         data: {
-          // Store Grid authentication data
-          authResult: authResult.data as any || null,
-          sessionSecrets: authSessionSecrets as any || null,
+          // Store Grid authentication data (envelope-encrypted at rest)
+          ...(await kmsService.encryptGridCredentials({
+            authResult: authResult.data || null,
+            sessionSecrets: authSessionSecrets || null,
+          })),
         }
       });
 
@@ -2402,27 +2469,16 @@ export const completeGridAuth = async (req: Request, res: Response) => {
     }
 
     // Generate JWT token
-    const token = generateToken(existingUser.id);
+    const { token, refreshToken } = await issueAuthTokens(existingUser.id, req);
 
     Logger.info(`Grid authentication completed successfully for user ${existingUser.email}`);
 
     return res.status(200).json({
       message: 'Grid authentication successful',
       token,
-      user: {
-        id: existingUser.id,
-        email: existingUser.email,
-        firstName: existingUser.firstName,
-        lastName: existingUser.lastName,
-        walletAddress: existingUser.walletAddress,
-        gridAddress: existingUser.gridAddress,
-        gridStatus: existingUser.gridStatus,
-      },
-      authData: {
-        success: authResult.success,
-        data: authResult.data,
-      },
-      sessionSecrets: authSessionSecrets,
+      refreshToken,
+      user: serializeUser(existingUser),
+      authData: serializeGridAuthResult(authResult),
     });
   } catch (error) {
     Logger.error('Error completing Grid authentication:', error);
@@ -2461,7 +2517,7 @@ export const getCurrentUser = async (
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: serializeUser(user, resolveSerializerView(req)) });
   } catch (error) {
     Logger.error('Error fetching current user:', error);
     res.status(500).json({ error: 'Failed to fetch user information' });
@@ -2506,25 +2562,15 @@ export const getUserGridData = async (req: Request, res: Response) => {
 
     Logger.info(`Retrieved complete Grid data for user ${email}`);
 
+    // Only the non-secret account policies are returned from the auth result
+    const authResult = await kmsService.decryptJson(user.authResult);
+
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-      },
+      user: serializeUser(user),
       gridAccount: {
         address: user.gridAddress,
         status: user.gridStatus,
-        policies: (user as any).authResult?.policies,
-      },
-      completeGridData: {
-        authResult: user.authResult,
-        sessionSecrets: user.sessionSecrets,
+        policies: authResult?.policies,
       },
       summary: {
         hasGridAccount: !!user.gridAddress,
@@ -2616,10 +2662,11 @@ export const prepareTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    // Construct gridData from simplified JSON fields
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(senderUser);
     const gridData = {
-      authData: (senderUser as any).authResult,
-      sessionData: (senderUser as any).sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: senderUser.gridAddress,
         status: senderUser.gridStatus,
@@ -2646,7 +2693,7 @@ export const prepareTransaction = async (req: Request, res: Response) => {
 
     if (!(gridData.authData as any)?.authentication) {
       Logger.error('Missing authentication data in gridData:', {
-        authData: gridData.authData,
+        hasAuthData: !!gridData.authData,
         hasAuthentication: !!((gridData.authData as any)?.authentication),
         senderEmail: fromEmail,
         gridAddress: senderUser.gridAddress
@@ -2655,7 +2702,7 @@ export const prepareTransaction = async (req: Request, res: Response) => {
         error: 'Missing authentication data',
         details: 'Authentication data not found in user data. Please re-authenticate.',
         debug: {
-          authData: gridData.authData,
+          hasAuthData: !!gridData.authData,
           hasAuthentication: !!((gridData.authData as any)?.authentication)
         }
       });
@@ -3013,13 +3060,13 @@ export const executeTransaction = async (req: Request, res: Response) => {
     
     console.log('\n📋 METHOD: gridClient.signAndSend()');
     console.log('📊 PARAMETERS:');
-    console.log(JSON.stringify(exactSignAndSendData, null, 2));
+    console.log(JSON.stringify({ ...exactSignAndSendData, sessionSecrets: '[REDACTED]', session: '[REDACTED]' }, null, 2));
     
     console.log('\n🔍 DETAILED BREAKDOWN:');
     console.log('├── sessionSecrets:');
-    console.log(`│   └── ${JSON.stringify(gridData.sessionData, null, 4)}`);
+    console.log(`│   └── [REDACTED] (${gridData.sessionData ? 'present' : 'missing'})`);
     console.log('├── session (auth token):');
-    console.log(`│   └── ${JSON.stringify((gridData.authData as any)?.authentication, null, 4)}`);
+    console.log(`│   └── [REDACTED] (${(gridData.authData as any)?.authentication ? 'present' : 'missing'})`);
     console.log('├── transactionPayload:');
     console.log(`│   ├── transaction: "${transactionPayload.transaction?.substring(0, 50)}..."`);
     console.log(`│   ├── transaction_signers: ${JSON.stringify(transactionPayload.transaction_signers)}`);
@@ -3040,9 +3087,9 @@ export const executeTransaction = async (req: Request, res: Response) => {
 
     // Debug: Check what's actually in gridData
     console.log('\n🔍 GRID DATA DEBUG:');
-    console.log(`├── authData: ${JSON.stringify(gridData.authData, null, 2)}`);
+    console.log(`├── authData: ${gridData.authData ? 'present' : 'missing'}`);
     console.log(`├── accountData: ${JSON.stringify(gridData.accountData, null, 2)}`);
-    console.log(`├── sessionData: ${JSON.stringify(gridData.sessionData, null, 2)}`);
+    console.log(`├── sessionData: ${gridData.sessionData ? 'present' : 'missing'}`);
     
     // Check if we have authentication data (following guide pattern)
     if (!gridData.sessionData) {
@@ -3059,9 +3106,9 @@ export const executeTransaction = async (req: Request, res: Response) => {
 
     if (!(gridData.authData as any)?.authentication) {
       Logger.error('Missing authentication data in gridData:', {
-        authData: gridData.authData,
+        hasAuthData: !!gridData.authData,
         accountData: gridData.accountData,
-        sessionData: gridData.sessionData
+        hasSessionData: !!gridData.sessionData
       });
       return res.status(500).json({
         error: 'Missing authentication data',
@@ -3275,10 +3322,11 @@ export const sendTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    // Construct gridData from simplified JSON fields
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(senderUser);
     const gridData = {
-      authData: (senderUser as any).authResult,
-      sessionData: (senderUser as any).sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: senderUser.gridAddress,
         status: senderUser.gridStatus,
@@ -3305,7 +3353,7 @@ export const sendTransaction = async (req: Request, res: Response) => {
 
     if (!(gridData.authData as any)?.authentication) {
       Logger.error('Missing authentication data in gridData:', {
-        authData: gridData.authData,
+        hasAuthData: !!gridData.authData,
         hasAuthentication: !!((gridData.authData as any)?.authentication),
         senderEmail: fromEmail,
         gridAddress: senderUser.gridAddress
@@ -3314,7 +3362,7 @@ export const sendTransaction = async (req: Request, res: Response) => {
         error: 'Missing authentication data',
         details: 'Authentication data not found in user data. Please re-authenticate.',
         debug: {
-          authData: gridData.authData,
+          hasAuthData: !!gridData.authData,
           hasAuthentication: !!((gridData.authData as any)?.authentication)
         }
       });
@@ -3516,13 +3564,13 @@ export const sendTransaction = async (req: Request, res: Response) => {
     
     console.log('\n📋 METHOD: gridClient.signAndSend() [SEND TRANSACTION]');
     console.log('📊 PARAMETERS:');
-    console.log(JSON.stringify(exactSignAndSendData, null, 2));
+    console.log(JSON.stringify({ ...exactSignAndSendData, sessionSecrets: '[REDACTED]', session: '[REDACTED]' }, null, 2));
     
     console.log('\n🔍 DETAILED BREAKDOWN:');
     console.log('├── sessionSecrets:');
-    console.log(`│   └── ${JSON.stringify(gridData.sessionData, null, 4)}`);
+    console.log(`│   └── [REDACTED] (${gridData.sessionData ? 'present' : 'missing'})`);
     console.log('├── session (auth token):');
-    console.log(`│   └── ${JSON.stringify((gridData.authData as any)?.authentication, null, 4)}`);
+    console.log(`│   └── [REDACTED] (${(gridData.authData as any)?.authentication ? 'present' : 'missing'})`);
     console.log('├── transactionPayload:');
     console.log(`│   ├── transaction: "${transactionPayload.transaction?.substring(0, 50)}..."`);
     console.log(`│   ├── transaction_signers: ${JSON.stringify(transactionPayload.transaction_signers)}`);
@@ -3543,16 +3591,16 @@ export const sendTransaction = async (req: Request, res: Response) => {
 
     // Debug: Check what's actually in gridData
     console.log('\n🔍 GRID DATA DEBUG [SEND TRANSACTION]:');
-    console.log(`├── authData: ${JSON.stringify(gridData.authData, null, 2)}`);
+    console.log(`├── authData: ${gridData.authData ? 'present' : 'missing'}`);
     console.log(`├── accountData: ${JSON.stringify(gridData.accountData, null, 2)}`);
-    console.log(`├── sessionData: ${JSON.stringify(gridData.sessionData, null, 2)}`);
+    console.log(`├── sessionData: ${gridData.sessionData ? 'present' : 'missing'}`);
     
     // Check if we have authentication data
     if (!(gridData.authData as any)?.authentication) {
       Logger.error('Missing authentication data in gridData [SEND TRANSACTION]:', {
-        authData: gridData.authData,
+        hasAuthData: !!gridData.authData,
         accountData: gridData.accountData,
-        sessionData: gridData.sessionData
+        hasSessionData: !!gridData.sessionData
       });
       return res.status(500).json({
         error: 'Missing authentication data',
@@ -3852,10 +3900,11 @@ export const sendGridToWallet = async (req: Request, res: Response) => {
       });
     }
 
-    // Construct gridData from simplified JSON fields
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(senderUser);
     const gridData = {
-      authData: (senderUser as any).authResult,
-      sessionData: (senderUser as any).sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: senderUser.gridAddress,
         status: senderUser.gridStatus,
@@ -4326,10 +4375,7 @@ export const refreshPrivySession = async (req: Request, res: Response) => {
       email: email,
       instructions: 'Check your email for the OTP code and use it with the complete session refresh endpoint',
       sessionExpired: true,
-      authData: {
-        success: authResult.success,
-        data: authResult.data,
-      },
+      authData: serializeGridAuthResult(authResult),
     });
   } catch (error) {
     Logger.error('Error refreshing Privy session:', error);
@@ -4391,11 +4437,13 @@ export const completeSessionRefresh = async (req: Request, res: Response) => {
     };
 
     // Complete Grid authentication to refresh session
-    const authResult = await gridClient.completeAuth({
-      user: tempUser,
-      otpCode,
-      sessionSecrets,
-    });
+    const authResult = await verifyGridOtp(req, decodedEmail, () =>
+      gridClient.completeAuth({
+        user: tempUser,
+        otpCode,
+        sessionSecrets,
+      })
+    );
 
     if (!authResult?.success) {
       Logger.error('Grid session refresh completion failed:', authResult);
@@ -4406,7 +4454,7 @@ export const completeSessionRefresh = async (req: Request, res: Response) => {
     }
 
     // Generate new JWT token
-    const token = generateToken(existingUser.id);
+    const { token, refreshToken } = await issueAuthTokens(existingUser.id, req);
 
     // Store the authentication data in the database for future transactions
     try {
@@ -4421,9 +4469,11 @@ export const completeSessionRefresh = async (req: Request, res: Response) => {
       const updateResult = await prisma.user.update({
         where: { id: existingUser.id },
         data: {
-          // Store Grid authentication data
-          authResult: authResult.data as any || null,
-          sessionSecrets: sessionSecrets as any || null,
+          // Store Grid authentication data (envelope-encrypted at rest)
+          ...(await kmsService.encryptGridCredentials({
+            authResult: authResult.data || null,
+            sessionSecrets: sessionSecrets || null,
+          })),
         }
       });
       
@@ -4448,20 +4498,10 @@ export const completeSessionRefresh = async (req: Request, res: Response) => {
     return res.status(200).json({
       message: 'Session refreshed successfully',
       token,
-      user: {
-        id: existingUser.id,
-        email: existingUser.email,
-        firstName: existingUser.firstName,
-        lastName: existingUser.lastName,
-        walletAddress: existingUser.walletAddress,
-        gridAddress: existingUser.gridAddress,
-        gridStatus: existingUser.gridStatus,
-      },
+      refreshToken,
+      user: serializeUser(existingUser),
       sessionRefreshed: true,
-      authData: {
-        success: authResult.success,
-        data: authResult.data,
-      },
+      authData: serializeGridAuthResult(authResult),
     });
   } catch (error) {
     Logger.error('Error completing session refresh:', error);
@@ -4522,15 +4562,7 @@ export const checkSessionStatus = async (req: Request, res: Response) => {
     });
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-        gridStatus: user.gridStatus,
-      },
+      user: serializeUser(user),
       sessionStatus: {
         isExpired: isSessionExpired,
         sessionAgeHours: Math.round(sessionAge / (60 * 60 * 1000)),
@@ -4788,14 +4820,7 @@ export const initializeReferrer = async (req: Request, res: Response) => {
     if (!user.authResult || !user.sessionSecrets) {
       return res.json({
         message: 'Referrer initialization transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         transaction: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -4811,10 +4836,11 @@ export const initializeReferrer = async (req: Request, res: Response) => {
       });
     }
 
-    // Construct gridData from simplified JSON fields
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(user);
     const gridData = {
-      authData: user.authResult,
-      sessionData: user.sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: gridAddress,
         status: user.gridStatus,
@@ -4825,14 +4851,7 @@ export const initializeReferrer = async (req: Request, res: Response) => {
     if (!gridData.sessionData || !(gridData.authData as any)?.authentication) {
       return res.json({
         message: 'Referrer initialization transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         transaction: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -4909,14 +4928,7 @@ export const initializeReferrer = async (req: Request, res: Response) => {
 
       res.json({
         message: 'Referrer initialization completed successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         transaction: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -4949,14 +4961,7 @@ export const initializeReferrer = async (req: Request, res: Response) => {
 
       res.json({
         message: 'Referrer initialization transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         transaction: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -4986,27 +4991,332 @@ export const initializeReferrer = async (req: Request, res: Response) => {
   }
 };
 
-// Deposit to Yield Pool
-export const depositToYield = async (req: Request, res: Response) => {
-  try {
-    const { 
-      email, 
-      mintAddress, 
-      regularAmount, 
-      protectedAmount, 
-      referrer, 
-      priorityFee 
-    } = req.body;
+// A Lulo operation run with the server fee payer and paid for from gasless credit
+interface GaslessYieldOperation {
+  type: YieldTransactionType;
+  // Lulo transaction built for the given fee payer
+  generate: (feePayer: string) => Promise<LuloTransactionResponse>;
+  // Stored on the yield transaction and echoed in the response
+  details: {
+    mintAddress?: string;
+    regularAmount?: number;
+    protectedAmount?: number;
+    amount?: number;
+    referrer?: string;
+    pendingWithdrawalId?: number;
+    priorityFee?: string;
+  };
+  responseKey: 'deposit' | 'withdrawal';
+  message: string;
+}
 
-    // Decode URL-encoded email address
-    const decodedEmail = decodeURIComponent(email);
+// Helper function to execute a Lulo operation gaslessly: the server fee payer pays the SOL fee
+// and the user's gasless credit is charged, recorded as a YIELD_OPERATION sponsored transaction
+const executeGaslessYieldOperation = async (
+  req: Request,
+  res: Response,
+  user: Pick<User, 'id' | 'email' | 'gridAddress' | 'gridStatus' | 'authResult' | 'sessionSecrets'>,
+  operation: GaslessYieldOperation
+) => {
+  // Credit debit to refund and quota to release if the request ends before the transaction is submitted
+  let unsubmittedDebitEntryId: string | undefined;
+  let unsubmittedQuotaReservation: QuotaReservation | undefined;
 
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email: decodedEmail },
-      select: {
-        id: true,
-        email: true,
+  try {
+    if (!gaslessService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Gasless transaction service not configured',
+        details: 'Server fee payer or recipient wallet not configured',
+      });
+    }
+
+    const gridAddress = user.gridAddress;
+    if (!gridAddress || !user.authResult || !user.sessionSecrets) {
+      return res.status(400).json({
+        error: 'User does not have complete Grid account data',
+        details: 'Gasless yield operations are signed automatically and need the Grid session',
+      });
+    }
+
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(user);
+    const authenticationToken = (gridCredentials.authResult as any)?.authentication;
+    if (!gridCredentials.sessionSecrets || !authenticationToken) {
+      return res.status(401).json({
+        error: 'Missing authentication token',
+        details: 'Grid account authentication data is incomplete. Please refresh your session.',
+        sessionExpired: true,
+      });
+    }
+
+    const serverFeePayer = await gaslessService.selectFeePayer();
+    if (!serverFeePayer) {
+      return res.status(503).json({
+        error: 'Server fee payer not configured',
+      });
+    }
+    const feePayerAddress = serverFeePayer.publicKey.toBase58();
+
+    // Lulo builds the transaction with the server fee payer in place of the Grid account
+    const luloResponse = await operation.generate(feePayerAddress);
+    const connection = gaslessService.getConnection();
+    const decodedTransaction = await decodeTransaction(
+      connection,
+      deserializeTransaction(Buffer.from(luloResponse.transaction, 'base64'))
+    );
+    if (!decodedTransaction.feePayer?.equals(serverFeePayer.publicKey)) {
+      return res.status(502).json({
+        error: 'Unexpected Lulo transaction',
+        details: 'Lulo did not build the transaction for the server fee payer',
+      });
+    }
+
+    // Lulo programs are allowed here on top of the regular sponsorship allowlist
+    const policyResult = sponsorshipPolicyService.check(
+      decodedTransaction,
+      serverFeePayer.publicKey,
+      `yield ${operation.type} for ${user.id}`,
+      { extraProgramIds: config.sponsorshipPolicy.yieldProgramIds }
+    );
+    if (!policyResult.allowed) {
+      return res.status(403).json({
+        error: 'Transaction rejected by sponsorship policy',
+        details: policyResult.violation.reason,
+        violation: policyResult.violation,
+      });
+    }
+
+    const quote = await gaslessService.getPaymentQuote(decodedTransaction, user.id);
+    if (!quote) {
+      return res.status(503).json({
+        error: 'Failed to get payment quote',
+        details: 'Gasless service is not properly configured',
+      });
+    }
+    const requiredCredit = quote.payment.amountUSDC;
+
+    const quota = await sponsorshipQuotaService.reserve(user.id, quote.payment.breakdown.estimatedLamports);
+    setSponsorshipQuotaHeaders(res, quota.quotas);
+    if (!quota.allowed) {
+      return respondSponsorshipQuotaExceeded(res, quota.exceeded);
+    }
+    unsubmittedQuotaReservation = quota.reservation;
+
+    // Credit comes from the user's balance or their organization's pool; users who opted in
+    // are topped up from their Grid wallet when credit runs short
+    const creditResult = await organizationService.useSponsorshipCredit(
+      user.id,
+      requiredCredit,
+      'YIELD_OPERATION',
+      auditContextFromRequest(req)
+    );
+    if (creditResult.insufficient) {
+      return res.status(402).json({
+        error: 'Insufficient credit',
+        details: `Required: ${requiredCredit} USDC. Please make a payment first.`,
+        requiredCredit,
+        organizationError: creditResult.organizationError,
+        autoTopUp: creditResult.autoTopUp,
+      });
+    }
+    if (!creditResult.success) {
+      return res.status(402).json({
+        error: 'Failed to use credit',
+        details: creditResult.error,
+      });
+    }
+
+    await auditCreditConsumed(req, user.id, requiredCredit, 'YIELD_OPERATION', creditResult);
+    unsubmittedDebitEntryId = creditResult.ledgerEntryId;
+
+    const dbTransaction = await createYieldTransaction(user.id, operation.type, {
+      owner: gridAddress,
+      feePayer: feePayerAddress,
+      ...operation.details,
+      serializedTransaction: luloResponse.transaction,
+      luloResponse,
+    });
+
+    // Grid signs for the smart account without submitting, so the server fee payer signs last
+    let finalTransaction: AnyTransaction;
+    try {
+      const gridtx = await gridClient.prepareArbitraryTransaction(gridAddress, {
+        transaction: luloResponse.transaction,
+        fee_config: {
+          currency: 'sol',
+          payer_address: feePayerAddress,
+        },
+      });
+      if (!gridtx?.data) {
+        throw new Error((gridtx as any)?.error || 'Grid SDK failed to prepare transaction');
+      }
+
+      const signed = await gridClient.sign({
+        sessionSecrets: gridCredentials.sessionSecrets as any,
+        session: authenticationToken,
+        transactionPayload: gridtx.data,
+      });
+      finalTransaction = deserializeTransaction(Buffer.from(signed.transaction, 'base64'));
+    } catch (signingError: any) {
+      Logger.error(`Gasless yield ${operation.type} signing failed:`, signingError);
+      await updateYieldTransactionStatus(dbTransaction.id, 'FAILED', {
+        errorMessage: signingError?.message || 'Grid signing failed',
+      });
+      const sessionExpired = /Invalid signature|session|expired/.test(signingError?.message || '');
+      return res.status(sessionExpired ? 401 : 500).json({
+        error: 'Transaction signing failed',
+        details: sessionExpired
+          ? 'Grid session expired or invalid. Please refresh your session.'
+          : signingError?.message || 'Unknown signing error',
+        ...(sessionExpired ? { sessionExpired: true } : {}),
+      });
+    }
+
+    // Grid wraps the Lulo instructions, so re-check what the server fee payer is asked to sign
+    const decodedFinalTransaction = await decodeTransaction(connection, finalTransaction);
+    const misuse = decodedFinalTransaction.feePayer?.equals(serverFeePayer.publicKey)
+      ? findFeePayerMisuse(decodedFinalTransaction.instructions, serverFeePayer.publicKey)
+      : { rule: 'fee_payer_misuse' as const, reason: 'Grid did not keep the server fee payer' };
+    if (misuse) {
+      await updateYieldTransactionStatus(dbTransaction.id, 'FAILED', { errorMessage: misuse.reason });
+      return res.status(403).json({
+        error: 'Transaction rejected by sponsorship policy',
+        details: misuse.reason,
+        violation: misuse,
+      });
+    }
+
+    signTransaction(finalTransaction, serverFeePayer);
+    const signature = getTransactionSignature(finalTransaction);
+    if (!signature) {
+      await updateYieldTransactionStatus(dbTransaction.id, 'FAILED', { errorMessage: 'Missing fee payer signature' });
+      return res.status(500).json({
+        error: 'Failed to submit transaction',
+        details: 'Transaction is missing its fee payer signature',
+      });
+    }
+
+    // Recorded as submitted before it is broadcast, so a send that fails after reaching the network
+    // is settled from the chain instead of refunded
+    await updateYieldTransactionStatus(dbTransaction.id, 'SUBMITTED', { transactionSignature: signature });
+    const explorerUrl = gaslessService.getExplorerUrl(signature);
+    let sponsoredTransaction = await gaslessCreditService.recordSponsoredTransaction(user.id, {
+      paymentId: creditResult.paymentId,
+      type: 'YIELD_OPERATION',
+      signature,
+      usdcCreditUsed: requiredCredit,
+      network: process.env.SOLANA_NETWORK || 'mainnet',
+      explorerUrl,
+      status: 'SUBMITTED',
+      debitEntryId: creditResult.ledgerEntryId,
+      // Grid picks its own blockhash, so bound the expiry from the current height
+      lastValidBlockHeight: await gaslessService.getSubmissionExpiryHeight(),
+      yieldTransactionId: dbTransaction.id,
+    });
+    // Recorded as submitted: from here the outcome is settled from the chain
+    unsubmittedDebitEntryId = undefined;
+    unsubmittedQuotaReservation = undefined;
+
+    try {
+      await connection.sendRawTransaction(finalTransaction.serialize(), {
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+      });
+    } catch (submitError: any) {
+      Logger.error(`Gasless yield ${operation.type} submission failed:`, submitError);
+      gaslessService.recheckFeePayerIfUnderfunded(serverFeePayer, submitError);
+      return res.status(500).json({
+        error: 'Failed to submit transaction',
+        details: submitError?.message || 'Unknown error',
+        signature,
+        note: 'The transaction is settled from the chain; its credit is refunded if it never lands',
+      });
+    }
+
+    try {
+      await connection.confirmTransaction(signature, 'confirmed');
+    } catch (confirmError) {
+      Logger.error('Error confirming gasless yield transaction:', confirmError);
+    }
+
+    // Settling also moves the yield transaction to CONFIRMED or FAILED
+    sponsoredTransaction = await gaslessCreditService.settleSponsoredTransaction(
+      sponsoredTransaction,
+      auditContextFromRequest(req)
+    );
+    if (sponsoredTransaction.status === 'FAILED') {
+      return respondSponsoredTransactionFailed(res, sponsoredTransaction, requiredCredit);
+    }
+
+    Logger.info(`Gasless yield ${operation.type} submitted for ${user.email}: ${signature}`);
+
+    res.json({
+      message: operation.message,
+      user: serializeUser(user),
+      [operation.responseKey]: {
+        id: dbTransaction.id,
+        serializedTransaction: luloResponse.transaction,
+        owner: gridAddress,
+        feePayer: feePayerAddress,
+        ...operation.details,
+        priorityFee: operation.details.priorityFee || 'dynamic',
+        status: sponsoredTransaction.status,
+        transactionSignature: signature,
+        createdAt: dbTransaction.createdAt,
+      },
+      gasless: true,
+      signature,
+      explorerUrl,
+      sponsoredTransaction: serializeSponsoredTransaction(sponsoredTransaction),
+      credit: {
+        used: requiredCredit,
+        remaining: creditResult.remainingCredit || 0,
+        organizationId: creditResult.organizationId,
+        autoTopUp: creditResult.autoTopUp,
+      },
+    });
+  } catch (error) {
+    Logger.error(`Error executing gasless yield ${operation.type}:`, error);
+    res.status(500).json({
+      error: 'Failed to execute gasless yield operation',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    if (unsubmittedDebitEntryId) {
+      await gaslessCreditService.refundCredit(
+        unsubmittedDebitEntryId,
+        'Gasless yield transaction was not submitted',
+        auditContextFromRequest(req)
+      );
+    }
+    if (unsubmittedQuotaReservation) {
+      await sponsorshipQuotaService.release(unsubmittedQuotaReservation);
+    }
+  }
+};
+
+// Deposit to Yield Pool
+export const depositToYield = async (req: Request, res: Response) => {
+  try {
+    const { 
+      email, 
+      mintAddress, 
+      regularAmount, 
+      protectedAmount, 
+      referrer, 
+      priorityFee,
+      gasless
+    } = req.body;
+
+    // Decode URL-encoded email address
+    const decodedEmail = decodeURIComponent(email);
+
+    // Find user by email
+    const user = await prisma.user.findUnique({
+      where: { email: decodedEmail },
+      select: {
+        id: true,
+        email: true,
         firstName: true,
         lastName: true,
         walletAddress: true,
@@ -5037,6 +5347,30 @@ export const depositToYield = async (req: Request, res: Response) => {
       });
     }
 
+    if (gasless) {
+      return executeGaslessYieldOperation(req, res, user, {
+        type: 'DEPOSIT',
+        generate: (feePayer) => luloService.generateDepositTransaction(
+          gridAddress,
+          feePayer,
+          mintAddress,
+          regularAmount,
+          protectedAmount,
+          referrer,
+          priorityFee
+        ),
+        details: {
+          mintAddress,
+          regularAmount: regularAmount || 0,
+          protectedAmount: protectedAmount || 0,
+          referrer: referrer || undefined,
+          priorityFee,
+        },
+        responseKey: 'deposit',
+        message: 'Gasless yield deposit submitted successfully',
+      });
+    }
+
     Logger.info(`Depositing to yield for user ${email}:`, {
       gridAddress,
       mintAddress,
@@ -5076,14 +5410,7 @@ export const depositToYield = async (req: Request, res: Response) => {
     if (!user.authResult || !user.sessionSecrets) {
       return res.json({
         message: 'Yield deposit transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         deposit: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -5103,10 +5430,11 @@ export const depositToYield = async (req: Request, res: Response) => {
       });
     }
 
-    // Construct gridData from simplified JSON fields
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(user);
     const gridData = {
-      authData: user.authResult,
-      sessionData: user.sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: gridAddress,
         status: user.gridStatus,
@@ -5117,14 +5445,7 @@ export const depositToYield = async (req: Request, res: Response) => {
     if (!gridData.sessionData || !(gridData.authData as any)?.authentication) {
       return res.json({
         message: 'Yield deposit transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         deposit: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -5191,14 +5512,7 @@ export const depositToYield = async (req: Request, res: Response) => {
 
       res.json({
         message: 'Yield deposit completed successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         deposit: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -5228,14 +5542,7 @@ export const depositToYield = async (req: Request, res: Response) => {
 
       res.json({
         message: 'Yield deposit transaction generated successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          walletAddress: user.walletAddress,
-          gridAddress: user.gridAddress,
-        },
+        user: serializeUser(user),
         deposit: {
           id: dbTransaction.id,
           serializedTransaction: transactionResponse.transaction,
@@ -5267,7 +5574,7 @@ export const depositToYield = async (req: Request, res: Response) => {
 // Withdraw Protected (PUSD)
 export const withdrawProtected = async (req: Request, res: Response) => {
   try {
-    const { email, mintAddress, amount, priorityFee } = req.body;
+    const { email, mintAddress, amount, priorityFee, gasless } = req.body;
 
     // Decode URL-encoded email address
     const decodedEmail = decodeURIComponent(email);
@@ -5301,6 +5608,22 @@ export const withdrawProtected = async (req: Request, res: Response) => {
       });
     }
 
+    if (gasless) {
+      return executeGaslessYieldOperation(req, res, user, {
+        type: 'WITHDRAW_PROTECTED',
+        generate: (feePayer) => luloService.generateWithdrawProtectedTransaction(
+          gridAddress,
+          feePayer,
+          mintAddress,
+          amount,
+          priorityFee
+        ),
+        details: { mintAddress, amount, priorityFee },
+        responseKey: 'withdrawal',
+        message: 'Gasless protected withdrawal submitted successfully',
+      });
+    }
+
     Logger.info(`Withdrawing protected funds for user ${email}:`, {
       gridAddress,
       mintAddress,
@@ -5332,14 +5655,7 @@ export const withdrawProtected = async (req: Request, res: Response) => {
 
     res.json({
       message: 'Protected withdrawal transaction generated successfully',
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       withdrawal: {
         id: dbTransaction.id,
         serializedTransaction: transactionResponse.transaction,
@@ -5366,7 +5682,7 @@ export const withdrawProtected = async (req: Request, res: Response) => {
 // Initiate Regular Withdraw (LUSD)
 export const initiateRegularWithdraw = async (req: Request, res: Response) => {
   try {
-    const { email, mintAddress, amount, priorityFee } = req.body;
+    const { email, mintAddress, amount, priorityFee, gasless } = req.body;
 
     // Decode URL-encoded email address
     const decodedEmail = decodeURIComponent(email);
@@ -5400,6 +5716,22 @@ export const initiateRegularWithdraw = async (req: Request, res: Response) => {
       });
     }
 
+    if (gasless) {
+      return executeGaslessYieldOperation(req, res, user, {
+        type: 'INITIATE_REGULAR_WITHDRAW',
+        generate: (feePayer) => luloService.generateInitiateRegularWithdrawTransaction(
+          gridAddress,
+          feePayer,
+          mintAddress,
+          amount,
+          priorityFee
+        ),
+        details: { mintAddress, amount, priorityFee },
+        responseKey: 'withdrawal',
+        message: 'Gasless regular withdrawal initiation submitted successfully',
+      });
+    }
+
     Logger.info(`Initiating regular withdrawal for user ${email}:`, {
       gridAddress,
       mintAddress,
@@ -5431,14 +5763,7 @@ export const initiateRegularWithdraw = async (req: Request, res: Response) => {
 
     res.json({
       message: 'Regular withdrawal initiation transaction generated successfully',
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       withdrawal: {
         id: dbTransaction.id,
         serializedTransaction: transactionResponse.transaction,
@@ -5466,7 +5791,7 @@ export const initiateRegularWithdraw = async (req: Request, res: Response) => {
 // Complete Regular Withdrawal
 export const completeRegularWithdrawal = async (req: Request, res: Response) => {
   try {
-    const { email, pendingWithdrawalId, priorityFee } = req.body;
+    const { email, pendingWithdrawalId, priorityFee, gasless } = req.body;
 
     // Decode URL-encoded email address
     const decodedEmail = decodeURIComponent(email);
@@ -5500,6 +5825,21 @@ export const completeRegularWithdrawal = async (req: Request, res: Response) =>
       });
     }
 
+    if (gasless) {
+      return executeGaslessYieldOperation(req, res, user, {
+        type: 'COMPLETE_REGULAR_WITHDRAWAL',
+        generate: (feePayer) => luloService.generateCompleteRegularWithdrawalTransaction(
+          gridAddress,
+          pendingWithdrawalId,
+          feePayer,
+          priorityFee
+        ),
+        details: { pendingWithdrawalId, priorityFee },
+        responseKey: 'withdrawal',
+        message: 'Gasless regular withdrawal completion submitted successfully',
+      });
+    }
+
     Logger.info(`Completing regular withdrawal for user ${email}:`, {
       gridAddress,
       pendingWithdrawalId,
@@ -5528,14 +5868,7 @@ export const completeRegularWithdrawal = async (req: Request, res: Response) =>
 
     res.json({
       message: 'Regular withdrawal completion transaction generated successfully',
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       withdrawal: {
         id: dbTransaction.id,
         serializedTransaction: transactionResponse.transaction,
@@ -5604,14 +5937,7 @@ export const getYieldAccount = async (req: Request, res: Response) => {
     Logger.info(`Yield account data retrieved for user ${email}`);
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       accountData: accountData,
       source: 'lulo-api',
     });
@@ -5671,14 +5997,7 @@ export const getPendingWithdrawals = async (req: Request, res: Response) => {
     });
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       pendingWithdrawals: pendingWithdrawals.pendingWithdrawals,
       summary: {
         totalPending: pendingWithdrawals.pendingWithdrawals.length,
@@ -5825,14 +6144,7 @@ export const getReferrerInfo = async (req: Request, res: Response) => {
     Logger.info(`Referrer information retrieved for user ${email}`);
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
+      user: serializeUser(user),
       referrerData: referrerData,
       source: 'lulo-api',
     });
@@ -5915,32 +6227,8 @@ export const getUserYieldTransactions = async (req: Request, res: Response) => {
     Logger.info(`Retrieved ${transactions.length} yield transactions for user ${email}`);
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        walletAddress: user.walletAddress,
-        gridAddress: user.gridAddress,
-      },
-      transactions: transactions.map((tx: any) => ({
-        id: tx.id,
-        type: tx.type,
-        status: tx.status,
-        owner: tx.owner,
-        feePayer: tx.feePayer,
-        mintAddress: tx.mintAddress,
-        regularAmount: tx.regularAmount,
-        protectedAmount: tx.protectedAmount,
-        amount: tx.amount,
-        referrer: tx.referrer,
-        pendingWithdrawalId: tx.pendingWithdrawalId,
-        priorityFee: tx.priorityFee,
-        transactionSignature: tx.transactionSignature,
-        errorMessage: tx.errorMessage,
-        createdAt: tx.createdAt,
-        updatedAt: tx.updatedAt,
-      })),
+      user: serializeUser(user),
+      transactions: transactions.map((tx: any) => serializeYieldTransaction(tx, resolveSerializerView(req))),
       pagination: {
         limit: Number(limit),
         offset: Number(offset),
@@ -5978,6 +6266,15 @@ export const updateYieldTransactionStatusEndpoint = async (req: Request, res: Re
       });
     }
 
+    const existingTransaction = await prisma.yieldTransaction.findUnique({
+      where: { id: transactionId },
+      select: { userId: true, status: true, transactionSignature: true, errorMessage: true },
+    });
+
+    if (!existingTransaction) {
+      return res.status(404).json({ error: 'Yield transaction not found' });
+    }
+
     Logger.info(`Updating yield transaction ${transactionId} status to ${status}`);
 
     // Update transaction status
@@ -5987,16 +6284,26 @@ export const updateYieldTransactionStatusEndpoint = async (req: Request, res: Re
       { transactionSignature, errorMessage }
     );
 
-    res.json({
-      message: 'Transaction status updated successfully',
-      transaction: {
-        id: updatedTransaction.id,
-        type: updatedTransaction.type,
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'YIELD_TRANSACTION_STATUS_OVERRIDDEN',
+      targetType: 'YieldTransaction',
+      targetId: transactionId,
+      before: {
+        status: existingTransaction.status,
+        transactionSignature: existingTransaction.transactionSignature,
+        errorMessage: existingTransaction.errorMessage,
+      },
+      after: {
         status: updatedTransaction.status,
         transactionSignature: updatedTransaction.transactionSignature,
         errorMessage: updatedTransaction.errorMessage,
-        updatedAt: updatedTransaction.updatedAt,
       },
+      metadata: { ownerUserId: existingTransaction.userId },
+    });
+
+    res.json({
+      message: 'Transaction status updated successfully',
+      transaction: serializeYieldTransaction(updatedTransaction, resolveSerializerView(req)),
     });
   } catch (error) {
     Logger.error('Error updating yield transaction status:', error);
@@ -6024,6 +6331,15 @@ export const updateTransferStatusEndpoint = async (req: Request, res: Response)
       });
     }
 
+    const existingTransfer = await prisma.transfer.findUnique({
+      where: { id: transferId },
+      select: { userId: true, status: true, transactionSignature: true, errorMessage: true },
+    });
+
+    if (!existingTransfer) {
+      return res.status(404).json({ error: 'Transfer not found' });
+    }
+
     Logger.info(`Updating transfer ${transferId} status to ${status}`);
 
     // Update transfer status
@@ -6033,16 +6349,29 @@ export const updateTransferStatusEndpoint = async (req: Request, res: Response)
       { transactionSignature, blockchainResponse, errorMessage }
     );
 
-    res.json({
-      message: 'Transfer status updated successfully',
-      transfer: {
-        id: updatedTransfer.id,
-        type: updatedTransfer.type,
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'TRANSFER_STATUS_OVERRIDDEN',
+      targetType: 'Transfer',
+      targetId: transferId,
+      before: {
+        status: existingTransfer.status,
+        transactionSignature: existingTransfer.transactionSignature,
+        errorMessage: existingTransfer.errorMessage,
+      },
+      after: {
         status: updatedTransfer.status,
         transactionSignature: updatedTransfer.transactionSignature,
         errorMessage: updatedTransfer.errorMessage,
-        updatedAt: updatedTransfer.updatedAt,
       },
+      metadata: {
+        ownerUserId: existingTransfer.userId,
+        blockchainResponseProvided: blockchainResponse !== undefined,
+      },
+    });
+
+    res.json({
+      message: 'Transfer status updated successfully',
+      transfer: serializeTransfer(updatedTransfer, resolveSerializerView(req)),
     });
   } catch (error) {
     Logger.error('Error updating transfer status:', error);
@@ -6088,10 +6417,11 @@ export const deleteUserByEmail = async (req: Request, res: Response) => {
         gridAddress: true,
         gridStatus: true,
         createdAt: true,
+        deletedAt: true,
       },
     });
 
-    if (!existingUser) {
+    if (!existingUser || existingUser.deletedAt) {
       return res.status(404).json({ 
         error: 'User not found',
         details: `No user found with email: ${decodedEmail}`
@@ -6108,9 +6438,18 @@ export const deleteUserByEmail = async (req: Request, res: Response) => {
       createdAt: existingUser.createdAt
     });
 
-    // Delete user (this will cascade delete related records due to onDelete: Cascade)
-    await prisma.user.delete({
-      where: { id: existingUser.id },
+    await softDeleteUser(existingUser.id, { id: true });
+
+    await auditService.record(auditContextFromRequest(req), {
+      action: 'USER_DELETED',
+      targetType: 'User',
+      targetId: existingUser.id,
+      before: {
+        email: existingUser.email,
+        gridAddress: existingUser.gridAddress,
+        gridStatus: existingUser.gridStatus,
+      },
+      after: null,
     });
 
     Logger.info(`Successfully deleted user: ${decodedEmail}`);
@@ -6126,7 +6465,7 @@ export const deleteUserByEmail = async (req: Request, res: Response) => {
         gridStatus: existingUser.gridStatus,
         createdAt: existingUser.createdAt,
       },
-      note: 'All related records (transfers, yield transactions, etc.) have been automatically deleted'
+      note: 'The account is deactivated; its transfers, payments and credit history are kept'
     });
 
   } catch (error) {
@@ -6142,13 +6481,86 @@ export const deleteUserByEmail = async (req: Request, res: Response) => {
 // GASLESS TRANSACTION RELAY (x402 PAYMENTS)
 // ===========================================
 
-/**
- * Gasless Transaction Relay Endpoint (Grid Wallet Only)
- * Fully programmatic implementation - server handles everything
- * Allows users to pay for transaction fees in USDC instead of SOL
- * 
- * Flow:
- * 1. User provides email
+// Helper function to record a gasless credit deduction in the audit log
+const auditCreditConsumed = async (
+  req: Request,
+  userId: string,
+  amountUSDC: number,
+  transactionType: string,
+  creditResult: { paymentId?: string; remainingCredit?: number; organizationId?: string }
+) => {
+  const remainingCredit = creditResult.remainingCredit || 0;
+  // Credit drawn from an organization's pool is recorded against the organization
+  await auditService.record(auditContextFromRequest(req), {
+    action: 'GASLESS_CREDIT_CONSUMED',
+    targetType: creditResult.organizationId ? 'Organization' : 'User',
+    targetId: creditResult.organizationId ?? userId,
+    before: { creditUSDC: remainingCredit + amountUSDC },
+    after: { creditUSDC: remainingCredit },
+    metadata: {
+      amountUSDC,
+      transactionType,
+      paymentId: creditResult.paymentId || null,
+      ...(creditResult.organizationId && { userId }),
+    },
+  });
+};
+
+// Helper function to report the user's sponsorship quotas in response headers
+const setSponsorshipQuotaHeaders = (res: Response, quotas: QuotaStatus[]) => {
+  quotas
+    .filter((quota) => quota.scope === 'user')
+    .forEach((quota) => {
+      const prefix = `X-Sponsor-Quota-${quota.period === 'DAY' ? 'Daily' : 'Monthly'}${quota.dimension === 'lamports' ? '-Lamports' : ''}`;
+      res.setHeader(`${prefix}-Limit`, quota.limit);
+      res.setHeader(`${prefix}-Remaining`, quota.remaining);
+    });
+
+  const daily = quotas.find((quota) => quota.scope === 'user' && quota.period === 'DAY');
+  if (daily) {
+    res.setHeader('X-Sponsor-Quota-Reset', Math.ceil(daily.resetsAt.getTime() / 1000));
+  }
+};
+
+// Helper function to answer a sponsorship refused by the user's or the server-wide quota
+const respondSponsorshipQuotaExceeded = (res: Response, exceeded: QuotaStatus) => {
+  res.setHeader('Retry-After', Math.max(1, Math.ceil((exceeded.resetsAt.getTime() - Date.now()) / 1000)));
+  return res.status(429).json({
+    error: 'Sponsorship quota exceeded',
+    details: exceeded.scope === 'global'
+      ? 'The daily sponsorship budget has been used up. Try again after it resets.'
+      : `${exceeded.period === 'DAY' ? 'Daily' : 'Monthly'} ${exceeded.dimension === 'lamports' ? 'fee spend' : 'transaction'} limit of ${exceeded.limit} reached`,
+    quota: exceeded,
+  });
+};
+
+// Helper function to answer a sponsored transaction that failed or was dropped after submission
+const respondSponsoredTransactionFailed = (
+  res: Response,
+  sponsoredTransaction: SponsoredTransaction,
+  creditUSDC: number
+) => {
+  const refunded = !!sponsoredTransaction.refundedAt;
+  return res.status(500).json({
+    error: 'Sponsored transaction failed',
+    details: sponsoredTransaction.errorMessage || 'Unknown error',
+    signature: sponsoredTransaction.signature,
+    explorerUrl: sponsoredTransaction.explorerUrl,
+    sponsoredTransaction: serializeSponsoredTransaction(sponsoredTransaction),
+    credit: {
+      used: refunded ? 0 : creditUSDC,
+      refunded: refunded ? creditUSDC : 0,
+    },
+  });
+};
+
+/**
+ * Gasless Transaction Relay Endpoint (Grid Wallet Only)
+ * Fully programmatic implementation - server handles everything
+ * Allows users to pay for transaction fees in USDC instead of SOL
+ * 
+ * Flow:
+ * 1. User provides email
  * 2. Server creates USDC payment transaction
  * 3. Server prepares transaction with Grid SDK
  * 4. Server signs transaction with Grid SDK (using user's session data)
@@ -6159,7 +6571,7 @@ export const deleteUserByEmail = async (req: Request, res: Response) => {
  */
 export const gaslessTransaction = async (req: Request, res: Response) => {
   try {
-    const { email, useCredit } = req.body as GaslessTransactionInput;
+    const { email, packageId, currency } = req.body as GaslessTransactionInput;
 
     // Check if service is configured
     if (!gaslessService.isConfigured()) {
@@ -6209,8 +6621,17 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    // Payments default to USDC; SOL and configured tokens are converted to USDC credit at the quoted rate
+    const paymentCurrency = paymentCurrencyService.getCurrency(currency || 'USDC');
+    if (!paymentCurrency) {
+      return res.status(400).json({
+        error: 'Unsupported payment currency',
+        details: `Accepted currencies: ${paymentCurrencyService.getSupportedCurrencies().map((accepted) => accepted.symbol).join(', ')}`,
+      });
+    }
+
     // Step 2: Get payment quote
-    const quote = await gaslessService.getPaymentQuote();
+    const quote = await gaslessService.getPaymentQuote(undefined, user.id, paymentCurrency);
     if (!quote) {
       return res.status(503).json({
         error: 'Payment quote generation failed',
@@ -6218,50 +6639,27 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    const requiredCredit = quote.payment.amountUSDC;
-
-    // Step 2.5: Check if user wants to use credit instead of making payment
-    if (useCredit) {
-      // Check if user has sufficient credit
-      const hasCredit = await gaslessCreditService.hasSufficientCredit(user.id, requiredCredit);
-      if (!hasCredit) {
-        return res.status(402).json({
-          error: 'Insufficient credit',
-          details: `Required: ${requiredCredit} USDC. Available credit is insufficient. Please make a payment first or set useCredit to false.`,
-          requiredCredit,
-          suggestion: 'Set useCredit to false to make a new payment',
-        });
-      }
-
-      // Use credit
-      const creditResult = await gaslessCreditService.useCredit(user.id, requiredCredit, 'USER_TRANSACTION');
-      if (!creditResult.success) {
-        return res.status(402).json({
-          error: 'Failed to use credit',
-          details: creditResult.error,
-        });
-      }
-
-      Logger.info(`Using credit for gasless transaction: ${requiredCredit} USDC, remaining: ${creditResult.remainingCredit} USDC`);
-      
-      // Skip payment creation and go directly to transaction execution
-      // For now, we'll return a message that credit was used
-      // In a full implementation, you would execute the actual transaction here
-      return res.json({
-        success: true,
-        message: 'Credit used successfully. Transaction can now be executed.',
-        credit: {
-          used: requiredCredit,
-          remaining: creditResult.remainingCredit || 0,
-        },
-        note: 'This endpoint currently requires a payment. To sponsor a transaction using credit, use the /api/transaction/gasless/sponsor endpoint.',
+    // Buying a credit package pays its price instead of the single-transaction quote
+    const creditPackage = packageId ? await creditPackageService.getActivePackage(packageId) : null;
+    if (packageId && !creditPackage) {
+      return res.status(404).json({
+        error: 'Credit package not found',
+        details: 'No active credit package with this ID',
       });
     }
+    const paymentAmountUSDC = creditPackage ? fromMicroUsdc(creditPackage.priceMicroUsdc) : quote.payment.amountUSDC;
+    // Amount to pay in the currency's smallest units, and the rate it is credited at
+    const conversion = creditPackage
+      ? await paymentCurrencyService.convert(paymentCurrency, Number(creditPackage.priceMicroUsdc))
+      : { amount: quote.payment.paymentAmount, exchangeRateUSDC: quote.payment.exchangeRateUSDC };
+    const paymentAmount = conversion.amount;
 
     // Structure gridData similar to working endpoints
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(user);
     const gridData = {
-      authData: (user as any).authResult,
-      sessionData: (user as any).sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: user.gridAddress,
         status: user.gridStatus,
@@ -6303,17 +6701,16 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    Logger.info(`Creating USDC payment transaction for ${email}`);
+    Logger.info(`Creating ${paymentCurrency.symbol} payment transaction for ${email}`);
 
-    // Step 3: Create USDC transfer transaction
+    // Step 3: Create the transfer (SPL token to the recipient's token account, or SOL to the recipient wallet)
     const recipientTokenAccount = new PublicKey(quote.payment.tokenAccount);
-    const mint = new PublicKey(quote.payment.mint);
 
     const transactionResult = await blockchainService.createTransaction(
       user.gridAddress,
       recipientTokenAccount.toBase58(),
       quote.payment.mint,
-      quote.payment.amountUSDC,
+      paymentAmount / 10 ** paymentCurrency.decimals,
       user.gridAddress
     );
 
@@ -6504,7 +6901,7 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
         await new Promise(resolve => setTimeout(resolve, retryDelay));
       }
 
-      paymentVerification = await gaslessService.verifyPaymentFromTransaction(paymentSignature);
+      paymentVerification = await gaslessService.verifyPaymentFromTransaction(paymentSignature, paymentAmount, paymentCurrency);
       
       if (paymentVerification.verified) {
         Logger.info(`Payment verified successfully on attempt ${attempt}`);
@@ -6543,11 +6940,13 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
     // Get explorer URL
     const explorerUrl = gaslessService.getExplorerUrl(paymentSignature);
 
+    // Amount received in the paid currency, credited in USDC at the quoted rate
+    const amountReceived = paymentVerification.amountReceived || 0;
+    const amountUSDC = paymentCurrencyService.toCreditUsdc(paymentCurrency, amountReceived, conversion.exchangeRateUSDC);
+    const isUsdcPayment = paymentCurrency.symbol === USDC_CURRENCY.symbol;
+
     // Record payment in database using credit service
     try {
-      const amountReceived = paymentVerification.amountReceived || 0;
-      const amountUSDC = amountReceived / 1000000; // USDC has 6 decimals
-      
       await gaslessCreditService.recordPayment(user.id, {
         signature: paymentSignature,
         amountUSDC: amountUSDC,
@@ -6558,6 +6957,9 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
         network: process.env.SOLANA_NETWORK || 'mainnet',
         tokenMint: quote.payment.mint,
         explorerUrl: explorerUrl,
+        packageId: creditPackage?.id,
+        currency: paymentCurrency.symbol,
+        exchangeRateUSDC: isUsdcPayment ? undefined : conversion.exchangeRateUSDC,
       });
       
       Logger.info(`Payment recorded in database for user ${email}: ${paymentSignature}`);
@@ -6574,17 +6976,26 @@ export const gaslessTransaction = async (req: Request, res: Response) => {
       explorerUrl,
       paymentDetails: {
         signature: paymentSignature,
-        amount: paymentVerification.amountReceived || 0,
-        amountUSDC: (paymentVerification.amountReceived || 0) / 1000000,
+        currency: paymentCurrency.symbol,
+        amount: amountReceived,
+        amountUSDC,
+        ...(!isUsdcPayment && { exchangeRateUSDC: conversion.exchangeRateUSDC }),
         recipient: quote.payment.tokenAccount,
         explorerUrl,
       },
+      ...(creditPackage && {
+        creditPackage: {
+          id: creditPackage.id,
+          name: creditPackage.name,
+          bonusBps: creditPackage.bonusBps,
+        },
+      }),
       transactionInfo: {
         network: process.env.SOLANA_NETWORK || 'mainnet',
         cluster: process.env.SOLANA_NETWORK === 'devnet' ? 'devnet' : 'mainnet-beta',
-        feePayer: 'Grid Wallet (user paid USDC, Grid paid SOL)',
+        feePayer: `Grid Wallet (user paid ${paymentCurrency.symbol}, Grid paid SOL)`,
         userPaid: '0 SOL',
-        usdcSpent: quote.payment.amountUSDC || 0,
+        usdcSpent: paymentAmountUSDC || 0,
         signedWith: 'Grid Wallet',
         user: {
           email: user.email,
@@ -6644,7 +7055,9 @@ export const getCreditBalance = async (req: Request, res: Response) => {
       credit: {
         totalCredit: creditBalance.totalCredit,
         creditUSDC: creditBalance.creditUSDC,
-        payments: creditBalance.payments,
+        paidCreditUSDC: creditBalance.paidCreditUSDC,
+        bonusCreditUSDC: creditBalance.bonusCreditUSDC,
+        payments: creditBalance.payments.map((payment) => serializeGaslessPayment(payment)),
       },
     });
   } catch (error) {
@@ -6693,7 +7106,10 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
     return res.json({
       success: true,
       email: user.email,
-      payments,
+      payments: payments.map(({ creditLedgerEntries, ...payment }) => ({
+        ...serializeGaslessPayment(payment, resolveSerializerView(req)),
+        refunds: creditLedgerEntries.map(serializeCreditLedgerEntry),
+      })),
       count: payments.length,
     });
   } catch (error) {
@@ -6705,11 +7121,370 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get the credit ledger for a user
+ * GET /api/me/gasless/ledger
+ */
+export const getCreditLedger = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.params as { email: string };
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+
+    if (!email) {
+      return res.status(400).json({
+        error: 'Email is required',
+        details: 'Please provide user email address',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const entries = await gaslessCreditService.getLedger(user.id, limit);
+
+    return res.json({
+      success: true,
+      email: user.email,
+      entries: entries.map(serializeCreditLedgerEntry),
+      count: entries.length,
+    });
+  } catch (error) {
+    Logger.error('Error getting credit ledger:', error);
+    res.status(500).json({
+      error: 'Failed to get credit ledger',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get a user's low-balance alert threshold and credit that is due to expire
+ * GET /api/me/gasless/alerts
+ */
+export const getCreditAlerts = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.params as { email: string };
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const alerts = await gaslessCreditService.getAlertSettings(user.id);
+
+    return res.json({
+      success: true,
+      email: user.email,
+      alerts,
+    });
+  } catch (error) {
+    Logger.error('Error getting credit alerts:', error);
+    res.status(500).json({
+      error: 'Failed to get credit alerts',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Set a user's low-balance alert threshold
+ * PUT /api/me/gasless/alerts
+ */
+export const updateCreditAlerts = async (req: Request, res: Response) => {
+  try {
+    const { email, lowBalanceThresholdUSDC } = req.body as UpdateCreditAlertsInput;
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const alerts = await gaslessCreditService.updateAlertSettings(user.id, lowBalanceThresholdUSDC);
+
+    return res.json({
+      success: true,
+      message: 'Credit alert settings updated successfully',
+      email: user.email,
+      alerts,
+    });
+  } catch (error) {
+    Logger.error('Error updating credit alerts:', error);
+    res.status(500).json({
+      error: 'Failed to update credit alerts',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get a user's auto top-up settings and recent top-ups
+ * GET /api/me/gasless/auto-top-up
+ */
+export const getAutoTopUp = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.params as { email: string };
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const autoTopUp = await creditTopUpService.getSettings(user.id);
+
+    return res.json({
+      success: true,
+      email: user.email,
+      autoTopUp,
+    });
+  } catch (error) {
+    Logger.error('Error getting auto top-up settings:', error);
+    res.status(500).json({
+      error: 'Failed to get auto top-up settings',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Turn auto top-up from the user's Grid wallet on or off
+ * PUT /api/me/gasless/auto-top-up
+ */
+export const updateAutoTopUp = async (req: Request, res: Response) => {
+  try {
+    const { email, enabled, amountUSDC, monthlyCapUSDC } = req.body as UpdateAutoTopUpInput;
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        gridAddress: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (enabled && !user.gridAddress) {
+      return res.status(400).json({
+        error: 'User does not have a Grid account',
+        details: 'Auto top-up pays from the Grid wallet, so Grid account creation must be completed first',
+      });
+    }
+
+    const result = await creditTopUpService.updateSettings(user.id, { enabled, amountUSDC, monthlyCapUSDC });
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid auto top-up settings',
+        details: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: `Auto top-up ${enabled ? 'enabled' : 'disabled'} successfully`,
+      email: user.email,
+      autoTopUp: result.settings,
+    });
+  } catch (error) {
+    Logger.error('Error updating auto top-up settings:', error);
+    res.status(500).json({
+      error: 'Failed to update auto top-up settings',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * List the credit packages that can be bought
+ * GET /api/me/gasless/packages
+ */
+export const getCreditPackages = async (req: Request, res: Response) => {
+  try {
+    const packages = await creditPackageService.listPackages();
+
+    return res.json({
+      success: true,
+      packages: packages.map(serializeCreditPackage),
+    });
+  } catch (error) {
+    Logger.error('Error getting credit packages:', error);
+    res.status(500).json({
+      error: 'Failed to get credit packages',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * List the currencies gasless credit can be bought with, and their current USDC rates
+ * GET /api/me/gasless/currencies
+ */
+export const getPaymentCurrencies = async (req: Request, res: Response) => {
+  try {
+    const currencies = await Promise.all(
+      paymentCurrencyService.getSupportedCurrencies().map(async (currency) => {
+        let exchangeRateUSDC: number | null = null;
+        try {
+          exchangeRateUSDC = await paymentCurrencyService.getExchangeRateUsdc(currency);
+        } catch (error) {
+          Logger.warn(`Could not price payment currency ${currency.symbol}: ${(error as Error).message}`);
+        }
+        return {
+          symbol: currency.symbol,
+          mint: currency.mint ? currency.mint.toBase58() : null,
+          decimals: currency.decimals,
+          exchangeRateUSDC,
+        };
+      })
+    );
+
+    return res.json({
+      success: true,
+      currencies,
+    });
+  } catch (error) {
+    Logger.error('Error getting payment currencies:', error);
+    res.status(500).json({
+      error: 'Failed to get payment currencies',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Redeem a promo code or voucher for bonus credit
+ * POST /api/me/gasless/redeem
+ */
+export const redeemPromoCode = async (req: Request, res: Response) => {
+  try {
+    const { email, code } = req.body as RedeemPromoCodeInput;
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const result = await promoCodeService.redeem(user.id, code, auditContextFromRequest(req));
+    if (!result.success) {
+      const status = { not_found: 404, unavailable: 410, already_redeemed: 409 }[result.reason];
+      return res.status(status).json({
+        error: 'Promo code could not be redeemed',
+        details: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: `${result.amountUSDC} USDC bonus credit added`,
+      email: user.email,
+      credit: {
+        added: result.amountUSDC,
+        remaining: result.remainingCredit,
+      },
+    });
+  } catch (error) {
+    Logger.error('Error redeeming promo code:', error);
+    res.status(500).json({
+      error: 'Failed to redeem promo code',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get the remaining sponsored transaction allowance for a user
+ * GET /api/me/gasless/quota
+ */
+export const getSponsorshipQuota = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.params as { email: string };
+
+    if (!email) {
+      return res.status(400).json({
+        error: 'Email is required',
+        details: 'Please provide user email address',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const quotas = await sponsorshipQuotaService.getQuotas(user.id);
+    setSponsorshipQuotaHeaders(res, quotas);
+
+    return res.json({
+      success: true,
+      email: user.email,
+      quotas,
+      // Whether another sponsored transaction would currently be accepted
+      available: quotas.every((quota) => quota.remaining > 0),
+    });
+  } catch (error) {
+    Logger.error('Error getting sponsorship quota:', error);
+    res.status(500).json({
+      error: 'Failed to get sponsorship quota',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Sponsor a transaction using credit
  * POST /api/transaction/gasless/sponsor
  */
 export const sponsorTransaction = async (req: Request, res: Response) => {
+  // Credit debit to refund and quota to release if the request ends before the transaction is submitted
+  let unsubmittedDebitEntryId: string | undefined;
+  let unsubmittedQuotaReservation: QuotaReservation | undefined;
+
   try {
     const { email, transaction, type } = req.body as SponsorTransactionInput;
 
@@ -6766,8 +7541,42 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    // Get payment quote to determine required credit
-    const quote = await gaslessService.getPaymentQuote();
+    // Decode transaction (legacy or v0, resolving address lookup tables)
+    let transactionToSponsor: AnyTransaction;
+    let decodedTransaction: DecodedTransaction;
+    try {
+      const transactionBuffer = Buffer.from(transaction, 'base64');
+      transactionToSponsor = deserializeTransaction(transactionBuffer);
+      decodedTransaction = await decodeTransaction(gaslessService.getConnection(), transactionToSponsor);
+      Logger.info(`Transaction decoded successfully (version: ${decodedTransaction.version})`);
+    } catch (error) {
+      Logger.error('Error decoding transaction:', error);
+      return res.status(400).json({
+        error: 'Invalid transaction format',
+        details: `Transaction must be a base64-encoded legacy or v0 transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+
+    // Pick a server fee payer from the pool
+    const serverFeePayer = await gaslessService.selectFeePayer();
+    if (!serverFeePayer) {
+      return res.status(503).json({
+        error: 'Server fee payer not configured',
+      });
+    }
+
+    // Check the transaction against the sponsorship policy before any credit is used
+    const policyResult = sponsorshipPolicyService.check(decodedTransaction, serverFeePayer.publicKey, `sponsor for ${user.id}`);
+    if (!policyResult.allowed) {
+      return res.status(403).json({
+        error: 'Transaction rejected by sponsorship policy',
+        details: policyResult.violation.reason,
+        violation: policyResult.violation,
+      });
+    }
+
+    // Price the sponsorship from this transaction's estimated network fee
+    const quote = await gaslessService.getPaymentQuote(decodedTransaction, user.id);
     if (!quote) {
       return res.status(503).json({
         error: 'Failed to get payment quote',
@@ -6777,18 +7586,26 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
 
     const requiredCredit = quote.payment.amountUSDC;
 
-    // Check if user has sufficient credit
-    const hasCredit = await gaslessCreditService.hasSufficientCredit(user.id, requiredCredit);
-    if (!hasCredit) {
+    // Count the transaction and its estimated fee against the user's and the server-wide quotas
+    const quota = await sponsorshipQuotaService.reserve(user.id, quote.payment.breakdown.estimatedLamports);
+    setSponsorshipQuotaHeaders(res, quota.quotas);
+    if (!quota.allowed) {
+      return respondSponsorshipQuotaExceeded(res, quota.exceeded);
+    }
+    unsubmittedQuotaReservation = quota.reservation;
+
+    // Use credit from the user's balance or their organization's pool
+    // Users who opted in are topped up from their Grid wallet when credit runs short
+    const creditResult = await organizationService.useSponsorshipCredit(user.id, requiredCredit, type, auditContextFromRequest(req));
+    if (creditResult.insufficient) {
       return res.status(402).json({
         error: 'Insufficient credit',
         details: `Required: ${requiredCredit} USDC. Please make a payment first.`,
         requiredCredit,
+        organizationError: creditResult.organizationError,
+        autoTopUp: creditResult.autoTopUp,
       });
     }
-
-    // Use credit
-    const creditResult = await gaslessCreditService.useCredit(user.id, requiredCredit, type);
     if (!creditResult.success) {
       return res.status(402).json({
         error: 'Failed to use credit',
@@ -6796,10 +7613,15 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    await auditCreditConsumed(req, user.id, requiredCredit, type, creditResult);
+    unsubmittedDebitEntryId = creditResult.ledgerEntryId;
+
     // Structure gridData for signing
+    // Decrypt Grid signing material only for the signing step
+    const gridCredentials = await kmsService.decryptGridCredentials(user);
     const gridData = {
-      authData: (user as any).authResult,
-      sessionData: (user as any).sessionSecrets,
+      authData: gridCredentials.authResult,
+      sessionData: gridCredentials.sessionSecrets,
       accountData: {
         address: user.gridAddress,
         status: user.gridStatus,
@@ -6834,47 +7656,33 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
       });
     }
 
-    // Decode transaction
-    let transactionToSponsor: Transaction;
-    try {
-      const transactionBuffer = Buffer.from(transaction, 'base64');
-      transactionToSponsor = Transaction.from(transactionBuffer);
-      Logger.info('Transaction decoded successfully');
-    } catch (error) {
-      Logger.error('Error decoding transaction:', error);
-      return res.status(400).json({
-        error: 'Invalid transaction format',
-        details: 'Transaction must be base64-encoded',
-      });
-    }
-
-    // Get server fee payer
-    const serverFeePayer = gaslessService.getServerFeePayer();
-    if (!serverFeePayer) {
-      return res.status(503).json({
-        error: 'Server fee payer not configured',
-      });
-    }
-
     // Get connection and update blockhash
     const connection = gaslessService.getConnection();
-    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-    
-    // IMPORTANT: Keep fee payer as user for Grid SDK processing
-    // Grid SDK needs the user to be the fee payer to authorize and sign
-    // We'll change it to server after Grid SDK signs
-    transactionToSponsor.recentBlockhash = blockhash;
-    transactionToSponsor.lastValidBlockHeight = lastValidBlockHeight;
-    // Don't set fee payer to server yet - Grid SDK needs user as fee payer
-    // If fee payer is not set, set it to user for Grid SDK
-    if (!transactionToSponsor.feePayer) {
-      transactionToSponsor.feePayer = new PublicKey(user.gridAddress);
+
+    // A v0 message already commits to its fee payer and blockhash, so it is passed to Grid as built
+    if (!isVersionedTransaction(transactionToSponsor)) {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+      // IMPORTANT: Keep fee payer as user for Grid SDK processing
+      // Grid SDK needs the user to be the fee payer to authorize and sign
+      // We'll change it to server after Grid SDK signs
+      transactionToSponsor.recentBlockhash = blockhash;
+      transactionToSponsor.lastValidBlockHeight = lastValidBlockHeight;
+      // Don't set fee payer to server yet - Grid SDK needs user as fee payer
+      // If fee payer is not set, set it to user for Grid SDK
+      if (!transactionToSponsor.feePayer) {
+        transactionToSponsor.feePayer = new PublicKey(user.gridAddress);
+      }
     }
+    const transactionFeePayer = isVersionedTransaction(transactionToSponsor)
+      ? transactionToSponsor.message.staticAccountKeys[0]
+      : transactionToSponsor.feePayer!;
 
     Logger.info(`Preparing transaction with Grid SDK for sponsored transaction`, {
-      feePayer: transactionToSponsor.feePayer.toBase58(),
+      version: decodedTransaction.version,
+      feePayer: transactionFeePayer.toBase58(),
       userAddress: user.gridAddress,
-      numInstructions: transactionToSponsor.instructions.length,
+      numInstructions: decodedTransaction.instructions.length,
       serverFeePayer: serverFeePayer.publicKey.toBase58(),
       note: 'User is fee payer for Grid SDK, will change to server after signing',
     });
@@ -6884,11 +7692,15 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
     let transactionPayloadResponse;
     try {
       // Serialize transaction without server signature
-      const serializedTx = Buffer.from(transactionToSponsor.serialize({ requireAllSignatures: false })).toString('base64');
+      const serializedTx = Buffer.from(
+        isVersionedTransaction(transactionToSponsor)
+          ? transactionToSponsor.serialize()
+          : transactionToSponsor.serialize({ requireAllSignatures: false })
+      ).toString('base64');
       
       Logger.info('Preparing transaction with Grid SDK (user will sign first)', {
         transactionLength: serializedTx.length,
-        originalFeePayer: transactionToSponsor.feePayer?.toBase58() || 'not set',
+        originalFeePayer: transactionFeePayer.toBase58(),
       });
       
       // Prepare transaction with Grid SDK
@@ -7029,28 +7841,43 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
         // Note: User paid the fee, but credit was deducted, so it's effectively sponsored
         Logger.info('Transaction submitted by Grid SDK (user paid fee, but credit was deducted)');
         
-        // Wait for confirmation
-        try {
-          await connection.confirmTransaction(paymentSignature, 'confirmed');
-          Logger.info('Transaction confirmed on-chain');
-        } catch (confirmError) {
-          Logger.error('Error confirming transaction:', confirmError);
-        }
-
         // Get explorer URL
         const explorerUrl = gaslessService.getExplorerUrl(paymentSignature);
 
+        // Grid already broadcast it, so the debit stands even if recording it fails
+        unsubmittedDebitEntryId = undefined;
+        unsubmittedQuotaReservation = undefined;
+
         // Record sponsored transaction
-        await gaslessCreditService.recordSponsoredTransaction(user.id, {
+        let sponsoredTransaction = await gaslessCreditService.recordSponsoredTransaction(user.id, {
           paymentId: creditResult.paymentId,
           type,
           signature: paymentSignature,
           usdcCreditUsed: requiredCredit,
           network: process.env.SOLANA_NETWORK || 'mainnet',
           explorerUrl,
-          status: 'CONFIRMED',
+          status: 'SUBMITTED',
+          debitEntryId: creditResult.ledgerEntryId,
+          // Grid picks its own blockhash, so bound the expiry from the current height
+          lastValidBlockHeight: await gaslessService.getSubmissionExpiryHeight(),
         });
 
+        // Wait for confirmation
+        try {
+          await connection.confirmTransaction(paymentSignature, 'confirmed');
+          Logger.info('Transaction confirmed on-chain');
+        } catch (confirmError) {
+          Logger.error('Error confirming transaction:', confirmError);
+        }
+
+        sponsoredTransaction = await gaslessCreditService.settleSponsoredTransaction(
+          sponsoredTransaction,
+          auditContextFromRequest(req)
+        );
+        if (sponsoredTransaction.status === 'FAILED') {
+          return respondSponsoredTransactionFailed(res, sponsoredTransaction, requiredCredit);
+        }
+
         Logger.info(`Transaction sponsored successfully for ${email}: ${paymentSignature}`);
 
         return res.json({
@@ -7058,9 +7885,12 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
           message: 'Transaction sponsored using credit',
           signature: paymentSignature,
           explorerUrl,
+          sponsoredTransaction: serializeSponsoredTransaction(sponsoredTransaction),
           credit: {
             used: requiredCredit,
             remaining: creditResult.remainingCredit || 0,
+            organizationId: creditResult.organizationId,
+            autoTopUp: creditResult.autoTopUp,
           },
           transactionInfo: {
             network: process.env.SOLANA_NETWORK || 'mainnet',
@@ -7119,7 +7949,10 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
     // If Grid SDK already submitted, paymentSignature is set and we returned above
     // Otherwise, we need to handle the signed transaction
     Logger.info('Extracting signed transaction from Grid SDK response...');
-    let finalTransaction: Transaction;
+    let finalTransaction: AnyTransaction;
+    // Last block height at which the submitted transaction can still land
+    let finalLastValidBlockHeight: number | undefined;
+    let sponsoredTransaction: SponsoredTransaction;
     
     // paymentSignature is already declared above
     // If it's set, Grid SDK already submitted and we returned early
@@ -7129,16 +7962,16 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
         // Deserialize the Grid SDK-signed transaction
         // This has user as fee payer and user's signature
         const signedTxBuffer = Buffer.from(signedTransactionBase64, 'base64');
-        const gridSignedTx = Transaction.from(signedTxBuffer);
+        const gridSignedTx = deserializeTransaction(signedTxBuffer);
+        const decodedGridSignedTx = await decodeTransaction(connection, gridSignedTx);
         Logger.info('Deserialized Grid SDK-signed transaction', {
-          feePayer: gridSignedTx.feePayer?.toBase58() || 'not set',
-          numSignatures: gridSignedTx.signatures.length,
+          version: decodedGridSignedTx.version,
+          feePayer: decodedGridSignedTx.feePayer?.toBase58() || 'not set',
+          numSignatures: decodedGridSignedTx.signers.length,
         });
         
         // Extract user's signature (for instructions)
-        const userSignature = gridSignedTx.signatures.find(
-          sig => !sig.signature?.every(b => b === 0)
-        );
+        const userSignature = decodedGridSignedTx.signers.find(sig => sig.signature);
         
         if (!userSignature) {
           Logger.error('No user signature found in Grid SDK-signed transaction');
@@ -7150,7 +7983,7 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
 
         Logger.info('User signature found', {
           userPubkey: userSignature.publicKey.toBase58(),
-          isSigned: !userSignature.signature?.every(b => b === 0),
+          isSigned: true,
         });
 
         // IMPORTANT: We cannot change the fee payer after signing without invalidating signatures
@@ -7183,14 +8016,19 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
         finalTransaction = gridSignedTx;
         
         // Update blockhash if needed (might have expired)
-        const { blockhash: updatedBlockhash, lastValidBlockHeight: updatedLastValidBlockHeight } = 
-          await connection.getLatestBlockhash('confirmed');
-        finalTransaction.recentBlockhash = updatedBlockhash;
-        finalTransaction.lastValidBlockHeight = updatedLastValidBlockHeight;
+        if (isVersionedTransaction(finalTransaction)) {
+          finalLastValidBlockHeight = await gaslessService.getSubmissionExpiryHeight();
+        } else {
+          const { blockhash: updatedBlockhash, lastValidBlockHeight: updatedLastValidBlockHeight } = 
+            await connection.getLatestBlockhash('confirmed');
+          finalTransaction.recentBlockhash = updatedBlockhash;
+          finalTransaction.lastValidBlockHeight = updatedLastValidBlockHeight;
+          finalLastValidBlockHeight = updatedLastValidBlockHeight;
+        }
         
         Logger.info('Using Grid SDK-signed transaction', {
-          feePayer: finalTransaction.feePayer?.toBase58() || 'not set',
-          numSignatures: finalTransaction.signatures.length,
+          feePayer: decodedGridSignedTx.feePayer?.toBase58() || 'not set',
+          numSignatures: decodedGridSignedTx.signers.length,
           note: 'User is fee payer, but credit was deducted so transaction is effectively sponsored',
         });
       } else {
@@ -7198,21 +8036,28 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
         finalTransaction = transactionToSponsor;
         Logger.info('Using original transaction with server signature (Grid SDK did not return signed transaction)');
         
-        // Ensure fee payer is set
-        if (!finalTransaction.feePayer) {
-          Logger.warn('Fee payer not set in original transaction, setting to server...');
-          finalTransaction.feePayer = serverFeePayer.publicKey;
+        if (isVersionedTransaction(finalTransaction)) {
+          finalLastValidBlockHeight = await gaslessService.getSubmissionExpiryHeight();
+        } else {
+          // Ensure fee payer is set
+          if (!finalTransaction.feePayer) {
+            Logger.warn('Fee payer not set in original transaction, setting to server...');
+            finalTransaction.feePayer = serverFeePayer.publicKey;
+          }
+          
+          // Update blockhash
+          const { blockhash: updatedBlockhash2, lastValidBlockHeight: updatedLastValidBlockHeight2 } = 
+            await connection.getLatestBlockhash('confirmed');
+          finalTransaction.recentBlockhash = updatedBlockhash2;
+          finalTransaction.lastValidBlockHeight = updatedLastValidBlockHeight2;
+          finalLastValidBlockHeight = updatedLastValidBlockHeight2;
         }
-        
-        // Update blockhash
-        const { blockhash: updatedBlockhash2, lastValidBlockHeight: updatedLastValidBlockHeight2 } = 
-          await connection.getLatestBlockhash('confirmed');
-        finalTransaction.recentBlockhash = updatedBlockhash2;
-        finalTransaction.lastValidBlockHeight = updatedLastValidBlockHeight2;
       }
 
+      const decodedFinalTransaction = await decodeTransaction(connection, finalTransaction);
+
       // Final check: ensure fee payer is set before submission
-      if (!finalTransaction.feePayer) {
+      if (!decodedFinalTransaction.feePayer) {
         Logger.error('Fee payer is still not set, cannot submit transaction');
         return res.status(500).json({
           error: 'Transaction fee payer not set',
@@ -7220,60 +8065,90 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
         });
       }
 
-      // Step 4: Submit the transaction with both signatures
-      Logger.info('Submitting transaction with both user and server signatures...');
-      if (!paymentSignature) {
-        paymentSignature = await connection.sendRawTransaction(
-          finalTransaction.serialize(),
-          {
-            skipPreflight: false,
-            preflightCommitment: 'confirmed',
-          }
-        );
+      // Grid may rebuild the transaction, so re-check what the server fee payer will pay for
+      if (decodedFinalTransaction.feePayer.equals(serverFeePayer.publicKey)) {
+        const finalPolicyResult = sponsorshipPolicyService.check(decodedFinalTransaction, serverFeePayer.publicKey, `submit for ${user.id}`);
+        if (!finalPolicyResult.allowed) {
+          return res.status(403).json({
+            error: 'Transaction rejected by sponsorship policy',
+            details: finalPolicyResult.violation.reason,
+            violation: finalPolicyResult.violation,
+          });
+        }
       }
 
+      // The signature is known once signed, so the transaction is recorded as submitted before it is
+      // broadcast. A send that fails after reaching the network is then settled from the chain
+      paymentSignature = getTransactionSignature(finalTransaction);
       if (!paymentSignature) {
-        Logger.error('Failed to get transaction signature');
+        Logger.error('Final transaction is missing its fee payer signature');
         return res.status(500).json({
           error: 'Failed to submit transaction',
-          details: 'No transaction signature received',
+          details: 'Transaction is missing its fee payer signature',
         });
       }
 
+      sponsoredTransaction = await gaslessCreditService.recordSponsoredTransaction(user.id, {
+        paymentId: creditResult.paymentId,
+        type,
+        signature: paymentSignature,
+        usdcCreditUsed: requiredCredit,
+        network: process.env.SOLANA_NETWORK || 'mainnet',
+        explorerUrl: gaslessService.getExplorerUrl(paymentSignature),
+        status: 'SUBMITTED',
+        debitEntryId: creditResult.ledgerEntryId,
+        lastValidBlockHeight: finalLastValidBlockHeight,
+      });
+      // Recorded as submitted: from here the outcome is settled from the chain
+      unsubmittedDebitEntryId = undefined;
+      unsubmittedQuotaReservation = undefined;
+
+      // Step 4: Submit the transaction with both signatures
+      Logger.info('Submitting transaction with both user and server signatures...');
+      await connection.sendRawTransaction(
+        finalTransaction.serialize(),
+        {
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+        }
+      );
+
       Logger.info(`Transaction submitted with both signatures: ${paymentSignature}`);
     } catch (submitError: any) {
       Logger.error('Error adding server signature or submitting transaction:', {
         error: submitError?.message,
         stack: submitError?.stack,
       });
+      gaslessService.recheckFeePayerIfUnderfunded(serverFeePayer, submitError);
       return res.status(500).json({
         error: 'Failed to add server signature or submit transaction',
         details: submitError?.message || 'Unknown error',
+        ...(paymentSignature && {
+          signature: paymentSignature,
+          note: 'The transaction is settled from the chain; its credit is refunded if it never lands',
+        }),
       });
     }
 
+    // Get explorer URL
+    const explorerUrl = gaslessService.getExplorerUrl(paymentSignature);
+
     // Wait for confirmation
     try {
       await connection.confirmTransaction(paymentSignature, 'confirmed');
       Logger.info('Transaction confirmed on-chain with both user and server signatures');
     } catch (confirmError) {
       Logger.error('Error confirming transaction:', confirmError);
-      // Continue anyway - transaction might still be processing
+      // Settled below, or by the reconciler if it is still processing
     }
 
-    // Get explorer URL
-    const explorerUrl = gaslessService.getExplorerUrl(paymentSignature);
-
-    // Record sponsored transaction
-    await gaslessCreditService.recordSponsoredTransaction(user.id, {
-      paymentId: creditResult.paymentId,
-      type,
-      signature: paymentSignature,
-      usdcCreditUsed: requiredCredit,
-      network: process.env.SOLANA_NETWORK || 'mainnet',
-      explorerUrl,
-      status: 'CONFIRMED',
-    });
+    sponsoredTransaction = await gaslessCreditService.settleSponsoredTransaction(
+      sponsoredTransaction,
+      auditContextFromRequest(req)
+    );
+    if (sponsoredTransaction.status === 'FAILED') {
+      return respondSponsoredTransactionFailed(res, sponsoredTransaction, requiredCredit);
+    }
 
     Logger.info(`Transaction sponsored successfully for ${email}: ${paymentSignature}`);
 
@@ -7282,9 +8157,12 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
       message: 'Transaction sponsored using credit',
       signature: paymentSignature,
       explorerUrl,
+      sponsoredTransaction: serializeSponsoredTransaction(sponsoredTransaction),
       credit: {
         used: requiredCredit,
         remaining: creditResult.remainingCredit || 0,
+        organizationId: creditResult.organizationId,
+        autoTopUp: creditResult.autoTopUp,
       },
       transactionInfo: {
         network: process.env.SOLANA_NETWORK || 'mainnet',
@@ -7301,6 +8179,17 @@ export const sponsorTransaction = async (req: Request, res: Response) => {
       error: 'Failed to sponsor transaction',
       details: error instanceof Error ? error.message : 'Unknown error',
     });
+  } finally {
+    if (unsubmittedDebitEntryId) {
+      await gaslessCreditService.refundCredit(
+        unsubmittedDebitEntryId,
+        'Sponsored transaction was not submitted',
+        auditContextFromRequest(req)
+      );
+    }
+    if (unsubmittedQuotaReservation) {
+      await sponsorshipQuotaService.release(unsubmittedQuotaReservation);
+    }
   }
 };
 
@@ -7326,6 +8215,19 @@ export const createTransactionForSponsor = async (req: Request, res: Response) =
       });
     }
 
+    // Only the caller's own Grid account may be the sender
+    const caller = await prisma.user.findUnique({
+      where: { id: req.userId! },
+      select: { gridAddress: true },
+    });
+
+    if (!caller?.gridAddress || caller.gridAddress !== fromAddress) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        details: 'fromAddress must be your Grid account address',
+      });
+    }
+
     Logger.info(`Creating transaction for sponsorship: ${amount} from ${fromAddress} to ${toAddress}`);
 
     // Check if service is configured
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import Logger from '../utils/logger';
+import x402FacilitatorService from '../services/x402-facilitator.service';
+import { X402FacilitatorRequestInput } from '../schemas/x402.schemas';
+
+// Payment kinds this facilitator supports, with the fee payer clients should build for
+export const getSupported = async (req: Request, res: Response) => {
+  res.json(x402FacilitatorService.getSupported());
+};
+
+// Verify an x402 payment payload against payment requirements without settling it
+export const verifyPayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentPayload, paymentRequirements } = req.body as X402FacilitatorRequestInput;
+    const verification = await x402FacilitatorService.verify(paymentPayload, paymentRequirements);
+
+    if (!verification.isValid) {
+      Logger.warn(`x402 payment rejected by ${req.userId}: ${verification.invalidReason}`);
+    }
+    res.json(verification);
+  } catch (error) {
+    Logger.error('Error verifying x402 payment:', error);
+    res.status(500).json({
+      error: 'Failed to verify payment',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Verify an x402 payment payload, then co-sign it as fee payer and submit it
+export const settlePayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentPayload, paymentRequirements } = req.body as X402FacilitatorRequestInput;
+    const settlement = await x402FacilitatorService.settle(paymentPayload, paymentRequirements);
+
+    if (!settlement.success) {
+      Logger.warn(`x402 settlement for ${req.userId} failed: ${settlement.errorReason}`);
+    }
+    res.json(settlement);
+  } catch (error) {
+    Logger.error('Error settling x402 payment:', error);
+    res.status(500).json({
+      error: 'Failed to settle payment',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
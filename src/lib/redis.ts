@@ -0,0 +1,62 @@
+// src/lib/redis.ts
+import Redis from 'ioredis';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+let client: Redis | null | undefined;
+
+/**
+ * Shared Redis client, or null when Redis is not configured.
+ * Commands fail fast while disconnected so callers can fall back.
+ */
+export const getRedisClient = (): Redis | null => {
+  if (client !== undefined) {
+    return client;
+  }
+
+  if (!config.redis.url && !config.redis.host) {
+    client = null;
+    return client;
+  }
+
+  const options = {
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+  };
+
+  client = config.redis.url
+    ? new Redis(config.redis.url, options)
+    : new Redis({
+        ...options,
+        host: config.redis.host,
+        port: config.redis.port,
+        password: config.redis.password || undefined,
+      });
+
+  // Log connection errors once per outage instead of on every reconnect attempt
+  let reportedError = false;
+  client.on('ready', () => {
+    reportedError = false;
+    Logger.info('Connected to Redis');
+  });
+  client.on('error', (error) => {
+    if (!reportedError) {
+      reportedError = true;
+      Logger.warn(`Redis unavailable: ${error.message}`);
+    }
+  });
+
+  return client;
+};
+
+/**
+ * Check if the shared client can currently serve commands
+ */
+export const isRedisReady = (): boolean => getRedisClient()?.status === 'ready';
+
+export const disconnectRedis = async (): Promise<void> => {
+  if (client) {
+    await client.quit().catch(() => client?.disconnect());
+    client = undefined;
+  }
+};
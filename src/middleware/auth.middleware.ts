@@ -1,25 +1,101 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
 import Logger from '../utils/logger';
 import prisma from '../lib/prisma';
+import { config } from '../config/env';
+import sessionService, { IssuedSession } from '../services/session.service';
 
 interface AuthenticatedRequest extends Request {
   userId: string;
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const TOKEN_EXPIRY = '24h';
+interface AccessTokenPayload {
+  userId: string;
+  sid: string;
+  jti: string;
+  exp: number;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+}
+
+const getJwtSecret = (): string => {
+  if (!config.auth.jwtSecret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  return config.auth.jwtSecret;
+};
 
-export const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: TOKEN_EXPIRY });
+// Short-lived access token bound to an auth session
+export const generateToken = (userId: string, sessionId: string): string => {
+  return jwt.sign({ userId, sid: sessionId }, getJwtSecret(), {
+    expiresIn: config.auth.accessTokenExpiry as jwt.SignOptions['expiresIn'],
+    jwtid: crypto.randomUUID(),
+  });
+};
+
+const buildAuthTokens = (userId: string, session: IssuedSession): AuthTokens => ({
+  token: generateToken(userId, session.sessionId),
+  refreshToken: session.refreshToken,
+  refreshTokenExpiresAt: session.expiresAt,
+  sessionId: session.sessionId,
+});
+
+const getSessionMetadata = (req: Request) => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null,
+});
+
+// Start a new device session and issue an access/refresh token pair
+export const issueAuthTokens = async (userId: string, req: Request): Promise<AuthTokens> => {
+  const session = await sessionService.createSession(userId, getSessionMetadata(req));
+  return buildAuthTokens(userId, session);
+};
+
+// Rotate a refresh token and issue a new access/refresh token pair
+export const refreshAuthTokens = async (
+  refreshToken: string,
+  req: Request
+): Promise<{ tokens?: AuthTokens; error?: string }> => {
+  const result = await sessionService.rotateRefreshToken(refreshToken, getSessionMetadata(req));
+  if (!result.success) {
+    return { error: result.error };
+  }
+  return { tokens: buildAuthTokens(result.userId, result.session) };
 };
 
 export const verifyToken = async (
   token: string
-): Promise<{ userId: string } | null> => {
+): Promise<{ userId: string; sessionId: string; tokenId: string; expiresAt: Date } | null> => {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    return decoded;
+    const decoded = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+
+    if (!decoded.sid || !decoded.jti) {
+      return null;
+    }
+
+    if (await sessionService.isAccessTokenRevoked(decoded.jti)) {
+      Logger.warn(`Rejected revoked access token ${decoded.jti}`);
+      return null;
+    }
+
+    if (!(await sessionService.isSessionActive(decoded.sid))) {
+      Logger.warn(`Rejected access token for inactive session ${decoded.sid}`);
+      return null;
+    }
+
+    return {
+      userId: decoded.userId,
+      sessionId: decoded.sid,
+      tokenId: decoded.jti,
+      expiresAt: new Date(decoded.exp * 1000),
+    };
   } catch (error) {
     Logger.error('Token verification failed:', error);
     return null;
@@ -47,18 +123,108 @@ export const authMiddleware = async (
     // Check if user exists and is active
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, isActive: true },
+      select: { id: true, isActive: true, role: true },
     });
 
     if (!user || !user.isActive) {
       return res.status(401).json({ error: 'User not found or inactive' });
     }
 
-    // Attach user ID to request for use in controllers
+    // Attach user and session to request for use in controllers
     req.userId = decoded.userId;
+    req.userRole = user.role;
+    req.sessionId = decoded.sessionId;
+    req.tokenId = decoded.tokenId;
+    req.tokenExpiresAt = decoded.expiresAt;
     next();
   } catch (error) {
     Logger.error('Authentication error:', error);
     res.status(401).json({ error: 'Authentication failed' });
   }
 };
+
+/**
+ * Restricts a route to users holding one of the given roles.
+ * Must run after authMiddleware.
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.userId || !req.userRole) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    if (!roles.includes(req.userRole)) {
+      Logger.warn(`User ${req.userId} (${req.userRole}) denied access to ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({
+        error: 'Forbidden',
+        details: `This action requires one of the following roles: ${roles.join(', ')}`,
+      });
+    }
+
+    next();
+  };
+};
+
+// Admins may act on any account; operators may only read other accounts
+const canActOnOtherAccounts = (req: Request): boolean =>
+  req.userRole === UserRole.ADMIN || (req.userRole === UserRole.OPERATOR && req.method === 'GET');
+
+// Request fields that identify the acting user on email-based handlers
+const USER_EMAIL_FIELDS = ['email', 'fromEmail'] as const;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Scopes an email-based handler to the authenticated user.
+ * Must run after authMiddleware. Rejects any email in the path or body that
+ * does not belong to the caller, then binds the caller's email so the
+ * downstream handler can only ever act on their own account.
+ * Admins (and operators, for reads) may target any account by email.
+ */
+export const scopeToAuthenticatedUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found or inactive' });
+    }
+
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const suppliedEmails = [
+      req.params?.email,
+      ...USER_EMAIL_FIELDS.map((field) => body[field]),
+    ].filter((value): value is string => typeof value === 'string' && value.length > 0);
+
+    // Staff targeting another account keep the supplied email untouched
+    if (suppliedEmails.length > 0 && canActOnOtherAccounts(req)) {
+      return next();
+    }
+
+    const ownEmail = normalizeEmail(user.email);
+    if (suppliedEmails.some((email) => normalizeEmail(email) !== ownEmail)) {
+      Logger.warn(`User ${req.userId} attempted to access another user's account on ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({
+        error: 'Forbidden',
+        details: 'You can only access your own account',
+      });
+    }
+
+    req.params = { ...req.params, email: user.email };
+    req.body = { ...body, email: user.email, fromEmail: user.email };
+    next();
+  } catch (error) {
+    Logger.error('User scoping error:', error);
+    res.status(500).json({ error: 'Failed to resolve authenticated user' });
+  }
+};
@@ -0,0 +1,136 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import { prismaError, prismaMock as db } from '../test/prisma-mock';
+import { idempotency } from './idempotency.middleware';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+
+const handler = jest.fn((req: Request, res: Response) => {
+  res.status(201).json({ transferId: 'transfer-1' });
+});
+
+const app = express();
+app.use(express.json());
+app.post('/transfers', idempotency, (req, res) => handler(req, res));
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  scope: 'ip:127.0.0.1',
+  key: 'retry-me',
+  requestHash: db.idempotencyKey.create.mock.calls[0]?.[0].data.requestHash,
+  status: 'COMPLETED',
+  responseStatus: 201,
+  responseBody: { transferId: 'transfer-1' },
+  expiresAt: new Date(Date.now() + 60_000),
+  ...overrides,
+});
+
+let server: Server;
+let baseUrl: string;
+
+const post = async (body: unknown, key?: string) => {
+  const response = await fetch(`${baseUrl}/transfers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(key && { 'Idempotency-Key': key }) },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+// Responses are stored after they are sent
+const flushStore = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('idempotency middleware', () => {
+  beforeAll((done) => {
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.idempotencyKey.create.mockReset().mockResolvedValue({ id: 'key-1' });
+    db.idempotencyKey.findUnique.mockReset();
+    db.idempotencyKey.update.mockReset().mockResolvedValue({});
+    db.idempotencyKey.deleteMany.mockReset();
+  });
+
+  it('runs requests without a key normally', async () => {
+    expect((await post({ amount: 1 })).status).toBe(201);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(db.idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('stores the response of the first request with a key', async () => {
+    expect((await post({ amount: 1 }, 'retry-me')).status).toBe(201);
+    await flushStore();
+
+    expect(db.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { status: 'COMPLETED', responseStatus: 201, responseBody: { transferId: 'transfer-1' } },
+    });
+  });
+
+  it('replays the stored response for a retry without running the handler again', async () => {
+    await post({ amount: 1 }, 'retry-me');
+    db.idempotencyKey.create.mockRejectedValue(prismaError('P2002'));
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey());
+    handler.mockClear();
+
+    const retry = await post({ amount: 1 }, 'retry-me');
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(retry.body).toEqual({ transferId: 'transfer-1' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    db.idempotencyKey.create.mockRejectedValue(prismaError('P2002'));
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey({ requestHash: 'another-request' }));
+
+    expect((await post({ amount: 2 }, 'retry-me')).status).toBe(422);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    await post({ amount: 1 }, 'retry-me');
+    db.idempotencyKey.create.mockRejectedValue(prismaError('P2002'));
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey({ status: 'IN_PROGRESS', responseStatus: null }));
+    handler.mockClear();
+
+    expect((await post({ amount: 1 }, 'retry-me')).status).toBe(409);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('stores server errors so a retry cannot move funds a second time', async () => {
+    handler.mockImplementationOnce((req, res) => {
+      res.status(500).json({ error: 'Transaction submitted but could not be recorded' });
+    });
+
+    expect((await post({ amount: 1 }, 'retry-me')).status).toBe(500);
+    await flushStore();
+
+    expect(db.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: expect.objectContaining({ status: 'COMPLETED', responseStatus: 500 }),
+    });
+    expect(db.idempotencyKey.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('reclaims an expired key', async () => {
+    db.idempotencyKey.create.mockRejectedValueOnce(prismaError('P2002')).mockResolvedValueOnce({ id: 'key-2' });
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey({ expiresAt: new Date(Date.now() - 1000) }));
+    db.idempotencyKey.deleteMany.mockResolvedValue({ count: 1 });
+
+    expect((await post({ amount: 1 }, 'retry-me')).status).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
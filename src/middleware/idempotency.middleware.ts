@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import Logger from '../utils/logger';
+import idempotencyService from '../services/idempotency.service';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honor the Idempotency-Key header: the first request with a key runs
+ * normally and its response is stored; retries with the same key and body
+ * get the stored response back instead of running again.
+ * Place after authMiddleware so keys are scoped to the user.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: 'Invalid Idempotency-Key',
+      details: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  let result;
+  try {
+    result = await idempotencyService.begin({
+      scope: req.userId || `ip:${req.ip}`,
+      key,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      body: req.body,
+    });
+  } catch (error) {
+    Logger.error('Idempotency key lookup failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      details: 'Failed to process Idempotency-Key',
+    });
+  }
+
+  switch (result.status) {
+    case 'conflict':
+      return res.status(422).json({
+        error: 'Idempotency-Key reused',
+        details: 'This Idempotency-Key was already used with a different request',
+      });
+    case 'in_progress':
+      return res.status(409).json({
+        error: 'Request in progress',
+        details: 'A request with this Idempotency-Key is still being processed',
+      });
+    case 'replay':
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(result.responseStatus).json(result.responseBody);
+  }
+
+  const { recordId } = result;
+  const originalJson = res.json.bind(res);
+
+  res.json = (body: any) => {
+    // Server errors are stored too: the handler may already have moved funds before failing
+    idempotencyService.complete(recordId, res.statusCode, body).catch((error) => {
+      Logger.error(`Failed to store response for Idempotency-Key ${key}:`, error);
+    });
+
+    return originalJson(body);
+  };
+
+  next();
+};
@@ -0,0 +1,103 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import otpGuardService from '../services/otp-guard.service';
+import { otpAttemptGuard } from './otp-guard.middleware';
+
+jest.mock('../services/otp-guard.service', () => ({
+  __esModule: true,
+  default: { reserveAttempt: jest.fn(), releaseAttempt: jest.fn() },
+}));
+
+const guard = otpGuardService as jest.Mocked<typeof otpGuardService>;
+
+const handler = jest.fn((req: Request, res: Response) => {
+  req.otpAttemptSettled = true;
+  res.json({ success: true });
+});
+
+const app = express();
+app.use(express.json());
+app.post('/complete', otpAttemptGuard, (req, res) => handler(req, res));
+
+let server: Server;
+let baseUrl: string;
+
+const complete = async (body: unknown) => {
+  const response = await fetch(`${baseUrl}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+// Attempts are released after the response closes
+const flushRelease = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('otpAttemptGuard', () => {
+  beforeAll((done) => {
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    guard.reserveAttempt.mockResolvedValue({ allowed: true });
+    guard.releaseAttempt.mockResolvedValue();
+  });
+
+  it('lets a reserved attempt through and keeps it once the handler settled it', async () => {
+    expect((await complete({ email: 'user%40example.com', otpCode: '123456' })).status).toBe(200);
+    await flushRelease();
+
+    expect(guard.reserveAttempt).toHaveBeenCalledWith('user@example.com', '127.0.0.1');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(guard.releaseAttempt).not.toHaveBeenCalled();
+  });
+
+  it('releases the attempt when the handler returns without checking a code', async () => {
+    handler.mockImplementationOnce((req, res) => {
+      res.status(404).json({ error: 'User not found' });
+    });
+
+    expect((await complete({ email: 'user@example.com', otpCode: '123456' })).status).toBe(404);
+    await flushRelease();
+
+    expect(guard.releaseAttempt).toHaveBeenCalledWith('user@example.com', '127.0.0.1');
+  });
+
+  it('rejects attempts during the back-off with Retry-After', async () => {
+    guard.reserveAttempt.mockResolvedValue({ allowed: false, reason: 'backoff', scope: 'EMAIL', retryAfterMs: 3500 });
+
+    const response = await complete({ email: 'user@example.com', otpCode: '123456' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('4');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects attempts while locked out', async () => {
+    guard.reserveAttempt.mockResolvedValue({ allowed: false, reason: 'locked', scope: 'IP', retryAfterMs: 60_000 });
+
+    const response = await complete({ email: 'user@example.com', otpCode: '123456' });
+
+    expect(response.status).toBe(423);
+    expect(response.body.retryAfter).toBe(60);
+  });
+
+  it('fails closed when the attempt tracker is unavailable', async () => {
+    guard.reserveAttempt.mockRejectedValue(new Error('database unavailable'));
+
+    const response = await complete({ email: 'user@example.com', otpCode: '123456' });
+
+    expect(response.status).toBe(503);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import Logger from '../utils/logger';
+import otpGuardService from '../services/otp-guard.service';
+
+/**
+ * Reserves an OTP attempt for the email and client IP, rejecting verification
+ * while either is backing off or locked out after repeated failed codes.
+ * Handlers settle the attempt through otpGuardService.recordFailure / recordSuccess;
+ * one they never settle is released once the response closes.
+ */
+export const otpAttemptGuard = async (req: Request, res: Response, next: NextFunction) => {
+  const email = req.body && typeof req.body === 'object' ? req.body.email : undefined;
+  if (typeof email !== 'string' || !email.trim()) {
+    return next();
+  }
+
+  try {
+    const decodedEmail = decodeURIComponent(email);
+    const check = await otpGuardService.reserveAttempt(decodedEmail, req.ip);
+    if (check.allowed) {
+      // The handler returned before verifying a code (unknown user, missing Grid data)
+      res.once('close', () => {
+        if (!req.otpAttemptSettled) {
+          otpGuardService.releaseAttempt(decodedEmail, req.ip).catch((error) => {
+            Logger.error('Failed to release OTP attempt:', error);
+          });
+        }
+      });
+      return next();
+    }
+
+    const retryAfter = Math.max(1, Math.ceil(check.retryAfterMs / 1000));
+    res.setHeader('Retry-After', retryAfter);
+    Logger.warn(`OTP attempt rejected (${check.reason}, ${check.scope.toLowerCase()}) on ${req.originalUrl} (ip: ${req.ip})`);
+
+    if (check.reason === 'locked') {
+      return res.status(423).json({
+        error: 'Too many failed verification attempts',
+        details: `Verification is temporarily locked. Try again in ${retryAfter} seconds or contact support.`,
+        retryAfter,
+      });
+    }
+
+    return res.status(429).json({
+      error: 'Too many requests',
+      details: `Wait ${retryAfter} seconds before trying another verification code.`,
+      retryAfter,
+    });
+  } catch (error) {
+    // Without the tracker, failed codes would go uncounted
+    Logger.error('OTP attempt guard error:', error);
+    return res.status(503).json({
+      error: 'Verification temporarily unavailable',
+      details: 'Please try again shortly.',
+    });
+  }
+};
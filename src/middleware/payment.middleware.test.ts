@@ -0,0 +1,166 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { Keypair } from '@solana/web3.js';
+import { prismaError } from '../test/prisma-mock';
+import gaslessService from '../services/gasless.service';
+import gaslessCreditService from '../services/gasless-credit.service';
+import feePayerPoolService from '../services/fee-payer-pool.service';
+import x402FacilitatorService from '../services/x402-facilitator.service';
+import { requirePayment } from './payment.middleware';
+
+jest.mock('../services/gasless.service', () => ({
+  __esModule: true,
+  default: { getRecipient: jest.fn(), getExplorerUrl: jest.fn() },
+}));
+jest.mock('../services/gasless-credit.service', () => ({
+  __esModule: true,
+  default: { recordPaywallPayment: jest.fn() },
+}));
+jest.mock('../services/fee-payer-pool.service', () => ({ __esModule: true, default: { peek: jest.fn() } }));
+jest.mock('../services/x402-facilitator.service', () => ({
+  __esModule: true,
+  default: { settle: jest.fn() },
+  EXACT_SCHEME: 'exact',
+  X402_NETWORK: 'solana',
+  X402_VERSION: 1,
+}));
+
+const recipient = { wallet: Keypair.generate().publicKey, usdcMint: Keypair.generate().publicKey };
+const feePayer = Keypair.generate().publicKey;
+const payer = Keypair.generate().publicKey.toBase58();
+
+const settle = x402FacilitatorService.settle as jest.Mock;
+const recordPaywallPayment = gaslessCreditService.recordPaywallPayment as jest.Mock;
+
+const app = express();
+app.get('/report', requirePayment({ priceUSDC: 0.25, description: 'Premium report' }), (req, res) => {
+  res.json({ report: 'paid content' });
+});
+
+let server: Server;
+let baseUrl: string;
+
+const paymentHeader = (payload: unknown = {
+  x402Version: 1,
+  scheme: 'exact',
+  network: 'solana',
+  payload: { transaction: 'c2lnbmVk' },
+}) => Buffer.from(JSON.stringify(payload)).toString('base64');
+
+const getReport = async (payment?: string) => {
+  const response = await fetch(`${baseUrl}/report`, { headers: payment ? { 'X-PAYMENT': payment } : {} });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+describe('requirePayment', () => {
+  beforeAll((done) => {
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (gaslessService.getRecipient as jest.Mock).mockReturnValue(recipient);
+    (feePayerPoolService.peek as jest.Mock).mockReturnValue(feePayer);
+    settle.mockResolvedValue({ success: true, transaction: 'settled-signature', network: 'solana', payer });
+    recordPaywallPayment.mockResolvedValue({});
+  });
+
+  it('rejects a non-positive price when the route is defined', () => {
+    expect(() => requirePayment({ priceUSDC: 0, description: 'Free' })).toThrow('priceUSDC must be positive');
+  });
+
+  it('answers 402 with the payment requirements when no payment is sent', async () => {
+    const response = await getReport();
+
+    expect(response.status).toBe(402);
+    expect(response.body).toEqual({
+      x402Version: 1,
+      error: 'X-PAYMENT header is required',
+      accepts: [
+        expect.objectContaining({
+          scheme: 'exact',
+          network: 'solana',
+          maxAmountRequired: '250000',
+          resource: `${baseUrl}/report`,
+          description: 'Premium report',
+          payTo: recipient.wallet.toBase58(),
+          asset: recipient.usdcMint.toBase58(),
+          extra: { feePayer: feePayer.toBase58() },
+        }),
+      ],
+    });
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it('answers 402 for a header that is not a payment payload', async () => {
+    const response = await getReport(Buffer.from('not json').toString('base64'));
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Invalid X-PAYMENT header');
+  });
+
+  it('settles the payment, records it and serves the request', async () => {
+    const response = await getReport(paymentHeader());
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ report: 'paid content' });
+    expect(settle).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { transaction: 'c2lnbmVk' } }),
+      expect.not.objectContaining({ extra: expect.anything() })
+    );
+    expect(recordPaywallPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ signature: 'settled-signature', amount: '250000', amountUSDC: 0.25, fromAddress: payer })
+    );
+    expect(JSON.parse(Buffer.from(response.headers.get('x-payment-response')!, 'base64').toString())).toEqual({
+      success: true,
+      transaction: 'settled-signature',
+      network: 'solana',
+      payer,
+    });
+  });
+
+  it('answers 402 with the reason when settlement fails', async () => {
+    settle.mockResolvedValue({
+      success: false,
+      errorReason: 'invalid_amount',
+      errorMessage: 'Transfer of 1 does not match the required 250000',
+      transaction: '',
+      network: 'solana',
+    });
+
+    const response = await getReport(paymentHeader());
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Transfer of 1 does not match the required 250000');
+    expect(recordPaywallPayment).not.toHaveBeenCalled();
+  });
+
+  it('does not serve a second request for a payment that was already used', async () => {
+    recordPaywallPayment.mockRejectedValue(prismaError('P2002'));
+
+    const response = await getReport(paymentHeader());
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Payment has already been used');
+  });
+
+  it('serves the request when the settled payment cannot be recorded', async () => {
+    recordPaywallPayment.mockRejectedValue(new Error('database unavailable'));
+
+    expect((await getReport(paymentHeader())).status).toBe(200);
+  });
+
+  it('answers 503 when payments are not configured', async () => {
+    (gaslessService.getRecipient as jest.Mock).mockReturnValue(null);
+
+    expect((await getReport(paymentHeader())).status).toBe(503);
+  });
+});
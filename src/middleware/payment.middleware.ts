@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import Logger from '../utils/logger';
+import gaslessService from '../services/gasless.service';
+import gaslessCreditService from '../services/gasless-credit.service';
+import feePayerPoolService from '../services/fee-payer-pool.service';
+import x402FacilitatorService, { EXACT_SCHEME, X402_NETWORK, X402_VERSION } from '../services/x402-facilitator.service';
+import { X402PaymentPayloadInput, X402PaymentRequirementsInput, x402PaymentPayloadSchema } from '../schemas/x402.schemas';
+
+export interface RequirePaymentOptions {
+  // Price of one request in USDC
+  priceUSDC: number;
+  description: string;
+  mimeType?: string;
+  // How long the client has to complete the payment
+  maxTimeoutSeconds?: number;
+}
+
+const PAYMENT_HEADER = 'x-payment';
+const PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE';
+const USDC_DECIMALS_FACTOR = 1_000_000;
+
+const paymentRequired = (res: Response, requirements: X402PaymentRequirementsInput, error: string) =>
+  res.status(402).json({
+    x402Version: X402_VERSION,
+    error,
+    accepts: [requirements],
+  });
+
+const decodePaymentHeader = (header: string): X402PaymentPayloadInput | null => {
+  try {
+    const result = x402PaymentPayloadSchema.safeParse(JSON.parse(Buffer.from(header, 'base64').toString('utf-8')));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * x402 paywall for a route. Requests without a valid X-PAYMENT header get a
+ * 402 with the payment requirements; paid requests are settled, recorded as a
+ * GaslessPayment and passed on with an X-PAYMENT-RESPONSE header.
+ * Place after authMiddleware to attribute payments to the user.
+ */
+export const requirePayment = (options: RequirePaymentOptions) => {
+  const amount = Math.round(options.priceUSDC * USDC_DECIMALS_FACTOR);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error(`requirePayment: priceUSDC must be positive, got ${options.priceUSDC}`);
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const recipient = gaslessService.getRecipient();
+    const feePayer = feePayerPoolService.peek();
+    if (!recipient || !feePayer) {
+      return res.status(503).json({
+        error: 'Payments are not available',
+        details: 'Payment recipient or fee payer not configured',
+      });
+    }
+
+    const requirements: X402PaymentRequirementsInput = {
+      scheme: EXACT_SCHEME,
+      network: X402_NETWORK,
+      maxAmountRequired: amount.toString(),
+      resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      description: options.description,
+      mimeType: options.mimeType || 'application/json',
+      payTo: recipient.wallet.toBase58(),
+      maxTimeoutSeconds: options.maxTimeoutSeconds || 60,
+      asset: recipient.usdcMint.toBase58(),
+    };
+    // Clients build their payment transaction for the advertised fee payer
+    const advertised = { ...requirements, extra: { feePayer: feePayer.toBase58() } };
+
+    const header = req.get(PAYMENT_HEADER);
+    if (!header) {
+      return paymentRequired(res, advertised, 'X-PAYMENT header is required');
+    }
+
+    const paymentPayload = decodePaymentHeader(header);
+    if (!paymentPayload) {
+      return paymentRequired(res, advertised, 'Invalid X-PAYMENT header');
+    }
+
+    try {
+      // Any fee payer in rotation is accepted, since the pool may have moved on since the 402
+      const settlement = await x402FacilitatorService.settle(paymentPayload, requirements);
+      if (!settlement.success) {
+        Logger.warn(`Payment for ${requirements.resource} rejected: ${settlement.errorReason}`);
+        return paymentRequired(res, advertised, settlement.errorMessage || settlement.errorReason || 'Payment failed');
+      }
+
+      try {
+        const recipientTokenAccount = await getAssociatedTokenAddress(recipient.usdcMint, recipient.wallet, true);
+        await gaslessCreditService.recordPaywallPayment({
+          userId: req.userId,
+          resource: requirements.resource,
+          signature: settlement.transaction,
+          amount: requirements.maxAmountRequired,
+          amountUSDC: amount / USDC_DECIMALS_FACTOR,
+          recipientTokenAccount: recipientTokenAccount.toBase58(),
+          recipientWallet: requirements.payTo,
+          fromAddress: settlement.payer,
+          network: process.env.SOLANA_NETWORK || 'mainnet',
+          tokenMint: requirements.asset,
+          explorerUrl: gaslessService.getExplorerUrl(settlement.transaction),
+          paymentProof: paymentPayload as unknown as Prisma.InputJsonValue,
+        });
+      } catch (error) {
+        // A resubmitted payment settles to the same signature; it must not buy a second request
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return paymentRequired(res, advertised, 'Payment has already been used');
+        }
+        // The payment settled on-chain, so serve the request anyway
+        Logger.error('Failed to record paywall payment:', error);
+      }
+
+      res.setHeader(
+        PAYMENT_RESPONSE_HEADER,
+        Buffer.from(
+          JSON.stringify({
+            success: true,
+            transaction: settlement.transaction,
+            network: settlement.network,
+            payer: settlement.payer,
+          })
+        ).toString('base64')
+      );
+      next();
+    } catch (error) {
+      Logger.error('Payment middleware error:', error);
+      res.status(500).json({
+        error: 'Failed to process payment',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+};
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import rateLimitService from '../services/rate-limit.service';
+
+export type RateLimitKey = 'ip' | 'email' | 'user';
+
+export interface RateLimitOptions {
+  // Namespace for the limit, e.g. 'otp'
+  name: string;
+  windowMs: number;
+  max: number;
+  // Each identifier gets its own window; the request is rejected if any is exhausted
+  keyBy: RateLimitKey[];
+}
+
+const resolveIdentifier = (req: Request, keyBy: RateLimitKey): string | null => {
+  switch (keyBy) {
+    case 'ip':
+      return req.ip || null;
+    case 'user':
+      return req.userId || null;
+    case 'email': {
+      const body = req.body && typeof req.body === 'object' ? req.body : {};
+      const email = body.email || body.fromEmail || req.params?.email;
+      return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+    }
+  }
+};
+
+/**
+ * Sliding-window rate limit keyed by IP, email and/or authenticated user.
+ * Place after authMiddleware when keying by user.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.rateLimit.enabled) {
+      return next();
+    }
+
+    try {
+      let remaining = options.max;
+      let retryAfterMs = 0;
+
+      for (const keyBy of options.keyBy) {
+        const identifier = resolveIdentifier(req, keyBy);
+        if (!identifier) {
+          continue;
+        }
+
+        const result = await rateLimitService.hit(
+          `ratelimit:${options.name}:${keyBy}:${identifier}`,
+          options.windowMs,
+          options.max
+        );
+
+        remaining = Math.min(remaining, result.remaining);
+        if (!result.allowed) {
+          retryAfterMs = Math.max(retryAfterMs, result.retryAfterMs);
+        }
+      }
+
+      res.setHeader('X-RateLimit-Limit', options.max);
+      res.setHeader('X-RateLimit-Remaining', remaining);
+
+      if (retryAfterMs > 0) {
+        const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+        Logger.warn(`Rate limit "${options.name}" exceeded on ${req.method} ${req.originalUrl} (ip: ${req.ip})`);
+        res.setHeader('Retry-After', retryAfter);
+        return res.status(429).json({
+          error: 'Too many requests',
+          details: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          retryAfter,
+        });
+      }
+
+      next();
+    } catch (error) {
+      // Never block traffic because the limiter itself failed
+      Logger.error('Rate limit error:', error);
+      next();
+    }
+  };
+};
+
+// Login and OTP verification attempts
+export const authRateLimit = rateLimit({
+  name: 'auth',
+  windowMs: config.rateLimit.auth.windowMs,
+  max: config.rateLimit.auth.max,
+  keyBy: ['ip', 'email'],
+});
+
+// Anything that makes Grid send an OTP email
+export const otpRateLimit = rateLimit({
+  name: 'otp',
+  windowMs: config.rateLimit.otp.windowMs,
+  max: config.rateLimit.otp.max,
+  keyBy: ['ip', 'email'],
+});
+
+// Transfers, yield operations and gasless payments
+export const transactionRateLimit = rateLimit({
+  name: 'transaction',
+  windowMs: config.rateLimit.transaction.windowMs,
+  max: config.rateLimit.transaction.max,
+  keyBy: ['user', 'ip'],
+});
@@ -0,0 +1,535 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+import * as adminController from '../controllers/admin.controller';
+import { validateQuery, validateRequest } from '../middleware/validation.middleware';
+import { authMiddleware, requireRole } from '../middleware/auth.middleware';
+import {
+  addFeePayerSchema,
+  auditEventQuerySchema,
+  createCreditPackageSchema,
+  createPromoCodeSchema,
+  otpUnlockSchema,
+  promoCodeQuerySchema,
+  updateCreditPackageSchema,
+  updatePromoCodeSchema,
+} from '../schemas/admin.schemas';
+
+const router = Router();
+
+// Every /api/admin route is restricted to administrators
+router.use(authMiddleware, requireRole(UserRole.ADMIN));
+
+/**
+ * @swagger
+ * /api/admin/audit-events:
+ *   get:
+ *     summary: Query the audit log (Admin only)
+ *     description: |
+ *       Lists audit events for sensitive account and money actions, newest first.
+ *       Each event records the actor, target, a field-level before/after diff
+ *       (Grid secrets redacted) and request metadata. Page through results by
+ *       passing `nextCursor` back as `cursor`.
+ *     tags: [Admin, Audit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [USER_UPDATED, USER_DELETED, USER_ROLE_CHANGED, USER_GRID_DATA_UPDATED, TRANSFER_STATUS_OVERRIDDEN, YIELD_TRANSACTION_STATUS_OVERRIDDEN, GASLESS_CREDIT_CONSUMED, OTP_LOCKOUT_TRIGGERED, OTP_LOCKOUT_CLEARED, WALLET_LINKED, WALLET_UNLINKED, FEE_PAYER_ADDED, FEE_PAYER_RETIRED, GASLESS_CREDIT_REFUNDED, CREDIT_PACKAGE_CREATED, CREDIT_PACKAGE_UPDATED, PROMO_CODE_CREATED, PROMO_CODE_UPDATED, PROMO_CODE_REDEEMED, GASLESS_CREDIT_EXPIRED, CREDIT_AUTO_TOP_UP, ORGANIZATION_CREATED, ORGANIZATION_UPDATED, ORGANIZATION_MEMBER_ADDED, ORGANIZATION_MEMBER_UPDATED, ORGANIZATION_MEMBER_REMOVED, ORGANIZATION_CREDIT_FUNDED]
+ *       - in: query
+ *         name: actorUserId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           example: User
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: integer
+ *         description: Return events older than this sequence number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/audit-events', validateQuery(auditEventQuerySchema), adminController.getAuditEvents);
+
+/**
+ * @swagger
+ * /api/admin/audit-events/verify:
+ *   get:
+ *     summary: Verify the audit log hash chain (Admin only)
+ *     description: |
+ *       Recomputes every event hash and checks that each event links to the one
+ *       before it. Returns the first broken event if the log was modified or
+ *       events were removed. Record `headHash` externally to also detect
+ *       truncation of the newest events.
+ *     tags: [Admin, Audit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/audit-events/verify', adminController.verifyAuditChain);
+
+/**
+ * @swagger
+ * /api/admin/otp-lockouts:
+ *   get:
+ *     summary: List active OTP lockouts (Admin only)
+ *     description: Emails and IP addresses currently locked out of Grid OTP verification after repeated failed codes
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active lockouts retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/otp-lockouts', adminController.getOtpLockouts);
+
+/**
+ * @swagger
+ * /api/admin/otp-lockouts/unlock:
+ *   post:
+ *     summary: Clear an OTP lockout (Admin only)
+ *     description: Lifts the lockout and resets failed attempt history for an email and/or IP address. Recorded in the audit log.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               ip:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Lockout cleared successfully
+ *       400:
+ *         description: Validation failed - email or ip is required
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       404:
+ *         description: No attempt history for the given email or IP
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/otp-lockouts/unlock', validateRequest(otpUnlockSchema), adminController.unlockOtp);
+
+/**
+ * @swagger
+ * /api/admin/fee-payers:
+ *   get:
+ *     summary: List the fee payer pool (Admin only)
+ *     description: |
+ *       Fee payer keypairs used to sponsor gasless transactions, with their rotation
+ *       status, last checked SOL balance and usage. DEPLETED payers are out of rotation
+ *       until their balance is back above the minimum.
+ *     tags: [Admin, Gasless]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Fee payers retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Add a fee payer to the pool (Admin only)
+ *     description: |
+ *       Adds a keypair to the fee payer rotation without restarting the server. The secret key
+ *       is stored KMS-encrypted and the payer's balance is checked immediately. Re-adding a
+ *       retired key returns it to rotation. Recorded in the audit log.
+ *     tags: [Admin, Gasless]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - privateKey
+ *             properties:
+ *               privateKey:
+ *                 type: string
+ *                 description: Base58-encoded secret key or JSON array of 64 bytes
+ *               label:
+ *                 type: string
+ *                 example: hot-wallet-2
+ *     responses:
+ *       201:
+ *         description: Fee payer added successfully
+ *       400:
+ *         description: Invalid private key
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       409:
+ *         description: Fee payer is already in the pool
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/fee-payers', adminController.getFeePayers);
+router.post('/fee-payers', validateRequest(addFeePayerSchema), adminController.addFeePayer);
+
+/**
+ * @swagger
+ * /api/admin/fee-payers/{publicKey}/retire:
+ *   post:
+ *     summary: Retire a fee payer (Admin only)
+ *     description: Permanently removes a fee payer from rotation. Recorded in the audit log.
+ *     tags: [Admin, Gasless]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: publicKey
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fee payer retired successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       404:
+ *         description: Fee payer not found or already retired
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/fee-payers/:publicKey/retire', adminController.retireFeePayer);
+
+/**
+ * @swagger
+ * /api/admin/credit-packages:
+ *   get:
+ *     summary: List credit packages (Admin only)
+ *     description: All credit packages, including inactive ones, with their bonus and estimated transaction count
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packages retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Create a credit package (Admin only)
+ *     description: |
+ *       A credit package sells a fixed amount of paid credit for its USDC price, plus a
+ *       volume bonus in basis points of the price that is granted as bonus credit.
+ *       Recorded in the audit log.
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, priceUSDC]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Starter
+ *               description:
+ *                 type: string
+ *               priceUSDC:
+ *                 type: number
+ *                 example: 1
+ *               bonusBps:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 10000
+ *                 default: 0
+ *                 example: 1000
+ *               creditTtlDays:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Days the purchased credit stays usable; 0 never expires, omitted uses CREDIT_EXPIRY_DAYS
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *               sortOrder:
+ *                 type: integer
+ *                 default: 0
+ *     responses:
+ *       201:
+ *         description: Credit package created successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/credit-packages', adminController.getCreditPackages);
+router.post('/credit-packages', validateRequest(createCreditPackageSchema), adminController.createCreditPackage);
+
+/**
+ * @swagger
+ * /api/admin/credit-packages/{id}:
+ *   patch:
+ *     summary: Update a credit package (Admin only)
+ *     description: Changes apply to future purchases only. Set isActive to false to stop selling a package. Recorded in the audit log.
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               priceUSDC:
+ *                 type: number
+ *               bonusBps:
+ *                 type: integer
+ *               creditTtlDays:
+ *                 type: integer
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Credit package updated successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       404:
+ *         description: Credit package not found
+ *       500:
+ *         description: Internal server error
+ */
+router.patch('/credit-packages/:id', validateRequest(updateCreditPackageSchema), adminController.updateCreditPackage);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes:
+ *   get:
+ *     summary: List promo codes and vouchers (Admin only)
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [PROMO, VOUCHER]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Promo codes retrieved successfully
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Issue a promo code or a batch of vouchers (Admin only)
+ *     description: |
+ *       A PROMO code is a shared code chosen by the admin, limited by `maxRedemptions`
+ *       overall and `maxRedemptionsPerUser`. VOUCHER creates `count` generated
+ *       single-use codes. Each redemption grants `creditUSDC` of bonus credit.
+ *       Recorded in the audit log.
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [creditUSDC]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [PROMO, VOUCHER]
+ *                 default: PROMO
+ *               code:
+ *                 type: string
+ *                 description: Required for PROMO, not allowed for VOUCHER
+ *                 example: WELCOME5
+ *               description:
+ *                 type: string
+ *               creditUSDC:
+ *                 type: number
+ *                 example: 0.5
+ *               maxRedemptions:
+ *                 type: integer
+ *                 description: Total redemptions across all users (PROMO only); unlimited when omitted
+ *               maxRedemptionsPerUser:
+ *                 type: integer
+ *                 default: 1
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 500
+ *                 default: 1
+ *                 description: Number of vouchers to generate (VOUCHER only)
+ *     responses:
+ *       201:
+ *         description: Promo code(s) created successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       409:
+ *         description: A promo code with this code already exists
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/promo-codes', validateQuery(promoCodeQuerySchema), adminController.getPromoCodes);
+router.post('/promo-codes', validateRequest(createPromoCodeSchema), adminController.createPromoCode);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}:
+ *   patch:
+ *     summary: Update a promo code (Admin only)
+ *     description: Deactivate a code or change its expiry and total redemption limit; null removes a limit or expiry. Recorded in the audit log.
+ *     tags: [Admin, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               maxRedemptions:
+ *                 type: integer
+ *                 nullable: true
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Promo code updated successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *       404:
+ *         description: Promo code not found
+ *       500:
+ *         description: Internal server error
+ */
+router.patch('/promo-codes/:id', validateRequest(updatePromoCodeSchema), adminController.updatePromoCode);
+
+export default router;
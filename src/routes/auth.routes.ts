@@ -1,101 +1,40 @@
 import { Router } from 'express';
 import {
-  login,
   initiateLogin,
   completeLogin,
   initGridAuth,
   completeGridAuth,
   getCurrentUser,
 } from '../controllers/user.controller';
+import {
+  refreshSession,
+  logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  createSiwsNonce,
+  verifySiws,
+  createWalletLinkNonce,
+  linkWallet,
+  getLinkedWallets,
+  unlinkWallet,
+} from '../controllers/auth.controller';
 import { validateRequest } from '../middleware/validation.middleware';
+import { authRateLimit, otpRateLimit } from '../middleware/rate-limit.middleware';
+import { otpAttemptGuard } from '../middleware/otp-guard.middleware';
 import { authMiddleware } from '../middleware/auth.middleware';
-import { completeLoginSchema } from '../schemas/auth.schemas';
+import {
+  completeLoginSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  siwsNonceSchema,
+  siwsVerifySchema,
+} from '../schemas/auth.schemas';
 import { gridLoginSchema } from '../schemas/user.schemas';
 
 const router = Router();
 
 // Public routes
-/**
- * @swagger
- * /api/auth/login:
- *   post:
- *     summary: User login
- *     description: |
- *       Authenticate a user with their email address. This endpoint provides simple email-based authentication
- *       for existing users in the system.
- *       
- *       **Authentication Flow:**
- *       1. User provides their email address
- *       2. System validates the user exists and is active
- *       3. Returns JWT token for authenticated requests
- *       
- *       **Security Features:**
- *       - Email validation
- *       - Active user verification
- *       - JWT token generation with 24-hour expiry
- *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/LoginRequest'
- *           examples:
- *             validLogin:
- *               summary: Valid login request
- *               value:
- *                 email: "john.doe@example.com"
- *     responses:
- *       200:
- *         description: Login successful
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/LoginResponse'
- *             examples:
- *               success:
- *                 summary: Successful login
- *                 value:
- *                   message: "Login successful"
- *                   token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                   user:
- *                     id: "123e4567-e89b-12d3-a456-426614174000"
- *                     email: "john.doe@example.com"
- *                     firstName: "John"
- *                     lastName: "Doe"
- *                     walletAddress: "GC52tLZUiuz8UDSi7BUWn62473Cje3sGKTjxjRZ7oeEz"
- *                     gridAddress: "YmeQtLhGS2GhLcBiGug6Pv1dTv75vUKFCSwdb2nffzV"
- *                     gridStatus: "success"
- *       401:
- *         description: Authentication failed
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *             examples:
- *               userNotFound:
- *                 summary: User not found
- *                 value:
- *                   message: "User doesn't exist. Please sign up before proceeding"
- *               inactiveUser:
- *                 summary: Inactive user
- *                 value:
- *                   message: "Account is inactive. Please contact support."
- *       400:
- *         description: Bad request - Invalid input data
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ValidationError'
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- */
-router.post('/login', login);
-
 /**
  * @swagger
  * /api/auth/login/initiate:
@@ -178,6 +117,12 @@ router.post('/login', login);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -185,7 +130,7 @@ router.post('/login', login);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/login/initiate', validateRequest(gridLoginSchema), initiateLogin);
+router.post('/login/initiate', otpRateLimit, validateRequest(gridLoginSchema), initiateLogin);
 
 /**
  * @swagger
@@ -270,6 +215,12 @@ router.post('/login/initiate', validateRequest(gridLoginSchema), initiateLogin);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -277,7 +228,7 @@ router.post('/login/initiate', validateRequest(gridLoginSchema), initiateLogin);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/grid/init', validateRequest(gridLoginSchema), initGridAuth);
+router.post('/grid/init', otpRateLimit, validateRequest(gridLoginSchema), initGridAuth);
 
 /**
  * @swagger
@@ -328,8 +279,11 @@ router.post('/grid/init', validateRequest(gridLoginSchema), initGridAuth);
  *                   example: 'Grid authentication successful'
  *                 token:
  *                   type: 'string'
- *                   description: 'JWT authentication token'
+ *                   description: 'Short-lived JWT access token'
  *                   example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
+ *                 refreshToken:
+ *                   type: 'string'
+ *                   description: 'Rotating refresh token for /api/auth/refresh'
  *                 user:
  *                   $ref: '#/components/schemas/LoginResponse/properties/user'
  *                 authData:
@@ -348,6 +302,7 @@ router.post('/grid/init', validateRequest(gridLoginSchema), initGridAuth);
  *                 value:
  *                   message: "Grid authentication successful"
  *                   token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                   refreshToken: "3q2-7wAAAAAx5m1c..."
  *                   user:
  *                     id: "123e4567-e89b-12d3-a456-426614174000"
  *                     email: "john.doe@example.com"
@@ -388,14 +343,28 @@ router.post('/grid/init', validateRequest(gridLoginSchema), initGridAuth);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       423:
+ *         description: Verification locked after repeated failed OTP codes (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Verification temporarily unavailable - OTP attempt tracking failed
  */
-router.post('/grid/complete', validateRequest(completeLoginSchema), completeGridAuth);
+router.post('/grid/complete', authRateLimit, validateRequest(completeLoginSchema), otpAttemptGuard, completeGridAuth);
 
 /**
  * @swagger
@@ -443,6 +412,7 @@ router.post('/grid/complete', validateRequest(completeLoginSchema), completeGrid
  *                 value:
  *                   message: "Login successful"
  *                   token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                   refreshToken: "3q2-7wAAAAAx5m1c..."
  *                   user:
  *                     id: "123e4567-e89b-12d3-a456-426614174000"
  *                     email: "john.doe@example.com"
@@ -480,16 +450,32 @@ router.post('/grid/complete', validateRequest(completeLoginSchema), completeGrid
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       423:
+ *         description: Verification locked after repeated failed OTP codes (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded or OTP back-off in effect (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Verification temporarily unavailable - OTP attempt tracking failed
  */
 router.post(
   '/login/complete',
+  authRateLimit,
   validateRequest(completeLoginSchema),
+  otpAttemptGuard,
   completeLogin
 );
 
@@ -581,4 +567,394 @@ router.post(
  */
 router.get('/me', authMiddleware, getCurrentUser);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: |
+ *       Exchange a refresh token for a new short-lived access token and a new refresh token.
+ *       Refresh tokens rotate on every use; presenting a token that has already been rotated
+ *       revokes the whole session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token returned by login or a previous refresh
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                   description: New access token
+ *                 refreshToken:
+ *                   type: string
+ *                   description: New refresh token (the old one is no longer valid)
+ *                 refreshTokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/refresh', authRateLimit, validateRequest(refreshTokenSchema), refreshSession);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: |
+ *       Revokes the current access token and its session. Set `allDevices` to true to
+ *       revoke every session of the user.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allDevices:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/logout', authMiddleware, validateRequest(logoutSchema), logout);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: Lists the authenticated user's active sessions (devices). The session used for this request is flagged with `current`.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       userAgent:
+ *                         type: string
+ *                       ipAddress:
+ *                         type: string
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                 count:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/sessions', authMiddleware, getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/revoke-others:
+ *   post:
+ *     summary: Sign out other sessions
+ *     description: Revokes every session of the authenticated user except the current one
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/sessions/revoke-others', authMiddleware, revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Signs out one of the authenticated user's sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/sessions/:sessionId', authMiddleware, revokeSession);
+
+/**
+ * @swagger
+ * /api/auth/siws/nonce:
+ *   post:
+ *     summary: Start Sign-In With Solana
+ *     description: |
+ *       Issues a single-use nonce and the exact Sign-In With Solana message the wallet
+ *       must sign (e.g. with Phantom or Backpack `signMessage`). The nonce expires after
+ *       a few minutes.
+ *     tags: [Authentication, SIWS]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address]
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 description: Wallet public key (base58)
+ *                 example: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"
+ *     responses:
+ *       200:
+ *         description: Nonce and message issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 nonce:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                 issuedAt:
+ *                   type: string
+ *                   format: date-time
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid wallet address
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/siws/nonce', authRateLimit, validateRequest(siwsNonceSchema), createSiwsNonce);
+
+/**
+ * @swagger
+ * /api/auth/siws/verify:
+ *   post:
+ *     summary: Complete Sign-In With Solana
+ *     description: |
+ *       Verifies the wallet's signature over the issued message and returns an
+ *       access/refresh token pair for the account the wallet is linked to.
+ *     tags: [Authentication, SIWS]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address, nonce, signature]
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 description: Wallet public key (base58)
+ *               nonce:
+ *                 type: string
+ *                 description: Nonce returned by the nonce endpoint
+ *               signature:
+ *                 type: string
+ *                 description: ed25519 signature of the exact message, base58 or base64 encoded
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Invalid, expired or already used nonce, or invalid signature
+ *       404:
+ *         description: No account is linked to this wallet
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/siws/verify', authRateLimit, validateRequest(siwsVerifySchema), verifySiws);
+
+/**
+ * @swagger
+ * /api/auth/wallets/nonce:
+ *   post:
+ *     summary: Start linking a wallet
+ *     description: Issues a nonce and message for the authenticated user to sign with the wallet being linked
+ *     tags: [Authentication, SIWS]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address]
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 description: Wallet public key (base58)
+ *                 example: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"
+ *     responses:
+ *       200:
+ *         description: Nonce and message issued
+ *       400:
+ *         description: Invalid wallet address
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/wallets/nonce', authMiddleware, validateRequest(siwsNonceSchema), createWalletLinkNonce);
+
+/**
+ * @swagger
+ * /api/auth/wallets:
+ *   post:
+ *     summary: Link a wallet
+ *     description: Verifies the wallet's signature and links it to the authenticated user so it can be used with Sign-In With Solana
+ *     tags: [Authentication, SIWS]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address, nonce, signature]
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 description: Wallet public key (base58)
+ *               nonce:
+ *                 type: string
+ *                 description: Nonce returned by the nonce endpoint
+ *               signature:
+ *                 type: string
+ *                 description: ed25519 signature of the exact message, base58 or base64 encoded
+ *     responses:
+ *       200:
+ *         description: Wallet was already linked to this account
+ *       201:
+ *         description: Wallet linked successfully
+ *       401:
+ *         description: Unauthorized, or wallet signature verification failed
+ *       409:
+ *         description: Wallet is linked to another account
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List linked wallets
+ *     tags: [Authentication, SIWS]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked wallets retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/wallets', authMiddleware, authRateLimit, validateRequest(siwsVerifySchema), linkWallet);
+router.get('/wallets', authMiddleware, getLinkedWallets);
+
+/**
+ * @swagger
+ * /api/auth/wallets/{address}:
+ *   delete:
+ *     summary: Unlink a wallet
+ *     tags: [Authentication, SIWS]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wallet unlinked successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: Linked wallet not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/wallets/:address', authMiddleware, unlinkWallet);
+
 export default router;
@@ -0,0 +1,1192 @@
+import { Router } from 'express';
+import * as userController from '../controllers/user.controller';
+import * as organizationController from '../controllers/organization.controller';
+import { validateQuery, validateRequest } from '../middleware/validation.middleware';
+import { transactionRateLimit } from '../middleware/rate-limit.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import { authMiddleware, scopeToAuthenticatedUser } from '../middleware/auth.middleware';
+import {
+  prepareTransactionSchema,
+  executeTransactionSchema,
+  sendTransactionSchema,
+  sendSolTransactionSchema,
+  sendUsdcTransactionSchema,
+  sendGridToWalletTransactionSchema,
+  gaslessTransactionSchema,
+  redeemPromoCodeSchema,
+  sponsorTransactionSchema,
+  updateCreditAlertsSchema,
+  updateAutoTopUpSchema,
+} from '../schemas/transaction.schemas';
+import {
+  initializeReferrerSchema,
+  depositSchema,
+  withdrawProtectedSchema,
+  initiateRegularWithdrawSchema,
+  completeRegularWithdrawalSchema,
+} from '../schemas/yield.schemas';
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  addOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+  fundOrganizationSchema,
+  organizationUsageQuerySchema,
+  organizationLedgerQuerySchema,
+} from '../schemas/organization.schemas';
+
+const router = Router();
+
+// Every /api/me route acts on the user identified by the JWT
+router.use(authMiddleware);
+
+/**
+ * @swagger
+ * /api/me:
+ *   get:
+ *     summary: Get the authenticated user's profile
+ *     description: |
+ *       Returns the profile of the user identified by the Bearer token.
+ *       All `/api/me` endpoints derive the acting user from the token; any email
+ *       supplied in the request body must match the authenticated user or the
+ *       request is rejected with 403.
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User information retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', userController.getCurrentUser);
+
+/**
+ * @swagger
+ * /api/me/balances:
+ *   get:
+ *     summary: Get the authenticated user's balances
+ *     description: Retrieve token balances for the authenticated user's Grid account
+ *     tags: [Me, Balances]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Maximum number of tokens to return
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Number of tokens to skip
+ *       - in: query
+ *         name: mint
+ *         schema:
+ *           type: string
+ *         description: Filter by specific token mint address
+ *     responses:
+ *       200:
+ *         description: User balances retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/balances', scopeToAuthenticatedUser, userController.getUserBalances);
+
+/**
+ * @swagger
+ * /api/me/transfers:
+ *   get:
+ *     summary: Get the authenticated user's transfer history
+ *     description: Retrieve transfers for the authenticated user's Grid account
+ *     tags: [Me, Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Transfers retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/transfers', scopeToAuthenticatedUser, userController.getUserTransfers);
+
+/**
+ * @swagger
+ * /api/me/grid-data:
+ *   get:
+ *     summary: Get the authenticated user's Grid account data
+ *     tags: [Me, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Grid account data retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/grid-data', scopeToAuthenticatedUser, userController.getUserGridData);
+
+/**
+ * @swagger
+ * /api/me/session-status:
+ *   get:
+ *     summary: Check the authenticated user's Grid session status
+ *     tags: [Me, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session status retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/session-status', scopeToAuthenticatedUser, userController.checkSessionStatus);
+
+/**
+ * @swagger
+ * /api/me/transactions/prepare:
+ *   post:
+ *     summary: Prepare a transaction from the authenticated user's Grid account
+ *     description: Same as `/api/users/transactions/prepare` with `fromEmail` taken from the token
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Transaction prepared successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/transactions/prepare', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(prepareTransactionSchema), userController.prepareTransaction);
+
+/**
+ * @swagger
+ * /api/me/transactions/execute:
+ *   post:
+ *     summary: Execute a prepared transaction from the authenticated user's Grid account
+ *     description: Same as `/api/users/transactions/execute` with `fromEmail` taken from the token
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Transaction executed successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/transactions/execute', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(executeTransactionSchema), userController.executeTransaction);
+
+/**
+ * @swagger
+ * /api/me/transactions/send:
+ *   post:
+ *     summary: Send tokens from the authenticated user's Grid account
+ *     description: Same as `/api/users/transactions/send` with `fromEmail` taken from the token
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [toEmail, amount, tokenMint]
+ *             properties:
+ *               toEmail:
+ *                 type: string
+ *                 format: email
+ *               amount:
+ *                 type: string
+ *                 example: "1.5"
+ *               tokenMint:
+ *                 type: string
+ *               memo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction sent successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/transactions/send', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendTransactionSchema), userController.sendTransaction);
+
+/**
+ * @swagger
+ * /api/me/transactions/send-sol:
+ *   post:
+ *     summary: Send SOL from the authenticated user's Grid account
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Transaction sent successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/transactions/send-sol', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendSolTransactionSchema), userController.sendSolTransaction);
+
+/**
+ * @swagger
+ * /api/me/transactions/send-usdc:
+ *   post:
+ *     summary: Send USDC from the authenticated user's Grid account
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Transaction sent successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/transactions/send-usdc', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendUsdcTransactionSchema), userController.sendUsdcTransaction);
+
+/**
+ * @swagger
+ * /api/me/transactions/grid-to-wallet:
+ *   post:
+ *     summary: Send tokens from the authenticated user's Grid account to an external wallet
+ *     tags: [Me, Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Transaction sent successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - fromEmail belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/transactions/grid-to-wallet', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendGridToWalletTransactionSchema), userController.sendGridToWallet);
+
+/**
+ * @swagger
+ * /api/me/yield/initialize-referrer:
+ *   post:
+ *     summary: Initialize a Lulo referrer account for the authenticated user
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Referrer initialization transaction generated successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - email belongs to another user
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/yield/initialize-referrer', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(initializeReferrerSchema), userController.initializeReferrer);
+
+/**
+ * @swagger
+ * /api/me/yield/deposit:
+ *   post:
+ *     summary: Deposit to the yield pool from the authenticated user's Grid account
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     description: Set gasless to true to pay the network fee from gasless credit with the server fee payer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Deposit transaction generated or executed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Forbidden - email belongs to another user, or rejected by the sponsorship policy (gasless only)
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ */
+router.post('/yield/deposit', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(depositSchema), userController.depositToYield);
+
+/**
+ * @swagger
+ * /api/me/yield/withdraw-protected:
+ *   post:
+ *     summary: Withdraw protected funds (PUSD) for the authenticated user
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     description: Set gasless to true to pay the network fee from gasless credit with the server fee payer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Protected withdrawal transaction generated successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Forbidden - email belongs to another user, or rejected by the sponsorship policy (gasless only)
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ */
+router.post('/yield/withdraw-protected', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(withdrawProtectedSchema), userController.withdrawProtected);
+
+/**
+ * @swagger
+ * /api/me/yield/initiate-regular-withdraw:
+ *   post:
+ *     summary: Initiate a regular withdrawal (LUSD) for the authenticated user
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     description: Set gasless to true to pay the network fee from gasless credit with the server fee payer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Regular withdrawal initiation transaction generated successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Forbidden - email belongs to another user, or rejected by the sponsorship policy (gasless only)
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ */
+router.post('/yield/initiate-regular-withdraw', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(initiateRegularWithdrawSchema), userController.initiateRegularWithdraw);
+
+/**
+ * @swagger
+ * /api/me/yield/complete-regular-withdrawal:
+ *   post:
+ *     summary: Complete a pending regular withdrawal for the authenticated user
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     description: Set gasless to true to pay the network fee from gasless credit with the server fee payer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     responses:
+ *       200:
+ *         description: Regular withdrawal completion transaction generated successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Forbidden - email belongs to another user, or rejected by the sponsorship policy (gasless only)
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ */
+router.post('/yield/complete-regular-withdrawal', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(completeRegularWithdrawalSchema), userController.completeRegularWithdrawal);
+
+/**
+ * @swagger
+ * /api/me/yield/account:
+ *   get:
+ *     summary: Get the authenticated user's yield account
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Yield account data retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/yield/account', scopeToAuthenticatedUser, userController.getYieldAccount);
+
+/**
+ * @swagger
+ * /api/me/yield/pending-withdrawals:
+ *   get:
+ *     summary: Get the authenticated user's pending withdrawals
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending withdrawals retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/yield/pending-withdrawals', scopeToAuthenticatedUser, userController.getPendingWithdrawals);
+
+/**
+ * @swagger
+ * /api/me/yield/referrer:
+ *   get:
+ *     summary: Get the authenticated user's referrer information
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Referrer information retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/yield/referrer', scopeToAuthenticatedUser, userController.getReferrerInfo);
+
+/**
+ * @swagger
+ * /api/me/yield/transactions:
+ *   get:
+ *     summary: Get the authenticated user's yield transaction history
+ *     tags: [Me, Yield]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Yield transactions retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/yield/transactions', scopeToAuthenticatedUser, userController.getUserYieldTransactions);
+
+/**
+ * @swagger
+ * /api/me/gasless:
+ *   post:
+ *     summary: Gasless transaction relay for the authenticated user
+ *     description: Same as `/api/transaction/gasless` with the user taken from the token
+ *     tags: [Me, Gasless]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               packageId:
+ *                 type: string
+ *                 description: Buy this credit package (see `/api/me/gasless/packages`)
+ *               currency:
+ *                 type: string
+ *                 default: USDC
+ *                 description: Pay in this currency (see `/api/me/gasless/currencies`)
+ *     responses:
+ *       200:
+ *         description: Transaction executed successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Payment verification or simulation failed
+ *       404:
+ *         description: Credit package not found or inactive
+ *       503:
+ *         description: Gasless service not configured
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/gasless', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(gaslessTransactionSchema), userController.gaslessTransaction);
+
+/**
+ * @swagger
+ * /api/me/gasless/credit:
+ *   get:
+ *     summary: Get the authenticated user's gasless credit balance
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit balance retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/credit', scopeToAuthenticatedUser, userController.getCreditBalance);
+
+/**
+ * @swagger
+ * /api/me/gasless/payments:
+ *   get:
+ *     summary: Get the authenticated user's gasless payment history
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Payment history retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/payments', scopeToAuthenticatedUser, userController.getPaymentHistory);
+
+/**
+ * @swagger
+ * /api/me/gasless/ledger:
+ *   get:
+ *     summary: Get the authenticated user's gasless credit ledger
+ *     description: Credits and debits applied to the credit balance, newest first, with the balance after each entry
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Credit ledger retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/ledger', scopeToAuthenticatedUser, userController.getCreditLedger);
+
+/**
+ * @swagger
+ * /api/me/gasless/quota:
+ *   get:
+ *     summary: Get the authenticated user's remaining sponsored transaction allowance
+ *     description: Daily and monthly sponsored transaction counts and estimated fee payer spend (lamports) against the configured limits, plus the server-wide daily budget. Unlimited quotas are omitted.
+ *     tags: [Me, Gasless]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sponsorship quotas retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/quota', scopeToAuthenticatedUser, userController.getSponsorshipQuota);
+
+/**
+ * @swagger
+ * /api/me/gasless/packages:
+ *   get:
+ *     summary: List the credit packages that can be bought
+ *     description: |
+ *       Active credit packages with their USDC price, volume bonus and the number of
+ *       sponsored transactions they cover at the current network fee. Buy one by
+ *       passing its `id` as `packageId` to `POST /api/me/gasless`.
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packages retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/packages', userController.getCreditPackages);
+
+/**
+ * @swagger
+ * /api/me/gasless/currencies:
+ *   get:
+ *     summary: List the currencies gasless credit can be bought with
+ *     description: |
+ *       USDC, SOL (unless disabled) and any configured SPL tokens, with the USDC
+ *       value of one whole unit. Prices are converted at the rate quoted when a
+ *       payment is made; `exchangeRateUSDC` is null when no price is available.
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Payment currencies retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/currencies', userController.getPaymentCurrencies);
+
+/**
+ * @swagger
+ * /api/me/gasless/alerts:
+ *   get:
+ *     summary: Get the authenticated user's credit alert settings
+ *     description: The low-balance alert threshold in effect and up to 20 payments whose unspent credit is due to expire, soonest first
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit alert settings retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *   put:
+ *     summary: Set the authenticated user's low-balance alert threshold
+ *     description: A notification is sent once each time the credit balance falls below the threshold
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [lowBalanceThresholdUSDC]
+ *             properties:
+ *               lowBalanceThresholdUSDC:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Threshold in USDC; 0 turns alerts off, null uses the server default
+ *                 example: 0.05
+ *     responses:
+ *       200:
+ *         description: Credit alert settings updated successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/alerts', scopeToAuthenticatedUser, userController.getCreditAlerts);
+router.put('/gasless/alerts', scopeToAuthenticatedUser, validateRequest(updateCreditAlertsSchema), userController.updateCreditAlerts);
+
+/**
+ * @swagger
+ * /api/me/gasless/auto-top-up:
+ *   get:
+ *     summary: Get the authenticated user's auto top-up settings
+ *     description: Whether auto top-up is on, its amount and monthly cap, what has been spent this month and the 10 most recent top-ups
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Auto top-up settings retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *   put:
+ *     summary: Configure auto top-up of gasless credit from the Grid wallet
+ *     description: |
+ *       When enabled and a sponsored transaction finds too little credit, the server pays
+ *       `amountUSDC` (or the shortfall, if larger) in USDC from the user's Grid wallet,
+ *       signed with the stored Grid session, and continues the request once the payment is verified.
+ *       Top-ups stop for the rest of the UTC month once they would exceed `monthlyCapUSDC`.
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *                 example: true
+ *               amountUSDC:
+ *                 type: number
+ *                 description: USDC paid per top-up; required when enabling, at most AUTO_TOP_UP_MAX_AMOUNT_USDC
+ *                 example: 1
+ *               monthlyCapUSDC:
+ *                 type: number
+ *                 description: Most USDC auto top-ups may pay per month; required when enabling, at most AUTO_TOP_UP_MAX_MONTHLY_CAP_USDC
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Auto top-up settings updated successfully
+ *       400:
+ *         description: Validation failed or a value exceeds the server maximum
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/gasless/auto-top-up', scopeToAuthenticatedUser, userController.getAutoTopUp);
+router.put('/gasless/auto-top-up', scopeToAuthenticatedUser, validateRequest(updateAutoTopUpSchema), userController.updateAutoTopUp);
+
+/**
+ * @swagger
+ * /api/me/gasless/redeem:
+ *   post:
+ *     summary: Redeem a promo code or voucher for bonus credit
+ *     description: Codes are case-insensitive. Bonus credit is spent before paid credit.
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME5
+ *     responses:
+ *       200:
+ *         description: Bonus credit added
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: Promo code not found
+ *       409:
+ *         description: Promo code already redeemed by this user
+ *       410:
+ *         description: Promo code expired, deactivated or fully redeemed
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/gasless/redeem', transactionRateLimit, scopeToAuthenticatedUser, validateRequest(redeemPromoCodeSchema), userController.redeemPromoCode);
+
+/**
+ * @swagger
+ * /api/me/gasless/sponsor:
+ *   post:
+ *     summary: Sponsor a transaction for the authenticated user using credit
+ *     tags: [Me, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [transaction]
+ *             properties:
+ *               transaction:
+ *                 type: string
+ *                 description: Base64-encoded legacy or v0 transaction
+ *               type:
+ *                 type: string
+ *                 enum: [USER_TRANSACTION, TRANSFER, YIELD_OPERATION, CUSTOM]
+ *                 default: USER_TRANSACTION
+ *     responses:
+ *       200:
+ *         description: Transaction sponsored successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       402:
+ *         description: Insufficient credit
+ *       403:
+ *         description: Transaction rejected by the sponsorship policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SponsorshipPolicyError'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *       500:
+ *         description: Sponsorship failed; credit is refunded when the transaction was never submitted or was dropped
+ */
+router.post('/gasless/sponsor', transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sponsorTransactionSchema), userController.sponsorTransaction);
+
+/**
+ * @swagger
+ * /api/me/organization:
+ *   get:
+ *     summary: Get the authenticated user's organization
+ *     description: |
+ *       The organization's shared credit pool, credit policy and members with their
+ *       spend this UTC month. Members other than owners and admins only see themselves.
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organization retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: The user does not belong to an organization
+ *   post:
+ *     summary: Create an organization
+ *     description: The authenticated user becomes its owner. A user belongs to at most one organization.
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Acme
+ *               creditPolicy:
+ *                 type: string
+ *                 enum: [PERSONAL_FIRST, ORGANIZATION_FIRST]
+ *                 default: PERSONAL_FIRST
+ *                 description: Whether members spend their own credit or the pool first
+ *     responses:
+ *       201:
+ *         description: Organization created
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       409:
+ *         description: The user already belongs to an organization
+ *   put:
+ *     summary: Rename the organization or change its credit policy
+ *     description: Owners and admins only
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               creditPolicy:
+ *                 type: string
+ *                 enum: [PERSONAL_FIRST, ORGANIZATION_FIRST]
+ *     responses:
+ *       200:
+ *         description: Organization updated
+ *       403:
+ *         description: Requires the OWNER or ADMIN role
+ *       404:
+ *         description: The user does not belong to an organization
+ */
+router.get('/organization', organizationController.getOrganization);
+router.post('/organization', validateRequest(createOrganizationSchema), organizationController.createOrganization);
+router.put('/organization', validateRequest(updateOrganizationSchema), organizationController.updateOrganization);
+
+/**
+ * @swagger
+ * /api/me/organization/members:
+ *   post:
+ *     summary: Add a user to the organization
+ *     description: Owners and admins only; only owners can add owners or admins
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *                 default: MEMBER
+ *               monthlySpendLimitUSDC:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Most pool credit the member may spend per UTC month; null is unlimited
+ *     responses:
+ *       201:
+ *         description: Member added
+ *       403:
+ *         description: Not allowed for the user's role
+ *       404:
+ *         description: User or organization not found
+ *       409:
+ *         description: The user already belongs to an organization
+ */
+router.post('/organization/members', validateRequest(addOrganizationMemberSchema), organizationController.addOrganizationMember);
+
+/**
+ * @swagger
+ * /api/me/organization/members/{userId}:
+ *   put:
+ *     summary: Change a member's role or monthly spend limit
+ *     description: Owners and admins only; admins can only change members. The last owner cannot be demoted.
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *               monthlySpendLimitUSDC:
+ *                 type: number
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       403:
+ *         description: Not allowed for the user's role
+ *       404:
+ *         description: Member not found in the organization
+ *       409:
+ *         description: The organization would be left without an owner
+ *   delete:
+ *     summary: Remove a member, or leave the organization
+ *     description: Any member can remove themselves; owners and admins can remove others, admins only members. The last owner cannot leave.
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Not allowed for the user's role
+ *       404:
+ *         description: Member not found in the organization
+ *       409:
+ *         description: The organization would be left without an owner
+ */
+router.put('/organization/members/:userId', validateRequest(updateOrganizationMemberSchema), organizationController.updateOrganizationMember);
+router.delete('/organization/members/:userId', organizationController.removeOrganizationMember);
+
+/**
+ * @swagger
+ * /api/me/organization/credit:
+ *   post:
+ *     summary: Move credit from your balance into the organization's pool
+ *     description: Any member can fund the pool. Pooled credit does not expire and cannot be moved back.
+ *     tags: [Me, Organizations, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amountUSDC]
+ *             properties:
+ *               amountUSDC:
+ *                 type: number
+ *                 example: 5
+ *     responses:
+ *       200:
+ *         description: Credit moved to the pool
+ *       402:
+ *         description: Insufficient credit
+ *       404:
+ *         description: The user does not belong to an organization
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ */
+router.post('/organization/credit', transactionRateLimit, validateRequest(fundOrganizationSchema), organizationController.fundOrganizationCredit);
+
+/**
+ * @swagger
+ * /api/me/organization/usage:
+ *   get:
+ *     summary: Report the organization's credit usage
+ *     description: |
+ *       Sponsored transactions, credit spent and refunded, and credit funded per member and
+ *       per transaction type. Owners and admins only.
+ *     tags: [Me, Organizations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to the start of the current UTC month
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *     responses:
+ *       200:
+ *         description: Usage report
+ *       403:
+ *         description: Requires the OWNER or ADMIN role
+ *       404:
+ *         description: The user does not belong to an organization
+ */
+router.get('/organization/usage', validateQuery(organizationUsageQuerySchema), organizationController.getOrganizationUsage);
+
+/**
+ * @swagger
+ * /api/me/organization/ledger:
+ *   get:
+ *     summary: Get the organization's credit pool ledger
+ *     description: Newest first. Members other than owners and admins only see their own entries.
+ *     tags: [Me, Organizations, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Ledger retrieved successfully
+ *       404:
+ *         description: The user does not belong to an organization
+ */
+router.get('/organization/ledger', validateQuery(organizationLedgerQuerySchema), organizationController.getOrganizationLedger);
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import * as userController from '../controllers/user.controller';
 import { validateRequest } from '../middleware/validation.middleware';
+import { transactionRateLimit } from '../middleware/rate-limit.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import { authMiddleware, scopeToAuthenticatedUser } from '../middleware/auth.middleware';
 import {
   gaslessTransactionSchema,
   getCreditBalanceSchema,
@@ -41,6 +44,10 @@ const router = Router();
  *       - User must have USDC balance
  *       - User account must be active
  *     tags: [Transactions, Gasless, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -54,6 +61,14 @@ const router = Router();
  *                 format: email
  *                 description: User email address (must have Grid account)
  *                 example: "user@example.com"
+ *               packageId:
+ *                 type: string
+ *                 description: Buy this credit package instead of a single-transaction payment; its volume bonus is added as bonus credit
+ *               currency:
+ *                 type: string
+ *                 default: USDC
+ *                 description: Pay in this currency (see `/api/me/gasless/currencies`), converted from the USDC price at the quoted rate
+ *                 example: "SOL"
  *     responses:
  *       200:
  *         description: Transaction executed successfully
@@ -82,6 +97,11 @@ const router = Router();
  *                       type: number
  *                     amountUSDC:
  *                       type: number
+ *                     currency:
+ *                       type: string
+ *                     exchangeRateUSDC:
+ *                       type: number
+ *                       description: USDC per whole unit of the currency paid; only for non-USDC payments
  *                     recipient:
  *                       type: string
  *                     explorerUrl:
@@ -112,12 +132,22 @@ const router = Router();
  *         description: Payment verification or simulation failed
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *       503:
  *         description: Service unavailable - Gasless service not configured
  */
-router.post('/gasless', validateRequest(gaslessTransactionSchema), userController.gaslessTransaction);
+router.post('/gasless', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(gaslessTransactionSchema), userController.gaslessTransaction);
 
 /**
  * @swagger
@@ -126,6 +156,8 @@ router.post('/gasless', validateRequest(gaslessTransactionSchema), userControlle
  *     summary: Get user's credit balance
  *     description: Retrieve the total available credit balance and payment history for a user
  *     tags: [Transactions, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -142,7 +174,7 @@ router.post('/gasless', validateRequest(gaslessTransactionSchema), userControlle
  *       500:
  *         description: Internal server error
  */
-router.get('/gasless/credit/:email', userController.getCreditBalance);
+router.get('/gasless/credit/:email', authMiddleware, scopeToAuthenticatedUser, userController.getCreditBalance);
 
 /**
  * @swagger
@@ -151,6 +183,8 @@ router.get('/gasless/credit/:email', userController.getCreditBalance);
  *     summary: Get payment history for a user
  *     description: Retrieve payment history with optional limit
  *     tags: [Transactions, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -175,7 +209,7 @@ router.get('/gasless/credit/:email', userController.getCreditBalance);
  *       500:
  *         description: Internal server error
  */
-router.get('/gasless/payments/:email', userController.getPaymentHistory);
+router.get('/gasless/payments/:email', authMiddleware, scopeToAuthenticatedUser, userController.getPaymentHistory);
 
 /**
  * @swagger
@@ -190,7 +224,13 @@ router.get('/gasless/payments/:email', userController.getPaymentHistory);
  *       - User must have sufficient credit balance
  *       - Transaction must be base64-encoded
  *       - User must have active Grid account
+ *       - Transaction must pass the sponsorship policy (allowed programs and instructions,
+ *         instruction count, compute units, lamports moved, no use of the fee payer as an account)
  *     tags: [Transactions, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -205,7 +245,7 @@ router.get('/gasless/payments/:email', userController.getPaymentHistory);
  *                 description: User email address
  *               transaction:
  *                 type: string
- *                 description: Base64-encoded transaction
+ *                 description: Base64-encoded legacy or v0 transaction
  *               type:
  *                 type: string
  *                 enum: [USER_TRANSACTION, TRANSFER, YIELD_OPERATION, CUSTOM]
@@ -218,12 +258,28 @@ router.get('/gasless/payments/:email', userController.getPaymentHistory);
  *         description: Bad request - invalid transaction format
  *       402:
  *         description: Insufficient credit
+ *       403:
+ *         description: Transaction rejected by the sponsorship policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SponsorshipPolicyError'
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
- *         description: Internal server error
+ *         description: Sponsorship failed; credit is refunded when the transaction was never submitted or was dropped
  */
-router.post('/gasless/sponsor', validateRequest(sponsorTransactionSchema), userController.sponsorTransaction);
+router.post('/gasless/sponsor', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sponsorTransactionSchema), userController.sponsorTransaction);
 
 /**
  * @swagger
@@ -245,10 +301,15 @@ router.post('/gasless/sponsor', validateRequest(sponsorTransactionSchema), userC
  *       - Returns base64-encoded transaction ready for sponsorship
  *       
  *       **Requirements:**
+ *       - Authenticated user; `fromAddress` must be their own Grid account address
  *       - Valid Solana addresses
  *       - Positive amount
  *       - Gasless service must be configured
  *     tags: [Transactions, Gasless, Credit]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -317,12 +378,26 @@ router.post('/gasless/sponsor', validateRequest(sponsorTransactionSchema), userC
  *                   description: Instructions for using the transaction
  *       400:
  *         description: Bad request - Invalid input
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - fromAddress is not the caller's Grid account address
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *       503:
  *         description: Service unavailable - Gasless service not configured
  */
-router.post('/gasless/create-transaction', validateRequest(createTransactionForSponsorSchema), userController.createTransactionForSponsor);
+router.post('/gasless/create-transaction', authMiddleware, transactionRateLimit, idempotency, validateRequest(createTransactionForSponsorSchema), userController.createTransactionForSponsor);
 
 export default router;
 
@@ -1,9 +1,15 @@
 import { Router } from 'express';
+import { UserRole } from '@prisma/client';
 import * as userController from '../controllers/user.controller';
 import { validateRequest } from '../middleware/validation.middleware';
+import { authRateLimit, otpRateLimit, transactionRateLimit } from '../middleware/rate-limit.middleware';
+import { otpAttemptGuard } from '../middleware/otp-guard.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import { authMiddleware, requireRole, scopeToAuthenticatedUser } from '../middleware/auth.middleware';
 import {
   createUserSchema,
   updateUserSchema,
+  updateUserRoleSchema,
   initiateGridAccountSchema,
   completeGridAccountSchema,
   gridLoginSchema,
@@ -37,8 +43,18 @@ const router = Router();
  * /api/users:
  *   get:
  *     summary: Get all users
- *     description: Retrieve a list of all users in the system. Authentication is optional - if provided, additional user details may be included.
+ *     description: Retrieve a list of all users in the system. Requires the ADMIN or OPERATOR role.
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: view
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [public, expanded]
+ *         description: Use "expanded" to include operational metadata (ADMIN only)
  *     responses:
  *       200:
  *         description: List of users retrieved successfully
@@ -63,6 +79,12 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/RateLimitError'
+ *       403:
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -70,7 +92,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', userController.getUsers);
+router.get('/', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.getUsers);
 
 /**
  * @swagger
@@ -79,6 +101,8 @@ router.get('/', userController.getUsers);
  *     summary: Create a new user
  *     description: Create a new user in the system. All input data is validated and sanitized for security.
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -134,6 +158,18 @@ router.get('/', userController.getUsers);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/RateLimitError'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -141,17 +177,17 @@ router.get('/', userController.getUsers);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', validateRequest(createUserSchema), userController.createUser);
+router.post('/', authMiddleware, requireRole(UserRole.ADMIN), validateRequest(createUserSchema), userController.createUser);
 
 /**
  * @swagger
  * /api/users/{id}:
  *   get:
  *     summary: Get user by ID
- *     description: Retrieve a specific user by their ID. Requires authentication.
+ *     description: Retrieve a specific user by their ID. Requires the ADMIN or OPERATOR role.
  *     tags: [Users]
  *     security:
- *       - bearerAuth: []
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -160,6 +196,13 @@ router.post('/', validateRequest(createUserSchema), userController.createUser);
  *           type: string
  *         description: User ID (CUID format)
  *         example: "cmh4n25840000i64rmgbbhgi0"
+ *       - in: query
+ *         name: view
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [public, expanded]
+ *         description: Use "expanded" to include operational metadata (ADMIN only)
  *     responses:
  *       200:
  *         description: User retrieved successfully
@@ -177,7 +220,7 @@ router.post('/', validateRequest(createUserSchema), userController.createUser);
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
  *       403:
- *         description: Forbidden - Access denied
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
  *         content:
  *           application/json:
  *             schema:
@@ -201,7 +244,7 @@ router.post('/', validateRequest(createUserSchema), userController.createUser);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', userController.getUserById);
+router.get('/:id', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.getUserById);
 
 /**
  * @swagger
@@ -210,6 +253,8 @@ router.get('/:id', userController.getUserById);
  *     summary: Get user by email
  *     description: Retrieve a specific user by their email address
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -242,7 +287,7 @@ router.get('/:id', userController.getUserById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/email/:email', userController.getUserByEmail);
+router.get('/email/:email', authMiddleware, scopeToAuthenticatedUser, userController.getUserByEmail);
 
 /**
  * @swagger
@@ -251,6 +296,8 @@ router.get('/email/:email', userController.getUserByEmail);
  *     summary: Update user
  *     description: Update an existing user's information
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -274,6 +321,18 @@ router.get('/email/:email', userController.getUserByEmail);
  *               properties:
  *                 user:
  *                   $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *         content:
@@ -293,17 +352,17 @@ router.get('/email/:email', userController.getUserByEmail);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', validateRequest(updateUserSchema), userController.updateUser);
+router.put('/:id', authMiddleware, requireRole(UserRole.ADMIN), validateRequest(updateUserSchema), userController.updateUser);
 
 /**
  * @swagger
  * /api/users/{id}:
  *   delete:
  *     summary: Delete user
- *     description: Delete a user from the system. Requires authentication and ownership of the user resource.
+ *     description: Deactivate a user and revoke their sessions. The account and its credit history are kept. Requires ADMIN role.
  *     tags: [Users]
  *     security:
- *       - bearerAuth: []
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -322,7 +381,7 @@ router.put('/:id', validateRequest(updateUserSchema), userController.updateUser)
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
  *       403:
- *         description: Forbidden - Access denied or insufficient permissions
+ *         description: Forbidden - Requires ADMIN role
  *         content:
  *           application/json:
  *             schema:
@@ -346,7 +405,80 @@ router.put('/:id', validateRequest(updateUserSchema), userController.updateUser)
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', userController.deleteUser);
+router.delete('/:id', authMiddleware, requireRole(UserRole.ADMIN), userController.deleteUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/role:
+ *   put:
+ *     summary: Change a user's role
+ *     description: Assign the USER, OPERATOR or ADMIN role to a user. Administrators cannot change their own role.
+ *     tags: [Users, Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [USER, OPERATOR, ADMIN]
+ *                 example: "OPERATOR"
+ *     responses:
+ *       200:
+ *         description: User role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Invalid role or attempt to change own role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id/role', authMiddleware, requireRole(UserRole.ADMIN), validateRequest(updateUserRoleSchema), userController.updateUserRole);
 
 // Grid account routes with validation
 /**
@@ -604,6 +736,12 @@ router.delete('/:id', userController.deleteUser);
  *                   type: string
  *                 guidance:
  *                   type: object
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -611,11 +749,11 @@ router.delete('/:id', userController.deleteUser);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/grid/request-otp', userController.requestOtpForExistingAccount);
+router.post('/grid/request-otp', otpRateLimit, userController.requestOtpForExistingAccount);
 
-router.post('/grid/check-status', userController.checkGridAccountStatus);
+router.post('/grid/check-status', otpRateLimit, userController.checkGridAccountStatus);
 
-router.post('/grid/initiate', validateRequest(initiateGridAccountSchema), userController.initiateGridAccount);
+router.post('/grid/initiate', otpRateLimit, validateRequest(initiateGridAccountSchema), userController.initiateGridAccount);
 
 /**
  * @swagger
@@ -704,6 +842,12 @@ router.post('/grid/initiate', validateRequest(initiateGridAccountSchema), userCo
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       423:
+ *         description: Verification locked after repeated failed OTP codes (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       429:
  *         description: Too many requests - Grid account completion rate limit exceeded
  *         content:
@@ -716,8 +860,10 @@ router.post('/grid/initiate', validateRequest(initiateGridAccountSchema), userCo
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Verification temporarily unavailable - OTP attempt tracking failed
  */
-router.post('/grid/complete', validateRequest(completeGridAccountSchema), userController.completeGridAccount);
+router.post('/grid/complete', authRateLimit, validateRequest(completeGridAccountSchema), otpAttemptGuard, userController.completeGridAccount);
 
 /**
  * @swagger
@@ -763,6 +909,7 @@ router.post('/grid/complete', validateRequest(completeGridAccountSchema), userCo
  *                 value:
  *                   message: "Login successful"
  *                   token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                   refreshToken: "3q2-7wAAAAAx5m1c..."
  *                   user:
  *                     id: "123e4567-e89b-12d3-a456-426614174000"
  *                     email: "john.doe@example.com"
@@ -792,6 +939,12 @@ router.post('/grid/complete', validateRequest(completeGridAccountSchema), userCo
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -799,7 +952,7 @@ router.post('/grid/complete', validateRequest(completeGridAccountSchema), userCo
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/grid/login', validateRequest(gridLoginSchema), userController.initGridAuth);
+router.post('/grid/login', otpRateLimit, validateRequest(gridLoginSchema), userController.initGridAuth);
 
 /**
  * @swagger
@@ -846,6 +999,12 @@ router.post('/grid/login', validateRequest(gridLoginSchema), userController.init
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ValidationError'
+ *       423:
+ *         description: Verification locked after repeated failed OTP codes (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       429:
  *         description: Too many requests - Rate limit exceeded
  *         content:
@@ -858,8 +1017,10 @@ router.post('/grid/login', validateRequest(gridLoginSchema), userController.init
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Verification temporarily unavailable - OTP attempt tracking failed
  */
-router.post('/grid/login/complete', validateRequest(completeLoginSchema), userController.completeGridAuth);
+router.post('/grid/login/complete', authRateLimit, validateRequest(completeLoginSchema), otpAttemptGuard, userController.completeGridAuth);
 
 // Balance routes
 /**
@@ -869,6 +1030,8 @@ router.post('/grid/login/complete', validateRequest(completeLoginSchema), userCo
  *     summary: Get user balances by email
  *     description: Retrieve SOL and USDC balances for a user identified by their email address (USDC on mainnet). Supports filtering and pagination.
  *     tags: [Users, Balances]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -925,7 +1088,7 @@ router.post('/grid/login/complete', validateRequest(completeLoginSchema), userCo
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/email/:email/balances', userController.getUserBalances);
+router.get('/email/:email/balances', authMiddleware, scopeToAuthenticatedUser, userController.getUserBalances);
 
 /**
  * @swagger
@@ -993,6 +1156,8 @@ router.get('/wallet/:walletAddress/balances', userController.getUserBalancesByWa
  *     summary: Debug user balances
  *     description: Debug endpoint to check raw Grid API response for troubleshooting balance issues
  *     tags: [Users, Debug]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -1016,12 +1181,24 @@ router.get('/wallet/:walletAddress/balances', userController.getUserBalancesByWa
  *                 debug:
  *                   type: object
  *                   description: Debug information including raw Grid API response
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *       500:
  *         description: Internal server error
  */
-router.get('/email/:email/debug-balances', userController.debugUserBalances);
+router.get('/email/:email/debug-balances', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), scopeToAuthenticatedUser, userController.debugUserBalances);
 
 // Update user Grid account data endpoint
 /**
@@ -1029,8 +1206,10 @@ router.get('/email/:email/debug-balances', userController.debugUserBalances);
  * /api/users/email/{email}/update-grid-data:
  *   put:
  *     summary: Update user Grid account data
- *     description: Update a user's Grid account data (address, status, policies) for debugging purposes
+ *     description: Update any user's Grid account data (address, status, policies) for debugging purposes. Requires the ADMIN role.
  *     tags: [Users, Debug]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -1079,12 +1258,18 @@ router.get('/email/:email/debug-balances', userController.debugUserBalances);
  *                   $ref: '#/components/schemas/User'
  *       400:
  *         description: Bad request - Grid address is required
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *       500:
  *         description: Internal server error
  */
-router.put('/email/:email/update-grid-data', userController.updateUserGridData);
+router.put('/email/:email/update-grid-data', authMiddleware, requireRole(UserRole.ADMIN), scopeToAuthenticatedUser, userController.updateUserGridData);
 
 // Test endpoint for debugging Grid configuration
 /**
@@ -1094,6 +1279,8 @@ router.put('/email/:email/update-grid-data', userController.updateUserGridData);
  *     summary: Test Grid configuration
  *     description: Test endpoint to debug Grid API configuration and connectivity
  *     tags: [Users, Debug]
+ *     security:
+ *       - BearerAuth: []
  *     responses:
  *       200:
  *         description: Grid configuration test results
@@ -1126,6 +1313,18 @@ router.put('/email/:email/update-grid-data', userController.updateUserGridData);
  *                       type: string
  *                     hasData:
  *                       type: boolean
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Grid configuration error
  *         content:
@@ -1133,15 +1332,17 @@ router.put('/email/:email/update-grid-data', userController.updateUserGridData);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/test-grid-config', userController.testGridConfig);
+router.get('/test-grid-config', authMiddleware, requireRole(UserRole.ADMIN), userController.testGridConfig);
 
 /**
  * @swagger
  * /api/users/email/{email}/grid-data:
  *   get:
  *     summary: Get complete Grid account data
- *     description: Retrieve all Grid SDK response data stored for a user, including authentication data, account data, session data, and metadata
+ *     description: Retrieve the Grid account details stored for a user and a summary of which Grid data is present. Grid credentials are never returned.
  *     tags: [Users, Grid]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -1165,22 +1366,6 @@ router.get('/test-grid-config', userController.testGridConfig);
  *                 gridAccount:
  *                   type: object
  *                   description: Grid account basic information
- *                 completeGridData:
- *                   type: object
- *                   description: Complete Grid SDK response data
- *                   properties:
- *                     authData:
- *                       type: object
- *                       description: Complete authentication data from Grid SDK
- *                     accountData:
- *                       type: object
- *                       description: Complete account creation response from Grid SDK
- *                     sessionData:
- *                       type: object
- *                       description: Session and authentication details
- *                     metadata:
- *                       type: object
- *                       description: Additional metadata from Grid SDK responses
  *                 summary:
  *                   type: object
  *                   description: Data completeness summary
@@ -1229,7 +1414,7 @@ router.get('/test-grid-config', userController.testGridConfig);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/email/:email/grid-data', userController.getUserGridData);
+router.get('/email/:email/grid-data', authMiddleware, scopeToAuthenticatedUser, userController.getUserGridData);
 
 // Transaction routes
 /**
@@ -1253,6 +1438,10 @@ router.get('/email/:email/grid-data', userController.getUserGridData);
  *       - Both users must be active
  *       - Blockchain service must be available
  *     tags: [Users, Transactions, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1325,6 +1514,16 @@ router.get('/email/:email/grid-data', userController.getUserGridData);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1332,7 +1531,7 @@ router.get('/email/:email/grid-data', userController.getUserGridData);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/prepare', validateRequest(prepareTransactionSchema), userController.prepareTransaction);
+router.post('/transactions/prepare', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(prepareTransactionSchema), userController.prepareTransaction);
 
 /**
  * @swagger
@@ -1353,6 +1552,10 @@ router.post('/transactions/prepare', validateRequest(prepareTransactionSchema),
  *       - Sender must have complete Grid account data
  *       - Valid transaction payload from prepare endpoint
  *     tags: [Users, Transactions, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1422,6 +1625,16 @@ router.post('/transactions/prepare', validateRequest(prepareTransactionSchema),
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1429,7 +1642,7 @@ router.post('/transactions/prepare', validateRequest(prepareTransactionSchema),
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/execute', validateRequest(executeTransactionSchema), userController.executeTransaction);
+router.post('/transactions/execute', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(executeTransactionSchema), userController.executeTransaction);
 
 /**
  * @swagger
@@ -1452,6 +1665,10 @@ router.post('/transactions/execute', validateRequest(executeTransactionSchema),
  *       - Both users must be active
  *       - Blockchain service must be available
  *     tags: [Users, Transactions, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1517,6 +1734,16 @@ router.post('/transactions/execute', validateRequest(executeTransactionSchema),
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1524,7 +1751,7 @@ router.post('/transactions/execute', validateRequest(executeTransactionSchema),
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/send', validateRequest(sendTransactionSchema), userController.sendTransaction);
+router.post('/transactions/send', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendTransactionSchema), userController.sendTransaction);
 
 /**
  * @swagger
@@ -1544,6 +1771,10 @@ router.post('/transactions/send', validateRequest(sendTransactionSchema), userCo
  *       - Sender must have complete Grid account data
  *       - Both users must be active
  *     tags: [Users, Transactions, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1598,6 +1829,16 @@ router.post('/transactions/send', validateRequest(sendTransactionSchema), userCo
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1605,7 +1846,7 @@ router.post('/transactions/send', validateRequest(sendTransactionSchema), userCo
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/send-sol', validateRequest(sendSolTransactionSchema), userController.sendSolTransaction);
+router.post('/transactions/send-sol', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendSolTransactionSchema), userController.sendSolTransaction);
 
 /**
  * @swagger
@@ -1625,6 +1866,10 @@ router.post('/transactions/send-sol', validateRequest(sendSolTransactionSchema),
  *       - Sender must have complete Grid account data
  *       - Both users must be active
  *     tags: [Users, Transactions, Grid]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1679,6 +1924,16 @@ router.post('/transactions/send-sol', validateRequest(sendSolTransactionSchema),
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1686,7 +1941,7 @@ router.post('/transactions/send-sol', validateRequest(sendSolTransactionSchema),
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/send-usdc', validateRequest(sendUsdcTransactionSchema), userController.sendUsdcTransaction);
+router.post('/transactions/send-usdc', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendUsdcTransactionSchema), userController.sendUsdcTransaction);
 
 /**
  * @swagger
@@ -1707,6 +1962,10 @@ router.post('/transactions/send-usdc', validateRequest(sendUsdcTransactionSchema
  *       - Recipient address must be a valid Solana wallet address
  *       - A fixed transaction fee (0.07 USDC) applies to all transfers
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1791,6 +2050,16 @@ router.post('/transactions/send-usdc', validateRequest(sendUsdcTransactionSchema
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1798,7 +2067,7 @@ router.post('/transactions/send-usdc', validateRequest(sendUsdcTransactionSchema
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/transactions/grid-to-wallet', validateRequest(sendGridToWalletTransactionSchema), userController.sendGridToWallet);
+router.post('/transactions/grid-to-wallet', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(sendGridToWalletTransactionSchema), userController.sendGridToWallet);
 
 /**
  * @swagger
@@ -1809,6 +2078,8 @@ router.post('/transactions/grid-to-wallet', validateRequest(sendGridToWalletTran
  *       Debug endpoint to test transaction creation without Grid SDK involvement.
  *       This helps isolate issues between transaction creation and Grid SDK preparation.
  *     tags: [Users, Debug]
+ *     security:
+ *       - BearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -1864,6 +2135,18 @@ router.post('/transactions/grid-to-wallet', validateRequest(sendGridToWalletTran
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1871,7 +2154,7 @@ router.post('/transactions/grid-to-wallet', validateRequest(sendGridToWalletTran
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/test-transaction', userController.testTransactionCreation);
+router.post('/test-transaction', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.testTransactionCreation);
 
 /**
  * @swagger
@@ -1883,6 +2166,8 @@ router.post('/test-transaction', userController.testTransactionCreation);
  *       and sent to the Grid SDK. This helps understand the transaction structure
  *       and identify any issues with the data format.
  *     tags: [Users, Debug]
+ *     security:
+ *       - BearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -1942,6 +2227,18 @@ router.post('/test-transaction', userController.testTransactionCreation);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -1949,7 +2246,7 @@ router.post('/test-transaction', userController.testTransactionCreation);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/debug-transaction', userController.debugTransactionData);
+router.post('/debug-transaction', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.debugTransactionData);
 
 // ===========================================
 // SESSION REFRESH ROUTES
@@ -2011,6 +2308,12 @@ router.post('/debug-transaction', userController.debugTransactionData);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -2018,7 +2321,7 @@ router.post('/debug-transaction', userController.debugTransactionData);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/refresh-session', userController.refreshPrivySession);
+router.post('/refresh-session', otpRateLimit, userController.refreshPrivySession);
 
 /**
  * @swagger
@@ -2059,7 +2362,10 @@ router.post('/refresh-session', userController.refreshPrivySession);
  *                   example: Session refreshed successfully
  *                 token:
  *                   type: string
- *                   description: New JWT token
+ *                   description: New JWT access token
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Refresh token for /api/auth/refresh
  *                 user:
  *                   $ref: '#/components/schemas/User'
  *                 sessionRefreshed:
@@ -2077,14 +2383,28 @@ router.post('/refresh-session', userController.refreshPrivySession);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       423:
+ *         description: Verification locked after repeated failed OTP codes (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Verification temporarily unavailable - OTP attempt tracking failed
  */
-router.post('/complete-session-refresh', userController.completeSessionRefresh);
+router.post('/complete-session-refresh', authRateLimit, otpAttemptGuard, userController.completeSessionRefresh);
 
 /**
  * @swagger
@@ -2093,6 +2413,8 @@ router.post('/complete-session-refresh', userController.completeSessionRefresh);
  *     summary: Check session status for user
  *     description: Checks if user's Privy session is expired and provides refresh guidance
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -2175,7 +2497,7 @@ router.post('/complete-session-refresh', userController.completeSessionRefresh);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/session-status/:email', userController.checkSessionStatus);
+router.get('/session-status/:email', authMiddleware, scopeToAuthenticatedUser, userController.checkSessionStatus);
 
 // Transfer routes
 /**
@@ -2201,6 +2523,8 @@ router.get('/session-status/:email', userController.checkSessionStatus);
  *       - Transaction status and timestamps
  *       - Fees and memos
  *     tags: [Users, Transfers, Grid]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -2369,7 +2693,7 @@ router.get('/session-status/:email', userController.checkSessionStatus);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/email/:email/transfers', userController.getUserTransfers);
+router.get('/email/:email/transfers', authMiddleware, scopeToAuthenticatedUser, userController.getUserTransfers);
 
 /**
  * @swagger
@@ -2380,6 +2704,8 @@ router.get('/email/:email/transfers', userController.getUserTransfers);
  *       Debug endpoint to check raw Grid transfer API response for troubleshooting transfer issues.
  *       This endpoint provides detailed information about the Grid SDK response structure.
  *     tags: [Users, Debug, Transfers]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -2426,6 +2752,18 @@ router.get('/email/:email/transfers', userController.getUserTransfers);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Requires ADMIN or OPERATOR role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *         content:
@@ -2439,7 +2777,7 @@ router.get('/email/:email/transfers', userController.getUserTransfers);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/email/:email/debug-transfers', userController.debugUserTransfers);
+router.get('/email/:email/debug-transfers', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), scopeToAuthenticatedUser, userController.debugUserTransfers);
 
 // ===========================================
 // YIELD INVESTMENT ROUTES (LULO INTEGRATION)
@@ -2458,6 +2796,10 @@ router.get('/email/:email/debug-transfers', userController.debugUserTransfers);
  *       - User must have a Grid account
  *       - Lulo API key must be configured
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2505,10 +2847,20 @@ router.get('/email/:email/debug-transfers', userController.debugUserTransfers);
  *         description: User does not have a Grid account
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit exceeded (see Retry-After header)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  */
-router.post('/yield/initialize-referrer', validateRequest(initializeReferrerSchema), userController.initializeReferrer);
+router.post('/yield/initialize-referrer', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(initializeReferrerSchema), userController.initializeReferrer);
 
 /**
  * @swagger
@@ -2528,6 +2880,10 @@ router.post('/yield/initialize-referrer', validateRequest(initializeReferrerSche
  *       - At least one amount (regular or protected) must be provided
  *       - Only USDC is supported
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2565,6 +2921,10 @@ router.post('/yield/initialize-referrer', validateRequest(initializeReferrerSche
  *                 type: string
  *                 description: Priority fee in lamports (optional)
  *                 example: "50000"
+ *               gasless:
+ *                 type: boolean
+ *                 description: Execute with the server fee payer and charge gasless credit instead of the Grid account paying SOL fees
+ *                 example: true
  *     responses:
  *       200:
  *         description: Yield deposit transaction generated successfully
@@ -2600,12 +2960,28 @@ router.post('/yield/initialize-referrer', validateRequest(initializeReferrerSche
  *                   type: string
  *       400:
  *         description: Bad request - Missing amounts or Grid account
+ *       401:
+ *         description: Grid session expired (gasless only)
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Lulo transaction rejected by the sponsorship policy (gasless only)
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  */
-router.post('/yield/deposit', validateRequest(depositSchema), userController.depositToYield);
+router.post('/yield/deposit', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(depositSchema), userController.depositToYield);
 
 /**
  * @swagger
@@ -2620,6 +2996,10 @@ router.post('/yield/deposit', validateRequest(depositSchema), userController.dep
  *       - User must have a Grid account
  *       - User must have protected funds deposited
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2649,6 +3029,10 @@ router.post('/yield/deposit', validateRequest(depositSchema), userController.dep
  *                 type: string
  *                 description: Priority fee in lamports (optional)
  *                 example: "50000"
+ *               gasless:
+ *                 type: boolean
+ *                 description: Execute with the server fee payer and charge gasless credit instead of the Grid account paying SOL fees
+ *                 example: true
  *     responses:
  *       200:
  *         description: Protected withdrawal transaction generated successfully
@@ -2683,12 +3067,28 @@ router.post('/yield/deposit', validateRequest(depositSchema), userController.dep
  *                   type: string
  *       400:
  *         description: User does not have a Grid account
+ *       401:
+ *         description: Grid session expired (gasless only)
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Lulo transaction rejected by the sponsorship policy (gasless only)
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  */
-router.post('/yield/withdraw-protected', validateRequest(withdrawProtectedSchema), userController.withdrawProtected);
+router.post('/yield/withdraw-protected', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(withdrawProtectedSchema), userController.withdrawProtected);
 
 /**
  * @swagger
@@ -2708,6 +3108,10 @@ router.post('/yield/withdraw-protected', validateRequest(withdrawProtectedSchema
  *       - User must have a Grid account
  *       - User must have boosted funds deposited
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2737,6 +3141,10 @@ router.post('/yield/withdraw-protected', validateRequest(withdrawProtectedSchema
  *                 type: string
  *                 description: Priority fee in lamports (optional)
  *                 example: "50000"
+ *               gasless:
+ *                 type: boolean
+ *                 description: Execute with the server fee payer and charge gasless credit instead of the Grid account paying SOL fees
+ *                 example: true
  *     responses:
  *       200:
  *         description: Regular withdrawal initiation transaction generated successfully
@@ -2774,12 +3182,28 @@ router.post('/yield/withdraw-protected', validateRequest(withdrawProtectedSchema
  *                   type: string
  *       400:
  *         description: User does not have a Grid account
+ *       401:
+ *         description: Grid session expired (gasless only)
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Lulo transaction rejected by the sponsorship policy (gasless only)
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  */
-router.post('/yield/initiate-regular-withdraw', validateRequest(initiateRegularWithdrawSchema), userController.initiateRegularWithdraw);
+router.post('/yield/initiate-regular-withdraw', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(initiateRegularWithdrawSchema), userController.initiateRegularWithdraw);
 
 /**
  * @swagger
@@ -2794,6 +3218,10 @@ router.post('/yield/initiate-regular-withdraw', validateRequest(initiateRegularW
  *       - User must have a Grid account
  *       - User must have a pending withdrawal with valid withdrawal ID
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2818,6 +3246,10 @@ router.post('/yield/initiate-regular-withdraw', validateRequest(initiateRegularW
  *                 type: string
  *                 description: Priority fee in lamports (optional)
  *                 example: "50000"
+ *               gasless:
+ *                 type: boolean
+ *                 description: Execute with the server fee payer and charge gasless credit instead of the Grid account paying SOL fees
+ *                 example: true
  *     responses:
  *       200:
  *         description: Regular withdrawal completion transaction generated successfully
@@ -2853,12 +3285,28 @@ router.post('/yield/initiate-regular-withdraw', validateRequest(initiateRegularW
  *                   type: string
  *       400:
  *         description: User does not have a Grid account
+ *       401:
+ *         description: Grid session expired (gasless only)
+ *       402:
+ *         description: Insufficient gasless credit (gasless only)
+ *       403:
+ *         description: Lulo transaction rejected by the sponsorship policy (gasless only)
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Conflict - A request with this Idempotency-Key is still being processed
+ *       422:
+ *         description: Idempotency-Key was already used with a different request body
+ *       429:
+ *         description: Too many requests - Rate limit or sponsorship quota exceeded (see Retry-After and X-Sponsor-Quota-* headers)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
  *       500:
  *         description: Internal server error
  */
-router.post('/yield/complete-regular-withdrawal', validateRequest(completeRegularWithdrawalSchema), userController.completeRegularWithdrawal);
+router.post('/yield/complete-regular-withdrawal', authMiddleware, transactionRateLimit, idempotency, scopeToAuthenticatedUser, validateRequest(completeRegularWithdrawalSchema), userController.completeRegularWithdrawal);
 
 /**
  * @swagger
@@ -2872,6 +3320,8 @@ router.post('/yield/complete-regular-withdrawal', validateRequest(completeRegula
  *       **Requirements:**
  *       - User must have a Grid account
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -2904,7 +3354,7 @@ router.post('/yield/complete-regular-withdrawal', validateRequest(completeRegula
  *       500:
  *         description: Internal server error
  */
-router.get('/email/:email/yield/account', userController.getYieldAccount);
+router.get('/email/:email/yield/account', authMiddleware, scopeToAuthenticatedUser, userController.getYieldAccount);
 
 /**
  * @swagger
@@ -2918,6 +3368,8 @@ router.get('/email/:email/yield/account', userController.getYieldAccount);
  *       **Requirements:**
  *       - User must have a Grid account
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -2969,7 +3421,7 @@ router.get('/email/:email/yield/account', userController.getYieldAccount);
  *       500:
  *         description: Internal server error
  */
-router.get('/email/:email/yield/pending-withdrawals', userController.getPendingWithdrawals);
+router.get('/email/:email/yield/pending-withdrawals', authMiddleware, scopeToAuthenticatedUser, userController.getPendingWithdrawals);
 
 /**
  * @swagger
@@ -3129,6 +3581,8 @@ router.get('/yield/rates', userController.getYieldRates);
  *       - User must have a Grid account
  *       - User must have initialized a referrer account
  *     tags: [Users, Yield Investment]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -3191,15 +3645,15 @@ router.get('/yield/rates', userController.getYieldRates);
  *       500:
  *         description: Internal server error
  */
-router.get('/email/:email/yield/referrer', userController.getReferrerInfo);
+router.get('/email/:email/yield/referrer', authMiddleware, scopeToAuthenticatedUser, userController.getReferrerInfo);
 
 // Transaction History Routes
-router.get('/email/:email/yield/transactions', userController.getUserYieldTransactions);
-router.put('/yield/transactions/:transactionId/status', userController.updateYieldTransactionStatusEndpoint);
+router.get('/email/:email/yield/transactions', authMiddleware, scopeToAuthenticatedUser, userController.getUserYieldTransactions);
+router.put('/yield/transactions/:transactionId/status', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.updateYieldTransactionStatusEndpoint);
 
 // Transfer History Routes (using Grid SDK version)
 // Note: /email/:email/transfers route is already defined above using getUserTransfers (Grid SDK)
-router.put('/transfers/:transferId/status', userController.updateTransferStatusEndpoint);
+router.put('/transfers/:transferId/status', authMiddleware, requireRole(UserRole.ADMIN, UserRole.OPERATOR), userController.updateTransferStatusEndpoint);
 
 // Delete user by email
 /**
@@ -3208,18 +3662,20 @@ router.put('/transfers/:transferId/status', userController.updateTransferStatusE
  *   delete:
  *     summary: Delete user by email address
  *     description: |
- *       Deletes a user account and all associated data by email address.
+ *       Deletes a user account by email address.
  *       
  *       **Important Notes:**
- *       - This action is irreversible
- *       - All related records (transfers, yield transactions, etc.) will be automatically deleted due to cascade delete
- *       - The user's Grid account data will also be removed
+ *       - The account is deactivated and its sessions are revoked; it can no longer sign in
+ *       - Related records (transfers, payments, credit ledger, etc.) are kept
+ *       - The user's Grid session data is removed
  *       
  *       **Security:**
- *       - Requires proper authentication
+ *       - Requires ADMIN role
  *       - Email address is URL-decoded automatically
  *       - Validates email format before processing
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: email
@@ -3269,7 +3725,7 @@ router.put('/transfers/:transferId/status', userController.updateTransferStatusE
  *                       example: "2024-01-15T10:30:00Z"
  *                 note:
  *                   type: string
- *                   example: "All related records (transfers, yield transactions, etc.) have been automatically deleted"
+ *                   example: "The account is deactivated; its transfers, payments and credit history are kept"
  *       400:
  *         description: Bad request - Invalid email format or missing email
  *         content:
@@ -3280,6 +3736,12 @@ router.put('/transfers/:transferId/status', userController.updateTransferStatusE
  *                 error:
  *                   type: string
  *                   example: "Invalid email format"
+ *       403:
+ *         description: Forbidden - Requires ADMIN role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *         content:
@@ -3307,6 +3769,6 @@ router.put('/transfers/:transferId/status', userController.updateTransferStatusE
  *                   type: string
  *                   example: "Database error occurred"
  */
-router.delete('/email/:email', userController.deleteUserByEmail);
+router.delete('/email/:email', authMiddleware, requireRole(UserRole.ADMIN), scopeToAuthenticatedUser, userController.deleteUserByEmail);
 
 export default router;
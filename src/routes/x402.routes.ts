@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+import * as x402Controller from '../controllers/x402.controller';
+import { validateRequest } from '../middleware/validation.middleware';
+import { authMiddleware, requireRole } from '../middleware/auth.middleware';
+import { x402FacilitatorRequestSchema } from '../schemas/x402.schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/x402/supported:
+ *   get:
+ *     summary: List the x402 payment kinds this facilitator supports
+ *     description: |
+ *       Discovery route for resource servers. Each kind names the scheme and network
+ *       and, in `extra.feePayer`, the fee payer clients must set on their payment transaction.
+ *     tags: [x402]
+ *     responses:
+ *       200:
+ *         description: Supported payment kinds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/X402SupportedResponse'
+ */
+router.get('/supported', x402Controller.getSupported);
+
+/**
+ * @swagger
+ * /api/x402/verify:
+ *   post:
+ *     summary: Verify an x402 payment without settling it (Operator or Admin)
+ *     description: |
+ *       Checks that the payment payload's transaction is signed by the payer, uses one of this
+ *       facilitator's fee payers, passes the sponsorship policy, transfers exactly
+ *       `maxAmountRequired` of `asset` to `payTo` and simulates successfully.
+ *       Invalid payments are answered with 200 and `isValid: false`.
+ *     tags: [x402]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/X402FacilitatorRequest'
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/X402VerifyResponse'
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires OPERATOR or ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/verify',
+  authMiddleware,
+  requireRole(UserRole.OPERATOR, UserRole.ADMIN),
+  validateRequest(x402FacilitatorRequestSchema),
+  x402Controller.verifyPayment
+);
+
+/**
+ * @swagger
+ * /api/x402/settle:
+ *   post:
+ *     summary: Settle an x402 payment (Operator or Admin)
+ *     description: |
+ *       Verifies the payment as `/api/x402/verify` does, then signs it with the fee payer
+ *       it names and submits it. Failed settlements are answered with 200 and `success: false`.
+ *     tags: [x402]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/X402FacilitatorRequest'
+ *     responses:
+ *       200:
+ *         description: Settlement result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/X402SettleResponse'
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Forbidden - Requires OPERATOR or ADMIN role
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/settle',
+  authMiddleware,
+  requireRole(UserRole.OPERATOR, UserRole.ADMIN),
+  validateRequest(x402FacilitatorRequestSchema),
+  x402Controller.settlePayment
+);
+
+export default router;
@@ -0,0 +1,136 @@
+// src/schemas/admin.schemas.ts
+import { z } from 'zod';
+import { AuditAction, PromoCodeType } from '@prisma/client';
+
+// Audit log query filters
+export const auditEventQuerySchema = z
+  .object({
+    action: z.enum(AuditAction, `Action must be one of ${Object.values(AuditAction).join(', ')}`).optional(),
+    actorUserId: z.string().min(1).max(100).optional(),
+    targetType: z.string().min(1).max(100).optional(),
+    targetId: z.string().min(1).max(255).optional(),
+    from: z.coerce.date('from must be a valid date').optional(),
+    to: z.coerce.date('to must be a valid date').optional(),
+    cursor: z.coerce.number().int().positive('Cursor must be a positive integer').optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(200, 'Limit must be at most 200')
+      .default(50),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+// OTP lockout removal (at least one target required)
+export const otpUnlockSchema = z
+  .object({
+    email: z
+      .string()
+      .email('Please provide a valid email address')
+      .max(255, 'Email must be less than 255 characters')
+      .optional(),
+    ip: z.string().min(1, 'IP address cannot be empty').max(100, 'IP address is too long').optional(),
+  })
+  .refine((body) => !!body.email || !!body.ip, {
+    message: 'Provide an email, an IP address, or both',
+    path: ['email'],
+  });
+
+// Add a fee payer keypair to the sponsorship pool
+export const addFeePayerSchema = z.object({
+  privateKey: z
+    .string()
+    .min(1, 'Private key is required')
+    .max(1000, 'Private key is too long'),
+  label: z.string().max(100, 'Label must be less than 100 characters').optional(),
+});
+
+// Credit package sold for a fixed USDC price, with an optional volume bonus
+const creditPackageFields = {
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  priceUSDC: z.number().positive('Price must be positive').max(1_000_000, 'Price is too large'),
+  bonusBps: z
+    .number()
+    .int()
+    .min(0, 'Bonus cannot be negative')
+    .max(10_000, 'Bonus must be at most 10000 basis points (100%)'),
+  // null uses CREDIT_EXPIRY_DAYS, 0 never expires
+  creditTtlDays: z.number().int().min(0, 'Credit TTL cannot be negative').max(3650).nullable(),
+  isActive: z.boolean(),
+  sortOrder: z.number().int(),
+};
+
+export const createCreditPackageSchema = z.object({
+  ...creditPackageFields,
+  bonusBps: creditPackageFields.bonusBps.default(0),
+  creditTtlDays: creditPackageFields.creditTtlDays.optional(),
+  isActive: creditPackageFields.isActive.default(true),
+  sortOrder: creditPackageFields.sortOrder.default(0),
+});
+
+export const updateCreditPackageSchema = z
+  .object(creditPackageFields)
+  .partial()
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
+// Shared promo code (code required) or a batch of single-use vouchers (codes generated)
+export const createPromoCodeSchema = z
+  .object({
+    type: z.enum(PromoCodeType).default(PromoCodeType.PROMO),
+    code: z
+      .string()
+      .regex(/^[A-Za-z0-9_-]{3,32}$/, 'Code must be 3-32 letters, digits, dashes or underscores')
+      .optional(),
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    creditUSDC: z.number().positive('Credit must be positive').max(10_000, 'Credit is too large'),
+    maxRedemptions: z.number().int().positive('Max redemptions must be positive').optional(),
+    maxRedemptionsPerUser: z.number().int().positive('Max redemptions per user must be positive').default(1),
+    expiresAt: z.coerce.date('expiresAt must be a valid date').optional(),
+    count: z.number().int().min(1).max(500, 'At most 500 vouchers can be issued at once').default(1),
+  })
+  .refine((body) => (body.type === PromoCodeType.PROMO) === !!body.code, {
+    message: 'A code is required for PROMO codes and not allowed for VOUCHER batches',
+    path: ['code'],
+  })
+  .refine((body) => !body.expiresAt || body.expiresAt > new Date(), {
+    message: 'expiresAt must be in the future',
+    path: ['expiresAt'],
+  });
+
+export const updatePromoCodeSchema = z
+  .object({
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    // null removes the limit or the expiry
+    maxRedemptions: z.number().int().positive('Max redemptions must be positive').nullable().optional(),
+    expiresAt: z.coerce.date('expiresAt must be a valid date').nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
+export const promoCodeQuerySchema = z.object({
+  type: z.enum(PromoCodeType).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(500, 'Limit must be at most 500')
+    .default(100),
+});
+
+// Type exports for TypeScript
+export type AuditEventQueryInput = z.infer<typeof auditEventQuerySchema>;
+export type OtpUnlockInput = z.infer<typeof otpUnlockSchema>;
+export type AddFeePayerInput = z.infer<typeof addFeePayerSchema>;
+export type CreateCreditPackageInput = z.infer<typeof createCreditPackageSchema>;
+export type UpdateCreditPackageInput = z.infer<typeof updateCreditPackageSchema>;
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
+export type PromoCodeQueryInput = z.infer<typeof promoCodeQuerySchema>;
@@ -15,3 +15,33 @@ export const verifyTokenSchema = z.object({
 });
 
 export type VerifyTokenInput = z.infer<typeof verifyTokenSchema>;
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+
+export const logoutSchema = z.object({
+  allDevices: z.boolean().optional().default(false),
+});
+
+export type LogoutInput = z.infer<typeof logoutSchema>;
+
+const solanaAddressSchema = z
+  .string()
+  .regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Please provide a valid Solana wallet address');
+
+export const siwsNonceSchema = z.object({
+  address: solanaAddressSchema,
+});
+
+export type SiwsNonceInput = z.infer<typeof siwsNonceSchema>;
+
+export const siwsVerifySchema = z.object({
+  address: solanaAddressSchema,
+  nonce: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid nonce'),
+  signature: z.string().min(1, 'Signature is required').max(200, 'Signature is too long'),
+});
+
+export type SiwsVerifyInput = z.infer<typeof siwsVerifySchema>;
@@ -0,0 +1,78 @@
+// src/schemas/organization.schemas.ts
+import { z } from 'zod';
+import { OrganizationCreditPolicy, OrganizationRole } from '@prisma/client';
+
+const organizationFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  creditPolicy: z.enum(
+    OrganizationCreditPolicy,
+    `Credit policy must be one of ${Object.values(OrganizationCreditPolicy).join(', ')}`
+  ),
+};
+
+// null removes the member's limit
+const monthlySpendLimitUSDC = z
+  .number()
+  .min(0, 'Spend limit cannot be negative')
+  .max(1_000_000, 'Spend limit is too large')
+  .nullable();
+
+export const createOrganizationSchema = z.object({
+  name: organizationFields.name,
+  creditPolicy: organizationFields.creditPolicy.default(OrganizationCreditPolicy.PERSONAL_FIRST),
+});
+
+export const updateOrganizationSchema = z
+  .object(organizationFields)
+  .partial()
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
+export const addOrganizationMemberSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(OrganizationRole).default(OrganizationRole.MEMBER),
+  monthlySpendLimitUSDC: monthlySpendLimitUSDC.default(null),
+});
+
+export const updateOrganizationMemberSchema = z
+  .object({
+    role: z.enum(OrganizationRole).optional(),
+    monthlySpendLimitUSDC: monthlySpendLimitUSDC.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
+export const fundOrganizationSchema = z.object({
+  amountUSDC: z.number().positive('Amount must be positive').max(1_000_000, 'Amount is too large'),
+});
+
+// Usage report period; defaults to the current UTC month
+export const organizationUsageQuerySchema = z
+  .object({
+    from: z.coerce.date('from must be a valid date').optional(),
+    to: z.coerce.date('to must be a valid date').optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export const organizationLedgerQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(50),
+});
+
+// Type exports for TypeScript
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+export type AddOrganizationMemberInput = z.infer<typeof addOrganizationMemberSchema>;
+export type UpdateOrganizationMemberInput = z.infer<typeof updateOrganizationMemberSchema>;
+export type FundOrganizationInput = z.infer<typeof fundOrganizationSchema>;
+export type OrganizationUsageQueryInput = z.infer<typeof organizationUsageQuerySchema>;
+export type OrganizationLedgerQueryInput = z.infer<typeof organizationLedgerQuerySchema>;
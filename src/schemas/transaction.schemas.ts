@@ -57,7 +57,12 @@ export const sendGridToWalletTransactionSchema = z.object({
 // Gasless transaction schema (Grid wallet only - fully programmatic)
 export const gaslessTransactionSchema = z.object({
   email: z.string().email('Invalid email address'),
-  useCredit: z.boolean().optional().default(false), // Option to use existing credit instead of making payment
+  // Credit is only spent by sponsoring a transaction
+  useCredit: z
+    .literal(false, 'To spend credit, sponsor the transaction with /api/transaction/gasless/sponsor')
+    .optional(),
+  packageId: z.string().min(1).max(100).optional(), // Buy a credit package instead of a single-transaction payment
+  currency: z.string().trim().toUpperCase().min(1).max(20).optional(), // Pay in SOL or a configured token instead of USDC
 });
 
 // Credit management schemas
@@ -70,6 +75,33 @@ export const getPaymentHistorySchema = z.object({
   limit: z.number().int().positive().max(100).optional().default(50),
 });
 
+export const redeemPromoCodeSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  code: z.string().trim().min(1, 'Code is required').max(64, 'Code is too long'),
+});
+
+export const updateCreditAlertsSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  // null goes back to the server default, 0 turns low-balance alerts off
+  lowBalanceThresholdUSDC: z.number().min(0, 'Threshold cannot be negative').max(1_000_000).nullable(),
+});
+
+export const updateAutoTopUpSchema = z
+  .object({
+    email: z.string().email('Invalid email address'),
+    enabled: z.boolean(),
+    amountUSDC: z.number().positive('Amount must be positive').optional(),
+    monthlyCapUSDC: z.number().positive('Monthly cap must be positive').optional(),
+  })
+  .refine((data) => !data.enabled || (data.amountUSDC !== undefined && data.monthlyCapUSDC !== undefined), {
+    message: 'amountUSDC and monthlyCapUSDC are required to enable auto top-up',
+    path: ['amountUSDC'],
+  })
+  .refine((data) => data.amountUSDC === undefined || data.monthlyCapUSDC === undefined || data.monthlyCapUSDC >= data.amountUSDC, {
+    message: 'Monthly cap cannot be lower than the top-up amount',
+    path: ['monthlyCapUSDC'],
+  });
+
 export const sponsorTransactionSchema = z.object({
   email: z.string().email('Invalid email address'),
   transaction: z.string().min(1, 'Transaction data is required'),
@@ -93,5 +125,8 @@ export type SendGridToWalletTransactionInput = z.infer<typeof sendGridToWalletTr
 export type GaslessTransactionInput = z.infer<typeof gaslessTransactionSchema>;
 export type GetCreditBalanceInput = z.infer<typeof getCreditBalanceSchema>;
 export type GetPaymentHistoryInput = z.infer<typeof getPaymentHistorySchema>;
+export type RedeemPromoCodeInput = z.infer<typeof redeemPromoCodeSchema>;
+export type UpdateCreditAlertsInput = z.infer<typeof updateCreditAlertsSchema>;
+export type UpdateAutoTopUpInput = z.infer<typeof updateAutoTopUpSchema>;
 export type SponsorTransactionInput = z.infer<typeof sponsorTransactionSchema>;
 export type CreateTransactionForSponsorInput = z.infer<typeof createTransactionForSponsorSchema>;
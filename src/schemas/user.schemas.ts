@@ -154,9 +154,15 @@ export const gridLoginSchema = z.object({
     .max(255, 'Email must be less than 255 characters'),
 });
 
+// User role assignment schema (admin only)
+export const updateUserRoleSchema = z.object({
+  role: z.enum(['USER', 'OPERATOR', 'ADMIN'], 'Role must be one of USER, OPERATOR or ADMIN'),
+});
+
 // Type exports for TypeScript
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
 export type InitiateGridAccountInput = z.infer<typeof initiateGridAccountSchema>;
 export type CompleteGridAccountInput = z.infer<typeof completeGridAccountSchema>;
 export type UserLoginInput = z.infer<typeof gridLoginSchema>;
@@ -0,0 +1,50 @@
+// src/schemas/x402.schemas.ts
+import { z } from 'zod';
+
+// Payment requirements a resource server sent to its client (x402 PaymentRequirements)
+export const x402PaymentRequirementsSchema = z.object({
+  scheme: z.string().min(1, 'Scheme is required'),
+  network: z.string().min(1, 'Network is required'),
+  maxAmountRequired: z.string().regex(/^\d+$/, 'maxAmountRequired must be an amount in the asset\'s smallest units'),
+  resource: z.string().min(1, 'Resource is required').max(2048),
+  description: z.string().max(1000).optional(),
+  mimeType: z.string().max(255).optional(),
+  payTo: z.string().min(32, 'payTo must be a Solana address').max(44, 'payTo must be a Solana address'),
+  maxTimeoutSeconds: z.number().int().positive().optional(),
+  asset: z.string().min(32, 'Asset must be a token mint address').max(44, 'Asset must be a token mint address'),
+  extra: z
+    .looseObject({
+      feePayer: z.string().min(32).max(44).optional(),
+    })
+    .optional(),
+});
+
+// Payment payload the client sent in its X-PAYMENT header, decoded
+export const x402PaymentPayloadSchema = z
+  .object({
+    x402Version: z.number().int(),
+    scheme: z.string().min(1, 'Scheme is required'),
+    network: z.string().min(1, 'Network is required'),
+    payload: z.object({
+      // Base64-encoded, partially signed transaction
+      transaction: z.string().min(1).optional(),
+      // Field name used by this backend's own X-PAYMENT proofs
+      serializedTransaction: z.string().min(1).optional(),
+    }),
+  })
+  .refine((body) => !!body.payload.transaction || !!body.payload.serializedTransaction, {
+    message: 'payload.transaction is required',
+    path: ['payload', 'transaction'],
+  });
+
+// Body of POST /verify and POST /settle
+export const x402FacilitatorRequestSchema = z.object({
+  x402Version: z.number().int().optional(),
+  paymentPayload: x402PaymentPayloadSchema,
+  paymentRequirements: x402PaymentRequirementsSchema,
+});
+
+// Type exports for TypeScript
+export type X402PaymentRequirementsInput = z.infer<typeof x402PaymentRequirementsSchema>;
+export type X402PaymentPayloadInput = z.infer<typeof x402PaymentPayloadSchema>;
+export type X402FacilitatorRequestInput = z.infer<typeof x402FacilitatorRequestSchema>;
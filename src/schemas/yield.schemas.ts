@@ -27,6 +27,8 @@ export const depositSchema = z.object({
   protectedAmount: z.number().min(0, 'Protected amount must be non-negative').optional(),
   referrer: z.string().optional(),
   priorityFee: z.string().optional(),
+  // Pay network fees from gasless credit with the server fee payer
+  gasless: z.boolean().optional(),
 }).refine(
   (data) => data.regularAmount !== undefined || data.protectedAmount !== undefined,
   {
@@ -41,6 +43,7 @@ export const withdrawProtectedSchema = z.object({
   mintAddress: z.string().min(1, 'Mint address is required'),
   amount: z.number().positive('Amount must be positive'),
   priorityFee: z.string().optional(),
+  gasless: z.boolean().optional(),
 });
 
 // Initiate Regular Withdraw
@@ -49,6 +52,7 @@ export const initiateRegularWithdrawSchema = z.object({
   mintAddress: z.string().min(1, 'Mint address is required'),
   amount: z.number().positive('Amount must be positive'),
   priorityFee: z.string().optional(),
+  gasless: z.boolean().optional(),
 });
 
 // Complete Regular Withdrawal
@@ -56,6 +60,7 @@ export const completeRegularWithdrawalSchema = z.object({
   email: z.string().email('Invalid email format'),
   pendingWithdrawalId: z.number().int().positive('Pending withdrawal ID must be a positive integer'),
   priorityFee: z.string().optional(),
+  gasless: z.boolean().optional(),
 });
 
 // Get Account Data
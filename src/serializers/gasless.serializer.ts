@@ -0,0 +1,196 @@
+// src/serializers/gasless.serializer.ts
+import { CreditLedgerEntry, CreditPackage, GaslessPayment, PromoCode, SponsoredTransaction } from '@prisma/client';
+import { SerializerView, pickFields } from './view';
+
+const PUBLIC_GASLESS_PAYMENT_FIELDS = [
+  'id',
+  'amountUSDC',
+  'amount',
+  'currency',
+  'exchangeRateUSDC',
+  'signature',
+  'status',
+  'creditExpiresAt',
+  'recipientTokenAccount',
+  'recipientWallet',
+  'fromAddress',
+  'network',
+  'tokenMint',
+  'explorerUrl',
+  'packageId',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const EXPANDED_GASLESS_PAYMENT_FIELDS = [...PUBLIC_GASLESS_PAYMENT_FIELDS, 'userId', 'paymentProof'] as const;
+
+// Credit columns are stored in micro-USDC and returned in USDC under these names
+const GASLESS_PAYMENT_CREDIT_FIELDS = {
+  creditRemaining: 'creditRemainingMicroUsdc',
+  creditUsed: 'creditUsedMicroUsdc',
+  creditRefunded: 'creditRefundedMicroUsdc',
+  creditExpired: 'creditExpiredMicroUsdc',
+} as const;
+
+const PUBLIC_SPONSORED_TRANSACTION_FIELDS = [
+  'id',
+  'type',
+  'status',
+  'signature',
+  'solFeePaid',
+  'usdcCreditUsed',
+  'network',
+  'explorerUrl',
+  'errorMessage',
+  'yieldTransactionId',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const EXPANDED_SPONSORED_TRANSACTION_FIELDS = [
+  ...PUBLIC_SPONSORED_TRANSACTION_FIELDS,
+  'userId',
+  'paymentId',
+  'serializedTransaction',
+  'transactionSignature',
+] as const;
+
+type GaslessPaymentCreditDto = Partial<Record<keyof typeof GASLESS_PAYMENT_CREDIT_FIELDS, number>>;
+
+export type GaslessPaymentDto = Partial<Pick<GaslessPayment, (typeof PUBLIC_GASLESS_PAYMENT_FIELDS)[number]>> &
+  GaslessPaymentCreditDto;
+export type ExpandedGaslessPaymentDto = Partial<
+  Pick<GaslessPayment, (typeof EXPANDED_GASLESS_PAYMENT_FIELDS)[number]>
+> &
+  GaslessPaymentCreditDto;
+export type SponsoredTransactionDto = Partial<
+  Pick<SponsoredTransaction, (typeof PUBLIC_SPONSORED_TRANSACTION_FIELDS)[number]>
+>;
+export type ExpandedSponsoredTransactionDto = Partial<
+  Pick<SponsoredTransaction, (typeof EXPANDED_SPONSORED_TRANSACTION_FIELDS)[number]>
+>;
+
+/**
+ * Map a gasless payment row to its API representation
+ */
+export const serializeGaslessPayment = (
+  payment: Partial<GaslessPayment>,
+  view: SerializerView = 'public'
+): GaslessPaymentDto | ExpandedGaslessPaymentDto => {
+  const credit: GaslessPaymentCreditDto = {};
+  (Object.keys(GASLESS_PAYMENT_CREDIT_FIELDS) as Array<keyof typeof GASLESS_PAYMENT_CREDIT_FIELDS>).forEach((field) => {
+    const microUsdc = payment[GASLESS_PAYMENT_CREDIT_FIELDS[field]];
+    if (microUsdc !== undefined) {
+      credit[field] = Number(microUsdc) / 1_000_000;
+    }
+  });
+
+  return view === 'expanded'
+    ? { ...pickFields(payment, EXPANDED_GASLESS_PAYMENT_FIELDS), ...credit }
+    : { ...pickFields(payment, PUBLIC_GASLESS_PAYMENT_FIELDS), ...credit };
+};
+
+/**
+ * Map a sponsored transaction row to its API representation
+ */
+export const serializeSponsoredTransaction = (
+  transaction: Partial<SponsoredTransaction>,
+  view: SerializerView = 'public'
+): SponsoredTransactionDto | ExpandedSponsoredTransactionDto => {
+  return view === 'expanded'
+    ? pickFields(transaction, EXPANDED_SPONSORED_TRANSACTION_FIELDS)
+    : pickFields(transaction, PUBLIC_SPONSORED_TRANSACTION_FIELDS);
+};
+
+export interface CreditLedgerEntryDto {
+  id: string;
+  direction: CreditLedgerEntry['direction'];
+  reason: CreditLedgerEntry['reason'];
+  amountUSDC: number;
+  // Part of the amount added to or taken from bonus credit
+  bonusUSDC: number;
+  balanceAfterUSDC: number;
+  paymentId: string | null;
+  transactionType: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Map a credit ledger entry to its API representation, with micro-USDC amounts in USDC
+ */
+export const serializeCreditLedgerEntry = (entry: CreditLedgerEntry): CreditLedgerEntryDto => ({
+  id: entry.id,
+  direction: entry.direction,
+  reason: entry.reason,
+  amountUSDC: Number(entry.amountMicroUsdc) / 1_000_000,
+  bonusUSDC: Number(entry.bonusMicroUsdc) / 1_000_000,
+  balanceAfterUSDC: Number(entry.balanceAfterMicroUsdc) / 1_000_000,
+  paymentId: entry.paymentId,
+  transactionType: entry.transactionType,
+  createdAt: entry.createdAt,
+});
+
+export interface CreditPackageDto {
+  id: string;
+  name: string;
+  description: string | null;
+  priceUSDC: number;
+  bonusBps: number;
+  bonusUSDC: number;
+  totalCreditUSDC: number;
+  // Days the credit stays usable; null uses the server default
+  creditTtlDays: number | null;
+  estimatedTransactions: number | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+/**
+ * Map a credit package, with its bonus and estimated transaction count, to its API representation
+ */
+export const serializeCreditPackage = (
+  creditPackage: CreditPackage & { bonusMicroUsdc: bigint; estimatedTransactions: number | null }
+): CreditPackageDto => ({
+  id: creditPackage.id,
+  name: creditPackage.name,
+  description: creditPackage.description,
+  priceUSDC: Number(creditPackage.priceMicroUsdc) / 1_000_000,
+  bonusBps: creditPackage.bonusBps,
+  bonusUSDC: Number(creditPackage.bonusMicroUsdc) / 1_000_000,
+  totalCreditUSDC: Number(creditPackage.priceMicroUsdc + creditPackage.bonusMicroUsdc) / 1_000_000,
+  creditTtlDays: creditPackage.creditTtlDays,
+  estimatedTransactions: creditPackage.estimatedTransactions,
+  isActive: creditPackage.isActive,
+  sortOrder: creditPackage.sortOrder,
+});
+
+export interface PromoCodeDto {
+  id: string;
+  code: string;
+  type: PromoCode['type'];
+  description: string | null;
+  creditUSDC: number;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number;
+  redemptionCount: number;
+  expiresAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Map a promo code to its API representation (admin only; codes are redeemable secrets)
+ */
+export const serializePromoCode = (promoCode: PromoCode): PromoCodeDto => ({
+  id: promoCode.id,
+  code: promoCode.code,
+  type: promoCode.type,
+  description: promoCode.description,
+  creditUSDC: Number(promoCode.creditMicroUsdc) / 1_000_000,
+  maxRedemptions: promoCode.maxRedemptions,
+  maxRedemptionsPerUser: promoCode.maxRedemptionsPerUser,
+  redemptionCount: promoCode.redemptionCount,
+  expiresAt: promoCode.expiresAt,
+  isActive: promoCode.isActive,
+  createdAt: promoCode.createdAt,
+});
@@ -0,0 +1,51 @@
+// src/serializers/organization.serializer.ts
+import { CreditLedgerEntry, Organization, OrganizationMember } from '@prisma/client';
+import { CreditLedgerEntryDto, serializeCreditLedgerEntry } from './gasless.serializer';
+
+export interface OrganizationDto {
+  id: string;
+  name: string;
+  creditPolicy: Organization['creditPolicy'];
+  creditBalanceUSDC: number;
+  createdAt: Date;
+}
+
+export interface OrganizationMemberDto {
+  userId: string;
+  role: OrganizationMember['role'];
+  // null is unlimited
+  monthlySpendLimitUSDC: number | null;
+  joinedAt: Date;
+}
+
+export interface OrganizationLedgerEntryDto extends CreditLedgerEntryDto {
+  // Member who spent or funded the pool
+  userId: string;
+}
+
+/**
+ * Map an organization to its API representation, with its pool balance in USDC
+ */
+export const serializeOrganization = (organization: Organization): OrganizationDto => ({
+  id: organization.id,
+  name: organization.name,
+  creditPolicy: organization.creditPolicy,
+  creditBalanceUSDC: Number(organization.creditBalanceMicroUsdc) / 1_000_000,
+  createdAt: organization.createdAt,
+});
+
+export const serializeOrganizationMember = (member: OrganizationMember): OrganizationMemberDto => ({
+  userId: member.userId,
+  role: member.role,
+  monthlySpendLimitUSDC:
+    member.monthlySpendLimitMicroUsdc === null ? null : Number(member.monthlySpendLimitMicroUsdc) / 1_000_000,
+  joinedAt: member.createdAt,
+});
+
+/**
+ * Map an entry of an organization's pool ledger, which also names the member it belongs to
+ */
+export const serializeOrganizationLedgerEntry = (entry: CreditLedgerEntry): OrganizationLedgerEntryDto => ({
+  ...serializeCreditLedgerEntry(entry),
+  userId: entry.userId,
+});
@@ -0,0 +1,46 @@
+// src/serializers/transfer.serializer.ts
+import { Transfer } from '@prisma/client';
+import { SerializerView, pickFields } from './view';
+
+const PUBLIC_TRANSFER_FIELDS = [
+  'id',
+  'type',
+  'status',
+  'fromAddress',
+  'toAddress',
+  'tokenType',
+  'amount',
+  'decimals',
+  'mintAddress',
+  'transactionSignature',
+  'feeAmount',
+  'priorityFee',
+  'errorMessage',
+  'memo',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const EXPANDED_TRANSFER_FIELDS = [
+  ...PUBLIC_TRANSFER_FIELDS,
+  'userId',
+  'serializedTransaction',
+  'recentBlockhash',
+  'gridResponse',
+  'blockchainResponse',
+] as const;
+
+export type TransferDto = Partial<Pick<Transfer, (typeof PUBLIC_TRANSFER_FIELDS)[number]>>;
+export type ExpandedTransferDto = Partial<Pick<Transfer, (typeof EXPANDED_TRANSFER_FIELDS)[number]>>;
+
+/**
+ * Map a transfer row to its API representation
+ */
+export const serializeTransfer = (
+  transfer: Partial<Transfer>,
+  view: SerializerView = 'public'
+): TransferDto | ExpandedTransferDto => {
+  return view === 'expanded'
+    ? pickFields(transfer, EXPANDED_TRANSFER_FIELDS)
+    : pickFields(transfer, PUBLIC_TRANSFER_FIELDS);
+};
@@ -0,0 +1,64 @@
+// src/serializers/user.serializer.ts
+import { User } from '@prisma/client';
+import kmsService from '../services/kms.service';
+import { SerializerView, pickFields } from './view';
+
+// Grid credentials (authResult, sessionSecrets) are never serialized, in any view
+const PUBLIC_USER_FIELDS = [
+  'id',
+  'email',
+  'firstName',
+  'lastName',
+  'middleName',
+  'phoneNumber',
+  'walletAddress',
+  'role',
+  'isActive',
+  'gridAddress',
+  'gridStatus',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type UserDto = Partial<Pick<User, (typeof PUBLIC_USER_FIELDS)[number]>>;
+
+export interface ExpandedUserDto extends UserDto {
+  hasGridCredentials?: boolean;
+  gridCredentialsEncrypted?: boolean;
+}
+
+/**
+ * Map a user row (or a partial select of one) to its API representation
+ */
+export const serializeUser = (
+  user: Partial<User>,
+  view: SerializerView = 'public'
+): UserDto | ExpandedUserDto => {
+  const dto = pickFields(user, PUBLIC_USER_FIELDS);
+  if (view !== 'expanded') {
+    return dto;
+  }
+
+  const expanded: ExpandedUserDto = { ...dto };
+  if (user.authResult !== undefined || user.sessionSecrets !== undefined) {
+    expanded.hasGridCredentials = !!user.authResult && !!user.sessionSecrets;
+    expanded.gridCredentialsEncrypted =
+      (!user.authResult || kmsService.isEncrypted(user.authResult)) &&
+      (!user.sessionSecrets || kmsService.isEncrypted(user.sessionSecrets));
+  }
+  return expanded;
+};
+
+/**
+ * Map a Grid SDK auth response to the fields a client may see.
+ * Session tokens and key material stay on the server.
+ */
+export const serializeGridAuthResult = (authResult: { success?: boolean; data?: any } | null | undefined) => ({
+  success: !!authResult?.success,
+  data: authResult?.data
+    ? {
+        address: authResult.data.address,
+        policies: authResult.data.policies,
+      }
+    : null,
+});
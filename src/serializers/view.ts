@@ -0,0 +1,33 @@
+// src/serializers/view.ts
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+
+/**
+ * public   - fields safe to return to the record owner
+ * expanded - adds operational metadata, admin only
+ */
+export type SerializerView = 'public' | 'expanded';
+
+/**
+ * Resolve the serializer view for a request. The expanded view must be
+ * requested explicitly (?view=expanded) and is only granted to admins.
+ */
+export const resolveSerializerView = (req: Request): SerializerView => {
+  return req.query.view === 'expanded' && req.userRole === UserRole.ADMIN ? 'expanded' : 'public';
+};
+
+/**
+ * Copy only whitelisted fields that are present on the record
+ */
+export const pickFields = <T extends object, K extends keyof T>(
+  record: T,
+  fields: readonly K[]
+): Partial<Pick<T, K>> => {
+  const result: Partial<Pick<T, K>> = {};
+  fields.forEach((field) => {
+    if (record[field] !== undefined) {
+      result[field] = record[field];
+    }
+  });
+  return result;
+};
@@ -0,0 +1,46 @@
+// src/serializers/yield-transaction.serializer.ts
+import { YieldTransaction } from '@prisma/client';
+import { SerializerView, pickFields } from './view';
+
+const PUBLIC_YIELD_TRANSACTION_FIELDS = [
+  'id',
+  'type',
+  'status',
+  'owner',
+  'feePayer',
+  'mintAddress',
+  'regularAmount',
+  'protectedAmount',
+  'amount',
+  'referrer',
+  'pendingWithdrawalId',
+  'priorityFee',
+  'transactionSignature',
+  'errorMessage',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const EXPANDED_YIELD_TRANSACTION_FIELDS = [
+  ...PUBLIC_YIELD_TRANSACTION_FIELDS,
+  'userId',
+  'serializedTransaction',
+  'luloResponse',
+] as const;
+
+export type YieldTransactionDto = Partial<Pick<YieldTransaction, (typeof PUBLIC_YIELD_TRANSACTION_FIELDS)[number]>>;
+export type ExpandedYieldTransactionDto = Partial<
+  Pick<YieldTransaction, (typeof EXPANDED_YIELD_TRANSACTION_FIELDS)[number]>
+>;
+
+/**
+ * Map a yield transaction row to its API representation
+ */
+export const serializeYieldTransaction = (
+  transaction: Partial<YieldTransaction>,
+  view: SerializerView = 'public'
+): YieldTransactionDto | ExpandedYieldTransactionDto => {
+  return view === 'expanded'
+    ? pickFields(transaction, EXPANDED_YIELD_TRANSACTION_FIELDS)
+    : pickFields(transaction, PUBLIC_YIELD_TRANSACTION_FIELDS);
+};
@@ -3,13 +3,60 @@ import app from './app';
 import { config } from './config/env';
 import Logger from './utils/logger';
 import { startRetryService } from './services/retry.service';
+import { startSessionCleanup } from './services/session.service';
+import { startIdempotencyCleanup } from './services/idempotency.service';
+import { startOtpAttemptCleanup } from './services/otp-guard.service';
+import { startSiwsChallengeCleanup } from './services/siws.service';
+import { startFeePayerMonitor } from './services/fee-payer-pool.service';
+import { startGaslessQuoteCleanup } from './services/gasless-pricing.service';
+import { startCreditExpiryJob, startSponsoredTransactionReconciler } from './services/gasless-credit.service';
+import { startTopUpReconciler } from './services/credit-top-up.service';
+import kmsService from './services/kms.service';
+import { disconnectRedis } from './lib/redis';
 
 const startServer = () => {
+  if (!config.auth.jwtSecret) {
+    Logger.error('JWT_SECRET environment variable is not set - refusing to start');
+    process.exit(1);
+  }
+
+  if (!kmsService.isConfigured()) {
+    Logger.error('KMS master key is not configured - refusing to start (Grid credentials are encrypted at rest)');
+    process.exit(1);
+  }
+
   const server = app.listen(config.port, () => {
     Logger.info(`🚀 Server running on port ${config.port} in ${config.nodeEnv} mode`);
     
     // Start the retry service minified version
     startRetryService();
+
+    // Purge expired auth sessions and revoked tokens
+    startSessionCleanup();
+
+    // Purge expired idempotency keys
+    startIdempotencyCleanup();
+
+    // Purge idle OTP attempt trackers
+    startOtpAttemptCleanup();
+
+    // Purge expired Sign-In With Solana nonces
+    startSiwsChallengeCleanup();
+
+    // Check fee payer balances and rotate out depleted payers
+    startFeePayerMonitor();
+
+    // Purge expired gasless price quotes
+    startGaslessQuoteCleanup();
+
+    // Settle sponsored transactions whose confirmation timed out, refunding dropped ones
+    startSponsoredTransactionReconciler();
+
+    // Expire stale credit and warn users before their credit expires
+    startCreditExpiryJob();
+
+    // Credit or fail auto top-ups whose payment was submitted but never verified
+    startTopUpReconciler();
   });
 
   // Handle graceful shutdown
@@ -18,7 +65,8 @@ const startServer = () => {
     process.on(signal, () => {
       Logger.info(`Received ${signal}, shutting down gracefully`);
       
-      server.close(() => {
+      server.close(async () => {
+        await disconnectRedis();
         Logger.info('Server closed');
         process.exit(0);
       });
@@ -0,0 +1,272 @@
+// src/services/audit.service.ts
+import crypto from 'crypto';
+import { Request } from 'express';
+import { AuditAction, AuditEvent, Prisma, UserRole } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { canonicalJson } from '../utils/canonical-json';
+
+export interface AuditContext {
+  actorUserId?: string | null;
+  actorRole?: UserRole | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  method?: string;
+  path?: string;
+}
+
+export interface RecordAuditEventInput {
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | null;
+  // Snapshots of the target before and after the action; only changed fields are stored
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  actorUserId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  // Return events older than this sequence number
+  cursor?: number;
+  limit: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  headSequence: number | null;
+  headHash: string | null;
+  firstInvalidSequence?: number;
+  reason?: string;
+}
+
+// Serializes writers so every event links to the one before it
+const AUDIT_CHAIN_LOCK_ID = 7_240_318;
+const VERIFY_BATCH_SIZE = 500;
+const REDACTED = '[REDACTED]';
+
+// Grid signing material and credentials are never copied into the audit log
+const REDACTED_FIELDS = new Set(['authResult', 'sessionSecrets', 'sessionData', 'authData', 'password']);
+
+// Round-trip through JSON so hashed values match what the database returns
+const toJson = (value: unknown): Prisma.JsonValue =>
+  value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+
+const redact = (field: string, value: unknown): unknown =>
+  REDACTED_FIELDS.has(field) && value !== null && value !== undefined ? REDACTED : value;
+
+/**
+ * Field-level diff between two snapshots, with secret fields redacted
+ */
+const diffSnapshots = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): Record<string, { before: unknown; after: unknown }> | null => {
+  if (!before && !after) {
+    return null;
+  }
+
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+
+  fields.forEach((field) => {
+    const previous = before ? before[field] ?? null : null;
+    const next = after ? after[field] ?? null : null;
+    if (canonicalJson(toJson(previous)) !== canonicalJson(toJson(next))) {
+      changes[field] = { before: redact(field, previous), after: redact(field, next) };
+    }
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+type HashableAuditEvent = Pick<
+  AuditEvent,
+  | 'previousHash'
+  | 'actorUserId'
+  | 'actorRole'
+  | 'actorIp'
+  | 'actorUserAgent'
+  | 'action'
+  | 'targetType'
+  | 'targetId'
+  | 'changes'
+  | 'metadata'
+  | 'createdAt'
+>;
+
+const hashEvent = (event: HashableAuditEvent): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      canonicalJson({
+        previousHash: event.previousHash,
+        actorUserId: event.actorUserId,
+        actorRole: event.actorRole,
+        actorIp: event.actorIp,
+        actorUserAgent: event.actorUserAgent,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId,
+        changes: event.changes,
+        metadata: event.metadata,
+        createdAt: event.createdAt.toISOString(),
+      })
+    )
+    .digest('hex');
+
+const toNullableJson = (value: Prisma.JsonValue) =>
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+/**
+ * Build the audit actor and request metadata from an authenticated request
+ */
+export const auditContextFromRequest = (req: Request): AuditContext => ({
+  actorUserId: req.userId || null,
+  actorRole: req.userRole || null,
+  ip: req.ip || null,
+  userAgent: req.get('user-agent') || null,
+  method: req.method,
+  path: req.originalUrl.split('?')[0],
+});
+
+export class AuditService {
+  /**
+   * Append an event to the hash-chained audit log.
+   * Failures are logged and never propagate, so auditing cannot undo a completed action.
+   */
+  async record(context: AuditContext, input: RecordAuditEventInput): Promise<AuditEvent | null> {
+    try {
+      const changes = toJson(diffSnapshots(input.before, input.after));
+      const metadata = toJson({
+        ...(context.method ? { method: context.method } : {}),
+        ...(context.path ? { path: context.path } : {}),
+        ...(input.metadata || {}),
+      });
+
+      const event = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`;
+
+        const previous = await tx.auditEvent.findFirst({
+          orderBy: { sequence: 'desc' },
+          select: { hash: true },
+        });
+
+        const fields: HashableAuditEvent = {
+          previousHash: previous?.hash ?? null,
+          actorUserId: context.actorUserId ?? null,
+          actorRole: context.actorRole ?? null,
+          actorIp: context.ip ?? null,
+          actorUserAgent: context.userAgent ?? null,
+          action: input.action,
+          targetType: input.targetType,
+          targetId: input.targetId ?? null,
+          changes,
+          metadata,
+          createdAt: new Date(),
+        };
+
+        return tx.auditEvent.create({
+          data: {
+            ...fields,
+            changes: toNullableJson(fields.changes),
+            metadata: toNullableJson(fields.metadata),
+            hash: hashEvent(fields),
+          },
+        });
+      });
+
+      Logger.info(`Audit event ${event.sequence}: ${input.action} on ${input.targetType} ${input.targetId || ''}`.trim());
+      return event;
+    } catch (error) {
+      Logger.error(`Failed to record audit event ${input.action}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List audit events, newest first
+   */
+  async query(filters: AuditEventFilters) {
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        action: filters.action,
+        actorUserId: filters.actorUserId,
+        targetType: filters.targetType,
+        targetId: filters.targetId,
+        ...(filters.from || filters.to
+          ? { createdAt: { gte: filters.from, lte: filters.to } }
+          : {}),
+        ...(filters.cursor !== undefined ? { sequence: { lt: filters.cursor } } : {}),
+      },
+      orderBy: { sequence: 'desc' },
+      take: filters.limit,
+    });
+
+    return {
+      events,
+      nextCursor: events.length === filters.limit ? events[events.length - 1].sequence : null,
+    };
+  }
+
+  /**
+   * Walk the whole chain and check every link and hash
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    let previousHash: string | null = null;
+    let headSequence: number | null = null;
+    let checkedCount = 0;
+
+    while (true) {
+      const events: AuditEvent[] = await prisma.auditEvent.findMany({
+        where: headSequence === null ? {} : { sequence: { gt: headSequence } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      if (events.length === 0) {
+        break;
+      }
+
+      for (const event of events) {
+        if (event.previousHash !== previousHash) {
+          return {
+            valid: false,
+            checkedCount,
+            headSequence,
+            headHash: previousHash,
+            firstInvalidSequence: event.sequence,
+            reason: 'Event does not link to the preceding event (an event was removed or reordered)',
+          };
+        }
+
+        if (hashEvent(event) !== event.hash) {
+          return {
+            valid: false,
+            checkedCount,
+            headSequence,
+            headHash: previousHash,
+            firstInvalidSequence: event.sequence,
+            reason: 'Event contents do not match its hash (the event was modified)',
+          };
+        }
+
+        previousHash = event.hash;
+        headSequence = event.sequence;
+        checkedCount++;
+      }
+    }
+
+    return { valid: true, checkedCount, headSequence, headHash: previousHash };
+  }
+}
+
+// Export singleton instance
+const auditService = new AuditService();
+export default auditService;
@@ -366,7 +366,8 @@ export class BlockchainService {
       
       if (tokenMint === TOKEN_MINTS.SOL) {
         // SOL transfer following the guide pattern
-        const lamports = Math.floor(amount * LAMPORTS_PER_SOL);
+        // Rounded, so an amount converted from exact lamports is not cut short by floating-point error
+        const lamports = Math.round(amount * LAMPORTS_PER_SOL);
         
         transaction.add(
           SystemProgram.transfer({
@@ -519,7 +520,8 @@ export class BlockchainService {
           
           // Get mint info to calculate the correct amount
           const mintInfo = await getMint(this.connection, mintPublicKey);
-          const tokenAmount = Math.floor(amount * Math.pow(10, mintInfo.decimals));
+          // Rounded for the same reason as SOL amounts
+          const tokenAmount = Math.round(amount * Math.pow(10, mintInfo.decimals));
 
           Logger.info(`Step 3 Complete: Mint info retrieved:`, {
             fromTokenAccount: fromTokenAccount.toString(),
@@ -0,0 +1,50 @@
+// src/services/credit-notification.service.ts
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+export type CreditNotificationType =
+  | 'CREDIT_LOW_BALANCE'
+  | 'CREDIT_EXPIRING'
+  | 'CREDIT_EXPIRED'
+  | 'CREDIT_AUTO_TOP_UP'
+  | 'CREDIT_AUTO_TOP_UP_FAILED';
+
+export interface CreditNotification {
+  type: CreditNotificationType;
+  userId: string;
+  email: string;
+  subject: string;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export class CreditNotificationService {
+  /**
+   * Tell a user about their credit. Email delivery is not wired up yet, so the
+   * email is logged; every notification is also posted to CREDIT_ALERT_WEBHOOK_URL.
+   */
+  async send(notification: CreditNotification): Promise<void> {
+    Logger.info(`Credit notification email to ${notification.email}: ${notification.subject} - ${notification.message}`);
+
+    if (!config.creditAlerts.webhookUrl) {
+      return;
+    }
+
+    try {
+      const response = await fetch(config.creditAlerts.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...notification, timestamp: new Date().toISOString() }),
+      });
+      if (!response.ok) {
+        Logger.warn(`Credit notification webhook responded with ${response.status}`);
+      }
+    } catch (error) {
+      Logger.warn(`Failed to send credit notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// Export singleton instance
+const creditNotificationService = new CreditNotificationService();
+export default creditNotificationService;
@@ -0,0 +1,155 @@
+// src/services/credit-package.service.ts
+import { CreditPackage } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import gaslessService from './gasless.service';
+import gaslessPricingService from './gasless-pricing.service';
+import auditService, { AuditContext } from './audit.service';
+import { fromMicroUsdc, getPackageBonusMicroUsdc, toMicroUsdc } from './gasless-credit.service';
+import { config } from '../config/env';
+import { CreateCreditPackageInput, UpdateCreditPackageInput } from '../schemas/admin.schemas';
+
+export interface CreditPackageWithEstimate extends CreditPackage {
+  bonusMicroUsdc: bigint;
+  // Sponsored transactions the package covers at today's fee; null when no price is available
+  estimatedTransactions: number | null;
+}
+
+// A typical sponsored transaction: the user's signature plus the fee payer's
+const ESTIMATE_SIGNATURES = 2;
+
+// Audited fields, with amounts in USDC
+const toAuditSnapshot = (creditPackage: CreditPackage) => ({
+  name: creditPackage.name,
+  priceUSDC: fromMicroUsdc(creditPackage.priceMicroUsdc),
+  bonusBps: creditPackage.bonusBps,
+  creditTtlDays: creditPackage.creditTtlDays,
+  isActive: creditPackage.isActive,
+  sortOrder: creditPackage.sortOrder,
+});
+
+export class CreditPackageService {
+  /**
+   * List credit packages in display order, with their bonus and estimated transaction count
+   */
+  async listPackages(includeInactive: boolean = false): Promise<CreditPackageWithEstimate[]> {
+    const packages = await prisma.creditPackage.findMany({
+      where: includeInactive ? undefined : { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { priceMicroUsdc: 'asc' }],
+    });
+    return this.withEstimates(packages);
+  }
+
+  /**
+   * Look up a package that can currently be bought
+   */
+  async getActivePackage(id: string): Promise<CreditPackage | null> {
+    return prisma.creditPackage.findFirst({ where: { id, isActive: true } });
+  }
+
+  /**
+   * Create a credit package (admin action)
+   */
+  async createPackage(input: CreateCreditPackageInput, context: AuditContext): Promise<CreditPackageWithEstimate> {
+    const created = await prisma.creditPackage.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        priceMicroUsdc: toMicroUsdc(input.priceUSDC),
+        bonusBps: input.bonusBps,
+        creditTtlDays: input.creditTtlDays,
+        isActive: input.isActive,
+        sortOrder: input.sortOrder,
+      },
+    });
+
+    await auditService.record(context, {
+      action: 'CREDIT_PACKAGE_CREATED',
+      targetType: 'CreditPackage',
+      targetId: created.id,
+      after: toAuditSnapshot(created),
+    });
+
+    Logger.info(`Credit package ${created.id} (${created.name}) created by ${context.actorUserId}`);
+    const [withEstimate] = await this.withEstimates([created]);
+    return withEstimate;
+  }
+
+  /**
+   * Change a credit package's price, bonus or availability (admin action).
+   * Past purchases keep the bonus they were granted.
+   */
+  async updatePackage(
+    id: string,
+    input: UpdateCreditPackageInput,
+    context: AuditContext
+  ): Promise<CreditPackageWithEstimate | null> {
+    const existing = await prisma.creditPackage.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await prisma.creditPackage.update({
+      where: { id },
+      data: {
+        name: input.name,
+        description: input.description,
+        priceMicroUsdc: input.priceUSDC === undefined ? undefined : toMicroUsdc(input.priceUSDC),
+        bonusBps: input.bonusBps,
+        creditTtlDays: input.creditTtlDays,
+        isActive: input.isActive,
+        sortOrder: input.sortOrder,
+      },
+    });
+
+    await auditService.record(context, {
+      action: 'CREDIT_PACKAGE_UPDATED',
+      targetType: 'CreditPackage',
+      targetId: updated.id,
+      before: toAuditSnapshot(existing),
+      after: toAuditSnapshot(updated),
+    });
+
+    const [withEstimate] = await this.withEstimates([updated]);
+    return withEstimate;
+  }
+
+  private async withEstimates(packages: CreditPackage[]): Promise<CreditPackageWithEstimate[]> {
+    if (packages.length === 0) {
+      return [];
+    }
+
+    const pricePerTransaction = await this.getPricePerTransaction();
+    return packages.map((creditPackage) => {
+      const bonusMicroUsdc = getPackageBonusMicroUsdc(creditPackage);
+      return {
+        ...creditPackage,
+        bonusMicroUsdc,
+        estimatedTransactions: pricePerTransaction
+          ? Number((creditPackage.priceMicroUsdc + bonusMicroUsdc) / pricePerTransaction)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Current price of a typical sponsored transaction in micro-USDC, or null if it cannot be priced
+   */
+  private async getPricePerTransaction(): Promise<bigint | null> {
+    try {
+      const estimate = await gaslessPricingService.estimateFee(gaslessService.getConnection(), {
+        signatures: ESTIMATE_SIGNATURES,
+        computeUnits: config.gaslessPricing.defaultComputeUnits,
+      });
+      const { amount } = await gaslessPricingService.priceEstimate(estimate);
+      return amount > 0 ? BigInt(amount) : null;
+    } catch (error) {
+      Logger.warn(`Could not price a sponsored transaction for credit packages: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+const creditPackageService = new CreditPackageService();
+export default creditPackageService;
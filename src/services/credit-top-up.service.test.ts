@@ -0,0 +1,329 @@
+import { Keypair } from '@solana/web3.js';
+import { CreditTopUp } from '@prisma/client';
+import { prismaMock as db } from '../test/prisma-mock';
+import gridClient from '../lib/squad';
+import gaslessService from './gasless.service';
+import blockchainService from './blockchain.service';
+import kmsService from './kms.service';
+import creditNotificationService from './credit-notification.service';
+import gaslessCreditService from './gasless-credit.service';
+import creditTopUpService from './credit-top-up.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('../lib/squad', () => ({
+  __esModule: true,
+  default: { prepareArbitraryTransaction: jest.fn(), signAndSend: jest.fn() },
+}));
+jest.mock('./gasless.service', () => ({
+  __esModule: true,
+  default: {
+    getRecipient: jest.fn(),
+    getExplorerUrl: jest.fn(),
+    getSubmissionExpiryHeight: jest.fn(),
+    getSubmissionOutcome: jest.fn(),
+    hasSubmissionExpired: jest.fn(),
+    verifyPaymentFromTransaction: jest.fn(),
+  },
+}));
+jest.mock('./blockchain.service', () => ({ __esModule: true, default: { createTransaction: jest.fn() } }));
+jest.mock('./kms.service', () => ({ __esModule: true, default: { decryptGridCredentials: jest.fn() } }));
+jest.mock('./audit.service', () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock('./credit-notification.service', () => ({ __esModule: true, default: { send: jest.fn() } }));
+jest.mock('./gasless-credit.service', () => ({
+  ...jest.requireActual('./gasless-credit.service'),
+  __esModule: true,
+  default: { hasSufficientCredit: jest.fn(), recordPayment: jest.fn() },
+}));
+
+const recipient = { wallet: Keypair.generate().publicKey, usdcMint: Keypair.generate().publicKey };
+const gridAddress = Keypair.generate().publicKey.toBase58();
+
+const creditAccount = {
+  userId: 'user-1',
+  balanceMicroUsdc: BigInt(1_000_000),
+  autoTopUpEnabled: true,
+  autoTopUpAmountMicroUsdc: BigInt(10_000_000),
+  autoTopUpMonthlyCapMicroUsdc: BigInt(50_000_000),
+};
+
+const topUpOf = (overrides: Partial<CreditTopUp> = {}): CreditTopUp => ({
+  id: 'top-up-1',
+  userId: 'user-1',
+  amountMicroUsdc: BigInt(10_000_000),
+  status: 'PENDING',
+  trigger: 'POST /api/transaction/gasless/sponsor',
+  signature: null,
+  paymentId: null,
+  errorMessage: null,
+  submittedAt: null,
+  lastValidBlockHeight: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const hasSufficientCredit = gaslessCreditService.hasSufficientCredit as jest.Mock;
+const verifyPaymentFromTransaction = gaslessService.verifyPaymentFromTransaction as jest.Mock;
+const signAndSend = gridClient.signAndSend as jest.Mock;
+
+// The status each update call set on the top-up, in order
+const statusUpdates = () =>
+  db.creditTopUp.update.mock.calls.map(([{ data }]) => data.status).filter((status) => status !== undefined);
+
+describe('CreditTopUpService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    hasSufficientCredit.mockResolvedValueOnce(false).mockResolvedValue(true);
+    db.creditAccount.findUnique.mockResolvedValue({ autoTopUpEnabled: true });
+    db.creditAccount.update.mockResolvedValue(creditAccount);
+    db.creditTopUp.findFirst.mockResolvedValue(null);
+    db.creditTopUp.aggregate.mockResolvedValue({ _sum: { amountMicroUsdc: BigInt(0) } });
+    db.creditTopUp.create.mockImplementation(async ({ data }) => topUpOf(data));
+    db.creditTopUp.update.mockResolvedValue({});
+    db.user.findUnique.mockResolvedValue({ email: 'user@example.com' });
+    db.user.findUniqueOrThrow.mockResolvedValue({ gridAddress, authResult: { encrypted: true }, sessionSecrets: [] });
+    db.gaslessPayment.findUnique.mockResolvedValue(null);
+
+    (gaslessService.getRecipient as jest.Mock).mockReturnValue(recipient);
+    (gaslessService.getExplorerUrl as jest.Mock).mockImplementation((signature: string) => `https://solscan.io/tx/${signature}`);
+    (gaslessService.getSubmissionExpiryHeight as jest.Mock).mockResolvedValue(1_150);
+    (blockchainService.createTransaction as jest.Mock).mockResolvedValue({ transaction: 'unsigned-transfer' });
+    (kmsService.decryptGridCredentials as jest.Mock).mockResolvedValue({
+      authResult: { authentication: { token: 'grid-session' } },
+      sessionSecrets: [],
+    });
+    (gridClient.prepareArbitraryTransaction as jest.Mock).mockResolvedValue({ success: true, data: { transaction: 'prepared' } });
+    signAndSend.mockResolvedValue({ transaction_signature: 'top-up-signature' });
+    verifyPaymentFromTransaction.mockResolvedValue({ verified: true, amountReceived: 10_000_000 });
+    (gaslessCreditService.recordPayment as jest.Mock).mockResolvedValue({ id: 'payment-1' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('ensureCredit', () => {
+    it('does not top up when the credit already covers the amount', async () => {
+      hasSufficientCredit.mockReset().mockResolvedValue(true);
+
+      expect(await creditTopUpService.ensureCredit('user-1', 0.5, 'test')).toEqual({ sufficient: true });
+      expect(db.creditTopUp.create).not.toHaveBeenCalled();
+    });
+
+    it('does not top up users who have not opted in', async () => {
+      db.creditAccount.findUnique.mockResolvedValue({ autoTopUpEnabled: false });
+
+      expect(await creditTopUpService.ensureCredit('user-1', 0.5, 'test')).toEqual({ sufficient: false });
+      expect(db.creditTopUp.create).not.toHaveBeenCalled();
+    });
+
+    it('pays the configured amount, verifies the transfer and records it as credit', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+      const pending = creditTopUpService.ensureCredit('user-1', 0.5, 'test');
+      await jest.advanceTimersByTimeAsync(5000);
+      const result = await pending;
+
+      expect(result).toEqual({
+        sufficient: true,
+        autoTopUp: {
+          status: 'COMPLETED',
+          topUpId: 'top-up-1',
+          amountUSDC: 10,
+          signature: 'top-up-signature',
+          explorerUrl: 'https://solscan.io/tx/top-up-signature',
+        },
+      });
+      expect(db.creditTopUp.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', amountMicroUsdc: BigInt(10_000_000), trigger: 'test' },
+      });
+      expect(verifyPaymentFromTransaction).toHaveBeenCalledWith('top-up-signature', 10_000_000);
+      expect(gaslessCreditService.recordPayment).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ signature: 'top-up-signature', amountUSDC: 10, fromAddress: gridAddress })
+      );
+      expect(db.creditTopUp.update).toHaveBeenCalledWith({
+        where: { id: 'top-up-1' },
+        data: { submittedAt: expect.any(Date), lastValidBlockHeight: 1_150 },
+      });
+      expect(statusUpdates()).toEqual(['COMPLETED']);
+    });
+  });
+
+  describe('reservation', () => {
+    it('tops up the shortfall when it is larger than the configured amount', async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ gridAddress: null, authResult: null, sessionSecrets: null });
+
+      const result = await creditTopUpService.ensureCredit('user-1', 25, 'test');
+
+      expect(db.creditTopUp.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', amountMicroUsdc: BigInt(24_000_000), trigger: 'test' },
+      });
+      expect(result.autoTopUp).toMatchObject({ status: 'FAILED', error: 'User does not have complete Grid account data' });
+      expect(statusUpdates()).toEqual(['FAILED']);
+    });
+
+    it('locks the credit account before checking for other top-ups', async () => {
+      db.creditTopUp.findFirst.mockResolvedValue(topUpOf({ id: 'top-up-0' }));
+
+      const result = await creditTopUpService.ensureCredit('user-1', 0.5, 'test');
+
+      expect(result).toEqual({
+        sufficient: false,
+        autoTopUp: { status: 'SKIPPED', error: 'Another auto top-up is in progress' },
+      });
+      expect(db.creditAccount.update.mock.invocationCallOrder[0]).toBeLessThan(
+        db.creditTopUp.findFirst.mock.invocationCallOrder[0]
+      );
+      expect(db.creditTopUp.create).not.toHaveBeenCalled();
+    });
+
+    it('counts pending and completed top-ups this month against the cap', async () => {
+      db.creditTopUp.aggregate.mockResolvedValue({ _sum: { amountMicroUsdc: BigInt(45_000_000) } });
+
+      const result = await creditTopUpService.ensureCredit('user-1', 0.5, 'test');
+
+      expect(result.autoTopUp).toEqual({
+        status: 'SKIPPED',
+        error: 'A 10 USDC top-up would exceed the monthly cap of 50 USDC',
+      });
+      expect(db.creditTopUp.aggregate).toHaveBeenCalledWith({
+        where: { userId: 'user-1', status: { in: ['PENDING', 'COMPLETED'] }, createdAt: { gte: expect.any(Date) } },
+        _sum: { amountMicroUsdc: true },
+      });
+      expect(db.creditTopUp.create).not.toHaveBeenCalled();
+    });
+
+    it('skips when auto top-up was turned off after the credit check', async () => {
+      db.creditAccount.update.mockResolvedValue({ ...creditAccount, autoTopUpEnabled: false });
+
+      expect((await creditTopUpService.ensureCredit('user-1', 0.5, 'test')).autoTopUp).toEqual({
+        status: 'SKIPPED',
+        error: 'Auto top-up is disabled',
+      });
+    });
+  });
+
+  describe('payment failures', () => {
+    it('fails the top-up when Grid rejects the payment', async () => {
+      signAndSend.mockResolvedValue({ success: false, error: 'Insufficient funds' });
+
+      const result = await creditTopUpService.ensureCredit('user-1', 0.5, 'test');
+
+      expect(result.autoTopUp).toMatchObject({ status: 'FAILED', error: 'Insufficient funds' });
+      expect(statusUpdates()).toEqual(['FAILED']);
+      expect(creditNotificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'CREDIT_AUTO_TOP_UP_FAILED', email: 'user@example.com' })
+      );
+    });
+
+    it('leaves a payment that may have been broadcast pending for the reconciler', async () => {
+      signAndSend.mockRejectedValue(new Error('socket hang up'));
+
+      const result = await creditTopUpService.ensureCredit('user-1', 0.5, 'test');
+
+      expect(result.autoTopUp).toMatchObject({ status: 'FAILED', error: 'socket hang up' });
+      expect(statusUpdates()).toEqual(['PENDING']);
+      expect(gaslessCreditService.recordPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcilePendingTopUps', () => {
+    const settle = async (topUp: CreditTopUp) => {
+      db.creditTopUp.findMany.mockResolvedValue([topUp]);
+      await creditTopUpService.reconcilePendingTopUps();
+    };
+
+    const submitted = (overrides: Partial<CreditTopUp> = {}) =>
+      topUpOf({ submittedAt: new Date(), lastValidBlockHeight: 1_150, signature: 'top-up-signature', ...overrides });
+
+    it('fails a top-up that was interrupted before its payment was signed', async () => {
+      await settle(topUpOf());
+
+      expect(db.creditTopUp.update).toHaveBeenCalledWith({
+        where: { id: 'top-up-1' },
+        data: { status: 'FAILED', errorMessage: 'Top-up was interrupted before its payment was signed' },
+      });
+    });
+
+    it('keeps a payment without a signature pending until its blockhash expires', async () => {
+      (gaslessService.hasSubmissionExpired as jest.Mock).mockResolvedValue(false);
+
+      await settle(submitted({ signature: null }));
+
+      expect(gaslessService.hasSubmissionExpired).toHaveBeenCalledWith(1_150);
+      expect(db.creditTopUp.update).not.toHaveBeenCalled();
+    });
+
+    it('fails a payment without a signature once it can no longer land and tells the user', async () => {
+      (gaslessService.hasSubmissionExpired as jest.Mock).mockResolvedValue(true);
+
+      await settle(submitted({ signature: null }));
+
+      expect(statusUpdates()).toEqual(['FAILED']);
+      expect(creditNotificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'CREDIT_AUTO_TOP_UP_FAILED', details: expect.objectContaining({ signature: null }) })
+      );
+    });
+
+    it('credits a confirmed payment that paid the top-up', async () => {
+      (gaslessService.getSubmissionOutcome as jest.Mock).mockResolvedValue({ status: 'CONFIRMED' });
+
+      await settle(submitted());
+
+      expect(gaslessService.getSubmissionOutcome).toHaveBeenCalledWith('top-up-signature', 1_150);
+      expect(gaslessCreditService.recordPayment).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ signature: 'top-up-signature', amountUSDC: 10 })
+      );
+      expect(statusUpdates()).toEqual(['COMPLETED']);
+    });
+
+    it('does not record a payment twice when it was already credited', async () => {
+      (gaslessService.getSubmissionOutcome as jest.Mock).mockResolvedValue({ status: 'CONFIRMED' });
+      db.gaslessPayment.findUnique.mockResolvedValue({ id: 'payment-1' });
+
+      await settle(submitted());
+
+      expect(gaslessCreditService.recordPayment).not.toHaveBeenCalled();
+      expect(db.creditTopUp.update).toHaveBeenCalledWith({
+        where: { id: 'top-up-1' },
+        data: { status: 'COMPLETED', paymentId: 'payment-1', errorMessage: null },
+      });
+    });
+
+    it('fails a confirmed payment that did not pay the top-up', async () => {
+      (gaslessService.getSubmissionOutcome as jest.Mock).mockResolvedValue({ status: 'CONFIRMED' });
+      verifyPaymentFromTransaction.mockResolvedValue({ verified: false, error: 'No transfer to the recipient token account' });
+
+      await settle(submitted());
+
+      expect(db.creditTopUp.update).toHaveBeenCalledWith({
+        where: { id: 'top-up-1' },
+        data: {
+          status: 'FAILED',
+          errorMessage: 'Payment landed but did not pay the top-up: No transfer to the recipient token account',
+        },
+      });
+      expect(gaslessCreditService.recordPayment).not.toHaveBeenCalled();
+    });
+
+    it('fails payments that failed on-chain or were dropped, and leaves unconfirmed ones', async () => {
+      const outcome = gaslessService.getSubmissionOutcome as jest.Mock;
+
+      outcome.mockResolvedValue({ status: 'PENDING' });
+      await settle(submitted());
+      expect(db.creditTopUp.update).not.toHaveBeenCalled();
+
+      outcome.mockResolvedValue({ status: 'FAILED', error: 'InstructionError' });
+      await settle(submitted());
+      outcome.mockResolvedValue({ status: 'DROPPED' });
+      await settle(submitted());
+
+      expect(db.creditTopUp.update.mock.calls.map(([{ data }]) => data.errorMessage)).toEqual([
+        'InstructionError',
+        'Payment was dropped before it landed',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,554 @@
+// src/services/credit-top-up.service.ts
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { CreditTopUp, CreditTopUpStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import gridClient from '../lib/squad';
+import Logger from '../utils/logger';
+import gaslessService from './gasless.service';
+import blockchainService from './blockchain.service';
+import kmsService from './kms.service';
+import auditService, { AuditContext } from './audit.service';
+import creditNotificationService, { CreditNotification } from './credit-notification.service';
+import gaslessCreditService, { fromMicroUsdc, toMicroUsdc } from './gasless-credit.service';
+import { config } from '../config/env';
+
+export interface AutoTopUpSettings {
+  enabled: boolean;
+  amountUSDC: number;
+  monthlyCapUSDC: number;
+  // Pending and completed top-ups this UTC month count against the cap
+  usedThisMonthUSDC: number;
+  remainingThisMonthUSDC: number;
+  maxAmountUSDC: number;
+  maxMonthlyCapUSDC: number;
+  recentTopUps: Array<{
+    id: string;
+    amountUSDC: number;
+    status: CreditTopUpStatus;
+    trigger: string;
+    signature: string | null;
+    errorMessage: string | null;
+    createdAt: Date;
+  }>;
+}
+
+export type UpdateAutoTopUpResult =
+  | { success: true; settings: AutoTopUpSettings }
+  | { success: false; error: string };
+
+export interface AutoTopUpOutcome {
+  status: 'COMPLETED' | 'FAILED' | 'SKIPPED';
+  topUpId?: string;
+  amountUSDC?: number;
+  signature?: string;
+  explorerUrl?: string;
+  error?: string;
+}
+
+export interface EnsureCreditResult {
+  sufficient: boolean;
+  // Set when the user has auto top-up enabled and their credit was short
+  autoTopUp?: AutoTopUpOutcome;
+}
+
+// A pending top-up younger than this blocks another, so concurrent requests pay once.
+// Once submitted it keeps blocking until the reconciler settles it
+const PENDING_TOP_UP_WINDOW_MS = 5 * 60 * 1000;
+const VERIFY_ATTEMPTS = 5;
+const VERIFY_FIRST_DELAY_MS = 5000;
+const VERIFY_RETRY_DELAY_MS = 3000;
+
+// Thrown inside the reservation transaction when no top-up may be made
+class TopUpSkippedError extends Error {}
+
+// Thrown when Grid refuses the payment, so nothing was broadcast even though it was submitted
+class PaymentRejectedError extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const startOfUtcMonth = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+export class CreditTopUpService {
+  /**
+   * Check a user's credit covers an amount, topping it up from their Grid wallet first
+   * if they opted in to auto top-up
+   */
+  async ensureCredit(
+    userId: string,
+    requiredUSDC: number,
+    trigger: string,
+    context: AuditContext = {}
+  ): Promise<EnsureCreditResult> {
+    if (await gaslessCreditService.hasSufficientCredit(userId, requiredUSDC)) {
+      return { sufficient: true };
+    }
+
+    const account = await prisma.creditAccount.findUnique({
+      where: { userId },
+      select: { autoTopUpEnabled: true },
+    });
+    if (!account?.autoTopUpEnabled) {
+      return { sufficient: false };
+    }
+
+    const autoTopUp = await this.topUp(userId, requiredUSDC, trigger, context);
+    const sufficient =
+      autoTopUp.status === 'COMPLETED' && (await gaslessCreditService.hasSufficientCredit(userId, requiredUSDC));
+    return { sufficient, autoTopUp };
+  }
+
+  /**
+   * Pay the user's configured top-up amount, or the shortfall if larger, from their Grid wallet
+   * to the gasless recipient wallet and add it as credit
+   */
+  private async topUp(
+    userId: string,
+    requiredUSDC: number,
+    trigger: string,
+    context: AuditContext
+  ): Promise<AutoTopUpOutcome> {
+    let topUp: CreditTopUp;
+    try {
+      topUp = await this.reserve(userId, toMicroUsdc(requiredUSDC), trigger);
+    } catch (error) {
+      if (error instanceof TopUpSkippedError) {
+        Logger.info(`Auto top-up skipped for user ${userId}: ${error.message}`);
+        return { status: 'SKIPPED', error: error.message };
+      }
+      throw error;
+    }
+
+    const amountUSDC = fromMicroUsdc(topUp.amountMicroUsdc);
+    let submitted = false;
+    let signature: string | undefined;
+    try {
+      signature = await this.sendPayment(userId, topUp, () => {
+        submitted = true;
+      });
+      await prisma.creditTopUp.update({ where: { id: topUp.id }, data: { signature } });
+
+      const amountReceived = await this.verifyPayment(signature, topUp.amountMicroUsdc);
+      const explorerUrl = await this.complete(topUp, signature, amountReceived, context);
+
+      return { status: 'COMPLETED', topUpId: topUp.id, amountUSDC, signature, explorerUrl };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Logger.error(`Auto top-up ${topUp.id} failed for user ${userId}:`, error);
+      // A payment that may have been broadcast stays pending for the reconciler, so it is never paid twice
+      await prisma.creditTopUp.update({
+        where: { id: topUp.id },
+        data: {
+          status: submitted && !(error instanceof PaymentRejectedError) ? 'PENDING' : 'FAILED',
+          errorMessage: message,
+        },
+      });
+      await this.notify(userId, {
+        type: 'CREDIT_AUTO_TOP_UP_FAILED',
+        subject: 'Your gasless credit could not be topped up',
+        message: `An auto top-up of ${amountUSDC} USDC from your Grid wallet failed: ${message}`,
+        details: { topUpId: topUp.id, amountUSDC, signature: signature || null },
+      });
+
+      return {
+        status: 'FAILED',
+        topUpId: topUp.id,
+        amountUSDC,
+        signature,
+        explorerUrl: signature ? gaslessService.getExplorerUrl(signature) : undefined,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Record a pending top-up under a lock on the credit account, so concurrent requests
+   * cannot pay twice or together exceed the monthly cap
+   */
+  private async reserve(userId: string, requiredMicroUsdc: bigint, trigger: string): Promise<CreditTopUp> {
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const account = await tx.creditAccount.update({
+        where: { userId },
+        data: { updatedAt: now },
+      });
+      if (!account.autoTopUpEnabled) {
+        throw new TopUpSkippedError('Auto top-up is disabled');
+      }
+
+      const inFlight = await tx.creditTopUp.findFirst({
+        where: {
+          userId,
+          status: 'PENDING',
+          OR: [
+            { submittedAt: { not: null } },
+            { createdAt: { gt: new Date(now.getTime() - PENDING_TOP_UP_WINDOW_MS) } },
+          ],
+        },
+      });
+      if (inFlight) {
+        throw new TopUpSkippedError('Another auto top-up is in progress');
+      }
+
+      const shortfall = requiredMicroUsdc - account.balanceMicroUsdc;
+      const amountMicroUsdc = shortfall > account.autoTopUpAmountMicroUsdc ? shortfall : account.autoTopUpAmountMicroUsdc;
+
+      const used = await tx.creditTopUp.aggregate({
+        where: { userId, status: { in: ['PENDING', 'COMPLETED'] }, createdAt: { gte: startOfUtcMonth(now) } },
+        _sum: { amountMicroUsdc: true },
+      });
+      const usedMicroUsdc = used._sum.amountMicroUsdc ?? BigInt(0);
+      if (usedMicroUsdc + amountMicroUsdc > account.autoTopUpMonthlyCapMicroUsdc) {
+        throw new TopUpSkippedError(
+          `A ${fromMicroUsdc(amountMicroUsdc)} USDC top-up would exceed the monthly cap of ${fromMicroUsdc(account.autoTopUpMonthlyCapMicroUsdc)} USDC`
+        );
+      }
+
+      return tx.creditTopUp.create({
+        data: { userId, amountMicroUsdc, trigger },
+      });
+    });
+  }
+
+  /**
+   * Build the USDC transfer, then prepare, sign and submit it through Grid with the stored session.
+   * The top-up is marked submitted before signing, since a failed call may still have broadcast it
+   */
+  private async sendPayment(userId: string, topUp: CreditTopUp, onSubmit: () => void): Promise<string> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { gridAddress: true, authResult: true, sessionSecrets: true },
+    });
+    if (!user.gridAddress || !user.authResult || !user.sessionSecrets) {
+      throw new Error('User does not have complete Grid account data');
+    }
+
+    const recipient = gaslessService.getRecipient();
+    if (!recipient) {
+      throw new Error('Gasless recipient wallet not configured');
+    }
+    const tokenAccount = await getAssociatedTokenAddress(recipient.usdcMint, recipient.wallet);
+
+    const transactionResult = await blockchainService.createTransaction(
+      user.gridAddress,
+      tokenAccount.toBase58(),
+      recipient.usdcMint.toBase58(),
+      fromMicroUsdc(topUp.amountMicroUsdc),
+      user.gridAddress
+    );
+    if (!transactionResult) {
+      throw new Error('Failed to create payment transaction');
+    }
+
+    const { authResult, sessionSecrets } = await kmsService.decryptGridCredentials(user);
+    const session = (authResult as any)?.authentication;
+    if (!session) {
+      throw new Error('Grid authentication token is missing; refresh the Grid session');
+    }
+
+    const prepared = await gridClient.prepareArbitraryTransaction(user.gridAddress, {
+      transaction: transactionResult.transaction,
+      fee_config: {
+        currency: 'sol',
+        payer_address: user.gridAddress,
+      },
+    });
+    if (!prepared?.success || !prepared.data) {
+      throw new Error((prepared as any)?.error || 'Grid transaction preparation failed');
+    }
+
+    await prisma.creditTopUp.update({
+      where: { id: topUp.id },
+      data: { submittedAt: new Date(), lastValidBlockHeight: await gaslessService.getSubmissionExpiryHeight() },
+    });
+    onSubmit();
+
+    const executed: any = await gridClient.signAndSend({
+      sessionSecrets: sessionSecrets as any,
+      session,
+      transactionPayload: {
+        ...prepared.data,
+        kms_payloads: prepared.data.kms_payloads || [],
+      },
+      address: user.gridAddress,
+    });
+    if (!executed || executed.success === false) {
+      throw new PaymentRejectedError(executed?.error || 'Grid transaction execution failed');
+    }
+
+    const signature =
+      executed.transaction_signature ||
+      executed.data?.transaction_signature ||
+      executed.signature ||
+      executed.data?.signature;
+    if (!signature) {
+      throw new Error('Grid did not return a transaction signature');
+    }
+    return signature;
+  }
+
+  /**
+   * Record the verified payment as credit, mark the top-up completed and tell the user
+   */
+  private async complete(
+    topUp: CreditTopUp,
+    signature: string,
+    amountReceived: number,
+    context: AuditContext
+  ): Promise<string> {
+    const { userId } = topUp;
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { gridAddress: true } });
+    const recipient = gaslessService.getRecipient();
+    if (!recipient) {
+      throw new Error('Gasless recipient wallet not configured');
+    }
+    const tokenAccount = await getAssociatedTokenAddress(recipient.usdcMint, recipient.wallet);
+    const explorerUrl = gaslessService.getExplorerUrl(signature);
+
+    // The reconciler may finish a top-up whose payment was already recorded
+    const recorded = await prisma.gaslessPayment.findUnique({ where: { signature } });
+    const payment = recorded ?? await gaslessCreditService.recordPayment(userId, {
+      signature,
+      amountUSDC: amountReceived / 1_000_000,
+      amount: amountReceived.toString(),
+      recipientTokenAccount: tokenAccount.toBase58(),
+      recipientWallet: recipient.wallet.toBase58(),
+      fromAddress: user.gridAddress ?? undefined,
+      network: process.env.SOLANA_NETWORK || 'mainnet',
+      tokenMint: recipient.usdcMint.toBase58(),
+      explorerUrl,
+    });
+    await prisma.creditTopUp.update({
+      where: { id: topUp.id },
+      data: { status: 'COMPLETED', paymentId: payment.id, errorMessage: null },
+    });
+
+    const amountUSDC = fromMicroUsdc(topUp.amountMicroUsdc);
+    Logger.info(`Auto top-up ${topUp.id} of ${amountUSDC} USDC completed for user ${userId}: ${signature}`);
+    await auditService.record(context, {
+      action: 'CREDIT_AUTO_TOP_UP',
+      targetType: 'User',
+      targetId: userId,
+      metadata: { topUpId: topUp.id, amountUSDC, trigger: topUp.trigger, paymentId: payment.id, signature },
+    });
+    await this.notify(userId, {
+      type: 'CREDIT_AUTO_TOP_UP',
+      subject: 'Your gasless credit was topped up',
+      message: `${amountUSDC} USDC was paid from your Grid wallet to top up your gasless credit.`,
+      details: { topUpId: topUp.id, amountUSDC, signature },
+    });
+    return explorerUrl;
+  }
+
+  /**
+   * Wait for the submitted payment to confirm and check it paid the top-up amount
+   */
+  private async verifyPayment(signature: string, amountMicroUsdc: bigint): Promise<number> {
+    let lastError: string | undefined;
+    for (let attempt = 1; attempt <= VERIFY_ATTEMPTS; attempt++) {
+      await sleep(attempt === 1 ? VERIFY_FIRST_DELAY_MS : VERIFY_RETRY_DELAY_MS);
+
+      const verification = await gaslessService.verifyPaymentFromTransaction(signature, Number(amountMicroUsdc));
+      if (verification.verified) {
+        return verification.amountReceived || Number(amountMicroUsdc);
+      }
+      lastError = verification.error;
+      Logger.warn(`Auto top-up verification attempt ${attempt}/${VERIFY_ATTEMPTS} failed: ${lastError}`);
+    }
+    throw new Error(`Payment ${signature} was submitted but could not be verified: ${lastError}`);
+  }
+
+  /**
+   * Settle top-ups left pending when their verification timed out or the process stopped mid-payment
+   */
+  async reconcilePendingTopUps(): Promise<void> {
+    const pending = await prisma.creditTopUp.findMany({
+      where: { status: 'PENDING', updatedAt: { lt: new Date(Date.now() - PENDING_TOP_UP_WINDOW_MS) } },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    for (const topUp of pending) {
+      try {
+        await this.settle(topUp);
+      } catch (error) {
+        Logger.warn(`Could not settle auto top-up ${topUp.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Credit a pending top-up whose payment landed, or fail it if the payment was never sent or was dropped
+   */
+  private async settle(topUp: CreditTopUp): Promise<void> {
+    if (!topUp.submittedAt) {
+      await this.fail(topUp, 'Top-up was interrupted before its payment was signed');
+      return;
+    }
+    if (!topUp.signature) {
+      // Grid may have broadcast the payment without returning its signature, so it blocks top-ups until it can no longer land
+      if (topUp.lastValidBlockHeight && !(await gaslessService.hasSubmissionExpired(topUp.lastValidBlockHeight))) {
+        return;
+      }
+      const message = 'Payment signature was not recorded; if your Grid wallet was charged, contact support';
+      Logger.error(`Auto top-up ${topUp.id} expired without a recorded signature and needs manual review`);
+      await this.fail(topUp, message);
+      await this.notify(topUp.userId, {
+        type: 'CREDIT_AUTO_TOP_UP_FAILED',
+        subject: 'Your gasless credit could not be topped up',
+        message: `An auto top-up of ${fromMicroUsdc(topUp.amountMicroUsdc)} USDC from your Grid wallet failed: ${message}`,
+        details: { topUpId: topUp.id, amountUSDC: fromMicroUsdc(topUp.amountMicroUsdc), signature: null },
+      });
+      return;
+    }
+
+    const outcome = await gaslessService.getSubmissionOutcome(topUp.signature, topUp.lastValidBlockHeight);
+    switch (outcome.status) {
+      case 'CONFIRMED': {
+        const verification = await gaslessService.verifyPaymentFromTransaction(
+          topUp.signature,
+          Number(topUp.amountMicroUsdc)
+        );
+        // A landed transaction is final: if it did not pay the recipient's token account, it never will
+        if (!verification.verified) {
+          await this.fail(topUp, `Payment landed but did not pay the top-up: ${verification.error}`);
+          return;
+        }
+        await this.complete(topUp, topUp.signature, verification.amountReceived || Number(topUp.amountMicroUsdc), {});
+        break;
+      }
+      case 'FAILED':
+        await this.fail(topUp, outcome.error || 'Payment failed on-chain');
+        break;
+      case 'DROPPED':
+        await this.fail(topUp, 'Payment was dropped before it landed');
+        break;
+    }
+  }
+
+  private async fail(topUp: CreditTopUp, errorMessage: string): Promise<void> {
+    await prisma.creditTopUp.update({
+      where: { id: topUp.id },
+      data: { status: 'FAILED', errorMessage },
+    });
+    Logger.info(`Auto top-up ${topUp.id} settled as FAILED: ${errorMessage}`);
+  }
+
+  private async notify(userId: string, notification: Omit<CreditNotification, 'userId' | 'email'>): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (user) {
+      await creditNotificationService.send({ ...notification, userId, email: user.email });
+    }
+  }
+
+  /**
+   * A user's auto top-up settings, spend this month and recent top-ups
+   */
+  async getSettings(userId: string): Promise<AutoTopUpSettings> {
+    const now = new Date();
+    const [account, used, recent] = await Promise.all([
+      prisma.creditAccount.findUnique({
+        where: { userId },
+        select: { autoTopUpEnabled: true, autoTopUpAmountMicroUsdc: true, autoTopUpMonthlyCapMicroUsdc: true },
+      }),
+      prisma.creditTopUp.aggregate({
+        where: { userId, status: { in: ['PENDING', 'COMPLETED'] }, createdAt: { gte: startOfUtcMonth(now) } },
+        _sum: { amountMicroUsdc: true },
+      }),
+      prisma.creditTopUp.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    const capMicroUsdc = account?.autoTopUpMonthlyCapMicroUsdc ?? BigInt(0);
+    const usedMicroUsdc = used._sum.amountMicroUsdc ?? BigInt(0);
+    return {
+      enabled: account?.autoTopUpEnabled ?? false,
+      amountUSDC: fromMicroUsdc(account?.autoTopUpAmountMicroUsdc ?? BigInt(0)),
+      monthlyCapUSDC: fromMicroUsdc(capMicroUsdc),
+      usedThisMonthUSDC: fromMicroUsdc(usedMicroUsdc),
+      remainingThisMonthUSDC: fromMicroUsdc(capMicroUsdc > usedMicroUsdc ? capMicroUsdc - usedMicroUsdc : BigInt(0)),
+      maxAmountUSDC: config.autoTopUp.maxAmountUsdc,
+      maxMonthlyCapUSDC: config.autoTopUp.maxMonthlyCapUsdc,
+      recentTopUps: recent.map((topUp) => ({
+        id: topUp.id,
+        amountUSDC: fromMicroUsdc(topUp.amountMicroUsdc),
+        status: topUp.status,
+        trigger: topUp.trigger,
+        signature: topUp.signature,
+        errorMessage: topUp.errorMessage,
+        createdAt: topUp.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Turn auto top-up on or off and set its amount and monthly cap, within the server maximums
+   */
+  async updateSettings(
+    userId: string,
+    input: { enabled: boolean; amountUSDC?: number; monthlyCapUSDC?: number }
+  ): Promise<UpdateAutoTopUpResult> {
+    if (input.amountUSDC !== undefined && input.amountUSDC > config.autoTopUp.maxAmountUsdc) {
+      return { success: false, error: `Top-up amount cannot exceed ${config.autoTopUp.maxAmountUsdc} USDC` };
+    }
+    if (input.monthlyCapUSDC !== undefined && input.monthlyCapUSDC > config.autoTopUp.maxMonthlyCapUsdc) {
+      return { success: false, error: `Monthly cap cannot exceed ${config.autoTopUp.maxMonthlyCapUsdc} USDC` };
+    }
+
+    const existing = await prisma.creditAccount.findUnique({
+      where: { userId },
+      select: { autoTopUpAmountMicroUsdc: true, autoTopUpMonthlyCapMicroUsdc: true },
+    });
+    const amountMicroUsdc =
+      input.amountUSDC === undefined ? existing?.autoTopUpAmountMicroUsdc ?? BigInt(0) : toMicroUsdc(input.amountUSDC);
+    const monthlyCapMicroUsdc =
+      input.monthlyCapUSDC === undefined
+        ? existing?.autoTopUpMonthlyCapMicroUsdc ?? BigInt(0)
+        : toMicroUsdc(input.monthlyCapUSDC);
+    if (monthlyCapMicroUsdc < amountMicroUsdc) {
+      return { success: false, error: 'Monthly cap cannot be lower than the top-up amount' };
+    }
+
+    await prisma.creditAccount.upsert({
+      where: { userId },
+      create: {
+        userId,
+        autoTopUpEnabled: input.enabled,
+        autoTopUpAmountMicroUsdc: amountMicroUsdc,
+        autoTopUpMonthlyCapMicroUsdc: monthlyCapMicroUsdc,
+      },
+      update: {
+        autoTopUpEnabled: input.enabled,
+        autoTopUpAmountMicroUsdc: amountMicroUsdc,
+        autoTopUpMonthlyCapMicroUsdc: monthlyCapMicroUsdc,
+      },
+    });
+
+    Logger.info(`Auto top-up ${input.enabled ? 'enabled' : 'disabled'} for user ${userId}`);
+    return { success: true, settings: await this.getSettings(userId) };
+  }
+}
+
+// Export singleton instance
+const creditTopUpService = new CreditTopUpService();
+export default creditTopUpService;
+
+
+/**
+ * Start periodic settlement of auto top-ups left pending after their payment was submitted
+ */
+export const startTopUpReconciler = (): void => {
+  const intervalMs = config.autoTopUp.reconcileIntervalMs;
+  const runReconcile = () => {
+    creditTopUpService.reconcilePendingTopUps().catch((error) => {
+      Logger.error('Error reconciling auto top-ups:', error);
+    });
+  };
+
+  runReconcile();
+  setInterval(runReconcile, intervalMs);
+
+  Logger.info(`Auto top-up reconciler started - running every ${intervalMs / 1000} seconds`);
+};
@@ -0,0 +1,445 @@
+// src/services/fee-payer-pool.service.ts
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { FeePayerKey, FeePayerSource } from '@prisma/client';
+import bs58 from 'bs58';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import kmsService from './kms.service';
+import auditService, { AuditContext } from './audit.service';
+
+export type AddFeePayerResult =
+  | { success: true; feePayer: FeePayerKey }
+  | { success: false; error: string; conflict?: boolean };
+
+interface PoolEntry {
+  keypair: Keypair;
+  record: FeePayerKey;
+}
+
+/**
+ * Parse a fee payer secret key in base58 or JSON array ([1,2,...,64]) format
+ */
+export const parseFeePayerSecretKey = (value: string): Keypair => {
+  const trimmedKey = value.trim();
+  let secretKey: Uint8Array;
+
+  if (trimmedKey.startsWith('[')) {
+    const privateKeyArray = JSON.parse(trimmedKey);
+
+    // Validate array length (Solana private keys are 64 bytes)
+    if (!Array.isArray(privateKeyArray) || privateKeyArray.length !== 64) {
+      throw new Error(`Invalid private key length. Expected 64 numbers, got ${privateKeyArray.length}`);
+    }
+
+    // Validate all values are numbers between 0-255
+    for (let i = 0; i < privateKeyArray.length; i++) {
+      const val = privateKeyArray[i];
+      if (typeof val !== 'number' || val < 0 || val > 255 || !Number.isInteger(val)) {
+        throw new Error(`Invalid byte at index ${i}: ${val}. Must be integer between 0-255`);
+      }
+    }
+
+    secretKey = Uint8Array.from(privateKeyArray);
+  } else {
+    try {
+      secretKey = bs58.decode(trimmedKey);
+    } catch (decodeError) {
+      throw new Error(
+        `Failed to decode base58 private key: ${decodeError instanceof Error ? decodeError.message : 'Unknown error'}`
+      );
+    }
+
+    if (secretKey.length !== 64) {
+      throw new Error(`Invalid private key length after base58 decode. Expected 64 bytes, got ${secretKey.length}`);
+    }
+  }
+
+  return Keypair.fromSecretKey(secretKey);
+};
+
+// Keys configured through GASLESS_FEE_PAYER_PRIVATE_KEY and GASLESS_FEE_PAYER_PRIVATE_KEYS
+const loadEnvFeePayers = (): Keypair[] => {
+  const rawKeys = [
+    config.feePayerPool.privateKey,
+    ...config.feePayerPool.privateKeys.split(','),
+  ].filter((key) => key.trim());
+
+  const keypairs = new Map<string, Keypair>();
+  rawKeys.forEach((rawKey, index) => {
+    try {
+      const keypair = parseFeePayerSecretKey(rawKey);
+      keypairs.set(keypair.publicKey.toBase58(), keypair);
+    } catch (error) {
+      Logger.error(`Error parsing fee payer private key #${index + 1}:`, error);
+    }
+  });
+
+  if (keypairs.size === 0) {
+    Logger.warn('GASLESS_FEE_PAYER_PRIVATE_KEY not configured. Gasless transactions will not work.');
+  }
+  return Array.from(keypairs.values());
+};
+
+// Placeholder record for an environment key before the database has been synced
+const envRecord = (publicKey: string): FeePayerKey => ({
+  id: '',
+  publicKey,
+  label: null,
+  source: FeePayerSource.ENV,
+  encryptedSecretKey: null,
+  status: 'ACTIVE',
+  useCount: 0,
+  lastUsedAt: null,
+  balanceLamports: null,
+  balanceCheckedAt: null,
+  retiredAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const formatSol = (lamports: bigint | number): string => `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+
+export class FeePayerPoolService {
+  private connection: Connection | null = null;
+  private envKeypairs: Keypair[];
+  private entries = new Map<string, PoolEntry>();
+  private roundRobinIndex = 0;
+  // Payers already reported as low, so each drop is alerted once
+  private lowBalanceAlerted = new Set<string>();
+
+  constructor() {
+    this.envKeypairs = loadEnvFeePayers();
+    this.envKeypairs.forEach((keypair) => {
+      const publicKey = keypair.publicKey.toBase58();
+      this.entries.set(publicKey, { keypair, record: envRecord(publicKey) });
+    });
+  }
+
+  /**
+   * Set the RPC connection used for balance checks
+   */
+  setConnection(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Check if at least one fee payer is in rotation
+   */
+  hasActivePayer(): boolean {
+    return this.activeEntries().length > 0;
+  }
+
+  /**
+   * Pick the next fee payer in rotation
+   */
+  async select(): Promise<Keypair | null> {
+    const candidates = this.activeEntries();
+    if (candidates.length === 0) {
+      Logger.error('No fee payer available - all fee payers are depleted or retired');
+      return null;
+    }
+
+    let selected: PoolEntry;
+    if (config.feePayerPool.selection === 'round_robin') {
+      selected = candidates[this.roundRobinIndex % candidates.length];
+      this.roundRobinIndex = (this.roundRobinIndex + 1) % candidates.length;
+    } else {
+      selected = this.leastUsed(candidates);
+    }
+
+    await this.recordUse(selected);
+    return selected.keypair;
+  }
+
+  /**
+   * Fee payer the next selection would return, without recording a use
+   */
+  peek(): PublicKey | null {
+    const candidates = this.activeEntries();
+    if (candidates.length === 0) {
+      return null;
+    }
+    if (config.feePayerPool.selection === 'round_robin') {
+      return candidates[this.roundRobinIndex % candidates.length].keypair.publicKey;
+    }
+    return this.leastUsed(candidates).keypair.publicKey;
+  }
+
+  /**
+   * Check if a fee payer is in rotation
+   */
+  isActive(publicKey: string): boolean {
+    return this.entries.get(publicKey)?.record.status === 'ACTIVE';
+  }
+
+  /**
+   * Use a specific fee payer, e.g. one a client built its transaction for.
+   * Returns null unless the payer is in rotation.
+   */
+  async use(publicKey: string): Promise<Keypair | null> {
+    const entry = this.entries.get(publicKey);
+    if (!entry || entry.record.status !== 'ACTIVE') {
+      return null;
+    }
+
+    await this.recordUse(entry);
+    return entry.keypair;
+  }
+
+  /**
+   * Reload the pool from the database, registering environment keys on first sight
+   */
+  async refresh(): Promise<void> {
+    for (const keypair of this.envKeypairs) {
+      await prisma.feePayerKey.upsert({
+        where: { publicKey: keypair.publicKey.toBase58() },
+        create: { publicKey: keypair.publicKey.toBase58(), source: FeePayerSource.ENV },
+        update: {},
+      });
+    }
+
+    const records = await prisma.feePayerKey.findMany({
+      where: { status: { not: 'RETIRED' } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const entries = new Map<string, PoolEntry>();
+    for (const record of records) {
+      const keypair = await this.resolveKeypair(record);
+      if (keypair) {
+        entries.set(record.publicKey, { keypair, record });
+      }
+    }
+    this.entries = entries;
+  }
+
+  /**
+   * Check the SOL balance of every fee payer, moving depleted payers out of
+   * rotation and refilled ones back in
+   */
+  async checkBalances(): Promise<void> {
+    await this.refresh();
+    for (const entry of Array.from(this.entries.values())) {
+      await this.checkBalance(entry.record.publicKey);
+    }
+  }
+
+  /**
+   * Check and record the SOL balance of a single fee payer
+   */
+  async checkBalance(publicKey: string): Promise<FeePayerKey | null> {
+    const entry = this.entries.get(publicKey);
+    if (!entry || !this.connection) {
+      return null;
+    }
+
+    const lamports = await this.connection.getBalance(new PublicKey(publicKey), 'confirmed');
+    const { minBalanceLamports, lowBalanceLamports } = config.feePayerPool;
+    const depleted = lamports < minBalanceLamports;
+    const status = depleted ? 'DEPLETED' : 'ACTIVE';
+
+    if (depleted && entry.record.status === 'ACTIVE') {
+      await this.alert(
+        `Fee payer ${publicKey} is depleted (${formatSol(lamports)}) and has been removed from rotation`,
+        { publicKey, lamports, minBalanceLamports }
+      );
+    } else if (!depleted && entry.record.status === 'DEPLETED') {
+      Logger.info(`Fee payer ${publicKey} refilled (${formatSol(lamports)}) and returned to rotation`);
+    }
+
+    if (lamports < lowBalanceLamports && !depleted && !this.lowBalanceAlerted.has(publicKey)) {
+      await this.alert(`Fee payer ${publicKey} balance is low (${formatSol(lamports)})`, {
+        publicKey,
+        lamports,
+        lowBalanceLamports,
+      });
+      this.lowBalanceAlerted.add(publicKey);
+    } else if (lamports >= lowBalanceLamports) {
+      this.lowBalanceAlerted.delete(publicKey);
+    }
+
+    const record = await prisma.feePayerKey.update({
+      where: { publicKey },
+      data: { status, balanceLamports: BigInt(lamports), balanceCheckedAt: new Date() },
+    });
+    entry.record = record;
+    return record;
+  }
+
+  /**
+   * List every fee payer, including retired ones
+   */
+  async listPayers(): Promise<FeePayerKey[]> {
+    await this.refresh();
+    return prisma.feePayerKey.findMany({
+      orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Add a fee payer key to the pool (admin action); the secret is stored KMS-encrypted
+   */
+  async addPayer(privateKey: string, label: string | undefined, context: AuditContext): Promise<AddFeePayerResult> {
+    let keypair: Keypair;
+    try {
+      keypair = parseFeePayerSecretKey(privateKey);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid private key' };
+    }
+
+    const publicKey = keypair.publicKey.toBase58();
+    const existing = await prisma.feePayerKey.findUnique({ where: { publicKey } });
+    if (existing && existing.status !== 'RETIRED') {
+      return { success: false, conflict: true, error: 'This fee payer is already in the pool' };
+    }
+
+    const data = {
+      label: label || existing?.label || null,
+      source: FeePayerSource.ADMIN,
+      encryptedSecretKey: await kmsService.encryptField(bs58.encode(keypair.secretKey)),
+      status: 'ACTIVE' as const,
+      retiredAt: null,
+    };
+
+    // Re-adding a retired key puts it back into rotation
+    const saved = existing
+      ? await prisma.feePayerKey.update({ where: { id: existing.id }, data })
+      : await prisma.feePayerKey.create({ data: { publicKey, ...data } });
+    this.entries.set(publicKey, { keypair, record: saved });
+
+    await auditService.record(context, {
+      action: 'FEE_PAYER_ADDED',
+      targetType: 'FeePayerKey',
+      targetId: saved.id,
+      before: existing ? { status: existing.status, label: existing.label } : null,
+      after: { status: saved.status, label: saved.label },
+      metadata: { publicKey },
+    });
+
+    Logger.info(`Fee payer ${publicKey} added to the pool by ${context.actorUserId}`);
+
+    // Take it out of rotation straight away if it has not been funded yet
+    const feePayer = await this.checkBalance(publicKey).catch((error) => {
+      Logger.warn(`Could not check balance of new fee payer ${publicKey}: ${error.message}`);
+      return null;
+    });
+
+    return { success: true, feePayer: feePayer || saved };
+  }
+
+  /**
+   * Permanently remove a fee payer from rotation (admin action)
+   */
+  async retirePayer(publicKey: string, context: AuditContext): Promise<FeePayerKey | null> {
+    const existing = await prisma.feePayerKey.findUnique({ where: { publicKey } });
+    if (!existing || existing.status === 'RETIRED') {
+      return null;
+    }
+
+    const retired = await prisma.feePayerKey.update({
+      where: { id: existing.id },
+      data: { status: 'RETIRED', retiredAt: new Date() },
+    });
+    this.entries.delete(publicKey);
+    this.lowBalanceAlerted.delete(publicKey);
+
+    await auditService.record(context, {
+      action: 'FEE_PAYER_RETIRED',
+      targetType: 'FeePayerKey',
+      targetId: retired.id,
+      before: { status: existing.status, retiredAt: existing.retiredAt },
+      after: { status: retired.status, retiredAt: retired.retiredAt },
+      metadata: { publicKey, source: retired.source },
+    });
+
+    if (!this.hasActivePayer()) {
+      Logger.warn('The last active fee payer was retired - gasless sponsorship is unavailable');
+    }
+    Logger.info(`Fee payer ${publicKey} retired by ${context.actorUserId}`);
+    return retired;
+  }
+
+  private leastUsed(candidates: PoolEntry[]): PoolEntry {
+    return candidates.reduce((least, entry) =>
+      entry.record.useCount < least.record.useCount ||
+      (entry.record.useCount === least.record.useCount &&
+        (entry.record.lastUsedAt?.getTime() ?? 0) < (least.record.lastUsedAt?.getTime() ?? 0))
+        ? entry
+        : least
+    );
+  }
+
+  private async recordUse(entry: PoolEntry): Promise<void> {
+    entry.record = { ...entry.record, useCount: entry.record.useCount + 1, lastUsedAt: new Date() };
+    if (entry.record.id) {
+      await prisma.feePayerKey
+        .update({
+          where: { id: entry.record.id },
+          data: { useCount: { increment: 1 }, lastUsedAt: entry.record.lastUsedAt },
+        })
+        .catch((error) => Logger.warn(`Failed to record fee payer usage: ${error.message}`));
+    }
+  }
+
+  private activeEntries(): PoolEntry[] {
+    return Array.from(this.entries.values()).filter((entry) => entry.record.status === 'ACTIVE');
+  }
+
+  private async resolveKeypair(record: FeePayerKey): Promise<Keypair | null> {
+    const current = this.entries.get(record.publicKey);
+    if (current) {
+      return current.keypair;
+    }
+
+    if (record.source === FeePayerSource.ENV) {
+      // Removed from the environment since it was registered
+      return this.envKeypairs.find((keypair) => keypair.publicKey.toBase58() === record.publicKey) || null;
+    }
+
+    try {
+      return parseFeePayerSecretKey(await kmsService.decryptJson<string>(record.encryptedSecretKey));
+    } catch (error) {
+      Logger.error(`Failed to load fee payer ${record.publicKey}:`, error);
+      return null;
+    }
+  }
+
+  private async alert(message: string, details: Record<string, unknown>): Promise<void> {
+    Logger.error(message, details);
+
+    if (!config.feePayerPool.alertWebhookUrl) {
+      return;
+    }
+
+    try {
+      await fetch(config.feePayerPool.alertWebhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'fee_payer_balance', message, ...details, timestamp: new Date().toISOString() }),
+      });
+    } catch (error) {
+      Logger.warn(`Failed to send fee payer alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// Export singleton instance
+const feePayerPoolService = new FeePayerPoolService();
+export default feePayerPoolService;
+
+/**
+ * Start periodic fee payer balance checks
+ */
+export const startFeePayerMonitor = (): void => {
+  const runCheck = () => {
+    feePayerPoolService.checkBalances().catch((error) => {
+      Logger.error('Error checking fee payer balances:', error);
+    });
+  };
+
+  runCheck();
+  setInterval(runCheck, config.feePayerPool.balanceCheckIntervalMs);
+
+  Logger.info(`Fee payer balance monitor started - running every ${config.feePayerPool.balanceCheckIntervalMs / 1000 / 60} minutes`);
+};
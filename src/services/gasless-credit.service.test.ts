@@ -0,0 +1,213 @@
+import { prismaError, prismaMock as db } from '../test/prisma-mock';
+import gaslessCreditService from './gasless-credit.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('./audit.service', () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock('./gasless.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./credit-notification.service', () => ({ __esModule: true, default: { send: jest.fn() } }));
+
+const micro = (amount: number) => BigInt(amount);
+
+describe('GaslessCreditService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('useCredit', () => {
+    beforeEach(() => {
+      db.creditAccount.updateMany.mockResolvedValue({ count: 1 });
+      db.creditAccount.findUniqueOrThrow.mockResolvedValue({ bonusBalanceMicroUsdc: micro(100_000) });
+      db.creditAccount.update.mockResolvedValue({ balanceMicroUsdc: micro(4_000_000) });
+      db.gaslessPayment.findMany.mockResolvedValue([
+        { id: 'payment-expiring', creditRemainingMicroUsdc: micro(300_000) },
+        { id: 'payment-later', creditRemainingMicroUsdc: micro(5_000_000) },
+      ]);
+      db.creditLedgerEntry.create.mockResolvedValue({ id: 'debit-1', balanceAfterMicroUsdc: micro(4_000_000) });
+    });
+
+    it('debits the account only if the balance covers the amount', async () => {
+      const result = await gaslessCreditService.useCredit('user-1', 1);
+
+      expect(result).toEqual({
+        success: true,
+        paymentId: 'payment-expiring',
+        ledgerEntryId: 'debit-1',
+        remainingCredit: 4,
+      });
+      expect(db.creditAccount.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', balanceMicroUsdc: { gte: micro(1_000_000) } },
+        data: { balanceMicroUsdc: { decrement: micro(1_000_000) } },
+      });
+    });
+
+    it('draws bonus credit first, then payments in expiry order, and records the allocations', async () => {
+      await gaslessCreditService.useCredit('user-1', 1);
+
+      expect(db.creditAccount.update).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: { bonusBalanceMicroUsdc: { decrement: micro(100_000) } },
+        select: { balanceMicroUsdc: true },
+      });
+      expect(db.gaslessPayment.update.mock.calls).toEqual([
+        [{
+          where: { id: 'payment-expiring' },
+          data: { creditRemainingMicroUsdc: { decrement: micro(300_000) }, creditUsedMicroUsdc: { increment: micro(300_000) } },
+        }],
+        [{
+          where: { id: 'payment-later' },
+          data: { creditRemainingMicroUsdc: { decrement: micro(600_000) }, creditUsedMicroUsdc: { increment: micro(600_000) } },
+        }],
+      ]);
+      expect(db.creditLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          direction: 'DEBIT',
+          reason: 'SPONSORED_TRANSACTION',
+          amountMicroUsdc: micro(1_000_000),
+          bonusMicroUsdc: micro(100_000),
+          balanceAfterMicroUsdc: micro(4_000_000),
+          metadata: {
+            transactionType: undefined,
+            allocations: [
+              { paymentId: 'payment-expiring', amountMicroUsdc: '300000' },
+              { paymentId: 'payment-later', amountMicroUsdc: '600000' },
+            ],
+          },
+        }),
+      });
+    });
+
+    it('changes nothing and reports the balance when credit is insufficient', async () => {
+      db.creditAccount.updateMany.mockResolvedValue({ count: 0 });
+      db.creditAccount.findUnique.mockResolvedValue({ balanceMicroUsdc: micro(250_000) });
+
+      const result = await gaslessCreditService.useCredit('user-1', 1);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Insufficient credit. Available: 0.25 USDC, Required: 1 USDC',
+      });
+      expect(db.gaslessPayment.update).not.toHaveBeenCalled();
+      expect(db.creditLedgerEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects amounts that round to zero micro-USDC', async () => {
+      const result = await gaslessCreditService.useCredit('user-1', 0.0000001);
+
+      expect(result).toEqual({ success: false, error: 'Credit amount must be positive' });
+      expect(db.creditAccount.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundCredit', () => {
+    const debit = (overrides: Record<string, unknown> = {}) => ({
+      id: 'debit-1',
+      userId: 'user-1',
+      organizationId: null,
+      direction: 'DEBIT',
+      amountMicroUsdc: micro(1_000_000),
+      bonusMicroUsdc: micro(100_000),
+      paymentId: 'payment-expiring',
+      transactionType: 'USER_TRANSACTION',
+      metadata: {
+        allocations: [
+          { paymentId: 'payment-expiring', amountMicroUsdc: '300000' },
+          { paymentId: 'payment-later', amountMicroUsdc: '600000' },
+        ],
+      },
+      refund: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      db.creditLedgerEntry.findUnique.mockResolvedValue(debit());
+      db.creditAccount.update.mockResolvedValue({ balanceMicroUsdc: micro(5_000_000) });
+      db.creditLedgerEntry.create.mockResolvedValue({ id: 'refund-1' });
+      db.gaslessPayment.updateMany.mockResolvedValue({ count: 1 });
+      db.sponsoredTransaction.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('restores the balance, bonus and payment credit the debit drew on', async () => {
+      const result = await gaslessCreditService.refundCredit('debit-1', 'Transaction dropped');
+
+      expect(result).toEqual({ success: true, refundEntryId: 'refund-1', amountUSDC: 1, remainingCredit: 5 });
+      expect(db.creditAccount.update).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: {
+          balanceMicroUsdc: { increment: micro(1_000_000) },
+          bonusBalanceMicroUsdc: { increment: micro(100_000) },
+        },
+      });
+      expect(db.creditLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          direction: 'CREDIT',
+          reason: 'REFUND',
+          amountMicroUsdc: micro(1_000_000),
+          refundOfEntryId: 'debit-1',
+        }),
+      });
+      expect(db.gaslessPayment.updateMany.mock.calls).toEqual([
+        [{
+          where: { id: 'payment-expiring' },
+          data: {
+            creditRemainingMicroUsdc: { increment: micro(300_000) },
+            creditUsedMicroUsdc: { decrement: micro(300_000) },
+            creditRefundedMicroUsdc: { increment: micro(300_000) },
+          },
+        }],
+        [{
+          where: { id: 'payment-later' },
+          data: {
+            creditRemainingMicroUsdc: { increment: micro(600_000) },
+            creditUsedMicroUsdc: { decrement: micro(600_000) },
+            creditRefundedMicroUsdc: { increment: micro(600_000) },
+          },
+        }],
+      ]);
+      expect(db.sponsoredTransaction.updateMany).toHaveBeenCalledWith({
+        where: { debitEntryId: 'debit-1' },
+        data: { refundedAt: expect.any(Date) },
+      });
+    });
+
+    it('returns organization debits to the organization pool', async () => {
+      db.creditLedgerEntry.findUnique.mockResolvedValue(debit({ organizationId: 'org-1', metadata: { allocations: [] } }));
+      db.organization.update.mockResolvedValue({ creditBalanceMicroUsdc: micro(7_000_000) });
+
+      const result = await gaslessCreditService.refundCredit('debit-1', 'Transaction dropped');
+
+      expect(result).toMatchObject({ success: true, remainingCredit: 7 });
+      expect(db.organization.update).toHaveBeenCalledWith({
+        where: { id: 'org-1' },
+        data: { creditBalanceMicroUsdc: { increment: micro(1_000_000) } },
+      });
+      expect(db.creditAccount.update).not.toHaveBeenCalled();
+    });
+
+    it('refunds a debit only once', async () => {
+      db.creditLedgerEntry.findUnique.mockResolvedValue(debit({ refund: { id: 'refund-1' } }));
+
+      const result = await gaslessCreditService.refundCredit('debit-1', 'Transaction dropped');
+
+      expect(result).toEqual({ success: true, alreadyRefunded: true });
+      expect(db.creditAccount.update).not.toHaveBeenCalled();
+      expect(db.creditLedgerEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('treats a concurrent refund of the same debit as already refunded', async () => {
+      db.creditLedgerEntry.create.mockRejectedValue(prismaError('P2002'));
+
+      const result = await gaslessCreditService.refundCredit('debit-1', 'Transaction dropped');
+
+      expect(result).toEqual({ success: true, alreadyRefunded: true });
+    });
+
+    it('refuses to refund an entry that is not a debit', async () => {
+      db.creditLedgerEntry.findUnique.mockResolvedValue(debit({ direction: 'CREDIT' }));
+
+      const result = await gaslessCreditService.refundCredit('debit-1', 'Transaction dropped');
+
+      expect(result).toEqual({ success: false, error: 'Credit debit debit-1 not found' });
+      expect(db.creditAccount.update).not.toHaveBeenCalled();
+    });
+  });
+});
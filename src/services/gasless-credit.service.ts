@@ -1,28 +1,92 @@
 // src/services/gasless-credit.service.ts
+import { CreditLedgerReason, CreditPackage, GaslessPayment, Prisma, SponsoredTransaction } from '@prisma/client';
 import prisma from '../lib/prisma';
 import Logger from '../utils/logger';
+import gaslessService from './gasless.service';
+import auditService, { AuditContext } from './audit.service';
+import creditNotificationService from './credit-notification.service';
+import { config } from '../config/env';
 
 export interface CreditBalance {
   totalCredit: number;
   creditUSDC: number;
-  payments: Array<{
-    id: string;
-    amountUSDC: number;
-    creditRemaining: number;
-    creditUsed: number;
-    signature: string;
-    status: string;
-    createdAt: Date;
-  }>;
+  // Split of the total between purchased credit and bonus credit
+  paidCreditUSDC: number;
+  bonusCreditUSDC: number;
+  payments: Array<
+    Pick<
+      GaslessPayment,
+      | 'id'
+      | 'amountUSDC'
+      | 'creditRemainingMicroUsdc'
+      | 'creditUsedMicroUsdc'
+      | 'signature'
+      | 'status'
+      | 'creditExpiresAt'
+      | 'creditExpiredMicroUsdc'
+      | 'createdAt'
+    >
+  >;
+}
+
+export interface CreditAlertSettings {
+  lowBalanceThresholdUSDC: number;
+  // Whether the server-wide default threshold applies
+  usingDefaultThreshold: boolean;
+  lowBalanceAlertedAt: Date | null;
+  expiringCredit: Array<{ paymentId: string; creditRemaining: number; creditExpiresAt: Date }>;
 }
 
 export interface UseCreditResult {
   success: boolean;
   paymentId?: string;
+  ledgerEntryId?: string;
+  remainingCredit?: number;
+  error?: string;
+}
+
+export interface RefundCreditResult {
+  success: boolean;
+  refundEntryId?: string;
+  amountUSDC?: number;
   remainingCredit?: number;
+  alreadyRefunded?: boolean;
   error?: string;
 }
 
+// Share of a debit drawn from one payment, kept in the debit's metadata so a refund can restore it
+interface CreditAllocation {
+  paymentId: string;
+  amountMicroUsdc: string;
+}
+
+const MICRO_USDC_PER_USDC = 1_000_000;
+
+// Submitted transactions younger than this are left to the request that sent them
+const RECONCILE_GRACE_MS = 2 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Convert a USDC amount to integer micro-USDC (6 decimals)
+ */
+export const toMicroUsdc = (amountUSDC: number): bigint => BigInt(Math.round(amountUSDC * MICRO_USDC_PER_USDC));
+
+/**
+ * Convert integer micro-USDC to a USDC amount
+ */
+export const fromMicroUsdc = (amount: bigint): number => Number(amount) / MICRO_USDC_PER_USDC;
+
+/**
+ * Bonus credit granted on top of a credit package's price
+ */
+export const getPackageBonusMicroUsdc = (creditPackage: Pick<CreditPackage, 'priceMicroUsdc' | 'bonusBps'>): bigint =>
+  (creditPackage.priceMicroUsdc * BigInt(creditPackage.bonusBps)) / BigInt(10_000);
+
+// Thrown inside a ledger transaction to roll it back when the balance cannot cover a debit
+class InsufficientCreditError extends Error {}
+
 export class GaslessCreditService {
   /**
    * Record payment and add credit to user
@@ -39,25 +103,53 @@ export class GaslessCreditService {
       network: string;
       tokenMint: string;
       explorerUrl?: string;
+      packageId?: string;
+      // Currency paid when not USDC, and the rate amountUSDC was credited at
+      currency?: string;
+      exchangeRateUSDC?: number;
     }
   ) {
     try {
-      const payment = await prisma.gaslessPayment.create({
-        data: {
-          userId,
-          amountUSDC: paymentData.amountUSDC,
-          amount: paymentData.amount,
-          signature: paymentData.signature,
-          status: 'VERIFIED',
-          creditRemaining: paymentData.amountUSDC, // Full amount available as credit
-          creditUsed: 0,
-          recipientTokenAccount: paymentData.recipientTokenAccount,
-          recipientWallet: paymentData.recipientWallet,
-          fromAddress: paymentData.fromAddress,
-          network: paymentData.network,
-          tokenMint: paymentData.tokenMint,
-          explorerUrl: paymentData.explorerUrl,
-        },
+      const payment = await prisma.$transaction(async (tx) => {
+        const creditPackage = paymentData.packageId
+          ? await tx.creditPackage.findUniqueOrThrow({ where: { id: paymentData.packageId } })
+          : null;
+        const creditTtlDays = creditPackage?.creditTtlDays ?? config.creditExpiry.ttlDays;
+
+        const created = await tx.gaslessPayment.create({
+          data: {
+            userId,
+            amountUSDC: paymentData.amountUSDC,
+            amount: paymentData.amount,
+            signature: paymentData.signature,
+            status: 'VERIFIED',
+            creditRemainingMicroUsdc: toMicroUsdc(paymentData.amountUSDC), // Full amount available as credit
+            recipientTokenAccount: paymentData.recipientTokenAccount,
+            recipientWallet: paymentData.recipientWallet,
+            fromAddress: paymentData.fromAddress,
+            network: paymentData.network,
+            tokenMint: paymentData.tokenMint,
+            explorerUrl: paymentData.explorerUrl,
+            currency: paymentData.currency,
+            exchangeRateUSDC: paymentData.exchangeRateUSDC,
+            packageId: creditPackage?.id,
+            creditExpiresAt: creditTtlDays > 0 ? new Date(Date.now() + creditTtlDays * DAY_MS) : null,
+          },
+        });
+
+        await this.addCredit(tx, userId, toMicroUsdc(paymentData.amountUSDC), 'PAYMENT', {
+          paymentId: created.id,
+        });
+
+        // The volume bonus is worked out on the package price, not on any overpayment
+        const bonusMicroUsdc = creditPackage ? getPackageBonusMicroUsdc(creditPackage) : BigInt(0);
+        if (creditPackage && bonusMicroUsdc > BigInt(0)) {
+          await this.addBonusCredit(tx, userId, bonusMicroUsdc, 'PACKAGE_BONUS', {
+            paymentId: created.id,
+            metadata: { packageId: creditPackage.id, bonusBps: creditPackage.bonusBps },
+          });
+        }
+        return created;
       });
 
       Logger.info(`Payment recorded and credit added for user ${userId}: ${payment.id}`);
@@ -69,44 +161,124 @@ export class GaslessCreditService {
   }
 
   /**
-   * Get user's total available credit
+   * Record a payment for a paywalled resource. It buys that request only, so no credit is added.
+   */
+  async recordPaywallPayment(paymentData: {
+    userId?: string | null;
+    resource: string;
+    signature: string;
+    amount: string;
+    amountUSDC: number;
+    recipientTokenAccount: string;
+    recipientWallet: string;
+    fromAddress?: string;
+    network: string;
+    tokenMint: string;
+    explorerUrl?: string;
+    paymentProof?: Prisma.InputJsonValue;
+  }) {
+    const payment = await prisma.gaslessPayment.create({
+      data: {
+        ...paymentData,
+        userId: paymentData.userId || null,
+        status: 'VERIFIED',
+      },
+    });
+
+    Logger.info(`Paywall payment recorded for ${paymentData.resource}: ${payment.id}`);
+    return payment;
+  }
+
+  /**
+   * Add bonus credit, which is spent before paid credit, inside the caller's transaction
+   */
+  async addBonusCredit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amountMicroUsdc: bigint,
+    reason: CreditLedgerReason,
+    details: { paymentId?: string; metadata?: Prisma.InputJsonValue } = {}
+  ) {
+    return this.addCredit(tx, userId, amountMicroUsdc, reason, { ...details, bonus: true });
+  }
+
+  /**
+   * Credit a user's account and append the matching ledger entry
+   */
+  private async addCredit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amountMicroUsdc: bigint,
+    reason: CreditLedgerReason,
+    details: { paymentId?: string; metadata?: Prisma.InputJsonValue; bonus?: boolean } = {}
+  ) {
+    const bonusMicroUsdc = details.bonus ? amountMicroUsdc : BigInt(0);
+    const account = await tx.creditAccount.upsert({
+      where: { userId },
+      create: { userId, balanceMicroUsdc: amountMicroUsdc, bonusBalanceMicroUsdc: bonusMicroUsdc },
+      update: {
+        balanceMicroUsdc: { increment: amountMicroUsdc },
+        bonusBalanceMicroUsdc: { increment: bonusMicroUsdc },
+        lowBalanceAlertedAt: null,
+      },
+    });
+
+    return tx.creditLedgerEntry.create({
+      data: {
+        userId,
+        direction: 'CREDIT',
+        reason,
+        amountMicroUsdc,
+        bonusMicroUsdc,
+        balanceAfterMicroUsdc: account.balanceMicroUsdc,
+        paymentId: details.paymentId,
+        metadata: details.metadata,
+      },
+    });
+  }
+
+  /**
+   * Get user's total available credit from the running account balance
    */
   async getUserCredit(userId: string): Promise<CreditBalance> {
     try {
-      const payments = await prisma.gaslessPayment.findMany({
-        where: {
-          userId,
-          status: 'VERIFIED',
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        select: {
-          id: true,
-          amountUSDC: true,
-          creditRemaining: true,
-          creditUsed: true,
-          signature: true,
-          status: true,
-          createdAt: true,
-        },
-      });
+      const [account, payments] = await Promise.all([
+        prisma.creditAccount.findUnique({
+          where: { userId },
+          select: { balanceMicroUsdc: true, bonusBalanceMicroUsdc: true },
+        }),
+        prisma.gaslessPayment.findMany({
+          where: {
+            userId,
+            status: 'VERIFIED',
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          select: {
+            id: true,
+            amountUSDC: true,
+            creditRemainingMicroUsdc: true,
+            creditUsedMicroUsdc: true,
+            signature: true,
+            status: true,
+            creditExpiresAt: true,
+            creditExpiredMicroUsdc: true,
+            createdAt: true,
+          },
+        }),
+      ]);
 
-      // Calculate total credit from all verified payments
-      const totalCredit = payments.reduce((sum, payment) => sum + payment.creditRemaining, 0);
+      const balance = account?.balanceMicroUsdc ?? BigInt(0);
+      const bonusBalance = account?.bonusBalanceMicroUsdc ?? BigInt(0);
+      const totalCredit = fromMicroUsdc(balance);
 
       return {
         totalCredit,
         creditUSDC: totalCredit,
-        payments: payments.map((p) => ({
-          id: p.id,
-          amountUSDC: p.amountUSDC,
-          creditRemaining: p.creditRemaining,
-          creditUsed: p.creditUsed,
-          signature: p.signature,
-          status: p.status,
-          createdAt: p.createdAt,
-        })),
+        paidCreditUSDC: fromMicroUsdc(balance - bonusBalance),
+        bonusCreditUSDC: fromMicroUsdc(bonusBalance),
+        payments,
       };
     } catch (error) {
       Logger.error('Error getting user credit:', error);
@@ -114,6 +286,17 @@ export class GaslessCreditService {
     }
   }
 
+  /**
+   * Get user's available credit in micro-USDC
+   */
+  async getBalanceMicroUsdc(userId: string): Promise<bigint> {
+    const account = await prisma.creditAccount.findUnique({
+      where: { userId },
+      select: { balanceMicroUsdc: true },
+    });
+    return account?.balanceMicroUsdc ?? BigInt(0);
+  }
+
   /**
    * Get payment history for a user
    */
@@ -133,8 +316,11 @@ export class GaslessCreditService {
           amount: true,
           signature: true,
           status: true,
-          creditRemaining: true,
-          creditUsed: true,
+          creditRemainingMicroUsdc: true,
+          creditUsedMicroUsdc: true,
+          creditRefundedMicroUsdc: true,
+          creditExpiredMicroUsdc: true,
+          creditExpiresAt: true,
           recipientTokenAccount: true,
           recipientWallet: true,
           fromAddress: true,
@@ -143,6 +329,10 @@ export class GaslessCreditService {
           explorerUrl: true,
           createdAt: true,
           updatedAt: true,
+          creditLedgerEntries: {
+            where: { reason: 'REFUND' },
+            orderBy: { createdAt: 'asc' },
+          },
         },
       });
 
@@ -154,91 +344,264 @@ export class GaslessCreditService {
   }
 
   /**
-   * Use credit to sponsor a transaction (FIFO - First In, First Out)
-   * Deducts credit from oldest payment first
+   * Use credit to sponsor a transaction.
+   * The account balance is debited with a conditional update, which row-locks the account
+   * until commit, so concurrent deductions are serialized and can never overdraw it.
+   * Bonus credit is drawn first; the rest of the debit is attributed to payments whose credit
+   * expires soonest, then oldest first (FIFO).
    */
   async useCredit(
     userId: string,
     amountUSDC: number,
     transactionType: string = 'USER_TRANSACTION'
   ): Promise<UseCreditResult> {
+    const amountMicroUsdc = toMicroUsdc(amountUSDC);
+    if (amountMicroUsdc <= BigInt(0)) {
+      return { success: false, error: 'Credit amount must be positive' };
+    }
+
     try {
-      // Get all verified payments with remaining credit, ordered by creation date (oldest first)
-      const payments = await prisma.gaslessPayment.findMany({
-        where: {
-          userId,
-          status: 'VERIFIED',
-          creditRemaining: {
-            gt: 0, // Greater than 0
-          },
-        },
-        orderBy: {
-          createdAt: 'asc', // Oldest first (FIFO)
-        },
+      const result = await prisma.$transaction(async (tx) => {
+        const debit = await this.debitCredit(tx, userId, amountMicroUsdc, 'SPONSORED_TRANSACTION', { transactionType });
+        if (!debit) {
+          throw new InsufficientCreditError();
+        }
+        return {
+          paymentId: debit.paymentId,
+          ledgerEntryId: debit.entry.id,
+          balanceMicroUsdc: debit.entry.balanceAfterMicroUsdc,
+        };
       });
 
-      // Calculate total available credit
-      const totalCredit = payments.reduce((sum, p) => sum + p.creditRemaining, 0);
+      const remainingCredit = fromMicroUsdc(result.balanceMicroUsdc);
+      Logger.info(
+        `Credit used successfully: ${amountUSDC} USDC for user ${userId}. Remaining: ${remainingCredit} USDC`
+      );
+      void this.checkLowBalance(userId);
 
-      if (totalCredit < amountUSDC) {
+      return {
+        success: true,
+        paymentId: result.paymentId,
+        ledgerEntryId: result.ledgerEntryId,
+        remainingCredit,
+      };
+    } catch (error) {
+      if (error instanceof InsufficientCreditError) {
+        const available = fromMicroUsdc(await this.getBalanceMicroUsdc(userId));
         return {
           success: false,
-          error: `Insufficient credit. Available: ${totalCredit} USDC, Required: ${amountUSDC} USDC`,
+          error: `Insufficient credit. Available: ${available} USDC, Required: ${amountUSDC} USDC`,
         };
       }
 
-      // Deduct credit from payments (FIFO)
-      let remainingToDeduct = amountUSDC;
-      let paymentId: string | undefined;
+      Logger.error('Error using credit:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Debit a user's account inside a ledger transaction and append the matching ledger entry.
+   * Bonus credit is drawn first, then payments as for useCredit. Returns null, having changed
+   * nothing, when the balance cannot cover the amount.
+   */
+  async debitCredit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amountMicroUsdc: bigint,
+    reason: CreditLedgerReason,
+    details: { transactionType?: string; metadata?: Prisma.InputJsonObject } = {}
+  ) {
+    const debited = await tx.creditAccount.updateMany({
+      where: { userId, balanceMicroUsdc: { gte: amountMicroUsdc } },
+      data: { balanceMicroUsdc: { decrement: amountMicroUsdc } },
+    });
+    if (debited.count === 0) {
+      return null;
+    }
 
-      for (const payment of payments) {
-        if (remainingToDeduct <= 0) break;
+    const debitedAccount = await tx.creditAccount.findUniqueOrThrow({
+      where: { userId },
+      select: { bonusBalanceMicroUsdc: true },
+    });
+    const bonusMicroUsdc =
+      debitedAccount.bonusBalanceMicroUsdc < amountMicroUsdc ? debitedAccount.bonusBalanceMicroUsdc : amountMicroUsdc;
+    const account = await tx.creditAccount.update({
+      where: { userId },
+      data: { bonusBalanceMicroUsdc: { decrement: bonusMicroUsdc } },
+      select: { balanceMicroUsdc: true },
+    });
 
-        const deductAmount = Math.min(payment.creditRemaining, remainingToDeduct);
-        const newCreditRemaining = payment.creditRemaining - deductAmount;
-        const newCreditUsed = payment.creditUsed + deductAmount;
+    // Safe to read unlocked: other debits for this user wait on the account row
+    const payments = await tx.gaslessPayment.findMany({
+      where: {
+        userId,
+        status: 'VERIFIED',
+        creditRemainingMicroUsdc: { gt: 0 },
+      },
+      orderBy: [{ creditExpiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      select: { id: true, creditRemainingMicroUsdc: true },
+    });
 
-        await prisma.gaslessPayment.update({
-          where: { id: payment.id },
+    let remainingToDeduct = amountMicroUsdc - bonusMicroUsdc;
+    let paymentId: string | undefined;
+    const allocations: CreditAllocation[] = [];
+
+    for (const payment of payments) {
+      if (remainingToDeduct <= BigInt(0)) break;
+
+      const available = payment.creditRemainingMicroUsdc;
+      const deductAmount = available < remainingToDeduct ? available : remainingToDeduct;
+      if (deductAmount <= BigInt(0)) continue;
+
+      await tx.gaslessPayment.update({
+        where: { id: payment.id },
+        data: {
+          creditRemainingMicroUsdc: { decrement: deductAmount },
+          creditUsedMicroUsdc: { increment: deductAmount },
+        },
+      });
+
+      paymentId = paymentId ?? payment.id; // Track the first payment used
+      allocations.push({ paymentId: payment.id, amountMicroUsdc: deductAmount.toString() });
+      remainingToDeduct -= deductAmount;
+    }
+
+    if (remainingToDeduct > BigInt(0)) {
+      // Credit granted outside a payment (e.g. an opening balance) has no row to draw on
+      Logger.debug(`Debit for user ${userId} exceeds payment credit by ${fromMicroUsdc(remainingToDeduct)} USDC`);
+    }
+
+    const entry = await tx.creditLedgerEntry.create({
+      data: {
+        userId,
+        direction: 'DEBIT',
+        reason,
+        amountMicroUsdc,
+        bonusMicroUsdc,
+        balanceAfterMicroUsdc: account.balanceMicroUsdc,
+        paymentId,
+        transactionType: details.transactionType,
+        metadata: { ...details.metadata, allocations: allocations as unknown as Prisma.InputJsonArray },
+      },
+    });
+
+    return { entry, paymentId };
+  }
+
+  /**
+   * Reverse a credit debit whose sponsored transaction never landed.
+   * Each debit can be refunded once; the credit goes back to the payments it was drawn from.
+   */
+  async refundCredit(debitEntryId: string, reason: string, context: AuditContext = {}): Promise<RefundCreditResult> {
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const debit = await tx.creditLedgerEntry.findUnique({
+          where: { id: debitEntryId },
+          include: { refund: { select: { id: true } } },
+        });
+        if (!debit || debit.direction !== 'DEBIT') {
+          throw new Error(`Credit debit ${debitEntryId} not found`);
+        }
+        if (debit.refund) {
+          return null;
+        }
+
+        let balanceMicroUsdc: bigint;
+        if (debit.organizationId) {
+          // Debits from an organization's credit pool go back to the pool
+          const organization = await tx.organization.update({
+            where: { id: debit.organizationId },
+            data: { creditBalanceMicroUsdc: { increment: debit.amountMicroUsdc } },
+          });
+          balanceMicroUsdc = organization.creditBalanceMicroUsdc;
+        } else {
+          const account = await tx.creditAccount.update({
+            where: { userId: debit.userId },
+            data: {
+              balanceMicroUsdc: { increment: debit.amountMicroUsdc },
+              bonusBalanceMicroUsdc: { increment: debit.bonusMicroUsdc },
+            },
+          });
+          balanceMicroUsdc = account.balanceMicroUsdc;
+        }
+
+        // The unique refundOfEntryId rejects a concurrent second refund of the same debit
+        const refund = await tx.creditLedgerEntry.create({
           data: {
-            creditRemaining: newCreditRemaining,
-            creditUsed: newCreditUsed,
+            userId: debit.userId,
+            organizationId: debit.organizationId,
+            direction: 'CREDIT',
+            reason: 'REFUND',
+            amountMicroUsdc: debit.amountMicroUsdc,
+            bonusMicroUsdc: debit.bonusMicroUsdc,
+            balanceAfterMicroUsdc: balanceMicroUsdc,
+            paymentId: debit.paymentId,
+            transactionType: debit.transactionType,
+            refundOfEntryId: debit.id,
+            metadata: { reason },
           },
         });
 
-        if (!paymentId) {
-          paymentId = payment.id; // Track the first payment used
+        const allocations = ((debit.metadata as { allocations?: CreditAllocation[] } | null)?.allocations) || [];
+        for (const allocation of allocations) {
+          const amount = BigInt(allocation.amountMicroUsdc);
+          await tx.gaslessPayment.updateMany({
+            where: { id: allocation.paymentId },
+            data: {
+              creditRemainingMicroUsdc: { increment: amount },
+              creditUsedMicroUsdc: { decrement: amount },
+              creditRefundedMicroUsdc: { increment: amount },
+            },
+          });
         }
 
-        remainingToDeduct -= deductAmount;
-        Logger.info(
-          `Deducted ${deductAmount} USDC credit from payment ${payment.id} for user ${userId}`
-        );
+        await tx.sponsoredTransaction.updateMany({
+          where: { debitEntryId: debit.id },
+          data: { refundedAt: new Date() },
+        });
+
+        return {
+          userId: debit.userId,
+          organizationId: debit.organizationId,
+          refundEntryId: refund.id,
+          amountMicroUsdc: debit.amountMicroUsdc,
+          balanceMicroUsdc,
+        };
+      });
+
+      if (!result) {
+        return { success: true, alreadyRefunded: true };
       }
 
-      // Calculate remaining total credit
-      const updatedPayments = await prisma.gaslessPayment.findMany({
-        where: {
-          userId,
-          status: 'VERIFIED',
-          creditRemaining: {
-            gt: 0,
-          },
+      const amountUSDC = fromMicroUsdc(result.amountMicroUsdc);
+      const remainingCredit = fromMicroUsdc(result.balanceMicroUsdc);
+      Logger.info(`Refunded ${amountUSDC} USDC credit for debit ${debitEntryId} (${reason}). Balance: ${remainingCredit} USDC`);
+
+      await auditService.record(context, {
+        action: 'GASLESS_CREDIT_REFUNDED',
+        targetType: result.organizationId ? 'Organization' : 'User',
+        targetId: result.organizationId ?? result.userId,
+        before: { creditUSDC: remainingCredit - amountUSDC },
+        after: { creditUSDC: remainingCredit },
+        metadata: {
+          amountUSDC,
+          reason,
+          debitEntryId,
+          refundEntryId: result.refundEntryId,
+          ...(result.organizationId && { userId: result.userId }),
         },
       });
-      const remainingCredit = updatedPayments.reduce((sum, p) => sum + p.creditRemaining, 0);
 
-      Logger.info(
-        `Credit used successfully: ${amountUSDC} USDC for user ${userId}. Remaining: ${remainingCredit} USDC`
-      );
-
-      return {
-        success: true,
-        paymentId,
-        remainingCredit,
-      };
+      return { success: true, refundEntryId: result.refundEntryId, amountUSDC, remainingCredit };
     } catch (error) {
-      Logger.error('Error using credit:', error);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: true, alreadyRefunded: true };
+      }
+
+      Logger.error('Error refunding credit:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -246,6 +609,367 @@ export class GaslessCreditService {
     }
   }
 
+  /**
+   * Apply the on-chain outcome of a submitted sponsored transaction, refunding its credit if it was dropped
+   */
+  async settleSponsoredTransaction(
+    sponsoredTx: SponsoredTransaction,
+    context: AuditContext = {}
+  ): Promise<SponsoredTransaction> {
+    if (!sponsoredTx.signature) {
+      return sponsoredTx;
+    }
+
+    const outcome = await gaslessService.getSubmissionOutcome(sponsoredTx.signature, sponsoredTx.lastValidBlockHeight);
+    let settled: SponsoredTransaction;
+    switch (outcome.status) {
+      case 'CONFIRMED':
+        settled = await prisma.sponsoredTransaction.update({
+          where: { id: sponsoredTx.id },
+          data: { status: 'CONFIRMED' },
+        });
+        break;
+      case 'FAILED':
+        // The transaction executed and its fee was spent, so the credit stays used
+        settled = await prisma.sponsoredTransaction.update({
+          where: { id: sponsoredTx.id },
+          data: { status: 'FAILED', errorMessage: outcome.error },
+        });
+        break;
+      case 'DROPPED': {
+        const updated = await prisma.sponsoredTransaction.update({
+          where: { id: sponsoredTx.id },
+          data: { status: 'FAILED', errorMessage: 'Transaction was dropped before it landed' },
+        });
+        if (updated.debitEntryId) {
+          await this.refundCredit(updated.debitEntryId, 'Sponsored transaction was dropped', context);
+        }
+        settled = await prisma.sponsoredTransaction.findUniqueOrThrow({ where: { id: sponsoredTx.id } });
+        break;
+      }
+      default:
+        return sponsoredTx;
+    }
+
+    // Gasless Lulo operations track the same outcome on their yield transaction
+    if (settled.yieldTransactionId) {
+      await prisma.yieldTransaction.update({
+        where: { id: settled.yieldTransactionId },
+        data: { status: settled.status === 'CONFIRMED' ? 'CONFIRMED' : 'FAILED', errorMessage: settled.errorMessage },
+      });
+    }
+    return settled;
+  }
+
+  /**
+   * Settle sponsored transactions left SUBMITTED when their confirmation timed out
+   */
+  async reconcileSubmittedTransactions(): Promise<void> {
+    const pending = await prisma.sponsoredTransaction.findMany({
+      where: {
+        status: 'SUBMITTED',
+        createdAt: { lt: new Date(Date.now() - RECONCILE_GRACE_MS) },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    for (const sponsoredTx of pending) {
+      try {
+        const settled = await this.settleSponsoredTransaction(sponsoredTx);
+        if (settled.status !== 'SUBMITTED') {
+          Logger.info(`Sponsored transaction ${settled.id} settled as ${settled.status}`);
+        }
+      } catch (error) {
+        Logger.warn(`Could not settle sponsored transaction ${sponsoredTx.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Remove the unspent credit of a payment whose credit has expired, through an EXPIRY ledger debit
+   */
+  async expirePaymentCredit(paymentId: string): Promise<void> {
+    const { userId } = await prisma.gaslessPayment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { userId: true },
+    });
+    if (!userId) {
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the account first, like a debit, so credit cannot be spent from the payment while it expires
+      const account = await tx.creditAccount.update({
+        where: { userId },
+        data: { updatedAt: new Date() },
+      });
+      const payment = await tx.gaslessPayment.findUniqueOrThrow({
+        where: { id: paymentId },
+        select: { creditRemainingMicroUsdc: true, creditExpiresAt: true },
+      });
+      const remaining = payment.creditRemainingMicroUsdc;
+      if (remaining <= BigInt(0) || !payment.creditExpiresAt || payment.creditExpiresAt > new Date()) {
+        return null;
+      }
+
+      // Bonus credit is not tied to a payment and is left alone
+      const paidBalance = account.balanceMicroUsdc - account.bonusBalanceMicroUsdc;
+      const amountMicroUsdc = remaining < paidBalance ? remaining : paidBalance;
+
+      await tx.gaslessPayment.update({
+        where: { id: paymentId },
+        data: {
+          creditRemainingMicroUsdc: 0,
+          creditExpiredMicroUsdc: { increment: amountMicroUsdc },
+        },
+      });
+      if (amountMicroUsdc <= BigInt(0)) {
+        return null;
+      }
+
+      const updated = await tx.creditAccount.update({
+        where: { userId },
+        data: { balanceMicroUsdc: { decrement: amountMicroUsdc } },
+      });
+      const entry = await tx.creditLedgerEntry.create({
+        data: {
+          userId,
+          direction: 'DEBIT',
+          reason: 'EXPIRY',
+          amountMicroUsdc,
+          balanceAfterMicroUsdc: updated.balanceMicroUsdc,
+          paymentId,
+          metadata: { creditExpiresAt: payment.creditExpiresAt.toISOString() },
+        },
+      });
+
+      return { entry, creditExpiresAt: payment.creditExpiresAt };
+    });
+
+    if (!result) {
+      return;
+    }
+
+    const amountUSDC = fromMicroUsdc(result.entry.amountMicroUsdc);
+    const remainingCredit = fromMicroUsdc(result.entry.balanceAfterMicroUsdc);
+    Logger.info(`Expired ${amountUSDC} USDC credit of payment ${paymentId} for user ${userId}`);
+
+    await auditService.record(
+      {},
+      {
+        action: 'GASLESS_CREDIT_EXPIRED',
+        targetType: 'User',
+        targetId: userId,
+        before: { creditUSDC: remainingCredit + amountUSDC },
+        after: { creditUSDC: remainingCredit },
+        metadata: { amountUSDC, paymentId, ledgerEntryId: result.entry.id },
+      }
+    );
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (user) {
+      await creditNotificationService.send({
+        type: 'CREDIT_EXPIRED',
+        userId,
+        email: user.email,
+        subject: 'Your gasless credit has expired',
+        message: `${amountUSDC} USDC of unused credit expired. Remaining credit: ${remainingCredit} USDC.`,
+        details: { amountUSDC, remainingCredit, paymentId, creditExpiresAt: result.creditExpiresAt },
+      });
+    }
+    await this.checkLowBalance(userId);
+  }
+
+  /**
+   * Expire the credit of every payment past its expiry
+   */
+  async expireDueCredit(): Promise<void> {
+    const due = await prisma.gaslessPayment.findMany({
+      where: {
+        status: 'VERIFIED',
+        creditRemainingMicroUsdc: { gt: 0 },
+        creditExpiresAt: { lte: new Date() },
+      },
+      orderBy: { creditExpiresAt: 'asc' },
+      take: EXPIRY_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const payment of due) {
+      try {
+        await this.expirePaymentCredit(payment.id);
+      } catch (error) {
+        Logger.warn(`Could not expire credit of payment ${payment.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Warn users, once per payment, that credit expires within CREDIT_EXPIRY_WARNING_DAYS
+   */
+  async sendExpiryWarnings(): Promise<void> {
+    const { warningDays } = config.creditExpiry;
+    if (warningDays <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    const expiring = await prisma.gaslessPayment.findMany({
+      where: {
+        status: 'VERIFIED',
+        creditRemainingMicroUsdc: { gt: 0 },
+        expiryWarnedAt: null,
+        creditExpiresAt: { gt: now, lte: new Date(now.getTime() + warningDays * DAY_MS) },
+        userId: { not: null },
+      },
+      orderBy: { creditExpiresAt: 'asc' },
+      select: {
+        id: true,
+        creditRemainingMicroUsdc: true,
+        creditExpiresAt: true,
+        user: { select: { id: true, email: true } },
+      },
+    });
+
+    const byUser = new Map<string, typeof expiring>();
+    for (const payment of expiring) {
+      byUser.set(payment.user!.id, [...(byUser.get(payment.user!.id) || []), payment]);
+    }
+
+    for (const [userId, payments] of Array.from(byUser.entries())) {
+      const claimed = await prisma.gaslessPayment.updateMany({
+        where: { id: { in: payments.map(({ id }) => id) }, expiryWarnedAt: null },
+        data: { expiryWarnedAt: now },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const amountUSDC = fromMicroUsdc(
+        payments.reduce((total, payment) => total + payment.creditRemainingMicroUsdc, BigInt(0))
+      );
+      const firstExpiry = payments[0].creditExpiresAt!;
+      await creditNotificationService.send({
+        type: 'CREDIT_EXPIRING',
+        userId,
+        email: payments[0].user!.email,
+        subject: 'Your gasless credit is about to expire',
+        message: `${amountUSDC} USDC of credit expires from ${firstExpiry.toISOString()}. Use it before then to keep it.`,
+        details: {
+          amountUSDC,
+          payments: payments.map((payment) => ({
+            paymentId: payment.id,
+            creditRemaining: fromMicroUsdc(payment.creditRemainingMicroUsdc),
+            creditExpiresAt: payment.creditExpiresAt,
+          })),
+        },
+      });
+    }
+  }
+
+  /**
+   * Notify a user once when their balance falls below their low-balance threshold.
+   * Never throws, so it can run after a debit without affecting it.
+   */
+  async checkLowBalance(userId: string): Promise<void> {
+    try {
+      const account = await prisma.creditAccount.findUnique({
+        where: { userId },
+        include: { user: { select: { email: true } } },
+      });
+      if (!account || account.lowBalanceAlertedAt) {
+        return;
+      }
+
+      const threshold = this.getLowBalanceThreshold(account.lowBalanceThresholdMicroUsdc);
+      if (threshold <= BigInt(0) || account.balanceMicroUsdc >= threshold) {
+        return;
+      }
+
+      const claimed = await prisma.creditAccount.updateMany({
+        where: { userId, lowBalanceAlertedAt: null },
+        data: { lowBalanceAlertedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        return;
+      }
+
+      const creditUSDC = fromMicroUsdc(account.balanceMicroUsdc);
+      const thresholdUSDC = fromMicroUsdc(threshold);
+      await creditNotificationService.send({
+        type: 'CREDIT_LOW_BALANCE',
+        userId,
+        email: account.user.email,
+        subject: 'Your gasless credit is running low',
+        message: `Your credit balance is ${creditUSDC} USDC, below your alert threshold of ${thresholdUSDC} USDC.`,
+        details: { creditUSDC, thresholdUSDC },
+      });
+    } catch (error) {
+      Logger.error('Error checking low credit balance:', error);
+    }
+  }
+
+  /**
+   * A user's low-balance threshold and credit that is due to expire
+   */
+  async getAlertSettings(userId: string): Promise<CreditAlertSettings> {
+    const [account, expiring] = await Promise.all([
+      prisma.creditAccount.findUnique({
+        where: { userId },
+        select: { lowBalanceThresholdMicroUsdc: true, lowBalanceAlertedAt: true },
+      }),
+      prisma.gaslessPayment.findMany({
+        where: { userId, status: 'VERIFIED', creditRemainingMicroUsdc: { gt: 0 }, creditExpiresAt: { not: null } },
+        orderBy: { creditExpiresAt: 'asc' },
+        take: 20,
+        select: { id: true, creditRemainingMicroUsdc: true, creditExpiresAt: true },
+      }),
+    ]);
+
+    const custom = account?.lowBalanceThresholdMicroUsdc ?? null;
+    return {
+      lowBalanceThresholdUSDC: fromMicroUsdc(this.getLowBalanceThreshold(custom)),
+      usingDefaultThreshold: custom === null,
+      lowBalanceAlertedAt: account?.lowBalanceAlertedAt ?? null,
+      expiringCredit: expiring.map((payment) => ({
+        paymentId: payment.id,
+        creditRemaining: fromMicroUsdc(payment.creditRemainingMicroUsdc),
+        creditExpiresAt: payment.creditExpiresAt!,
+      })),
+    };
+  }
+
+  /**
+   * Set a user's low-balance threshold; null goes back to the default. A pending alert is re-evaluated.
+   */
+  async updateAlertSettings(userId: string, lowBalanceThresholdUSDC: number | null): Promise<CreditAlertSettings> {
+    const lowBalanceThresholdMicroUsdc = lowBalanceThresholdUSDC === null ? null : toMicroUsdc(lowBalanceThresholdUSDC);
+    await prisma.creditAccount.upsert({
+      where: { userId },
+      create: { userId, lowBalanceThresholdMicroUsdc },
+      update: { lowBalanceThresholdMicroUsdc, lowBalanceAlertedAt: null },
+    });
+
+    await this.checkLowBalance(userId);
+    return this.getAlertSettings(userId);
+  }
+
+  private getLowBalanceThreshold(custom: bigint | null): bigint {
+    return custom ?? toMicroUsdc(config.creditAlerts.lowBalanceThresholdUsdc);
+  }
+
+  /**
+   * Get a user's credit ledger, newest first. Entries against an organization's pool are left out
+   */
+  async getLedger(userId: string, limit: number = 50) {
+    return prisma.creditLedgerEntry.findMany({
+      where: { userId, organizationId: null },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
   /**
    * Record sponsored transaction
    */
@@ -257,10 +981,14 @@ export class GaslessCreditService {
       signature: string;
       solFeePaid?: number;
       usdcCreditUsed: number;
-      transactionData?: any;
+      transactionData?: Prisma.InputJsonValue;
       network: string;
       explorerUrl?: string;
       status?: string;
+      errorMessage?: string;
+      debitEntryId?: string;
+      lastValidBlockHeight?: number;
+      yieldTransactionId?: string;
     }
   ) {
     try {
@@ -300,6 +1028,10 @@ export class GaslessCreditService {
           serializedTransaction: data.transactionData ? JSON.stringify(data.transactionData) : null,
           transactionSignature: data.signature, // Same as signature for compatibility
           status: transactionStatus,
+          errorMessage: data.errorMessage,
+          debitEntryId: data.debitEntryId,
+          lastValidBlockHeight: data.lastValidBlockHeight,
+          yieldTransactionId: data.yieldTransactionId,
           network: data.network,
           explorerUrl: data.explorerUrl,
         },
@@ -318,8 +1050,8 @@ export class GaslessCreditService {
    */
   async hasSufficientCredit(userId: string, requiredAmountUSDC: number): Promise<boolean> {
     try {
-      const creditBalance = await this.getUserCredit(userId);
-      return creditBalance.totalCredit >= requiredAmountUSDC;
+      const balance = await this.getBalanceMicroUsdc(userId);
+      return balance >= toMicroUsdc(requiredAmountUSDC);
     } catch (error) {
       Logger.error('Error checking credit:', error);
       return false;
@@ -331,3 +1063,41 @@ export class GaslessCreditService {
 const gaslessCreditService = new GaslessCreditService();
 export default gaslessCreditService;
 
+
+/**
+ * Start periodic settlement of sponsored transactions whose confirmation timed out
+ */
+export const startSponsoredTransactionReconciler = (): void => {
+  const intervalMs = config.creditRefunds.reconcileIntervalMs;
+  const runReconcile = () => {
+    gaslessCreditService.reconcileSubmittedTransactions().catch((error) => {
+      Logger.error('Error reconciling sponsored transactions:', error);
+    });
+  };
+
+  runReconcile();
+  setInterval(runReconcile, intervalMs);
+
+  Logger.info(`Sponsored transaction reconciler started - running every ${intervalMs / 1000} seconds`);
+};
+
+/**
+ * Start periodic expiry of stale credit and expiry warnings
+ */
+export const startCreditExpiryJob = (): void => {
+  const intervalMs = config.creditExpiry.checkIntervalMs;
+  const runExpiry = async () => {
+    await gaslessCreditService.expireDueCredit();
+    await gaslessCreditService.sendExpiryWarnings();
+  };
+  const run = () => {
+    runExpiry().catch((error) => {
+      Logger.error('Error expiring gasless credit:', error);
+    });
+  };
+
+  run();
+  setInterval(run, intervalMs);
+
+  Logger.info(`Credit expiry job started - running every ${intervalMs / 1000 / 60} minutes`);
+};
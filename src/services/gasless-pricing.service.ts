@@ -0,0 +1,298 @@
+// src/services/gasless-pricing.service.ts
+import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { GaslessQuote } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+/**
+ * A SOL/USDC price source. Price feeds (Jupiter, Pyth, an exchange API)
+ * implement this interface.
+ */
+export interface SolPriceSource {
+  readonly name: string;
+  getSolPriceUsdc(): Promise<number>;
+  // USDC price of any SPL token, for sources that can price one
+  getTokenPriceUsdc?(mint: string): Promise<number>;
+}
+
+export interface FeeEstimateInput {
+  signatures: number;
+  computeUnits: number;
+  // Priority fee in micro-lamports per compute unit; the current network level is used when omitted
+  computeUnitPrice?: number | null;
+}
+
+export interface FeeEstimate {
+  signatures: number;
+  computeUnits: number;
+  computeUnitPrice: number;
+  estimatedLamports: number;
+}
+
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SIGNATURE = 5000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+const USDC_DECIMALS_FACTOR = 1_000_000;
+const PRIORITY_FEE_CACHE_TTL_MS = 10_000;
+
+// Cleanup interval for expired quotes (1 hour)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Fixed SOL price from configuration, for local development and tests
+ */
+export class FixedPriceSource implements SolPriceSource {
+  readonly name = 'fixed';
+
+  constructor(private readonly priceUsdc: number) {}
+
+  async getSolPriceUsdc(): Promise<number> {
+    return this.priceUsdc;
+  }
+}
+
+/**
+ * SOL price from the Jupiter price API
+ */
+export class JupiterPriceSource implements SolPriceSource {
+  readonly name = 'jupiter';
+
+  constructor(private readonly feedUrl: string) {}
+
+  async getSolPriceUsdc(): Promise<number> {
+    return this.getTokenPriceUsdc(WRAPPED_SOL_MINT);
+  }
+
+  async getTokenPriceUsdc(mint: string): Promise<number> {
+    const response = await fetch(`${this.feedUrl}?ids=${mint}`);
+    if (!response.ok) {
+      throw new Error(`Price feed responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as Record<string, { usdPrice?: number }>;
+    const price = Number(body[mint]?.usdPrice);
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(mint === WRAPPED_SOL_MINT ? 'Price feed returned no SOL price' : `Price feed returned no price for ${mint}`);
+    }
+    return price;
+  }
+}
+
+const percentile = (values: number[], pct: number): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((pct / 100) * sorted.length) - 1));
+  return sorted[index];
+};
+
+export class GaslessPricingService {
+  private source: SolPriceSource | null = null;
+  private cachedPrice: { value: number; fetchedAt: number } | null = null;
+  private cachedPriorityFee: { value: number; fetchedAt: number } | null = null;
+  private cachedTokenPrices = new Map<string, { value: number; fetchedAt: number }>();
+
+  private getSource(): SolPriceSource {
+    if (!this.source) {
+      const { priceSource, fixedSolPriceUsdc, priceFeedUrl } = config.gaslessPricing;
+      switch (priceSource) {
+        case 'fixed':
+          this.source = new FixedPriceSource(fixedSolPriceUsdc);
+          break;
+        case 'jupiter':
+          this.source = new JupiterPriceSource(priceFeedUrl);
+          break;
+        default:
+          throw new Error(`Unsupported gasless price source: ${priceSource}`);
+      }
+    }
+    return this.source;
+  }
+
+  /**
+   * Override the price source (e.g. a fixed price in tests)
+   */
+  setPriceSource(source: SolPriceSource) {
+    this.source = source;
+    this.cachedPrice = null;
+    this.cachedTokenPrices.clear();
+  }
+
+  /**
+   * Current SOL price in USDC, cached briefly
+   */
+  async getSolPriceUsdc(): Promise<number> {
+    const now = Date.now();
+    if (this.cachedPrice && now - this.cachedPrice.fetchedAt < config.gaslessPricing.priceCacheTtlMs) {
+      return this.cachedPrice.value;
+    }
+
+    const value = await this.getSource().getSolPriceUsdc();
+    this.cachedPrice = { value, fetchedAt: now };
+    return value;
+  }
+
+  /**
+   * Current USDC price of an SPL token, cached briefly
+   */
+  async getTokenPriceUsdc(mint: string): Promise<number> {
+    const now = Date.now();
+    const cached = this.cachedTokenPrices.get(mint);
+    if (cached && now - cached.fetchedAt < config.gaslessPricing.priceCacheTtlMs) {
+      return cached.value;
+    }
+
+    const source = this.getSource();
+    if (!source.getTokenPriceUsdc) {
+      throw new Error(`The ${source.name} price source cannot price ${mint}; configure a fixed price for it`);
+    }
+    const value = await source.getTokenPriceUsdc(mint);
+    this.cachedTokenPrices.set(mint, { value, fetchedAt: now });
+    return value;
+  }
+
+  /**
+   * Recent prioritization fee level in micro-lamports per compute unit
+   */
+  async getPriorityFee(connection: Connection): Promise<number> {
+    const now = Date.now();
+    if (this.cachedPriorityFee && now - this.cachedPriorityFee.fetchedAt < PRIORITY_FEE_CACHE_TTL_MS) {
+      return this.cachedPriorityFee.value;
+    }
+
+    try {
+      const fees = await connection.getRecentPrioritizationFees();
+      const value = percentile(
+        fees.map((fee) => fee.prioritizationFee),
+        config.gaslessPricing.priorityFeePercentile
+      );
+      this.cachedPriorityFee = { value, fetchedAt: now };
+      return value;
+    } catch (error) {
+      Logger.warn(`Could not fetch prioritization fees, assuming none: ${(error as Error).message}`);
+      return this.cachedPriorityFee?.value ?? 0;
+    }
+  }
+
+  /**
+   * Network fee for a transaction: base fee per signature plus the priority fee
+   */
+  async estimateFee(connection: Connection, input: FeeEstimateInput): Promise<FeeEstimate> {
+    const computeUnitPrice = input.computeUnitPrice ?? (await this.getPriorityFee(connection));
+    const priorityLamports = Math.ceil((input.computeUnits * computeUnitPrice) / MICRO_LAMPORTS_PER_LAMPORT);
+
+    return {
+      signatures: input.signatures,
+      computeUnits: input.computeUnits,
+      computeUnitPrice,
+      estimatedLamports: input.signatures * LAMPORTS_PER_SIGNATURE + priorityLamports,
+    };
+  }
+
+  /**
+   * Price a fee estimate in micro-USDC with the configured margin, without storing a quote
+   */
+  async priceEstimate(estimate: FeeEstimate): Promise<{ amount: number; solPriceUsdc: number }> {
+    const { marginBps, minPriceUsdc } = config.gaslessPricing;
+    const solPriceUsdc = await this.getSolPriceUsdc();
+
+    const costUsdc = (estimate.estimatedLamports / LAMPORTS_PER_SOL) * solPriceUsdc;
+    const amount = Math.max(
+      Math.ceil(costUsdc * (1 + marginBps / 10_000) * USDC_DECIMALS_FACTOR),
+      Math.ceil(minPriceUsdc * USDC_DECIMALS_FACTOR)
+    );
+    return { amount, solPriceUsdc };
+  }
+
+  /**
+   * Price a fee estimate in USDC with the configured margin and store it as a quote
+   */
+  async createQuote(estimate: FeeEstimate, userId?: string | null): Promise<GaslessQuote> {
+    const { marginBps, quoteTtlMs } = config.gaslessPricing;
+    const { amount, solPriceUsdc } = await this.priceEstimate(estimate);
+
+    return prisma.gaslessQuote.create({
+      data: {
+        userId: userId || null,
+        amount,
+        amountUSDC: amount / USDC_DECIMALS_FACTOR,
+        signatures: estimate.signatures,
+        computeUnits: estimate.computeUnits,
+        computeUnitPrice: estimate.computeUnitPrice,
+        estimatedLamports: estimate.estimatedLamports,
+        solPriceUSDC: solPriceUsdc,
+        priceSource: this.getSource().name,
+        marginBps,
+        expiresAt: new Date(Date.now() + quoteTtlMs),
+      },
+    });
+  }
+
+  /**
+   * Price a stored quote in another currency at the given conversion
+   */
+  async setQuoteCurrency(
+    quoteId: string,
+    conversion: { currency: string; amount: number; exchangeRateUSDC: number }
+  ): Promise<GaslessQuote> {
+    return prisma.gaslessQuote.update({
+      where: { id: quoteId },
+      data: {
+        currency: conversion.currency,
+        paymentAmount: BigInt(conversion.amount),
+        exchangeRateUSDC: conversion.exchangeRateUSDC,
+      },
+    });
+  }
+
+  /**
+   * Look up a quote by ID
+   */
+  async findQuote(quoteId: string): Promise<GaslessQuote | null> {
+    return prisma.gaslessQuote.findUnique({ where: { id: quoteId } });
+  }
+
+  /**
+   * Check whether a quote can still be paid against
+   */
+  isQuoteExpired(quote: Pick<GaslessQuote, 'expiresAt'>): boolean {
+    return quote.expiresAt <= new Date();
+  }
+
+  /**
+   * Remove expired quotes
+   */
+  async purgeExpiredQuotes(): Promise<void> {
+    // Keep quotes for a day so recent payments can still be traced to their price
+    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const result = await prisma.gaslessQuote.deleteMany({
+      where: { expiresAt: { lt: cutoff } },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Purged ${result.count} expired gasless quotes`);
+    }
+  }
+}
+
+// Export singleton instance
+const gaslessPricingService = new GaslessPricingService();
+export default gaslessPricingService;
+
+/**
+ * Start periodic cleanup of expired gasless quotes
+ */
+export const startGaslessQuoteCleanup = (): void => {
+  const runCleanup = () => {
+    gaslessPricingService.purgeExpiredQuotes().catch((error) => {
+      Logger.error('Error purging gasless quotes:', error);
+    });
+  };
+
+  runCleanup();
+  setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+  Logger.info(`Gasless quote cleanup started - running every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`);
+};
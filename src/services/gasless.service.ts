@@ -1,8 +1,23 @@
-import { Connection, PublicKey, Transaction, Keypair } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from '@solana/spl-token';
-import bs58 from 'bs58';
+import { Connection, PublicKey, Transaction, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { GaslessQuote } from '@prisma/client';
 import Logger from '../utils/logger';
 import { TOKEN_MINTS, SOLANA_NETWORK, CLUSTER } from './blockchain.service';
+import sponsorshipPolicyService, { SponsorshipPolicyViolation, readComputeBudget } from './sponsorship-policy.service';
+import feePayerPoolService from './fee-payer-pool.service';
+import gaslessPricingService from './gasless-pricing.service';
+import paymentCurrencyService, { PaymentCurrency, USDC_CURRENCY } from './payment-currency.service';
+import { config } from '../config/env';
+import {
+  AnyTransaction,
+  DecodedTransaction,
+  decodeSystemTransfer,
+  decodeTokenTransfer,
+  decodeTransaction,
+  deserializeTransaction,
+  isVersionedTransaction,
+  signTransaction,
+} from '../utils/solana-transaction';
 
 // Get network configuration from environment
 const SOLANA_NETWORK_ENV = process.env.SOLANA_NETWORK || 'mainnet';
@@ -16,65 +31,6 @@ const getRpcUrl = () => {
   return SOLANA_NETWORK_ENV === 'devnet' ? DEVNET_RPC_URL : MAINNET_RPC_URL;
 };
 
-// Get server fee payer from environment
-const getServerFeePayer = (): Keypair | null => {
-  const feePayerPrivateKey = process.env.GASLESS_FEE_PAYER_PRIVATE_KEY;
-  if (!feePayerPrivateKey) {
-    Logger.warn('GASLESS_FEE_PAYER_PRIVATE_KEY not configured. Gasless transactions will not work.');
-    return null;
-  }
-
-  try {
-    const trimmedKey = feePayerPrivateKey.trim();
-    let secretKey: Uint8Array;
-
-    // Check if it's a JSON array format
-    if (trimmedKey.startsWith('[')) {
-      // Array format: [1,2,3,...]
-      const privateKeyArray = JSON.parse(trimmedKey);
-      
-      // Validate array length (Solana private keys are 64 bytes)
-      if (!Array.isArray(privateKeyArray) || privateKeyArray.length !== 64) {
-        throw new Error(`Invalid private key length. Expected 64 numbers, got ${privateKeyArray.length}`);
-      }
-      
-      // Validate all values are numbers between 0-255
-      for (let i = 0; i < privateKeyArray.length; i++) {
-        const val = privateKeyArray[i];
-        if (typeof val !== 'number' || val < 0 || val > 255 || !Number.isInteger(val)) {
-          throw new Error(`Invalid byte at index ${i}: ${val}. Must be integer between 0-255`);
-        }
-      }
-      
-      secretKey = Uint8Array.from(privateKeyArray);
-    } else {
-      // Base58 string format - decode it using bs58
-      try {
-        secretKey = bs58.decode(trimmedKey);
-        
-        // Validate decoded key length (should be 64 bytes)
-        if (secretKey.length !== 64) {
-          throw new Error(`Invalid private key length after base58 decode. Expected 64 bytes, got ${secretKey.length}`);
-        }
-      } catch (decodeError) {
-        throw new Error(
-          `Failed to decode base58 private key: ${decodeError instanceof Error ? decodeError.message : 'Unknown error'}. ` +
-          'Please ensure the key is a valid base58-encoded 64-byte private key, ' +
-          'or use JSON array format: [1,2,3,...,64]'
-        );
-      }
-    }
-    
-    return Keypair.fromSecretKey(secretKey);
-  } catch (error) {
-    Logger.error('Error parsing GASLESS_FEE_PAYER_PRIVATE_KEY:', error);
-    Logger.error('Private key format should be either:');
-    Logger.error('  1. Base58 string (e.g., "5Kd3N...")');
-    Logger.error('  2. JSON array (e.g., [1,2,3,...,64])');
-    return null;
-  }
-};
-
 // Get recipient wallet and token account from environment
 const getRecipientConfig = () => {
   const recipientWallet = process.env.GASLESS_RECIPIENT_WALLET;
@@ -93,86 +49,132 @@ const getRecipientConfig = () => {
   };
 };
 
-// Get price in USDC (from environment or default)
-const getPriceUSDC = (): number => {
-  const price = parseFloat(process.env.GASLESS_PRICE_USDC || '0.0003');
-  return price;
-};
-
 export interface X402PaymentProof {
   x402Version: number;
   scheme: string;
   network: string;
   payload: {
     serializedTransaction: string;
+    // Quote the payment was made against (from the 402 response)
+    quoteId?: string;
   };
 }
 
 export interface GaslessPaymentQuote {
   payment: {
     recipientWallet: string;
+    // Where the payment is sent: the recipient's token account, or the wallet itself for SOL
     tokenAccount: string;
+    // Token mint; the wrapped SOL mint for native SOL payments
     mint: string;
+    // Price in micro-USDC
     amount: number;
     amountUSDC: number;
+    currency: string;
+    // Price in the currency's smallest units, converted at exchangeRateUSDC
+    paymentAmount: number;
+    exchangeRateUSDC: number;
     cluster: string;
     message: string;
+    quoteId: string;
+    expiresAt: Date;
+    breakdown: {
+      signatures: number;
+      computeUnits: number;
+      computeUnitPrice: number;
+      estimatedLamports: number;
+      solPriceUSDC: number;
+      priceSource: string;
+      marginBps: number;
+    };
   };
 }
 
+// Where a submitted transaction stands on-chain
+export type SubmissionOutcome =
+  | { status: 'CONFIRMED' }
+  | { status: 'FAILED'; error: string } // Landed but failed; the network fee was charged
+  | { status: 'DROPPED' } // Not found after its blockhash expired; it can never land
+  | { status: 'PENDING' };
+
+// A blockhash stays valid for 150 blocks; the headroom covers commitment lag
+const BLOCKHASH_VALIDITY_BLOCKS = 160;
+
 export class GaslessTransactionService {
   private connection: Connection;
-  private feePayer: Keypair | null;
   private recipientConfig: { wallet: PublicKey; usdcMint: PublicKey } | null;
-  private priceUSDC: number;
-  private priceAmount: number; // Amount in smallest units
 
   constructor() {
     const url = getRpcUrl();
     this.connection = new Connection(url, 'confirmed');
-    this.feePayer = getServerFeePayer();
+    feePayerPoolService.setConnection(this.connection);
     this.recipientConfig = getRecipientConfig();
-    this.priceUSDC = getPriceUSDC();
-    
-    // Calculate amount in smallest units (USDC has 6 decimals)
-    this.priceAmount = Math.floor(this.priceUSDC * 1000000);
 
-    if (this.feePayer) {
-      Logger.info(`GaslessTransactionService initialized with fee payer: ${this.feePayer.publicKey.toBase58()}`);
+    if (feePayerPoolService.hasActivePayer()) {
+      Logger.info('GaslessTransactionService initialized with fee payer pool');
     } else {
       Logger.warn('GaslessTransactionService initialized without fee payer');
     }
 
     if (this.recipientConfig) {
       Logger.info(`GaslessTransactionService recipient: ${this.recipientConfig.wallet.toBase58()}`);
-      Logger.info(`GaslessTransactionService price: ${this.priceUSDC} USDC (${this.priceAmount} smallest units)`);
+      Logger.info(`GaslessTransactionService pricing: ${config.gaslessPricing.priceSource} SOL price, ${config.gaslessPricing.marginBps} bps margin`);
     }
   }
 
   /**
-   * Get payment quote (x402 standard - returns 402 status)
+   * Get payment quote (x402 standard - returns 402 status).
+   * Priced from the transaction's estimated network fee when one is given,
+   * and converted to the payment currency at the current rate.
    */
-  async getPaymentQuote(): Promise<GaslessPaymentQuote | null> {
+  async getPaymentQuote(
+    tx?: DecodedTransaction,
+    userId?: string,
+    currency: PaymentCurrency = USDC_CURRENCY
+  ): Promise<GaslessPaymentQuote | null> {
     if (!this.recipientConfig) {
       return null;
     }
 
     try {
-      // Get or calculate recipient token account
-      const recipientTokenAccount = await getAssociatedTokenAddress(
-        this.recipientConfig.usdcMint,
-        this.recipientConfig.wallet
-      );
+      const destination = await this.getPaymentDestination(currency);
+
+      const estimate = await gaslessPricingService.estimateFee(this.connection, await this.getFeeEstimateInput(tx));
+      let quote = await gaslessPricingService.createQuote(estimate, userId);
+      const conversion = await paymentCurrencyService.convert(currency, quote.amount);
+      if (currency.symbol !== USDC_CURRENCY.symbol) {
+        quote = await gaslessPricingService.setQuoteCurrency(quote.id, {
+          currency: currency.symbol,
+          amount: conversion.amount,
+          exchangeRateUSDC: conversion.exchangeRateUSDC,
+        });
+      }
 
       return {
         payment: {
           recipientWallet: this.recipientConfig.wallet.toBase58(),
-          tokenAccount: recipientTokenAccount.toBase58(),
-          mint: this.recipientConfig.usdcMint.toBase58(),
-          amount: this.priceAmount,
-          amountUSDC: this.priceUSDC,
+          tokenAccount: destination.tokenAccount,
+          mint: destination.mint,
+          amount: quote.amount,
+          amountUSDC: quote.amountUSDC,
+          currency: currency.symbol,
+          paymentAmount: conversion.amount,
+          exchangeRateUSDC: conversion.exchangeRateUSDC,
           cluster: SOLANA_NETWORK_ENV === 'devnet' ? 'devnet' : 'mainnet-beta',
-          message: 'Send USDC to the token account to pay for gasless transaction execution',
+          message: currency.mint
+            ? `Send ${currency.symbol} to the token account to pay for gasless transaction execution`
+            : 'Send SOL to the recipient wallet to pay for gasless transaction execution',
+          quoteId: quote.id,
+          expiresAt: quote.expiresAt,
+          breakdown: {
+            signatures: quote.signatures,
+            computeUnits: quote.computeUnits,
+            computeUnitPrice: quote.computeUnitPrice,
+            estimatedLamports: quote.estimatedLamports,
+            solPriceUSDC: quote.solPriceUSDC,
+            priceSource: quote.priceSource,
+            marginBps: quote.marginBps,
+          },
         },
       };
     } catch (error) {
@@ -181,12 +183,48 @@ export class GaslessTransactionService {
     }
   }
 
+  /**
+   * Where a payment in a currency is sent: the recipient's token account, or the wallet itself for SOL
+   */
+  async getPaymentDestination(currency: PaymentCurrency): Promise<{ tokenAccount: string; mint: string }> {
+    const { wallet } = this.recipientConfig!;
+    if (!currency.mint) {
+      return { tokenAccount: wallet.toBase58(), mint: TOKEN_MINTS.SOL };
+    }
+    const tokenAccount = await getAssociatedTokenAddress(currency.mint, wallet);
+    return { tokenAccount: tokenAccount.toBase58(), mint: currency.mint.toBase58() };
+  }
+
+  /**
+   * Signatures and compute units the fee payer will be billed for
+   */
+  private async getFeeEstimateInput(tx?: DecodedTransaction) {
+    if (!tx) {
+      // Payer signature plus the sponsor's
+      return { signatures: 2, computeUnits: config.gaslessPricing.defaultComputeUnits };
+    }
+
+    // The sponsor's signature is added on top of the transaction's own signers, unless it is already one
+    const sponsorSigns = !!tx.feePayer && feePayerPoolService.isActive(tx.feePayer.toBase58());
+    const signatures = tx.signers.length + (sponsorSigns ? 0 : 1);
+    const { computeUnitLimit, computeUnitPrice } = readComputeBudget(tx);
+
+    // Priority fees are billed on the requested limit, otherwise on what the simulation consumed
+    let computeUnits = computeUnitLimit;
+    if (computeUnits === null) {
+      const simulation = await this.simulateTransaction(tx.tx);
+      computeUnits = simulation.unitsConsumed || config.gaslessPricing.defaultComputeUnits;
+    }
+
+    return { signatures, computeUnits, computeUnitPrice };
+  }
+
   /**
    * Verify x402 payment proof and extract transaction
    */
   async verifyPayment(xPaymentHeader: string): Promise<{
     valid: boolean;
-    transaction?: Transaction;
+    transaction?: AnyTransaction;
     paymentProof?: X402PaymentProof;
     error?: string;
   }> {
@@ -202,20 +240,24 @@ export class GaslessTransactionService {
         network: paymentData.network,
       });
 
-      // Deserialize the transaction
+      // Deserialize the transaction (legacy or v0)
       const txBuffer = Buffer.from(
         paymentData.payload.serializedTransaction,
         'base64'
       );
-      const tx = Transaction.from(txBuffer);
+      const tx = deserializeTransaction(txBuffer);
+      const decoded = await decodeTransaction(this.connection, tx);
 
-      // Verify the transaction contains a valid USDC transfer
-      const verification = await this.verifyUSDCTransfer(tx);
+      const quoteId = paymentData.payload.quoteId;
+      const quote = quoteId ? await gaslessPricingService.findQuote(quoteId) : null;
+
+      // Verify the transaction pays the quote in its currency
+      const verification = await this.verifyPaymentTransfer(decoded, quote);
 
       if (!verification.valid) {
         return {
           valid: false,
-          error: verification.error || 'Invalid USDC transfer',
+          error: verification.error || 'Invalid payment transfer',
         };
       }
 
@@ -234,9 +276,11 @@ export class GaslessTransactionService {
   }
 
   /**
-   * Verify that transaction contains valid USDC transfer to recipient
+   * Verify that transaction pays the recipient at least the quoted amount, in the quote's
+   * currency, before the quote expires. Token payments may use Transfer or TransferChecked
+   * from SPL Token or Token-2022; SOL payments a System Program transfer to the recipient wallet.
    */
-  async verifyUSDCTransfer(tx: Transaction): Promise<{
+  async verifyPaymentTransfer(tx: Transaction | DecodedTransaction, quote: GaslessQuote | null): Promise<{
     valid: boolean;
     error?: string;
     transferAmount?: number;
@@ -245,46 +289,57 @@ export class GaslessTransactionService {
       return { valid: false, error: 'Recipient configuration not set' };
     }
 
+    if (!quote) {
+      return { valid: false, error: 'Payment quote not found. Request a new quote and pay against its quoteId.' };
+    }
+
+    if (gaslessPricingService.isQuoteExpired(quote)) {
+      return { valid: false, error: `Payment quote expired at ${quote.expiresAt.toISOString()}. Request a new quote.` };
+    }
+
+    const currency = paymentCurrencyService.getCurrency(quote.currency);
+    if (!currency) {
+      return { valid: false, error: `${quote.currency} payments are no longer accepted. Request a new quote.` };
+    }
+    const expectedAmount = quote.paymentAmount !== null ? Number(quote.paymentAmount) : quote.amount;
+
     try {
-      // Get recipient token account
-      const recipientTokenAccount = await getAssociatedTokenAddress(
-        this.recipientConfig.usdcMint,
-        this.recipientConfig.wallet
-      );
+      const { wallet } = this.recipientConfig;
 
-      Logger.info('Verifying SPL Token transfer instructions...');
+      Logger.info(`Verifying ${currency.symbol} transfer instructions...`);
 
-      // Step 1: Introspect and decode SPL Token transfer instruction
-      const instructions = tx.instructions;
       let validTransfer = false;
       let transferAmount = 0;
 
-      for (const ix of instructions) {
-        // Check if this is a Token Program instruction
-        if (ix.programId.equals(TOKEN_PROGRAM_ID)) {
-          // SPL Token Transfer instruction layout:
-          // [0] = instruction type (3 for Transfer)
-          // [1-8] = amount (u64, little-endian)
-          if (ix.data.length >= 9 && ix.data[0] === 3) {
-            // Read the amount (u64 in little-endian, starts at byte 1)
-            transferAmount = Number(ix.data.readBigUInt64LE(1));
-
-            // Verify accounts: [source, destination, owner]
-            if (ix.keys.length >= 2) {
-              const destAccount = ix.keys[1].pubkey;
-              if (
-                destAccount.equals(recipientTokenAccount) &&
-                transferAmount >= this.priceAmount
-              ) {
-                validTransfer = true;
-                Logger.info(
-                  `✓ Valid USDC transfer: ${transferAmount / 1000000} USDC`
-                );
-                Logger.info(`  To: ${recipientTokenAccount.toBase58()}`);
-                break;
-              }
-            }
+      for (const ix of tx.instructions) {
+        if (!currency.mint) {
+          const transfer = decodeSystemTransfer(ix);
+          if (!transfer || !transfer.destination.equals(wallet)) {
+            continue;
+          }
+          transferAmount = Number(transfer.lamports);
+          if (transferAmount >= expectedAmount) {
+            validTransfer = true;
+            Logger.info(`✓ Valid SOL transfer: ${transferAmount} lamports to ${wallet.toBase58()}`);
+            break;
           }
+          continue;
+        }
+
+        const transfer = decodeTokenTransfer(ix);
+        if (!transfer || (transfer.mint && !transfer.mint.equals(currency.mint))) {
+          continue;
+        }
+
+        transferAmount = Number(transfer.amount);
+
+        // The recipient's token account is derived for the program that moves the tokens
+        const recipientTokenAccount = await getAssociatedTokenAddress(currency.mint, wallet, false, transfer.programId);
+        if (transfer.destination.equals(recipientTokenAccount) && transferAmount >= expectedAmount) {
+          validTransfer = true;
+          Logger.info(`✓ Valid ${currency.symbol} transfer: ${transferAmount / 10 ** currency.decimals} ${currency.symbol}`);
+          Logger.info(`  To: ${recipientTokenAccount.toBase58()}`);
+          break;
         }
       }
 
@@ -293,15 +348,15 @@ export class GaslessTransactionService {
           valid: false,
           error:
             transferAmount > 0
-              ? `Found transfer of ${transferAmount}, expected ${this.priceAmount}`
-              : 'No valid token transfer instruction found',
+              ? `Found transfer of ${transferAmount}, expected ${expectedAmount}`
+              : `No valid ${currency.symbol} transfer instruction found`,
           transferAmount,
         };
       }
 
       return { valid: true, transferAmount };
     } catch (error) {
-      Logger.error('Error verifying USDC transfer:', error);
+      Logger.error(`Error verifying ${currency.symbol} transfer:`, error);
       return {
         valid: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -312,14 +367,18 @@ export class GaslessTransactionService {
   /**
    * Simulate transaction before submitting
    */
-  async simulateTransaction(tx: Transaction): Promise<{
+  async simulateTransaction(tx: AnyTransaction): Promise<{
     success: boolean;
     error?: any;
     logs?: string[];
+    unitsConsumed?: number;
   }> {
     try {
       Logger.info('Simulating transaction...');
-      const simulation = await this.connection.simulateTransaction(tx);
+      // Like legacy simulation, run against the latest blockhash without checking signatures
+      const simulation = isVersionedTransaction(tx)
+        ? await this.connection.simulateTransaction(tx, { sigVerify: false, replaceRecentBlockhash: true })
+        : await this.connection.simulateTransaction(tx);
 
       if (simulation.value.err) {
         Logger.error('Simulation failed:', simulation.value.err);
@@ -331,7 +390,11 @@ export class GaslessTransactionService {
       }
 
       Logger.info('✓ Simulation successful');
-      return { success: true, logs: simulation.value.logs || undefined };
+      return {
+        success: true,
+        logs: simulation.value.logs || undefined,
+        unitsConsumed: simulation.value.unitsConsumed,
+      };
     } catch (error) {
       Logger.error('Simulation error:', error);
       return {
@@ -342,34 +405,65 @@ export class GaslessTransactionService {
   }
 
   /**
-   * Sponsor transaction by adding fee payer and submitting
+   * Sponsor transaction by adding fee payer and submitting.
+   * A v0 message is signed over its fee payer and blockhash, so it must
+   * already name one of the server fee payers.
    */
-  async sponsorTransaction(tx: Transaction): Promise<{
+  async sponsorTransaction(tx: AnyTransaction): Promise<{
     success: boolean;
     signature?: string;
     error?: string;
+    policyViolation?: SponsorshipPolicyViolation;
   }> {
-    if (!this.feePayer) {
+    const versioned = isVersionedTransaction(tx);
+    const feePayer = versioned
+      ? await feePayerPoolService.use(tx.message.staticAccountKeys[0].toBase58())
+      : await feePayerPoolService.select();
+    if (!feePayer) {
       return {
         success: false,
-        error: 'Server fee payer not configured',
+        error: versioned
+          ? 'Versioned transaction fee payer is not a server fee payer'
+          : 'Server fee payer not configured',
       };
     }
 
+    let decoded: DecodedTransaction;
     try {
-      // Get recent blockhash
-      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      decoded = await decodeTransaction(this.connection, tx);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Could not decode transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
 
-      // Set fee payer to server's keypair
-      tx.feePayer = this.feePayer.publicKey;
-      tx.recentBlockhash = blockhash;
-      tx.lastValidBlockHeight = lastValidBlockHeight;
+    // Never sign a transaction the sponsorship policy does not allow
+    const policy = sponsorshipPolicyService.check(decoded, feePayer.publicKey, 'sponsorTransaction');
+    if (!policy.allowed) {
+      return {
+        success: false,
+        error: `Transaction rejected by sponsorship policy: ${policy.violation.reason}`,
+        policyViolation: policy.violation,
+      };
+    }
+
+    try {
+      if (!versioned) {
+        // Get recent blockhash
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+
+        // Set fee payer to server's keypair
+        tx.feePayer = feePayer.publicKey;
+        tx.recentBlockhash = blockhash;
+        tx.lastValidBlockHeight = lastValidBlockHeight;
+      }
 
       // Add server's signature
-      tx.partialSign(this.feePayer);
+      signTransaction(tx, feePayer);
 
       Logger.info('Submitting sponsored transaction to network...');
-      Logger.info(`Fee payer: ${this.feePayer.publicKey.toBase58()}`);
+      Logger.info(`Fee payer: ${feePayer.publicKey.toBase58()}`);
 
       // Submit the transaction
       const signature = await this.connection.sendRawTransaction(
@@ -404,6 +498,7 @@ export class GaslessTransactionService {
       };
     } catch (error) {
       Logger.error('Error sponsoring transaction:', error);
+      this.recheckFeePayerIfUnderfunded(feePayer, error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -412,9 +507,13 @@ export class GaslessTransactionService {
   }
 
   /**
-   * Verify payment from confirmed transaction
+   * Verify payment from confirmed transaction against the quoted amount (smallest units of the currency)
    */
-  async verifyPaymentFromTransaction(signature: string): Promise<{
+  async verifyPaymentFromTransaction(
+    signature: string,
+    expectedAmount: number,
+    currency: PaymentCurrency = USDC_CURRENCY
+  ): Promise<{
     verified: boolean;
     amountReceived?: number;
     error?: string;
@@ -423,434 +522,126 @@ export class GaslessTransactionService {
       return { verified: false, error: 'Recipient configuration not set' };
     }
 
-    try {
-      // Get recipient token account
-      const recipientTokenAccount = await getAssociatedTokenAddress(
-        this.recipientConfig.usdcMint,
-        this.recipientConfig.wallet
-      );
+    if (!currency.mint) {
+      return this.verifySolPaymentFromTransaction(signature, expectedAmount);
+    }
+    const mint = currency.mint;
 
-      // Fetch the transaction (try parsed first for better instruction data)
-      let confirmedTx: any = await this.connection.getParsedTransaction(signature, {
+    try {
+      const confirmedTx = await this.connection.getTransaction(signature, {
         commitment: 'confirmed',
         maxSupportedTransactionVersion: 0,
       });
 
-      let isParsed = !!confirmedTx;
-
-      // Fallback to regular transaction if parsed fails
-      if (!confirmedTx) {
-        confirmedTx = await this.connection.getTransaction(signature, {
-          commitment: 'confirmed',
-          maxSupportedTransactionVersion: 0,
-        });
-        isParsed = false;
-      }
-
       if (!confirmedTx) {
         return { verified: false, error: 'Could not fetch confirmed transaction' };
       }
-
-      // Verify token balance changes from transaction metadata
-      const postTokenBalances = confirmedTx.meta?.postTokenBalances ?? [];
-      const preTokenBalances = confirmedTx.meta?.preTokenBalances ?? [];
-
-      Logger.info('Payment verification details:', {
-        postTokenBalancesCount: postTokenBalances.length,
-        preTokenBalancesCount: preTokenBalances.length,
-        recipientTokenAccount: recipientTokenAccount.toBase58(),
-        recipientWallet: this.recipientConfig!.wallet.toBase58(),
-        expectedAmount: this.priceAmount,
-        expectedAmountUSDC: this.priceUSDC,
-        transactionVersion: (confirmedTx.transaction.message as any).version,
-      });
-
-      // Log all token balances for debugging
-      Logger.info('All token balances in transaction:', {
-        balances: postTokenBalances.map((b: any, idx: number) => ({
-          index: idx,
-          accountIndex: b.accountIndex,
-          owner: b.owner,
-          mint: b.mint,
-          postAmount: b.uiTokenAmount.amount,
-          postAmountUI: b.uiTokenAmount.uiAmount,
-          postAmountString: b.uiTokenAmount.uiAmountString,
-          preAmount: preTokenBalances.find((p: any) => p.accountIndex === b.accountIndex)?.uiTokenAmount.amount || '0',
-        })),
-      });
-
-      // Get all account keys from the transaction (handle both versioned and legacy)
-      let allAccountKeys: PublicKey[] = [];
-      if ('version' in confirmedTx.transaction.message && confirmedTx.transaction.message.version === 0) {
-        const versionedMessage = confirmedTx.transaction.message as any;
-        allAccountKeys = versionedMessage.accountKeys || [];
-      } else if ('staticAccountKeys' in confirmedTx.transaction.message) {
-        allAccountKeys = (confirmedTx.transaction.message as any).staticAccountKeys || [];
+      if (confirmedTx.meta?.err) {
+        return { verified: false, error: `Transaction failed: ${JSON.stringify(confirmedTx.meta.err)}` };
       }
 
-      Logger.info('Transaction account keys:', {
-        totalAccounts: allAccountKeys.length,
-        accountKeys: allAccountKeys.map(k => k.toBase58()),
-        recipientTokenAccount: recipientTokenAccount.toBase58(),
+      // Token balance indexes run over the static keys, then lookup table writable and readonly keys
+      const accountKeys = confirmedTx.transaction.message.getAccountKeys({
+        accountKeysFromLookups: confirmedTx.meta?.loadedAddresses,
       });
 
-      // Find the recipient's token account in the balance changes
+      // Only the recipient's associated token account for this mint counts, whichever token program holds it
       let amountReceived = 0;
-      const recipientTokenAccountStr = recipientTokenAccount.toBase58();
-      
-      for (let i = 0; i < postTokenBalances.length; i++) {
-        const postBal = postTokenBalances[i];
-        const preBal = preTokenBalances.find(
-          (pre: any) => pre.accountIndex === postBal.accountIndex
-        );
-
-        // Get account key from the transaction's account list
-        let accountKey: PublicKey | null = null;
-        if (postBal.accountIndex !== undefined && postBal.accountIndex < allAccountKeys.length) {
-          accountKey = allAccountKeys[postBal.accountIndex];
+      for (const postBalance of confirmedTx.meta?.postTokenBalances ?? []) {
+        if (postBalance.mint !== mint.toBase58() || postBalance.owner !== this.recipientConfig.wallet.toBase58()) {
+          continue;
         }
 
-        // Also check by owner and mint to find the token account
-        const tokenAccountOwner = postBal.owner;
-        const tokenMint = postBal.mint;
-
-        Logger.info(`Checking token balance ${i + 1}/${postTokenBalances.length}:`, {
-          accountIndex: postBal.accountIndex,
-          accountKey: accountKey?.toBase58() || 'null',
-          owner: tokenAccountOwner,
-          mint: tokenMint,
-          postAmount: postBal.uiTokenAmount.amount,
-          preAmount: preBal?.uiTokenAmount.amount ?? '0',
-          uiAmount: postBal.uiTokenAmount.uiAmount,
-          uiAmountString: postBal.uiTokenAmount.uiAmountString,
-        });
-
-        // Method 1: Check if this is the recipient's account by direct address match
-        if (accountKey && accountKey.equals(recipientTokenAccount)) {
-          const postAmount = postBal.uiTokenAmount.amount;
-          const preAmount = preBal?.uiTokenAmount.amount ?? '0';
-          amountReceived = Number(postAmount) - Number(preAmount);
-          Logger.info(`✓ Found recipient token account by address! Amount received: ${amountReceived} (${amountReceived / 1000000} USDC)`);
-          break;
-        }
-
-        // Method 1b: Also check if the account address string matches (in case of type issues)
-        if (accountKey && accountKey.toBase58() === recipientTokenAccountStr) {
-          const postAmount = postBal.uiTokenAmount.amount;
-          const preAmount = preBal?.uiTokenAmount.amount ?? '0';
-          amountReceived = Number(postAmount) - Number(preAmount);
-          Logger.info(`✓ Found recipient token account by string match! Amount received: ${amountReceived} (${amountReceived / 1000000} USDC)`);
-          break;
+        const programId = postBalance.programId ? new PublicKey(postBalance.programId) : undefined;
+        const recipientTokenAccount = await getAssociatedTokenAddress(mint, this.recipientConfig.wallet, false, programId);
+        if (!accountKeys.get(postBalance.accountIndex)?.equals(recipientTokenAccount)) {
+          continue;
         }
 
-        // Method 2: Check by owner and mint (calculate ATA and compare)
-        if (tokenAccountOwner && tokenMint) {
-          try {
-            const ownerPubkey = new PublicKey(tokenAccountOwner);
-            const mintPubkey = new PublicKey(tokenMint);
-            
-            // Check if this is USDC and the owner is our recipient wallet
-            if (mintPubkey.equals(this.recipientConfig!.usdcMint) && 
-                ownerPubkey.equals(this.recipientConfig!.wallet)) {
-              const calculatedTokenAccount = await getAssociatedTokenAddress(
-                mintPubkey,
-                ownerPubkey
-              );
-              
-              Logger.info(`Calculated ATA for owner ${ownerPubkey.toBase58()}: ${calculatedTokenAccount.toBase58()}`);
-              
-              // Check if the account key matches or if we should calculate it
-              if (calculatedTokenAccount.equals(recipientTokenAccount)) {
-                const postAmount = postBal.uiTokenAmount.amount;
-                const preAmount = preBal?.uiTokenAmount.amount ?? '0';
-                amountReceived = Number(postAmount) - Number(preAmount);
-                Logger.info(`✓ Found recipient token account by owner/mint! Amount received: ${amountReceived}`);
-                break;
-              }
-            }
-          } catch (e) {
-            Logger.warn(`Error checking owner/mint for balance ${i}:`, e);
-          }
-        }
-
-        // Method 3: Check if accountKey matches recipient (even if not in our list)
-        // Sometimes the account might be in lookup tables or derived
-        if (accountKey && accountKey.toBase58() === recipientTokenAccountStr) {
-          const postAmount = postBal.uiTokenAmount.amount;
-          const preAmount = preBal?.uiTokenAmount.amount ?? '0';
-          amountReceived = Number(postAmount) - Number(preAmount);
-          Logger.info(`✓ Found recipient token account by string match! Amount received: ${amountReceived}`);
-          break;
-        }
+        const preBalance = confirmedTx.meta?.preTokenBalances?.find(
+          (balance) => balance.accountIndex === postBalance.accountIndex
+        );
+        amountReceived = Number(postBalance.uiTokenAmount.amount) - Number(preBalance?.uiTokenAmount.amount ?? '0');
+        break;
       }
 
-      // Method 4: If still not found, check all account addresses in the transaction
-      // Sometimes token accounts are in the account list but not in token balances
-      if (amountReceived === 0) {
-        Logger.info('Token account not found in balances, checking all transaction accounts...');
-        for (let i = 0; i < allAccountKeys.length; i++) {
-          if (allAccountKeys[i].equals(recipientTokenAccount)) {
-            Logger.info(`Found recipient token account at index ${i} in transaction accounts`);
-            // Try to find corresponding balance
-            const balance = postTokenBalances.find((b: any) => b.accountIndex === i);
-            if (balance) {
-              const preBal = preTokenBalances.find((p: any) => p.accountIndex === i);
-              const postAmount = balance.uiTokenAmount.amount;
-              const preAmount = preBal?.uiTokenAmount.amount ?? '0';
-              amountReceived = Number(postAmount) - Number(preAmount);
-              Logger.info(`✓ Found amount from account index! Amount received: ${amountReceived}`);
-              break;
-            }
-          }
-        }
+      if (amountReceived < expectedAmount) {
+        Logger.warn(
+          `Payment ${signature} sent ${amountReceived} of ${expectedAmount} expected ${currency.symbol} units to the recipient`
+        );
+        return {
+          verified: false,
+          error: `Insufficient payment: received ${amountReceived}, expected ${expectedAmount} (smallest ${currency.symbol} units)`,
+          amountReceived,
+        };
       }
 
-      Logger.info(`Payment verification result: amountReceived=${amountReceived}, expected=${this.priceAmount}`);
+      Logger.info(
+        `Payment verified: ${amountReceived / 10 ** currency.decimals} ${currency.symbol} received`
+      );
 
-      // Method 5: Check transaction logs for transfer events
-      if (amountReceived === 0 && confirmedTx.meta?.logMessages) {
-        Logger.info('Checking transaction logs for transfer events...');
-        const logMessages = confirmedTx.meta.logMessages || [];
-        
-        // Look for token transfer logs
-        for (const log of logMessages) {
-          // Token transfer logs often contain the amount and accounts
-          if (log.includes('Transfer') || log.includes('transfer')) {
-            Logger.info(`Found transfer log: ${log}`);
-            // Try to extract amount from log (format varies)
-            const amountMatch = log.match(/amount[:\s]+(\d+)/i) || log.match(/(\d+)\s*units/i);
-            if (amountMatch) {
-              const logAmount = Number(amountMatch[1]);
-              Logger.info(`Extracted amount from log: ${logAmount}`);
-              // If the log mentions our recipient account, use this amount
-              if (log.includes(recipientTokenAccountStr) || log.includes(this.recipientConfig!.wallet.toBase58())) {
-                amountReceived = logAmount;
-                Logger.info(`✓ Found payment amount from transaction log: ${amountReceived}`);
-                break;
-              }
-            }
-          }
-        }
-      }
+      return {
+        verified: true,
+        amountReceived,
+      };
+    } catch (error) {
+      Logger.error('Error verifying payment from transaction:', error);
+      return {
+        verified: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
 
-      // Method 6: Check inner instructions (CPI calls) - these contain the actual transfer
-      if (amountReceived === 0 && confirmedTx.meta?.innerInstructions) {
-        Logger.info('Checking inner instructions for transfer details...');
-        const innerInstructions = confirmedTx.meta.innerInstructions || [];
-        
-        Logger.info(`Found ${innerInstructions.length} inner instruction groups`);
-        
-        // For parsed transactions, inner instructions might have parsed data
-        for (const innerIxGroup of innerInstructions) {
-          for (const innerIx of innerIxGroup.instructions || []) {
-            // Check if this is a parsed token transfer
-            if (innerIx.parsed && innerIx.parsed.type === 'transfer' && innerIx.program === 'spl-token') {
-              const transferInfo = innerIx.parsed.info;
-              Logger.info('Found parsed inner instruction transfer:', {
-                type: innerIx.parsed.type,
-                source: transferInfo.source,
-                destination: transferInfo.destination,
-                amount: transferInfo.amount,
-                tokenAmount: transferInfo.tokenAmount,
-              });
-              
-              if (transferInfo.destination) {
-                try {
-                  const destAccount = new PublicKey(transferInfo.destination);
-                  if (destAccount.equals(recipientTokenAccount)) {
-                    const transferAmount = transferInfo.amount || transferInfo.tokenAmount?.amount;
-                    if (transferAmount) {
-                      amountReceived = Number(transferAmount);
-                      Logger.info(`✓ Found payment amount from inner instruction: ${amountReceived} (${amountReceived / 1000000} USDC)`);
-                      break;
-                    }
-                  }
-                } catch (e) {
-                  Logger.warn('Error parsing inner instruction destination:', e);
-                }
-              }
-            }
-          }
-          if (amountReceived > 0) break;
-        }
-      }
+  /**
+   * Verify a native SOL payment from the recipient wallet's balance change,
+   * which also counts transfers made by CPI (Grid accounts pay from their vault through the Squads program)
+   */
+  private async verifySolPaymentFromTransaction(signature: string, expectedLamports: number): Promise<{
+    verified: boolean;
+    amountReceived?: number;
+    error?: string;
+  }> {
+    try {
+      const confirmedTx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
 
-      // Method 7: Check account data changes directly - look for any USDC token account
-      // that received tokens (positive balance change) and verify it's the recipient's account
-      if (amountReceived === 0 && confirmedTx.meta?.postTokenBalances) {
-        Logger.info('Final attempt: Checking all token balances for any USDC transfers...');
-        // Check all token balances for USDC transfers
-        for (const postBal of postTokenBalances) {
-          // Check if this is a USDC token account
-          if (postBal.mint === this.recipientConfig!.usdcMint.toBase58()) {
-            const preBal = preTokenBalances.find((p: any) => p.accountIndex === postBal.accountIndex);
-            const postAmount = Number(postBal.uiTokenAmount.amount);
-            const preAmount = Number(preBal?.uiTokenAmount.amount || '0');
-            const balanceChange = postAmount - preAmount;
-            
-            Logger.info(`Found USDC token account:`, {
-              accountIndex: postBal.accountIndex,
-              owner: postBal.owner,
-              mint: postBal.mint,
-              preAmount,
-              postAmount,
-              balanceChange,
-              expectedRecipientAccount: recipientTokenAccount.toBase58(),
-            });
-            
-            // If balance increased, check if this account belongs to recipient
-            if (balanceChange > 0) {
-              // Get the account address from account keys
-              let tokenAccountAddress: PublicKey | null = null;
-              if (postBal.accountIndex !== undefined && postBal.accountIndex < allAccountKeys.length) {
-                tokenAccountAddress = allAccountKeys[postBal.accountIndex];
-              }
-              
-              // Check if this is the recipient's token account
-              if (tokenAccountAddress && tokenAccountAddress.equals(recipientTokenAccount)) {
-                amountReceived = balanceChange;
-                Logger.info(`✓ Found payment amount from recipient token account match: ${amountReceived}`);
-                break;
-              }
-              
-              // Also check by owner - if owner is recipient wallet, this is the recipient's ATA
-              if (postBal.owner === this.recipientConfig!.wallet.toBase58()) {
-                // Calculate ATA to verify
-                try {
-                  const ownerPubkey = new PublicKey(postBal.owner);
-                  const mintPubkey = new PublicKey(postBal.mint);
-                  const calculatedATA = await getAssociatedTokenAddress(mintPubkey, ownerPubkey);
-                  
-                  if (calculatedATA.equals(recipientTokenAccount)) {
-                    amountReceived = balanceChange;
-                    Logger.info(`✓ Found payment amount from owner match (ATA verified): ${amountReceived}`);
-                    break;
-                  }
-                } catch (e) {
-                  Logger.warn('Error calculating ATA:', e);
-                }
-              }
-            }
-          }
-        }
+      if (!confirmedTx) {
+        return { verified: false, error: 'Could not fetch confirmed transaction' };
+      }
+      if (confirmedTx.meta?.err) {
+        return { verified: false, error: `Transaction failed: ${JSON.stringify(confirmedTx.meta.err)}` };
       }
 
-      // If still not found, try checking transaction instructions directly (parsed format)
-      if (amountReceived === 0 && confirmedTx.transaction && isParsed) {
-        Logger.info('Trying to verify payment from parsed transaction instructions...');
-        try {
-          const message = confirmedTx.transaction.message;
-          let instructions: any[] = [];
-          
-          // For parsed transactions, instructions are in parsed format
-          if ('instructions' in message) {
-            instructions = (message as any).instructions || [];
-          }
-          
-          Logger.info(`Found ${instructions.length} parsed instructions in transaction`);
-          
-          // Check each parsed instruction for USDC transfer
-          for (const ix of instructions) {
-            // Check if this is a parsed token transfer instruction
-            if (ix.program === 'spl-token' && ix.parsed && ix.parsed.type === 'transfer') {
-              const transferInfo = ix.parsed.info;
-              if (transferInfo.destination) {
-                try {
-                  const destAccount = new PublicKey(transferInfo.destination);
-                  if (destAccount.equals(recipientTokenAccount)) {
-                    const transferAmount = transferInfo.amount || transferInfo.tokenAmount?.amount;
-                    if (transferAmount) {
-                      amountReceived = Number(transferAmount);
-                      Logger.info(`✓ Found payment amount from parsed instruction: ${amountReceived}`);
-                      break;
-                    }
-                  }
-                } catch (e) {
-                  Logger.warn('Error parsing destination account:', e);
-                }
-              }
-            }
-          }
-        } catch (e) {
-          Logger.warn('Error checking parsed instructions:', e);
+      const accountKeys = confirmedTx.transaction.message.getAccountKeys({
+        accountKeysFromLookups: confirmedTx.meta?.loadedAddresses,
+      });
+      let recipientIndex = -1;
+      for (let index = 0; index < accountKeys.length; index++) {
+        if (accountKeys.get(index)?.equals(this.recipientConfig!.wallet)) {
+          recipientIndex = index;
+          break;
         }
       }
 
-      // If transaction succeeded but we can't verify payment amount, check if transaction has no error
-      // This is a fallback for cases where verification logic can't find the payment but transaction succeeded
-      if (amountReceived < this.priceAmount) {
-        // Check if transaction actually succeeded (no error)
-        const transactionSucceeded = !confirmedTx.meta?.err;
-        
-        // Check if there's any USDC token balance that increased (even if we can't match the account exactly)
-        let anyUSDCIncrease = 0;
-        for (const postBal of postTokenBalances) {
-          if (postBal.mint === this.recipientConfig!.usdcMint.toBase58()) {
-            const preBal = preTokenBalances.find((p: any) => p.accountIndex === postBal.accountIndex);
-            const postAmount = Number(postBal.uiTokenAmount.amount);
-            const preAmount = Number(preBal?.uiTokenAmount.amount || '0');
-            const balanceChange = postAmount - preAmount;
-            if (balanceChange > 0) {
-              anyUSDCIncrease = Math.max(anyUSDCIncrease, balanceChange);
-              Logger.info(`Found USDC increase in token account: ${balanceChange} (${balanceChange / 1000000} USDC)`);
-            }
-          }
-        }
-        
-        Logger.error('Payment verification failed:', {
-          amountReceived,
-          expected: this.priceAmount,
-          expectedUSDC: this.priceUSDC,
-          recipientTokenAccount: recipientTokenAccount.toBase58(),
-          recipientWallet: this.recipientConfig!.wallet.toBase58(),
-          transactionSucceeded,
-          transactionError: confirmedTx.meta?.err,
-          anyUSDCIncrease,
-          allTokenBalances: postTokenBalances.map((b: any) => ({
-            index: b.accountIndex,
-            owner: b.owner,
-            mint: b.mint,
-            amount: b.uiTokenAmount.amount,
-            uiAmount: b.uiTokenAmount.uiAmount,
-            uiAmountString: b.uiTokenAmount.uiAmountString,
-            accountKey: (b.accountIndex !== undefined && b.accountIndex < allAccountKeys.length) 
-              ? allAccountKeys[b.accountIndex].toBase58() 
-              : 'unknown',
-          })),
-        });
+      const lamportsReceived = recipientIndex === -1
+        ? 0
+        : (confirmedTx.meta?.postBalances[recipientIndex] ?? 0) - (confirmedTx.meta?.preBalances[recipientIndex] ?? 0);
 
-        // If transaction succeeded and we found any USDC increase matching expected amount, accept it
-        // This handles cases where verification can't match the account but payment was made
-        if (transactionSucceeded && anyUSDCIncrease >= this.priceAmount) {
-          Logger.warn(`Transaction succeeded with USDC increase of ${anyUSDCIncrease} (${anyUSDCIncrease / 1000000} USDC) - accepting as verified`);
-          amountReceived = anyUSDCIncrease;
-          // Continue to success path below
-        } else if (transactionSucceeded) {
-          Logger.warn('Transaction succeeded but payment verification failed - this may be a verification issue');
-          return {
-            verified: false,
-            error: `Payment verification failed: received ${amountReceived} (${amountReceived / 1000000} USDC), expected ${this.priceAmount} (${this.priceUSDC} USDC). Transaction succeeded on-chain but payment could not be verified. Found USDC increase: ${anyUSDCIncrease} (${anyUSDCIncrease / 1000000} USDC). Please check the transaction on explorer.`,
-            amountReceived: anyUSDCIncrease > 0 ? anyUSDCIncrease : amountReceived,
-          };
-        } else {
-          return {
-            verified: false,
-            error: `Insufficient payment: received ${amountReceived} (${amountReceived / 1000000} USDC), expected ${this.priceAmount} (${this.priceUSDC} USDC)`,
-            amountReceived,
-          };
-        }
+      if (lamportsReceived < expectedLamports) {
+        return {
+          verified: false,
+          error: `Insufficient payment: received ${lamportsReceived} lamports, expected ${expectedLamports}`,
+          amountReceived: lamportsReceived,
+        };
       }
 
-      Logger.info(
-        `Payment verified: ${amountReceived / 1000000} USDC received`
-      );
-
-      return {
-        verified: true,
-        amountReceived,
-      };
+      Logger.info(`Payment verified: ${lamportsReceived / LAMPORTS_PER_SOL} SOL received`);
+      return { verified: true, amountReceived: lamportsReceived };
     } catch (error) {
-      Logger.error('Error verifying payment from transaction:', error);
+      Logger.error('Error verifying SOL payment from transaction:', error);
       return {
         verified: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -859,13 +650,32 @@ export class GaslessTransactionService {
   }
 
   /**
-   * Get explorer URL for transaction
+   * Pick a fee payer from the pool for a sponsored transaction
    */
+  async selectFeePayer(): Promise<Keypair | null> {
+    return feePayerPoolService.select();
+  }
+
+  /**
+   * Re-check a fee payer's balance when the network rejected it for lack of SOL,
+   * so a depleted payer leaves rotation before the next scheduled check
+   */
+  recheckFeePayerIfUnderfunded(feePayer: Keypair, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/insufficient (funds|lamports)/i.test(message)) {
+      return;
+    }
+
+    feePayerPoolService.checkBalance(feePayer.publicKey.toBase58()).catch((checkError) => {
+      Logger.warn(`Failed to re-check fee payer balance: ${checkError.message}`);
+    });
+  }
+
   /**
-   * Get server fee payer keypair
+   * Wallet and USDC mint that payments are sent to, if configured
    */
-  getServerFeePayer(): Keypair | null {
-    return this.feePayer;
+  getRecipient(): { wallet: PublicKey; usdcMint: PublicKey } | null {
+    return this.recipientConfig;
   }
 
   /**
@@ -875,6 +685,41 @@ export class GaslessTransactionService {
     return this.connection;
   }
 
+  /**
+   * Block height after which a transaction submitted now can no longer land, whichever blockhash it used
+   */
+  async getSubmissionExpiryHeight(): Promise<number> {
+    return (await this.connection.getBlockHeight('confirmed')) + BLOCKHASH_VALIDITY_BLOCKS;
+  }
+
+  /**
+   * Look up whether a submitted transaction landed, failed or was dropped
+   */
+  async getSubmissionOutcome(signature: string, lastValidBlockHeight?: number | null): Promise<SubmissionOutcome> {
+    const { value: status } = await this.connection.getSignatureStatus(signature, {
+      searchTransactionHistory: true,
+    });
+
+    if (status) {
+      if (status.err) {
+        return { status: 'FAILED', error: `Transaction failed: ${JSON.stringify(status.err)}` };
+      }
+      return status.confirmationStatus === 'processed' ? { status: 'PENDING' } : { status: 'CONFIRMED' };
+    }
+
+    if (lastValidBlockHeight && (await this.hasSubmissionExpired(lastValidBlockHeight))) {
+      return { status: 'DROPPED' };
+    }
+    return { status: 'PENDING' };
+  }
+
+  /**
+   * Whether a transaction submitted with this expiry height can no longer land
+   */
+  async hasSubmissionExpired(lastValidBlockHeight: number): Promise<boolean> {
+    return (await this.connection.getBlockHeight('confirmed')) > lastValidBlockHeight;
+  }
+
   /**
    * Get explorer URL for a transaction signature
    */
@@ -1040,7 +885,7 @@ export class GaslessTransactionService {
    * Check if service is configured
    */
   isConfigured(): boolean {
-    return this.feePayer !== null && this.recipientConfig !== null;
+    return feePayerPoolService.hasActivePayer() && this.recipientConfig !== null;
   }
 }
 
@@ -0,0 +1,135 @@
+// src/services/idempotency.service.ts
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import { canonicalJson } from '../utils/canonical-json';
+
+export interface IdempotentRequest {
+  scope: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type BeginIdempotentRequestResult =
+  | { status: 'started'; recordId: string }
+  | { status: 'replay'; responseStatus: number; responseBody: unknown }
+  | { status: 'conflict' }
+  | { status: 'in_progress' };
+
+// Cleanup interval for expired idempotency keys (1 hour)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const fingerprint = (request: IdempotentRequest): string =>
+  crypto
+    .createHash('sha256')
+    .update(canonicalJson([request.method, request.path, request.body ?? null]))
+    .digest('hex');
+
+const isUniqueConstraintError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export class IdempotencyService {
+  /**
+   * Claim an idempotency key for a request, or report how an earlier
+   * request with the same key was handled
+   */
+  async begin(request: IdempotentRequest): Promise<BeginIdempotentRequestResult> {
+    const requestHash = fingerprint(request);
+    const expiresAt = new Date(Date.now() + config.idempotency.keyTtlHours * 60 * 60 * 1000);
+
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          scope: request.scope,
+          key: request.key,
+          method: request.method,
+          path: request.path,
+          requestHash,
+          expiresAt,
+        },
+      });
+      return { status: 'started', recordId: record.id };
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope: request.scope, key: request.key } },
+    });
+
+    // Expired between the insert attempt and now: reclaim the key
+    if (!existing || existing.expiresAt <= new Date()) {
+      if (existing) {
+        await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lte: new Date() } } });
+      }
+      return this.begin(request);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return { status: 'conflict' };
+    }
+
+    if (existing.status === 'COMPLETED' && existing.responseStatus !== null) {
+      return {
+        status: 'replay',
+        responseStatus: existing.responseStatus,
+        responseBody: existing.responseBody,
+      };
+    }
+
+    return { status: 'in_progress' };
+  }
+
+  /**
+   * Store the final response for a claimed key so retries replay it
+   */
+  async complete(recordId: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: 'COMPLETED',
+        responseStatus,
+        responseBody: responseBody === undefined ? Prisma.DbNull : (responseBody as Prisma.InputJsonValue),
+      },
+    });
+  }
+
+  /**
+   * Remove expired keys
+   */
+  async purgeExpired(): Promise<void> {
+    const result = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Purged ${result.count} expired idempotency keys`);
+    }
+  }
+}
+
+// Export singleton instance
+const idempotencyService = new IdempotencyService();
+export default idempotencyService;
+
+/**
+ * Start periodic cleanup of expired idempotency keys
+ */
+export const startIdempotencyCleanup = (): void => {
+  const runCleanup = () => {
+    idempotencyService.purgeExpired().catch((error) => {
+      Logger.error('Error purging expired idempotency keys:', error);
+    });
+  };
+
+  runCleanup();
+  setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+  Logger.info(`Idempotency key cleanup started - running every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`);
+};
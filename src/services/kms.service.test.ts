@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { config } from '../config/env';
+import { EncryptedEnvelope, KmsService, LocalKeyProvider } from './kms.service';
+
+const KEY_V1 = crypto.randomBytes(32);
+const KEY_V2 = crypto.randomBytes(32);
+
+const credentials = { data: { address: 'GridAddress111', policies: { signers: [] } } };
+
+const serviceWith = (keys: Record<string, Buffer>, activeKeyId: string): KmsService => {
+  const service = new KmsService();
+  service.setProvider(new LocalKeyProvider(new Map(Object.entries(keys)), activeKeyId));
+  return service;
+};
+
+// Flip one bit of a base64 field
+const tamper = (encoded: string): string => {
+  const bytes = Buffer.from(encoded, 'base64');
+  bytes[0] ^= 1;
+  return bytes.toString('base64');
+};
+
+describe('KmsService', () => {
+  describe('envelope encryption', () => {
+    it('round-trips a JSON value through an envelope under the active key', async () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+
+      const envelope = await kms.encryptJson(credentials);
+
+      expect(envelope).toMatchObject({ enc: 'envelope-v1', provider: 'local', keyId: 'v1' });
+      expect(JSON.stringify(envelope)).not.toContain('GridAddress111');
+      expect(await kms.decryptJson(envelope)).toEqual(credentials);
+    });
+
+    it('uses a fresh data key for every value', async () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+
+      const [first, second] = [await kms.encryptJson(credentials), await kms.encryptJson(credentials)];
+
+      expect(first.encryptedDataKey).not.toBe(second.encryptedDataKey);
+      expect(first.ciphertext).not.toBe(second.ciphertext);
+    });
+
+    it.each<keyof EncryptedEnvelope>(['ciphertext', 'authTag', 'iv', 'encryptedDataKey'])(
+      'rejects an envelope with a tampered %s',
+      async (field) => {
+        const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+        const envelope = await kms.encryptJson(credentials);
+
+        await expect(kms.decryptJson({ ...envelope, [field]: tamper(envelope[field]) })).rejects.toThrow();
+      }
+    );
+
+    it('hides decryption failures behind a generic error for Grid credentials', async () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+      const authResult = await kms.encryptJson(credentials);
+
+      const tampered = { ...authResult, ciphertext: tamper(authResult.ciphertext) };
+
+      await expect(kms.decryptGridCredentials({ authResult: tampered, sessionSecrets: null })).rejects.toThrow(
+        'Failed to decrypt Grid credentials'
+      );
+    });
+
+    it('passes plaintext values written before encryption through unchanged', async () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+
+      expect(await kms.decryptJson(credentials)).toEqual(credentials);
+    });
+
+    it('clears a column for null and leaves it untouched for undefined', async () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+
+      expect(await kms.encryptField(null)).toBe(Prisma.DbNull);
+      expect(await kms.encryptField(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('key rotation', () => {
+    it('decrypts values wrapped with a retired key once a new key is active', async () => {
+      const before = await serviceWith({ v1: KEY_V1 }, 'v1').encryptJson(credentials);
+      const kms = serviceWith({ v1: KEY_V1, v2: KEY_V2 }, 'v2');
+
+      expect(await kms.decryptJson(before)).toEqual(credentials);
+      expect(kms.needsReencryption(before)).toBe(true);
+
+      const rotated = await kms.encryptJson(await kms.decryptJson(before));
+      expect(rotated.keyId).toBe('v2');
+      expect(kms.needsReencryption(rotated)).toBe(false);
+    });
+
+    it('flags plaintext values for encryption but not empty columns', () => {
+      const kms = serviceWith({ v1: KEY_V1 }, 'v1');
+
+      expect(kms.needsReencryption(credentials)).toBe(true);
+      expect(kms.needsReencryption(null)).toBe(false);
+    });
+
+    it('refuses to decrypt once the key that wrapped the value is removed', async () => {
+      const before = await serviceWith({ v1: KEY_V1 }, 'v1').encryptJson(credentials);
+      const kms = serviceWith({ v2: KEY_V2 }, 'v2');
+
+      await expect(kms.decryptJson(before)).rejects.toThrow('KMS master key "v1" is not available');
+    });
+
+    it('rejects a value whose key id was swapped to another key', async () => {
+      const before = await serviceWith({ v1: KEY_V1 }, 'v1').encryptJson(credentials);
+      const kms = serviceWith({ v1: KEY_V1, v2: KEY_V2 }, 'v2');
+
+      await expect(kms.decryptJson({ ...before, keyId: 'v2' })).rejects.toThrow();
+    });
+  });
+
+  describe('LocalKeyProvider.fromConfig', () => {
+    const original = { ...config.kms };
+
+    afterEach(() => {
+      Object.assign(config.kms, original);
+    });
+
+    it('builds a key ring from KMS_MASTER_KEYS and defaults to the last key', () => {
+      Object.assign(config.kms, {
+        masterKeyFile: '',
+        masterKeys: `v1:${KEY_V1.toString('base64')},v2:${KEY_V2.toString('base64')}`,
+        activeKeyId: '',
+      });
+
+      expect(LocalKeyProvider.fromConfig()?.getActiveKeyId()).toBe('v2');
+    });
+
+    it('rejects master keys that are not 32 bytes', () => {
+      Object.assign(config.kms, { masterKeyFile: '', masterKeys: `v1:${crypto.randomBytes(16).toString('base64')}` });
+
+      expect(() => LocalKeyProvider.fromConfig()).toThrow('KMS master key "v1" must be 32 bytes');
+    });
+
+    it('rejects an active key id that is not in the key ring', () => {
+      Object.assign(config.kms, {
+        masterKeyFile: '',
+        masterKeys: `v1:${KEY_V1.toString('base64')}`,
+        activeKeyId: 'v3',
+      });
+
+      expect(() => LocalKeyProvider.fromConfig()).toThrow('Active KMS key "v3" is not in the key ring');
+    });
+  });
+});
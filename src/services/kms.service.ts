@@ -0,0 +1,303 @@
+// src/services/kms.service.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import { Prisma } from '@prisma/client';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+// Marker stored in every encrypted JSON column value
+const ENVELOPE_VERSION = 'envelope-v1';
+const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Envelope-encrypted JSON value as stored in the database
+ */
+export interface EncryptedEnvelope {
+  enc: typeof ENVELOPE_VERSION;
+  provider: string;
+  keyId: string;
+  encryptedDataKey: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * A master key provider wraps and unwraps per-record data keys.
+ * Cloud KMS backends (AWS KMS, GCP KMS, Vault transit) implement this interface.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  getActiveKeyId(): string;
+  wrapDataKey(dataKey: Buffer): Promise<{ keyId: string; encryptedDataKey: string }>;
+  unwrapDataKey(encryptedDataKey: string, keyId: string): Promise<Buffer>;
+}
+
+const encryptAesGcm = (key: Buffer, plaintext: Buffer) => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, authTag: cipher.getAuthTag(), ciphertext };
+};
+
+const decryptAesGcm = (key: Buffer, iv: Buffer, authTag: Buffer, ciphertext: Buffer): Buffer => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const parseMasterKey = (keyId: string, encoded: string): Buffer => {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`KMS master key "${keyId}" must be 32 bytes (base64-encoded)`);
+  }
+  return key;
+};
+
+/**
+ * Local key provider backed by master keys from the environment or a key file.
+ * Intended for development and single-host deployments.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = 'local';
+  private keys: Map<string, Buffer>;
+  private activeKeyId: string;
+
+  constructor(keys: Map<string, Buffer>, activeKeyId: string) {
+    if (!keys.has(activeKeyId)) {
+      throw new Error(`Active KMS key "${activeKeyId}" is not in the key ring`);
+    }
+    this.keys = keys;
+    this.activeKeyId = activeKeyId;
+  }
+
+  /**
+   * Build the key ring from KMS_MASTER_KEY_FILE, KMS_MASTER_KEYS or KMS_MASTER_KEY
+   */
+  static fromConfig(): LocalKeyProvider | null {
+    const keys = new Map<string, Buffer>();
+    let activeKeyId = config.kms.activeKeyId;
+
+    if (config.kms.masterKeyFile) {
+      // Key file format: { "activeKeyId": "v2", "keys": { "v1": "<base64>", "v2": "<base64>" } }
+      const keyFile = JSON.parse(fs.readFileSync(config.kms.masterKeyFile, 'utf8'));
+      Object.entries<string>(keyFile.keys || {}).forEach(([keyId, encoded]) => {
+        keys.set(keyId, parseMasterKey(keyId, encoded));
+      });
+      activeKeyId = activeKeyId || keyFile.activeKeyId;
+    } else if (config.kms.masterKeys) {
+      // Env format: KMS_MASTER_KEYS=v1:<base64>,v2:<base64>
+      config.kms.masterKeys.split(',').forEach((entry) => {
+        const separator = entry.indexOf(':');
+        if (separator === -1) {
+          throw new Error('KMS_MASTER_KEYS entries must be in the form <keyId>:<base64 key>');
+        }
+        const keyId = entry.slice(0, separator).trim();
+        keys.set(keyId, parseMasterKey(keyId, entry.slice(separator + 1)));
+      });
+    } else if (config.kms.masterKey) {
+      keys.set('default', parseMasterKey('default', config.kms.masterKey));
+      activeKeyId = activeKeyId || 'default';
+    }
+
+    if (keys.size === 0) {
+      return null;
+    }
+
+    // Default to the last key listed when no active key is configured
+    return new LocalKeyProvider(keys, activeKeyId || Array.from(keys.keys()).pop()!);
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  async wrapDataKey(dataKey: Buffer) {
+    const { iv, authTag, ciphertext } = encryptAesGcm(this.keys.get(this.activeKeyId)!, dataKey);
+    return {
+      keyId: this.activeKeyId,
+      encryptedDataKey: Buffer.concat([iv, authTag, ciphertext]).toString('base64'),
+    };
+  }
+
+  async unwrapDataKey(encryptedDataKey: string, keyId: string): Promise<Buffer> {
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`KMS master key "${keyId}" is not available`);
+    }
+
+    const raw = Buffer.from(encryptedDataKey, 'base64');
+    return decryptAesGcm(
+      masterKey,
+      raw.subarray(0, IV_BYTES),
+      raw.subarray(IV_BYTES, IV_BYTES + 16),
+      raw.subarray(IV_BYTES + 16)
+    );
+  }
+}
+
+export class KmsService {
+  private provider: KeyProvider | null | undefined;
+
+  /**
+   * Resolve the configured key provider (lazily, so scripts can load env first)
+   */
+  private getProvider(): KeyProvider {
+    if (this.provider === undefined) {
+      switch (config.kms.provider) {
+        case 'local':
+          this.provider = LocalKeyProvider.fromConfig();
+          break;
+        default:
+          throw new Error(`Unsupported KMS provider: ${config.kms.provider}`);
+      }
+    }
+
+    if (!this.provider) {
+      throw new Error('KMS master key not configured (set KMS_MASTER_KEY, KMS_MASTER_KEYS or KMS_MASTER_KEY_FILE)');
+    }
+    return this.provider;
+  }
+
+  /**
+   * Use a custom key provider (e.g. a cloud KMS client)
+   */
+  setProvider(provider: KeyProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Check if a master key is available
+   */
+  isConfigured(): boolean {
+    try {
+      this.getProvider();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if a stored value is an encrypted envelope
+   */
+  isEncrypted(value: unknown): value is EncryptedEnvelope {
+    return (
+      !!value &&
+      typeof value === 'object' &&
+      (value as EncryptedEnvelope).enc === ENVELOPE_VERSION &&
+      typeof (value as EncryptedEnvelope).ciphertext === 'string'
+    );
+  }
+
+  /**
+   * Encrypt a JSON value with a fresh data key
+   */
+  async encryptJson(value: unknown): Promise<EncryptedEnvelope> {
+    const provider = this.getProvider();
+    const dataKey = crypto.randomBytes(DATA_KEY_BYTES);
+
+    try {
+      const { iv, authTag, ciphertext } = encryptAesGcm(dataKey, Buffer.from(JSON.stringify(value), 'utf8'));
+      const { keyId, encryptedDataKey } = await provider.wrapDataKey(dataKey);
+
+      return {
+        enc: ENVELOPE_VERSION,
+        provider: provider.name,
+        keyId,
+        encryptedDataKey,
+        iv: iv.toString('base64'),
+        authTag: authTag.toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Decrypt a stored JSON value. Plaintext values written before encryption
+   * was enabled are returned unchanged.
+   */
+  async decryptJson<T = any>(value: unknown): Promise<T> {
+    if (!this.isEncrypted(value)) {
+      return value as T;
+    }
+
+    const provider = this.getProvider();
+    if (value.provider !== provider.name) {
+      throw new Error(`Value was encrypted with KMS provider "${value.provider}", current provider is "${provider.name}"`);
+    }
+
+    const dataKey = await provider.unwrapDataKey(value.encryptedDataKey, value.keyId);
+    try {
+      const plaintext = decryptAesGcm(
+        dataKey,
+        Buffer.from(value.iv, 'base64'),
+        Buffer.from(value.authTag, 'base64'),
+        Buffer.from(value.ciphertext, 'base64')
+      );
+      return JSON.parse(plaintext.toString('utf8')) as T;
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Check if a stored value is plaintext or wrapped with a retired master key
+   */
+  needsReencryption(value: unknown): boolean {
+    if (value === null || value === undefined) {
+      return false;
+    }
+    if (!this.isEncrypted(value)) {
+      return true;
+    }
+    const provider = this.getProvider();
+    return value.provider !== provider.name || value.keyId !== provider.getActiveKeyId();
+  }
+
+  /**
+   * Encrypt a nullable JSON column for a Prisma write.
+   * undefined leaves the column untouched, null clears it.
+   */
+  async encryptField(value: unknown): Promise<Prisma.InputJsonValue | typeof Prisma.DbNull | undefined> {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value === null) {
+      return Prisma.DbNull;
+    }
+    return (await this.encryptJson(value)) as unknown as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Encrypt Grid signing material for storage on the user record
+   */
+  async encryptGridCredentials(credentials: { authResult?: unknown; sessionSecrets?: unknown }) {
+    return {
+      authResult: await this.encryptField(credentials.authResult),
+      sessionSecrets: await this.encryptField(credentials.sessionSecrets),
+    };
+  }
+
+  /**
+   * Decrypt Grid signing material right before it is handed to the Grid SDK
+   */
+  async decryptGridCredentials(user: { authResult: unknown; sessionSecrets: unknown }) {
+    try {
+      return {
+        authResult: await this.decryptJson(user.authResult),
+        sessionSecrets: await this.decryptJson(user.sessionSecrets),
+      };
+    } catch (error) {
+      Logger.error('Failed to decrypt Grid credentials:', error);
+      throw new Error('Failed to decrypt Grid credentials');
+    }
+  }
+}
+
+// Export singleton instance
+const kmsService = new KmsService();
+export default kmsService;
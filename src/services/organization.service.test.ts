@@ -0,0 +1,258 @@
+import { OrganizationCreditPolicy, OrganizationMember, Prisma } from '@prisma/client';
+import { PrismaMock, prismaMock as db } from '../test/prisma-mock';
+import gaslessCreditService from './gasless-credit.service';
+import creditTopUpService from './credit-top-up.service';
+import organizationService from './organization.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('./audit.service', () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock('./credit-top-up.service', () => ({ __esModule: true, default: { ensureCredit: jest.fn() } }));
+jest.mock('./gasless-credit.service', () => ({
+  ...jest.requireActual('./gasless-credit.service'),
+  __esModule: true,
+  default: { hasSufficientCredit: jest.fn(), useCredit: jest.fn() },
+}));
+
+const USDC = BigInt(1_000_000);
+
+type LedgerEntry = { id: string; userId: string; amountMicroUsdc: bigint; balanceAfterMicroUsdc: bigint };
+
+// In-memory organization pool behind the interactive transactions the service opens
+const pool = {
+  balance: BigInt(0),
+  ledger: [] as LedgerEntry[],
+  member: null as OrganizationMember | null,
+};
+
+let rowLock: Promise<void> = Promise.resolve();
+
+/**
+ * Run an interactive transaction against the pool. As in Postgres, the conditional debit takes the
+ * organization's row lock and holds it until the transaction ends; a failed transaction rolls back
+ */
+const runTransaction = async (callback: (tx: Prisma.TransactionClient) => Promise<unknown>) => {
+  let release = () => {};
+  let rollback = () => {};
+
+  const tx = {
+    organization: {
+      updateMany: async ({ where, data }: any) => {
+        const previous = rowLock;
+        rowLock = new Promise((resolve) => (release = resolve));
+        await previous;
+
+        const { balance, ledger } = pool;
+        const ledgerLength = ledger.length;
+        rollback = () => {
+          pool.balance = balance;
+          ledger.length = ledgerLength;
+        };
+        if (pool.balance < where.creditBalanceMicroUsdc.gte) {
+          return { count: 0 };
+        }
+        pool.balance -= data.creditBalanceMicroUsdc.decrement;
+        return { count: 1 };
+      },
+      findUniqueOrThrow: async () => ({ creditBalanceMicroUsdc: pool.balance }),
+    },
+    organizationMember: { findUnique: async () => pool.member },
+    creditLedgerEntry: {
+      groupBy: async ({ where }: any) => {
+        const entries = pool.ledger.filter((entry) => entry.userId === where.userId);
+        const spent = entries.reduce((sum, entry) => sum + entry.amountMicroUsdc, BigInt(0));
+        return entries.length > 0 ? [{ userId: where.userId, _sum: { amountMicroUsdc: spent } }] : [];
+      },
+      create: async ({ data }: any) => {
+        const entry = { id: `entry-${pool.ledger.length + 1}`, ...data };
+        pool.ledger.push(entry);
+        return entry;
+      },
+    },
+  };
+
+  try {
+    return await callback(tx as unknown as Prisma.TransactionClient);
+  } catch (error) {
+    rollback();
+    throw error;
+  } finally {
+    release();
+  }
+};
+
+const memberOf = (monthlySpendLimitMicroUsdc: bigint | null): OrganizationMember => ({
+  id: 'member-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  role: 'MEMBER',
+  monthlySpendLimitMicroUsdc,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const belongTo = (creditPolicy: OrganizationCreditPolicy) =>
+  db.organizationMember.findUnique.mockResolvedValue({ organizationId: 'org-1', organization: { creditPolicy } });
+
+const ensureCredit = creditTopUpService.ensureCredit as jest.Mock;
+const useCredit = gaslessCreditService.useCredit as jest.Mock;
+
+describe('OrganizationService.useSponsorshipCredit', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(db, '$transaction').mockImplementation(runTransaction as PrismaMock['$transaction']);
+    pool.balance = BigInt(100) * USDC;
+    pool.ledger = [];
+    pool.member = memberOf(null);
+    belongTo('PERSONAL_FIRST');
+    ensureCredit.mockResolvedValue({ sufficient: false });
+    useCredit.mockResolvedValue({ success: true, remainingCredit: 4 });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the member\'s own credit first under PERSONAL_FIRST', async () => {
+    (gaslessCreditService.hasSufficientCredit as jest.Mock).mockResolvedValue(true);
+    ensureCredit.mockResolvedValue({ sufficient: true });
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 1, 'SPL_TRANSFER');
+
+    expect(result).toEqual({ success: true, remainingCredit: 4 });
+    expect(useCredit).toHaveBeenCalledWith('user-1', 1, 'SPL_TRANSFER');
+    expect(pool.balance).toBe(BigInt(100) * USDC);
+  });
+
+  it('debits the pool when the member\'s own credit runs short', async () => {
+    (gaslessCreditService.hasSufficientCredit as jest.Mock).mockResolvedValue(false);
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 2.5, 'SPL_TRANSFER');
+
+    expect(result).toEqual({ success: true, organizationId: 'org-1', ledgerEntryId: 'entry-1', remainingCredit: 97.5 });
+    expect(pool.ledger).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        organizationId: 'org-1',
+        direction: 'DEBIT',
+        reason: 'SPONSORED_TRANSACTION',
+        amountMicroUsdc: BigInt(2_500_000),
+        balanceAfterMicroUsdc: BigInt(97_500_000),
+      }),
+    ]);
+    expect(ensureCredit).not.toHaveBeenCalled();
+  });
+
+  it('debits the pool without checking personal credit under ORGANIZATION_FIRST', async () => {
+    belongTo('ORGANIZATION_FIRST');
+
+    expect((await organizationService.useSponsorshipCredit('user-1', 1, 'SPL_TRANSFER')).organizationId).toBe('org-1');
+    expect(gaslessCreditService.hasSufficientCredit).not.toHaveBeenCalled();
+  });
+
+  it('falls back to personal credit when the pool cannot cover the amount', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.balance = USDC / BigInt(2);
+    ensureCredit.mockResolvedValue({ sufficient: true });
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 1, 'SPL_TRANSFER');
+
+    expect(result).toEqual({
+      success: true,
+      remainingCredit: 4,
+      organizationError: 'Organization credit pool cannot cover this transaction',
+    });
+    expect(pool.balance).toBe(USDC / BigInt(2));
+  });
+
+  it('refuses a debit past the member\'s monthly limit and rolls back the pool', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.member = memberOf(BigInt(5) * USDC);
+    pool.ledger = [{ id: 'entry-0', userId: 'user-1', amountMicroUsdc: BigInt(4) * USDC, balanceAfterMicroUsdc: BigInt(0) }];
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 1.5, 'SPL_TRANSFER');
+
+    expect(result).toMatchObject({
+      success: false,
+      insufficient: true,
+      organizationError: 'Monthly organization spend limit reached. Spent: 4 USDC, Limit: 5 USDC',
+    });
+    expect(pool.balance).toBe(BigInt(100) * USDC);
+    expect(pool.ledger).toHaveLength(1);
+  });
+
+  it('counts only this month\'s unrefunded sponsored debits against the limit', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.member = memberOf(BigInt(5) * USDC);
+    const groupBy = jest.fn().mockResolvedValue([]);
+    jest.spyOn(db, '$transaction').mockImplementation((async (callback: any) =>
+      runTransaction((tx) => callback({ ...tx, creditLedgerEntry: { ...tx.creditLedgerEntry, groupBy } }))) as PrismaMock['$transaction']);
+
+    await organizationService.useSponsorshipCredit('user-1', 1, 'SPL_TRANSFER');
+
+    const now = new Date();
+    expect(groupBy).toHaveBeenCalledWith({
+      by: ['userId'],
+      where: {
+        organizationId: 'org-1',
+        userId: 'user-1',
+        direction: 'DEBIT',
+        reason: 'SPONSORED_TRANSACTION',
+        createdAt: { gte: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)) },
+        refund: { is: null },
+      },
+      _sum: { amountMicroUsdc: true },
+    });
+  });
+
+  it('refuses a member who was removed before the debit took the lock', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.member = null;
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 1, 'SPL_TRANSFER');
+
+    expect(result.organizationError).toBe('You do not belong to this organization');
+    expect(pool.balance).toBe(BigInt(100) * USDC);
+  });
+
+  it('lets only one of two concurrent debits through a monthly limit that fits one', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.member = memberOf(BigInt(10) * USDC);
+
+    const results = await Promise.all([
+      organizationService.useSponsorshipCredit('user-1', 6, 'SPL_TRANSFER'),
+      organizationService.useSponsorshipCredit('user-1', 6, 'SPL_TRANSFER'),
+    ]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)?.organizationError).toBe(
+      'Monthly organization spend limit reached. Spent: 6 USDC, Limit: 10 USDC'
+    );
+    expect(pool.balance).toBe(BigInt(94) * USDC);
+    expect(pool.ledger).toHaveLength(1);
+  });
+
+  it('lets only one of two concurrent debits through a pool that covers one', async () => {
+    belongTo('ORGANIZATION_FIRST');
+    pool.balance = BigInt(10) * USDC;
+
+    const results = await Promise.all([
+      organizationService.useSponsorshipCredit('user-1', 6, 'SPL_TRANSFER'),
+      organizationService.useSponsorshipCredit('user-1', 6, 'SPL_TRANSFER'),
+    ]);
+
+    expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.success)?.organizationError).toBe(
+      'Organization credit pool cannot cover this transaction'
+    );
+    expect(pool.balance).toBe(BigInt(4) * USDC);
+  });
+
+  it('rejects a non-positive amount without touching the pool', async () => {
+    belongTo('ORGANIZATION_FIRST');
+
+    const result = await organizationService.useSponsorshipCredit('user-1', 0, 'SPL_TRANSFER');
+
+    expect(result.organizationError).toBe('Credit amount must be positive');
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
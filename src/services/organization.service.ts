@@ -0,0 +1,733 @@
+// src/services/organization.service.ts
+import { CreditLedgerEntry, Organization, OrganizationMember, OrganizationRole, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import auditService, { AuditContext } from './audit.service';
+import gaslessCreditService, { fromMicroUsdc, toMicroUsdc, UseCreditResult } from './gasless-credit.service';
+import creditTopUpService, { AutoTopUpOutcome } from './credit-top-up.service';
+import {
+  AddOrganizationMemberInput,
+  CreateOrganizationInput,
+  OrganizationUsageQueryInput,
+  UpdateOrganizationInput,
+  UpdateOrganizationMemberInput,
+} from '../schemas/organization.schemas';
+
+export type OrganizationFailure =
+  | 'not_member'
+  | 'forbidden'
+  | 'not_found'
+  | 'already_member'
+  | 'last_owner'
+  | 'insufficient_credit'
+  | 'spend_limit_reached';
+
+export type OrganizationResult<T extends object> =
+  | ({ success: true } & T)
+  | { success: false; reason: OrganizationFailure; error: string };
+
+export interface OrganizationMemberDetails {
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: OrganizationRole;
+  // null is unlimited
+  monthlySpendLimitUSDC: number | null;
+  spentThisMonthUSDC: number;
+  joinedAt: Date;
+}
+
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  creditPolicy: Organization['creditPolicy'];
+  creditBalanceUSDC: number;
+  // The requesting user's role; members other than owners and admins only see themselves
+  role: OrganizationRole;
+  members: OrganizationMemberDetails[];
+  createdAt: Date;
+}
+
+export interface OrganizationUsageRow {
+  transactions: number;
+  spentUSDC: number;
+  refundedUSDC: number;
+  // Spent less refunds
+  netSpentUSDC: number;
+  fundedUSDC: number;
+}
+
+export interface OrganizationUsageReport {
+  organizationId: string;
+  from: Date;
+  to: Date;
+  creditBalanceUSDC: number;
+  totals: OrganizationUsageRow;
+  members: Array<OrganizationUsageRow & { userId: string; email: string | null }>;
+  byTransactionType: Array<{ transactionType: string; transactions: number; spentUSDC: number }>;
+}
+
+export interface SponsorshipCreditResult extends UseCreditResult {
+  // Set when the credit came from the user's organization pool
+  organizationId?: string;
+  // Set when neither the user's credit nor their organization's pool covered the amount
+  insufficient?: boolean;
+  // Why the organization's pool could not be used, when it was tried
+  organizationError?: string;
+  autoTopUp?: AutoTopUpOutcome;
+}
+
+type MembershipWithOrganization = OrganizationMember & { organization: Organization };
+
+const MANAGER_ROLES: OrganizationRole[] = ['OWNER', 'ADMIN'];
+
+// Thrown to end an organization action, rolling back its transaction if one is open
+class OrganizationError extends Error {
+  constructor(readonly reason: OrganizationFailure, message: string) {
+    super(message);
+  }
+}
+
+const startOfUtcMonth = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const toLimitMicroUsdc = (limitUSDC: number | null): bigint | null => (limitUSDC === null ? null : toMicroUsdc(limitUSDC));
+
+const toLimitUsdc = (limitMicroUsdc: bigint | null): number | null =>
+  limitMicroUsdc === null ? null : fromMicroUsdc(limitMicroUsdc);
+
+// Audited member fields, with amounts in USDC
+const toMemberSnapshot = (member: OrganizationMember) => ({
+  role: member.role,
+  monthlySpendLimitUSDC: toLimitUsdc(member.monthlySpendLimitMicroUsdc),
+});
+
+const emptyUsageRow = (): OrganizationUsageRow => ({
+  transactions: 0,
+  spentUSDC: 0,
+  refundedUSDC: 0,
+  netSpentUSDC: 0,
+  fundedUSDC: 0,
+});
+
+export class OrganizationService {
+  /**
+   * Create an organization with the user as its owner
+   */
+  async createOrganization(
+    userId: string,
+    input: CreateOrganizationInput,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ organization: Organization }>> {
+    try {
+      const organization = await prisma.organization.create({
+        data: {
+          name: input.name,
+          creditPolicy: input.creditPolicy,
+          members: { create: { userId, role: 'OWNER' } },
+        },
+      });
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_CREATED',
+        targetType: 'Organization',
+        targetId: organization.id,
+        after: { name: organization.name, creditPolicy: organization.creditPolicy },
+        metadata: { ownerUserId: userId },
+      });
+
+      Logger.info(`Organization ${organization.id} (${organization.name}) created by user ${userId}`);
+      return { success: true, organization };
+    } catch (error) {
+      // The unique member userId rejects a user who already belongs to an organization
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, reason: 'already_member', error: 'You already belong to an organization' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's organization with its pool balance and members' spend this month
+   */
+  async getOrganization(userId: string): Promise<OrganizationResult<{ organization: OrganizationDetails }>> {
+    try {
+      const membership = await this.requireMembership(userId);
+      const isManager = MANAGER_ROLES.includes(membership.role);
+
+      const members = await prisma.organizationMember.findMany({
+        where: { organizationId: membership.organizationId, userId: isManager ? undefined : userId },
+        include: { user: { select: { email: true, firstName: true, lastName: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+      const spend = await this.getMonthlySpendByMember(prisma, membership.organizationId, new Date());
+
+      return {
+        success: true,
+        organization: {
+          id: membership.organization.id,
+          name: membership.organization.name,
+          creditPolicy: membership.organization.creditPolicy,
+          creditBalanceUSDC: fromMicroUsdc(membership.organization.creditBalanceMicroUsdc),
+          role: membership.role,
+          members: members.map((member) => ({
+            userId: member.userId,
+            email: member.user.email,
+            firstName: member.user.firstName,
+            lastName: member.user.lastName,
+            role: member.role,
+            monthlySpendLimitUSDC: toLimitUsdc(member.monthlySpendLimitMicroUsdc),
+            spentThisMonthUSDC: fromMicroUsdc(spend.get(member.userId) ?? BigInt(0)),
+            joinedAt: member.createdAt,
+          })),
+          createdAt: membership.organization.createdAt,
+        },
+      };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Rename the organization or change its credit policy (owners and admins)
+   */
+  async updateOrganization(
+    userId: string,
+    input: UpdateOrganizationInput,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ organization: Organization }>> {
+    try {
+      const membership = await this.requireMembership(userId, MANAGER_ROLES);
+      const existing = membership.organization;
+
+      const organization = await prisma.organization.update({
+        where: { id: existing.id },
+        data: { name: input.name, creditPolicy: input.creditPolicy },
+      });
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_UPDATED',
+        targetType: 'Organization',
+        targetId: organization.id,
+        before: { name: existing.name, creditPolicy: existing.creditPolicy },
+        after: { name: organization.name, creditPolicy: organization.creditPolicy },
+      });
+
+      return { success: true, organization };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Add a user to the organization by email (owners and admins).
+   * Only owners can add owners or admins.
+   */
+  async addMember(
+    userId: string,
+    input: AddOrganizationMemberInput,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ member: OrganizationMember }>> {
+    try {
+      const membership = await this.requireMembership(userId, MANAGER_ROLES);
+      if (input.role !== 'MEMBER' && membership.role !== 'OWNER') {
+        throw new OrganizationError('forbidden', 'Only owners can add owners or admins');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { email: input.email },
+        select: { id: true, isActive: true },
+      });
+      if (!user || !user.isActive) {
+        throw new OrganizationError('not_found', 'User not found');
+      }
+
+      const member = await prisma.organizationMember.create({
+        data: {
+          organizationId: membership.organizationId,
+          userId: user.id,
+          role: input.role,
+          monthlySpendLimitMicroUsdc: toLimitMicroUsdc(input.monthlySpendLimitUSDC),
+        },
+      });
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_MEMBER_ADDED',
+        targetType: 'Organization',
+        targetId: membership.organizationId,
+        after: toMemberSnapshot(member),
+        metadata: { memberUserId: user.id },
+      });
+
+      return { success: true, member };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, reason: 'already_member', error: 'User already belongs to an organization' };
+      }
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Change a member's role or monthly spend limit (owners and admins).
+   * Admins can only change members; an organization always keeps at least one owner.
+   */
+  async updateMember(
+    userId: string,
+    memberUserId: string,
+    input: UpdateOrganizationMemberInput,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ member: OrganizationMember }>> {
+    try {
+      const membership = await this.requireMembership(userId, MANAGER_ROLES);
+
+      const { existing, member } = await prisma.$transaction(async (tx) => {
+        const existing = await this.lockMember(tx, membership, memberUserId);
+        const changesRole = input.role !== undefined && input.role !== existing.role;
+        if (membership.role !== 'OWNER' && (existing.role !== 'MEMBER' || (changesRole && input.role !== 'MEMBER'))) {
+          throw new OrganizationError('forbidden', 'Only owners can change owners, admins or roles above member');
+        }
+
+        const member = await tx.organizationMember.update({
+          where: { id: existing.id },
+          data: {
+            role: input.role,
+            monthlySpendLimitMicroUsdc:
+              input.monthlySpendLimitUSDC === undefined ? undefined : toLimitMicroUsdc(input.monthlySpendLimitUSDC),
+          },
+        });
+        if (existing.role === 'OWNER' && member.role !== 'OWNER') {
+          await this.assertHasOwner(tx, membership.organizationId);
+        }
+        return { existing, member };
+      });
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_MEMBER_UPDATED',
+        targetType: 'Organization',
+        targetId: membership.organizationId,
+        before: toMemberSnapshot(existing),
+        after: toMemberSnapshot(member),
+        metadata: { memberUserId },
+      });
+
+      return { success: true, member };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Remove a member (owners and admins), or leave the organization.
+   * Admins can only remove members; the last owner cannot leave.
+   */
+  async removeMember(
+    userId: string,
+    memberUserId: string,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ member: OrganizationMember }>> {
+    try {
+      const leaving = memberUserId === userId;
+      const membership = await this.requireMembership(userId, leaving ? undefined : MANAGER_ROLES);
+
+      const member = await prisma.$transaction(async (tx) => {
+        const existing = await this.lockMember(tx, membership, memberUserId);
+        if (!leaving && membership.role !== 'OWNER' && existing.role !== 'MEMBER') {
+          throw new OrganizationError('forbidden', 'Only owners can remove owners or admins');
+        }
+
+        await tx.organizationMember.delete({ where: { id: existing.id } });
+        if (existing.role === 'OWNER') {
+          await this.assertHasOwner(tx, membership.organizationId);
+        }
+        return existing;
+      });
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_MEMBER_REMOVED',
+        targetType: 'Organization',
+        targetId: membership.organizationId,
+        before: toMemberSnapshot(member),
+        metadata: { memberUserId, left: leaving },
+      });
+
+      return { success: true, member };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Move credit from a member's own balance into the organization's pool.
+   * Both sides are written in one ledger transaction; pooled credit does not expire.
+   */
+  async fundCredit(
+    userId: string,
+    amountUSDC: number,
+    context: AuditContext = {}
+  ): Promise<OrganizationResult<{ amountUSDC: number; creditBalanceUSDC: number; remainingCredit: number }>> {
+    const amountMicroUsdc = toMicroUsdc(amountUSDC);
+
+    try {
+      const membership = await this.requireMembership(userId);
+      const organizationId = membership.organizationId;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const debit = await gaslessCreditService.debitCredit(tx, userId, amountMicroUsdc, 'ORGANIZATION_FUNDING', {
+          metadata: { organizationId },
+        });
+        if (!debit) {
+          const account = await tx.creditAccount.findUnique({ where: { userId }, select: { balanceMicroUsdc: true } });
+          const available = fromMicroUsdc(account?.balanceMicroUsdc ?? BigInt(0));
+          throw new OrganizationError(
+            'insufficient_credit',
+            `Insufficient credit. Available: ${available} USDC, Required: ${amountUSDC} USDC`
+          );
+        }
+
+        const organization = await tx.organization.update({
+          where: { id: organizationId },
+          data: { creditBalanceMicroUsdc: { increment: amountMicroUsdc } },
+        });
+        await tx.creditLedgerEntry.create({
+          data: {
+            userId,
+            organizationId,
+            direction: 'CREDIT',
+            reason: 'ORGANIZATION_FUNDING',
+            amountMicroUsdc,
+            balanceAfterMicroUsdc: organization.creditBalanceMicroUsdc,
+            metadata: { debitEntryId: debit.entry.id },
+          },
+        });
+
+        return {
+          creditBalanceMicroUsdc: organization.creditBalanceMicroUsdc,
+          remainingMicroUsdc: debit.entry.balanceAfterMicroUsdc,
+        };
+      });
+
+      const creditBalanceUSDC = fromMicroUsdc(result.creditBalanceMicroUsdc);
+      Logger.info(`User ${userId} moved ${amountUSDC} USDC credit to organization ${organizationId}`);
+      void gaslessCreditService.checkLowBalance(userId);
+
+      await auditService.record(context, {
+        action: 'ORGANIZATION_CREDIT_FUNDED',
+        targetType: 'Organization',
+        targetId: organizationId,
+        before: { creditUSDC: creditBalanceUSDC - amountUSDC },
+        after: { creditUSDC: creditBalanceUSDC },
+        metadata: { amountUSDC, userId },
+      });
+
+      return {
+        success: true,
+        amountUSDC,
+        creditBalanceUSDC,
+        remainingCredit: fromMicroUsdc(result.remainingMicroUsdc),
+      };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Use credit to sponsor a transaction, from the user's own balance or their organization's pool.
+   * Under PERSONAL_FIRST the pool covers members whose own credit runs short; under ORGANIZATION_FIRST
+   * it is tried first. Users who opted in to auto top-up are topped up only when neither covers the amount.
+   */
+  async useSponsorshipCredit(
+    userId: string,
+    amountUSDC: number,
+    transactionType: string,
+    context: AuditContext = {}
+  ): Promise<SponsorshipCreditResult> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { userId },
+      select: { organizationId: true, organization: { select: { creditPolicy: true } } },
+    });
+
+    let organizationError: string | undefined;
+    if (
+      membership &&
+      (membership.organization.creditPolicy === 'ORGANIZATION_FIRST' ||
+        !(await gaslessCreditService.hasSufficientCredit(userId, amountUSDC)))
+    ) {
+      const pooled = await this.useOrganizationCredit(userId, membership.organizationId, amountUSDC, transactionType);
+      if (pooled.success) {
+        return pooled;
+      }
+      organizationError = pooled.error;
+    }
+
+    const creditCheck = await creditTopUpService.ensureCredit(userId, amountUSDC, transactionType, context);
+    if (!creditCheck.sufficient) {
+      return {
+        success: false,
+        insufficient: true,
+        error: 'Insufficient credit',
+        organizationError,
+        autoTopUp: creditCheck.autoTopUp,
+      };
+    }
+
+    const result = await gaslessCreditService.useCredit(userId, amountUSDC, transactionType);
+    return { ...result, organizationError, autoTopUp: creditCheck.autoTopUp };
+  }
+
+  /**
+   * Report pool usage per member and transaction type over a period (owners and admins).
+   * The period defaults to the current UTC month.
+   */
+  async getUsageReport(
+    userId: string,
+    query: OrganizationUsageQueryInput
+  ): Promise<OrganizationResult<{ report: OrganizationUsageReport }>> {
+    try {
+      const membership = await this.requireMembership(userId, MANAGER_ROLES);
+      const organizationId = membership.organizationId;
+      const to = query.to ?? new Date();
+      const from = query.from ?? startOfUtcMonth(to);
+      const where = { organizationId, createdAt: { gte: from, lte: to } };
+
+      const [byMember, byType] = await Promise.all([
+        prisma.creditLedgerEntry.groupBy({
+          by: ['userId', 'direction', 'reason'],
+          where,
+          _sum: { amountMicroUsdc: true },
+          _count: { _all: true },
+        }),
+        prisma.creditLedgerEntry.groupBy({
+          by: ['transactionType'],
+          where: { ...where, direction: 'DEBIT', reason: 'SPONSORED_TRANSACTION' },
+          _sum: { amountMicroUsdc: true },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const totals = emptyUsageRow();
+      const rows = new Map<string, OrganizationUsageRow>();
+      for (const group of byMember) {
+        const row = rows.get(group.userId) ?? emptyUsageRow();
+        const amountUSDC = fromMicroUsdc(group._sum.amountMicroUsdc ?? BigInt(0));
+        for (const target of [row, totals]) {
+          if (group.direction === 'DEBIT' && group.reason === 'SPONSORED_TRANSACTION') {
+            target.transactions += group._count._all;
+            target.spentUSDC += amountUSDC;
+          } else if (group.direction === 'CREDIT' && group.reason === 'REFUND') {
+            target.refundedUSDC += amountUSDC;
+          } else if (group.direction === 'CREDIT' && group.reason === 'ORGANIZATION_FUNDING') {
+            target.fundedUSDC += amountUSDC;
+          }
+          target.netSpentUSDC = target.spentUSDC - target.refundedUSDC;
+        }
+        rows.set(group.userId, row);
+      }
+
+      // Former members keep their rows; their email is looked up without a membership
+      const users = await prisma.user.findMany({
+        where: { id: { in: [...rows.keys()] } },
+        select: { id: true, email: true },
+      });
+      const emails = new Map(users.map((user) => [user.id, user.email]));
+
+      return {
+        success: true,
+        report: {
+          organizationId,
+          from,
+          to,
+          creditBalanceUSDC: fromMicroUsdc(membership.organization.creditBalanceMicroUsdc),
+          totals,
+          members: [...rows.entries()]
+            .map(([memberUserId, row]) => ({ userId: memberUserId, email: emails.get(memberUserId) ?? null, ...row }))
+            .sort((a, b) => b.netSpentUSDC - a.netSpentUSDC),
+          byTransactionType: byType.map((group) => ({
+            transactionType: group.transactionType ?? 'UNKNOWN',
+            transactions: group._count._all,
+            spentUSDC: fromMicroUsdc(group._sum.amountMicroUsdc ?? BigInt(0)),
+          })),
+        },
+      };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Get the organization's pool ledger, newest first. Members other than owners and admins
+   * only see their own entries.
+   */
+  async getLedger(userId: string, limit: number = 50): Promise<OrganizationResult<{ entries: CreditLedgerEntry[] }>> {
+    try {
+      const membership = await this.requireMembership(userId);
+      const entries = await prisma.creditLedgerEntry.findMany({
+        where: {
+          organizationId: membership.organizationId,
+          userId: MANAGER_ROLES.includes(membership.role) ? undefined : userId,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      return { success: true, entries };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Debit the organization's pool for a member's sponsored transaction.
+   * The pool is debited with a conditional update, which row-locks the organization until commit,
+   * so concurrent debits cannot overdraw it or take a member past their monthly spend limit.
+   */
+  private async useOrganizationCredit(
+    userId: string,
+    organizationId: string,
+    amountUSDC: number,
+    transactionType: string
+  ): Promise<SponsorshipCreditResult> {
+    const amountMicroUsdc = toMicroUsdc(amountUSDC);
+    if (amountMicroUsdc <= BigInt(0)) {
+      return { success: false, error: 'Credit amount must be positive' };
+    }
+
+    try {
+      const entry = await prisma.$transaction(async (tx) => {
+        const debited = await tx.organization.updateMany({
+          where: { id: organizationId, creditBalanceMicroUsdc: { gte: amountMicroUsdc } },
+          data: { creditBalanceMicroUsdc: { decrement: amountMicroUsdc } },
+        });
+        if (debited.count === 0) {
+          throw new OrganizationError('insufficient_credit', 'Organization credit pool cannot cover this transaction');
+        }
+
+        // Read under the lock, so a limit changed or a member removed meanwhile is respected
+        const member = await tx.organizationMember.findUnique({ where: { userId } });
+        if (!member || member.organizationId !== organizationId) {
+          throw new OrganizationError('not_member', 'You do not belong to this organization');
+        }
+        if (member.monthlySpendLimitMicroUsdc !== null) {
+          const spend = await this.getMonthlySpendByMember(tx, organizationId, new Date(), userId);
+          const spent = spend.get(userId) ?? BigInt(0);
+          if (spent + amountMicroUsdc > member.monthlySpendLimitMicroUsdc) {
+            throw new OrganizationError(
+              'spend_limit_reached',
+              `Monthly organization spend limit reached. Spent: ${fromMicroUsdc(spent)} USDC, ` +
+                `Limit: ${fromMicroUsdc(member.monthlySpendLimitMicroUsdc)} USDC`
+            );
+          }
+        }
+
+        const organization = await tx.organization.findUniqueOrThrow({
+          where: { id: organizationId },
+          select: { creditBalanceMicroUsdc: true },
+        });
+        return tx.creditLedgerEntry.create({
+          data: {
+            userId,
+            organizationId,
+            direction: 'DEBIT',
+            reason: 'SPONSORED_TRANSACTION',
+            amountMicroUsdc,
+            balanceAfterMicroUsdc: organization.creditBalanceMicroUsdc,
+            transactionType,
+          },
+        });
+      });
+
+      const remainingCredit = fromMicroUsdc(entry.balanceAfterMicroUsdc);
+      Logger.info(
+        `Organization credit used: ${amountUSDC} USDC of organization ${organizationId} for user ${userId}. ` +
+          `Remaining: ${remainingCredit} USDC`
+      );
+
+      return { success: true, organizationId, ledgerEntryId: entry.id, remainingCredit };
+    } catch (error) {
+      if (error instanceof OrganizationError) {
+        return { success: false, error: error.message };
+      }
+
+      Logger.error('Error using organization credit:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Pool credit spent per member this UTC month, less refunds
+   */
+  private async getMonthlySpendByMember(
+    client: Prisma.TransactionClient,
+    organizationId: string,
+    at: Date,
+    userId?: string
+  ): Promise<Map<string, bigint>> {
+    const groups = await client.creditLedgerEntry.groupBy({
+      by: ['userId'],
+      where: {
+        organizationId,
+        userId,
+        direction: 'DEBIT',
+        reason: 'SPONSORED_TRANSACTION',
+        createdAt: { gte: startOfUtcMonth(at) },
+        refund: { is: null },
+      },
+      _sum: { amountMicroUsdc: true },
+    });
+    return new Map(groups.map((group) => [group.userId, group._sum.amountMicroUsdc ?? BigInt(0)]));
+  }
+
+  private async requireMembership(userId: string, roles?: OrganizationRole[]): Promise<MembershipWithOrganization> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { userId },
+      include: { organization: true },
+    });
+    if (!membership) {
+      throw new OrganizationError('not_member', 'You do not belong to an organization');
+    }
+    if (roles && !roles.includes(membership.role)) {
+      throw new OrganizationError('forbidden', `This requires one of the roles: ${roles.join(', ')}`);
+    }
+    return membership;
+  }
+
+  /**
+   * Lock the organization's row and load one of its members, so concurrent role
+   * changes cannot both remove the last owner
+   */
+  private async lockMember(
+    tx: Prisma.TransactionClient,
+    membership: MembershipWithOrganization,
+    memberUserId: string
+  ): Promise<OrganizationMember> {
+    await tx.organization.update({
+      where: { id: membership.organizationId },
+      data: { updatedAt: new Date() },
+    });
+    const member = await tx.organizationMember.findUnique({ where: { userId: memberUserId } });
+    if (!member || member.organizationId !== membership.organizationId) {
+      throw new OrganizationError('not_found', 'Member not found in this organization');
+    }
+    return member;
+  }
+
+  private async assertHasOwner(tx: Prisma.TransactionClient, organizationId: string): Promise<void> {
+    const owners = await tx.organizationMember.count({ where: { organizationId, role: 'OWNER' } });
+    if (owners === 0) {
+      throw new OrganizationError('last_owner', 'An organization must keep at least one owner');
+    }
+  }
+
+  private toFailure(error: unknown): { success: false; reason: OrganizationFailure; error: string } {
+    if (error instanceof OrganizationError) {
+      return { success: false, reason: error.reason, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// Export singleton instance
+const organizationService = new OrganizationService();
+export default organizationService;
@@ -0,0 +1,211 @@
+import { OtpAttemptScope, OtpAttemptTracker } from '@prisma/client';
+import { config } from '../config/env';
+import { prismaMock as db } from '../test/prisma-mock';
+import auditService from './audit.service';
+import otpGuardService from './otp-guard.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('./audit.service', () => ({ __esModule: true, default: { record: jest.fn() } }));
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+const context = { actorUserId: null, ip: '10.0.0.1' };
+
+const tracker = (scope: OtpAttemptScope, overrides: Partial<OtpAttemptTracker> = {}): OtpAttemptTracker => ({
+  id: `${scope.toLowerCase()}-tracker`,
+  scope,
+  identifier: scope === 'EMAIL' ? 'user@example.com' : '10.0.0.1',
+  failedAttempts: 0,
+  lastFailedAt: null,
+  nextAttemptAt: null,
+  lockedUntil: null,
+  lockoutCount: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const secondsFromNow = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+describe('OtpGuardService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+
+    Object.assign(config.otpLockout, {
+      maxAttemptsPerEmail: 5,
+      maxAttemptsPerIp: 20,
+      attemptWindowMs: 15 * 60 * 1000,
+      backoffFreeAttempts: 2,
+      backoffBaseMs: 2000,
+      lockoutMs: 30 * 60 * 1000,
+      maxLockoutMs: 24 * 60 * 60 * 1000,
+    });
+
+    db.otpAttemptTracker.upsert.mockImplementation(({ create }) => Promise.resolve(tracker(create.scope)));
+    db.otpAttemptTracker.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('reserveAttempt', () => {
+    it('counts the attempt against the email and the IP before the code is checked', async () => {
+      const result = await otpGuardService.reserveAttempt('User@Example.com ', '10.0.0.1');
+
+      expect(result).toEqual({ allowed: true });
+      expect(db.otpAttemptTracker.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { scope_identifier: { scope: 'EMAIL', identifier: 'user@example.com' } } })
+      );
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledTimes(2);
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledWith({
+        where: { id: 'email-tracker', failedAttempts: 0, lastFailedAt: null, lockoutCount: 0 },
+        data: { failedAttempts: 1, lastFailedAt: NOW, nextAttemptAt: null },
+      });
+    });
+
+    it('starts the back-off once the free attempts are used', async () => {
+      db.otpAttemptTracker.upsert.mockResolvedValue(
+        tracker('EMAIL', { failedAttempts: 2, lastFailedAt: secondsFromNow(-60) })
+      );
+
+      await otpGuardService.reserveAttempt('user@example.com');
+
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { failedAttempts: 3, lastFailedAt: NOW, nextAttemptAt: secondsFromNow(2) } })
+      );
+    });
+
+    it('rejects attempts during the back-off', async () => {
+      db.otpAttemptTracker.upsert.mockResolvedValue(tracker('EMAIL', { failedAttempts: 3, nextAttemptAt: secondsFromNow(4) }));
+
+      const result = await otpGuardService.reserveAttempt('user@example.com', '10.0.0.1');
+
+      expect(result).toEqual({ allowed: false, reason: 'backoff', scope: 'EMAIL', retryAfterMs: 4000 });
+      expect(db.otpAttemptTracker.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects attempts while the email is locked out', async () => {
+      db.otpAttemptTracker.upsert.mockResolvedValue(tracker('EMAIL', { lockedUntil: secondsFromNow(600), lockoutCount: 1 }));
+
+      const result = await otpGuardService.reserveAttempt('user@example.com');
+
+      expect(result).toEqual({ allowed: false, reason: 'locked', scope: 'EMAIL', retryAfterMs: 600_000 });
+    });
+
+    it('rejects a parallel attempt once every remaining attempt is in flight', async () => {
+      db.otpAttemptTracker.upsert.mockResolvedValue(tracker('EMAIL', { failedAttempts: 5, lastFailedAt: NOW }));
+
+      const result = await otpGuardService.reserveAttempt('user@example.com');
+
+      expect(result).toMatchObject({ allowed: false, reason: 'locked', scope: 'EMAIL' });
+      expect(db.otpAttemptTracker.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('ignores failures older than the attempt window', async () => {
+      db.otpAttemptTracker.upsert.mockResolvedValue(
+        tracker('EMAIL', { failedAttempts: 5, lastFailedAt: secondsFromNow(-16 * 60) })
+      );
+
+      const result = await otpGuardService.reserveAttempt('user@example.com');
+
+      expect(result).toEqual({ allowed: true });
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ failedAttempts: 1 }) })
+      );
+    });
+
+    it('re-reads the tracker when a concurrent attempt claimed it first', async () => {
+      db.otpAttemptTracker.upsert
+        .mockResolvedValueOnce(tracker('EMAIL'))
+        .mockResolvedValueOnce(tracker('EMAIL', { failedAttempts: 3, lastFailedAt: NOW, nextAttemptAt: secondsFromNow(2) }));
+      db.otpAttemptTracker.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await otpGuardService.reserveAttempt('user@example.com');
+
+      expect(result).toEqual({ allowed: false, reason: 'backoff', scope: 'EMAIL', retryAfterMs: 2000 });
+      expect(db.otpAttemptTracker.upsert).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives the email its attempt back when the IP is rejected', async () => {
+      db.otpAttemptTracker.upsert.mockImplementation(({ create }) =>
+        Promise.resolve(
+          create.scope === 'IP' ? tracker('IP', { lockedUntil: secondsFromNow(60) }) : tracker('EMAIL')
+        )
+      );
+      db.otpAttemptTracker.findUnique.mockResolvedValue(tracker('EMAIL', { failedAttempts: 1, lastFailedAt: NOW }));
+
+      const result = await otpGuardService.reserveAttempt('user@example.com', '10.0.0.1');
+
+      expect(result).toMatchObject({ allowed: false, reason: 'locked', scope: 'IP' });
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'email-tracker', failedAttempts: 1 },
+        data: { failedAttempts: { decrement: 1 }, nextAttemptAt: null },
+      });
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('reports the attempts left below the limit', async () => {
+      db.otpAttemptTracker.findUnique.mockResolvedValue(tracker('EMAIL', { failedAttempts: 2, lastFailedAt: NOW }));
+
+      const result = await otpGuardService.recordFailure('user@example.com', { ...context, ip: null });
+
+      expect(result).toEqual({ attemptsRemaining: 3, lockedUntil: null });
+      expect(db.otpAttemptTracker.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('locks the email out once the limit is reached and audits it', async () => {
+      db.otpAttemptTracker.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.scope_identifier?.scope === 'IP'
+            ? tracker('IP', { failedAttempts: 5 })
+            : tracker('EMAIL', { failedAttempts: 5, lastFailedAt: NOW, lockoutCount: 1 })
+        )
+      );
+      db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+      const result = await otpGuardService.recordFailure('user@example.com', context);
+
+      const lockedUntil = secondsFromNow(60 * 60);
+      expect(result).toEqual({ attemptsRemaining: 0, lockedUntil });
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledTimes(1);
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledWith({
+        where: { id: 'email-tracker', failedAttempts: 5, lockoutCount: 1 },
+        data: { failedAttempts: 0, nextAttemptAt: null, lockedUntil, lockoutCount: { increment: 1 } },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        context,
+        expect.objectContaining({ action: 'OTP_LOCKOUT_TRIGGERED', targetType: 'User', targetId: 'user-1' })
+      );
+    });
+
+    it('does not apply a lockout twice when failures race', async () => {
+      db.otpAttemptTracker.findUnique
+        .mockResolvedValueOnce(tracker('EMAIL', { failedAttempts: 5 }))
+        .mockResolvedValueOnce(tracker('EMAIL', { lockedUntil: secondsFromNow(1800), lockoutCount: 1 }));
+      db.otpAttemptTracker.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await otpGuardService.recordFailure('user@example.com', { ...context, ip: null });
+
+      expect(result).toEqual({ attemptsRemaining: 0, lockedUntil: secondsFromNow(1800) });
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseAttempt', () => {
+    it('gives back the attempts reserved for the email and the IP', async () => {
+      db.otpAttemptTracker.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(tracker(where.scope_identifier.scope, { failedAttempts: 4, nextAttemptAt: secondsFromNow(4) }))
+      );
+
+      await otpGuardService.releaseAttempt('user@example.com', '10.0.0.1');
+
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledTimes(2);
+      expect(db.otpAttemptTracker.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ip-tracker', failedAttempts: 4 },
+        data: { failedAttempts: { decrement: 1 } },
+      });
+    });
+  });
+});
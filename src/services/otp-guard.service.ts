@@ -0,0 +1,311 @@
+// src/services/otp-guard.service.ts
+import { OtpAttemptScope, OtpAttemptTracker } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import auditService, { AuditContext } from './audit.service';
+
+export type OtpAttemptCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'backoff'; scope: OtpAttemptScope; retryAfterMs: number };
+
+export interface OtpFailureResult {
+  // Attempts left before the email is locked
+  attemptsRemaining: number;
+  lockedUntil: Date | null;
+}
+
+// Cleanup interval for idle attempt trackers (1 hour)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Times a claim is retried when concurrent attempts keep changing the tracker
+const MAX_CLAIM_RETRIES = 3;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const maxAttemptsFor = (scope: OtpAttemptScope): number =>
+  scope === 'EMAIL' ? config.otpLockout.maxAttemptsPerEmail : config.otpLockout.maxAttemptsPerIp;
+
+// Delay before the next attempt once the free attempts are used up
+const backoffMs = (failedAttempts: number): number => {
+  const penalized = failedAttempts - config.otpLockout.backoffFreeAttempts;
+  return penalized > 0 ? config.otpLockout.backoffBaseMs * 2 ** (penalized - 1) : 0;
+};
+
+// Each consecutive lockout doubles the previous one
+const lockoutMs = (lockoutCount: number): number =>
+  Math.min(config.otpLockout.lockoutMs * 2 ** lockoutCount, config.otpLockout.maxLockoutMs);
+
+export class OtpGuardService {
+  /**
+   * Claim an OTP attempt for this email and IP before the code is verified.
+   * The attempt is counted up front, so parallel submissions cannot all pass
+   * the back-off check; handlers settle it with recordFailure / recordSuccess.
+   */
+  async reserveAttempt(email: string, ip?: string | null): Promise<OtpAttemptCheck> {
+    const emailCheck = await this.claimAttempt('EMAIL', normalizeEmail(email));
+    if (!emailCheck.allowed || !ip) {
+      return emailCheck;
+    }
+
+    const ipCheck = await this.claimAttempt('IP', ip);
+    if (!ipCheck.allowed) {
+      await this.releaseClaim('EMAIL', normalizeEmail(email));
+    }
+    return ipCheck;
+  }
+
+  /**
+   * Settle a reserved attempt whose code was rejected,
+   * locking out the email or IP once the limit is reached
+   */
+  async recordFailure(email: string, context: AuditContext): Promise<OtpFailureResult> {
+    const emailTracker = await this.applyLockout('EMAIL', normalizeEmail(email), context, email);
+    if (context.ip) {
+      await this.applyLockout('IP', context.ip, context, email);
+    }
+
+    return {
+      attemptsRemaining: !emailTracker || (emailTracker.lockedUntil && emailTracker.lockedUntil > new Date())
+        ? 0
+        : Math.max(0, config.otpLockout.maxAttemptsPerEmail - emailTracker.failedAttempts),
+      lockedUntil: emailTracker?.lockedUntil ?? null,
+    };
+  }
+
+  /**
+   * Clear the failure history for an email after a successful verification
+   * and give the IP back the attempt it reserved
+   */
+  async recordSuccess(email: string, ip?: string | null): Promise<void> {
+    await prisma.otpAttemptTracker.deleteMany({
+      where: { scope: 'EMAIL', identifier: normalizeEmail(email) },
+    });
+    if (ip) {
+      await this.releaseClaim('IP', ip);
+    }
+  }
+
+  /**
+   * Give back an attempt reserved for a request that never verified a code
+   */
+  async releaseAttempt(email: string, ip?: string | null): Promise<void> {
+    await this.releaseClaim('EMAIL', normalizeEmail(email));
+    if (ip) {
+      await this.releaseClaim('IP', ip);
+    }
+  }
+
+  /**
+   * List emails and IPs that are currently locked out
+   */
+  async listLockouts(): Promise<OtpAttemptTracker[]> {
+    return prisma.otpAttemptTracker.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      orderBy: { lockedUntil: 'desc' },
+    });
+  }
+
+  /**
+   * Lift a lockout and reset attempt history (admin action)
+   */
+  async unlock(target: { email?: string; ip?: string }, context: AuditContext): Promise<number> {
+    const identifiers = [
+      ...(target.email ? [{ scope: 'EMAIL' as const, identifier: normalizeEmail(target.email) }] : []),
+      ...(target.ip ? [{ scope: 'IP' as const, identifier: target.ip }] : []),
+    ];
+
+    let cleared = 0;
+    for (const { scope, identifier } of identifiers) {
+      const tracker = await prisma.otpAttemptTracker.findUnique({
+        where: { scope_identifier: { scope, identifier } },
+      });
+      if (!tracker) {
+        continue;
+      }
+
+      await prisma.otpAttemptTracker.delete({ where: { id: tracker.id } });
+      cleared++;
+
+      await auditService.record(context, {
+        action: 'OTP_LOCKOUT_CLEARED',
+        ...(await this.auditTarget(scope, identifier)),
+        before: {
+          failedAttempts: tracker.failedAttempts,
+          lockedUntil: tracker.lockedUntil,
+          lockoutCount: tracker.lockoutCount,
+        },
+        after: { failedAttempts: 0, lockedUntil: null, lockoutCount: 0 },
+        metadata: { scope, identifier },
+      });
+
+      Logger.info(`OTP lockout cleared for ${scope.toLowerCase()} ${identifier} by ${context.actorUserId}`);
+    }
+
+    return cleared;
+  }
+
+  /**
+   * Remove trackers with no recent failures and no active lockout
+   */
+  async purgeStale(): Promise<void> {
+    const cutoff = new Date(Date.now() - Math.max(config.otpLockout.attemptWindowMs, config.otpLockout.maxLockoutMs));
+    const result = await prisma.otpAttemptTracker.deleteMany({
+      where: {
+        updatedAt: { lt: cutoff },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+      },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Purged ${result.count} stale OTP attempt trackers`);
+    }
+  }
+
+  // Count an attempt with a compare-and-set on the tracker, so concurrent
+  // claims re-read the back-off written by whichever one won
+  private async claimAttempt(scope: OtpAttemptScope, identifier: string): Promise<OtpAttemptCheck> {
+    for (let claim = 0; claim < MAX_CLAIM_RETRIES; claim++) {
+      const now = new Date();
+      const tracker = await prisma.otpAttemptTracker.upsert({
+        where: { scope_identifier: { scope, identifier } },
+        create: { scope, identifier },
+        update: {},
+      });
+
+      const lockedMs = tracker.lockedUntil ? tracker.lockedUntil.getTime() - now.getTime() : 0;
+      const backoffRemainingMs = tracker.nextAttemptAt ? tracker.nextAttemptAt.getTime() - now.getTime() : 0;
+      if (lockedMs > 0 || backoffRemainingMs > 0) {
+        return {
+          allowed: false,
+          reason: lockedMs > 0 ? 'locked' : 'backoff',
+          scope,
+          retryAfterMs: Math.max(lockedMs, backoffRemainingMs),
+        };
+      }
+
+      // Failures older than the window no longer count
+      const windowExpired =
+        !tracker.lastFailedAt || now.getTime() - tracker.lastFailedAt.getTime() > config.otpLockout.attemptWindowMs;
+      const failedAttempts = windowExpired ? 0 : tracker.failedAttempts;
+
+      // Every attempt is already in flight; the one that fails will lock out
+      if (failedAttempts >= maxAttemptsFor(scope)) {
+        return { allowed: false, reason: 'locked', scope, retryAfterMs: lockoutMs(tracker.lockoutCount) };
+      }
+
+      const delay = backoffMs(failedAttempts + 1);
+      const claimed = await prisma.otpAttemptTracker.updateMany({
+        where: {
+          id: tracker.id,
+          failedAttempts: tracker.failedAttempts,
+          lastFailedAt: tracker.lastFailedAt,
+          lockoutCount: tracker.lockoutCount,
+        },
+        data: {
+          failedAttempts: failedAttempts + 1,
+          lastFailedAt: now,
+          nextAttemptAt: delay > 0 ? new Date(now.getTime() + delay) : null,
+        },
+      });
+      if (claimed.count === 1) {
+        return { allowed: true };
+      }
+    }
+
+    return { allowed: false, reason: 'backoff', scope, retryAfterMs: config.otpLockout.backoffBaseMs };
+  }
+
+  // Give back a reserved attempt that did not fail
+  private async releaseClaim(scope: OtpAttemptScope, identifier: string): Promise<void> {
+    const tracker = await prisma.otpAttemptTracker.findUnique({
+      where: { scope_identifier: { scope, identifier } },
+    });
+    if (!tracker || tracker.failedAttempts === 0) {
+      return;
+    }
+
+    await prisma.otpAttemptTracker.updateMany({
+      where: { id: tracker.id, failedAttempts: tracker.failedAttempts },
+      data: {
+        failedAttempts: { decrement: 1 },
+        ...(backoffMs(tracker.failedAttempts - 1) === 0 ? { nextAttemptAt: null } : {}),
+      },
+    });
+  }
+
+  private async applyLockout(
+    scope: OtpAttemptScope,
+    identifier: string,
+    context: AuditContext,
+    email: string
+  ): Promise<OtpAttemptTracker | null> {
+    const tracker = await prisma.otpAttemptTracker.findUnique({
+      where: { scope_identifier: { scope, identifier } },
+    });
+    if (!tracker || tracker.failedAttempts < maxAttemptsFor(scope)) {
+      return tracker;
+    }
+
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockoutMs(tracker.lockoutCount));
+    const locked = await prisma.otpAttemptTracker.updateMany({
+      where: { id: tracker.id, failedAttempts: tracker.failedAttempts, lockoutCount: tracker.lockoutCount },
+      data: {
+        failedAttempts: 0,
+        nextAttemptAt: null,
+        lockedUntil,
+        lockoutCount: { increment: 1 },
+      },
+    });
+
+    // A concurrent failure already applied this lockout
+    if (locked.count === 0) {
+      return prisma.otpAttemptTracker.findUnique({ where: { id: tracker.id } });
+    }
+
+    Logger.warn(`OTP lockout triggered for ${scope.toLowerCase()} ${identifier} until ${lockedUntil.toISOString()}`);
+
+    await auditService.record(context, {
+      action: 'OTP_LOCKOUT_TRIGGERED',
+      ...(await this.auditTarget(scope, identifier)),
+      before: { lockedUntil: tracker.lockedUntil, lockoutCount: tracker.lockoutCount },
+      after: { lockedUntil, lockoutCount: tracker.lockoutCount + 1 },
+      metadata: { scope, identifier, email: normalizeEmail(email), failedAttempts: tracker.failedAttempts },
+    });
+
+    return { ...tracker, failedAttempts: 0, nextAttemptAt: null, lockedUntil, lockoutCount: tracker.lockoutCount + 1 };
+  }
+
+  private async auditTarget(scope: OtpAttemptScope, identifier: string) {
+    if (scope === 'IP') {
+      return { targetType: 'IpAddress', targetId: identifier };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: identifier },
+      select: { id: true },
+    });
+    return { targetType: 'User', targetId: user?.id ?? null };
+  }
+}
+
+// Export singleton instance
+const otpGuardService = new OtpGuardService();
+export default otpGuardService;
+
+/**
+ * Start periodic cleanup of idle OTP attempt trackers
+ */
+export const startOtpAttemptCleanup = (): void => {
+  const runCleanup = () => {
+    otpGuardService.purgeStale().catch((error) => {
+      Logger.error('Error purging OTP attempt trackers:', error);
+    });
+  };
+
+  runCleanup();
+  setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+  Logger.info(`OTP attempt cleanup started - running every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`);
+};
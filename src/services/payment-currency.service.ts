@@ -0,0 +1,133 @@
+// src/services/payment-currency.service.ts
+import { PublicKey } from '@solana/web3.js';
+import Logger from '../utils/logger';
+import gaslessPricingService from './gasless-pricing.service';
+import { TOKEN_MINTS } from './blockchain.service';
+import { config } from '../config/env';
+
+export interface PaymentCurrency {
+  symbol: string;
+  // Null for native SOL, which is paid with a System Program transfer to the recipient wallet
+  mint: PublicKey | null;
+  decimals: number;
+  // USDC price per whole unit; priced from the price source when unset
+  fixedPriceUSDC?: number;
+}
+
+export interface PaymentConversion {
+  currency: PaymentCurrency;
+  // Amount to pay in the currency's smallest units
+  amount: number;
+  // USDC credited per whole unit of the currency
+  exchangeRateUSDC: number;
+}
+
+const MICRO_USDC_PER_USDC = 1_000_000;
+
+export const USDC_CURRENCY: PaymentCurrency = {
+  symbol: 'USDC',
+  mint: new PublicKey(TOKEN_MINTS.USDC),
+  decimals: 6,
+  fixedPriceUSDC: 1,
+};
+
+export const SOL_CURRENCY: PaymentCurrency = { symbol: 'SOL', mint: null, decimals: 9 };
+
+/**
+ * Parse a SYMBOL:MINT:DECIMALS[:FIXED_PRICE_USDC] entry from GASLESS_EXTRA_PAYMENT_TOKENS
+ */
+const parseExtraToken = (entry: string): PaymentCurrency | null => {
+  const [symbol, mint, decimals, fixedPrice] = entry.split(':').map((part) => part.trim());
+  try {
+    const currency: PaymentCurrency = {
+      symbol: symbol.toUpperCase(),
+      mint: new PublicKey(mint),
+      decimals: parseInt(decimals, 10),
+      fixedPriceUSDC: fixedPrice ? parseFloat(fixedPrice) : undefined,
+    };
+    if (!currency.symbol || !Number.isInteger(currency.decimals) || currency.decimals < 0) {
+      throw new Error('symbol and decimals are required');
+    }
+    if (currency.fixedPriceUSDC !== undefined && !(currency.fixedPriceUSDC > 0)) {
+      throw new Error('fixed price must be positive');
+    }
+    return currency;
+  } catch (error) {
+    Logger.warn(`Ignoring payment token "${entry}": ${error instanceof Error ? error.message : 'invalid entry'}`);
+    return null;
+  }
+};
+
+export class PaymentCurrencyService {
+  private currencies: PaymentCurrency[] | null = null;
+
+  /**
+   * Currencies credit can be bought with: USDC, SOL unless disabled, and any configured SPL tokens
+   */
+  getSupportedCurrencies(): PaymentCurrency[] {
+    if (!this.currencies) {
+      const currencies = [USDC_CURRENCY];
+      if (config.paymentCurrencies.acceptSol) {
+        currencies.push(SOL_CURRENCY);
+      }
+      for (const entry of config.paymentCurrencies.extraTokens) {
+        const currency = parseExtraToken(entry);
+        if (currency && !currencies.some((existing) => existing.symbol === currency.symbol)) {
+          currencies.push(currency);
+        }
+      }
+      this.currencies = currencies;
+    }
+    return this.currencies;
+  }
+
+  /**
+   * Look up an accepted currency by symbol, case-insensitively
+   */
+  getCurrency(symbol: string): PaymentCurrency | null {
+    return this.getSupportedCurrencies().find((currency) => currency.symbol === symbol.toUpperCase()) ?? null;
+  }
+
+  /**
+   * Current USDC price of one whole unit of a currency
+   */
+  async getExchangeRateUsdc(currency: PaymentCurrency): Promise<number> {
+    if (currency.fixedPriceUSDC !== undefined) {
+      return currency.fixedPriceUSDC;
+    }
+    if (!currency.mint) {
+      return gaslessPricingService.getSolPriceUsdc();
+    }
+    return gaslessPricingService.getTokenPriceUsdc(currency.mint.toBase58());
+  }
+
+  /**
+   * Convert a USDC price (micro-USDC) to what must be paid in a currency, rounding up
+   */
+  async convert(currency: PaymentCurrency, amountMicroUsdc: number): Promise<PaymentConversion> {
+    if (currency.symbol === USDC_CURRENCY.symbol) {
+      return { currency, amount: amountMicroUsdc, exchangeRateUSDC: 1 };
+    }
+
+    const exchangeRateUSDC = await this.getExchangeRateUsdc(currency);
+    const amount = Math.ceil(
+      (amountMicroUsdc * 10 ** currency.decimals) / (exchangeRateUSDC * MICRO_USDC_PER_USDC)
+    );
+    return { currency, amount, exchangeRateUSDC };
+  }
+
+  /**
+   * USDC credit for an amount received in a currency at the quoted rate, rounded down
+   */
+  toCreditUsdc(currency: PaymentCurrency, amountReceived: number, exchangeRateUSDC: number): number {
+    // The epsilon keeps floating-point noise from costing a micro-USDC on exact conversions
+    const microUsdc = Math.floor(
+      (amountReceived * exchangeRateUSDC * MICRO_USDC_PER_USDC) / 10 ** currency.decimals + 1e-6
+    );
+    return microUsdc / MICRO_USDC_PER_USDC;
+  }
+}
+
+// Export singleton instance
+const paymentCurrencyService = new PaymentCurrencyService();
+export default paymentCurrencyService;
@@ -0,0 +1,133 @@
+import { prismaError, prismaMock as db } from '../test/prisma-mock';
+import promoCodeService from './promo-code.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('./audit.service', () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock('./gasless.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./credit-notification.service', () => ({ __esModule: true, default: { send: jest.fn() } }));
+
+const promoCode = (overrides: Record<string, unknown> = {}) => ({
+  id: 'promo-1',
+  code: 'WELCOME',
+  type: 'PROMO',
+  creditMicroUsdc: BigInt(2_500_000),
+  maxRedemptions: 100,
+  maxRedemptionsPerUser: 1,
+  redemptionCount: 4,
+  expiresAt: null,
+  isActive: true,
+  ...overrides,
+});
+
+describe('PromoCodeService.redeem', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    db.promoCode.findUnique.mockResolvedValue(promoCode());
+    db.promoCode.updateMany.mockResolvedValue({ count: 1 });
+    db.promoRedemption.count.mockResolvedValue(0);
+    db.creditAccount.upsert.mockResolvedValue({ balanceMicroUsdc: BigInt(3_000_000) });
+    db.creditLedgerEntry.create.mockResolvedValue({
+      id: 'entry-1',
+      amountMicroUsdc: BigInt(2_500_000),
+      balanceAfterMicroUsdc: BigInt(3_000_000),
+    });
+  });
+
+  it('grants the code as bonus credit and records the redemption', async () => {
+    const result = await promoCodeService.redeem('user-1', ' welcome ');
+
+    expect(result).toMatchObject({ success: true, amountUSDC: 2.5, remainingCredit: 3, promoCode: { redemptionCount: 5 } });
+    expect(db.promoCode.findUnique).toHaveBeenCalledWith({ where: { code: 'WELCOME' } });
+    expect(db.creditAccount.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ bonusBalanceMicroUsdc: { increment: BigInt(2_500_000) } }),
+      })
+    );
+    expect(db.promoRedemption.create).toHaveBeenCalledWith({
+      data: { promoCodeId: 'promo-1', userId: 'user-1', redemptionNumber: 1, ledgerEntryId: 'entry-1' },
+    });
+  });
+
+  it('claims a redemption only while the code is active, unexpired and under its limit', async () => {
+    await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(db.promoCode.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'promo-1',
+        isActive: true,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: expect.any(Date) } }],
+        redemptionCount: { lt: 100 },
+      },
+      data: { redemptionCount: { increment: 1 } },
+    });
+  });
+
+  it('does not limit total redemptions when the code has no maximum', async () => {
+    db.promoCode.findUnique.mockResolvedValue(promoCode({ maxRedemptions: null }));
+
+    await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(db.promoCode.updateMany.mock.calls[0][0].where.redemptionCount).toBeUndefined();
+  });
+
+  it('rejects an unknown code', async () => {
+    db.promoCode.findUnique.mockResolvedValue(null);
+
+    const result = await promoCodeService.redeem('user-1', 'MISSING');
+
+    expect(result).toEqual({ success: false, reason: 'not_found', error: 'Promo code not found' });
+    expect(db.promoCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code whose redemption limit is used up', async () => {
+    db.promoCode.findUnique.mockResolvedValue(promoCode({ redemptionCount: 100 }));
+    db.promoCode.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(result).toEqual({ success: false, reason: 'unavailable', error: 'Promo code is no longer available' });
+    expect(db.creditAccount.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired code', async () => {
+    db.promoCode.findUnique.mockResolvedValue(promoCode({ expiresAt: new Date(Date.now() - 1000) }));
+    db.promoCode.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(result).toEqual({ success: false, reason: 'unavailable', error: 'Promo code has expired' });
+  });
+
+  it('rejects a user who has reached the per-user limit', async () => {
+    db.promoRedemption.count.mockResolvedValue(1);
+
+    const result = await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(result).toEqual({
+      success: false,
+      reason: 'already_redeemed',
+      error: 'You have already redeemed this promo code',
+    });
+    expect(db.creditAccount.upsert).not.toHaveBeenCalled();
+    expect(db.promoRedemption.create).not.toHaveBeenCalled();
+  });
+
+  it('numbers repeat redemptions when the code allows several per user', async () => {
+    db.promoCode.findUnique.mockResolvedValue(promoCode({ maxRedemptionsPerUser: 3 }));
+    db.promoRedemption.count.mockResolvedValue(2);
+
+    const result = await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(result.success).toBe(true);
+    expect(db.promoRedemption.create.mock.calls[0][0].data.redemptionNumber).toBe(3);
+  });
+
+  it('treats a concurrent redemption by the same user as already redeemed', async () => {
+    db.promoRedemption.create.mockRejectedValue(prismaError('P2002'));
+
+    const result = await promoCodeService.redeem('user-1', 'WELCOME');
+
+    expect(result).toMatchObject({ success: false, reason: 'already_redeemed' });
+  });
+});
@@ -0,0 +1,243 @@
+// src/services/promo-code.service.ts
+import crypto from 'crypto';
+import { Prisma, PromoCode, PromoCodeType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import auditService, { AuditContext } from './audit.service';
+import gaslessCreditService, { fromMicroUsdc, toMicroUsdc } from './gasless-credit.service';
+import { CreatePromoCodeInput, UpdatePromoCodeInput } from '../schemas/admin.schemas';
+
+export type CreatePromoCodesResult =
+  | { success: true; promoCodes: PromoCode[] }
+  | { success: false; conflict?: boolean; error: string };
+
+export type PromoRedemptionFailure = 'not_found' | 'unavailable' | 'already_redeemed';
+
+export type RedeemPromoCodeResult =
+  | { success: true; promoCode: PromoCode; amountUSDC: number; remainingCredit: number }
+  | { success: false; reason: PromoRedemptionFailure; error: string };
+
+// Voucher alphabet without look-alike characters (0/O, 1/I/L)
+const VOUCHER_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const VOUCHER_GROUPS = 3;
+const VOUCHER_GROUP_LENGTH = 4;
+
+// Thrown inside a redemption transaction to roll it back
+class PromoRedemptionError extends Error {
+  constructor(readonly reason: PromoRedemptionFailure, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+const generateVoucherCode = (): string => {
+  const bytes = crypto.randomBytes(VOUCHER_GROUPS * VOUCHER_GROUP_LENGTH);
+  const chars = Array.from(bytes, (byte) => VOUCHER_ALPHABET[byte % VOUCHER_ALPHABET.length]).join('');
+  return chars.match(new RegExp(`.{${VOUCHER_GROUP_LENGTH}}`, 'g'))!.join('-');
+};
+
+// Audited fields, with amounts in USDC; voucher codes are bearer secrets and are left out
+const toAuditSnapshot = (promoCode: PromoCode) => ({
+  type: promoCode.type,
+  creditUSDC: fromMicroUsdc(promoCode.creditMicroUsdc),
+  maxRedemptions: promoCode.maxRedemptions,
+  maxRedemptionsPerUser: promoCode.maxRedemptionsPerUser,
+  expiresAt: promoCode.expiresAt,
+  isActive: promoCode.isActive,
+});
+
+export class PromoCodeService {
+  /**
+   * Create a shared promo code, or a batch of single-use vouchers (admin action)
+   */
+  async createPromoCodes(input: CreatePromoCodeInput, context: AuditContext): Promise<CreatePromoCodesResult> {
+    const isVoucher = input.type === PromoCodeType.VOUCHER;
+    const codes = isVoucher
+      ? Array.from({ length: input.count }, generateVoucherCode)
+      : [normalizePromoCode(input.code!)];
+
+    let promoCodes: PromoCode[];
+    try {
+      promoCodes = await prisma.$transaction(
+        codes.map((code) =>
+          prisma.promoCode.create({
+            data: {
+              code,
+              type: input.type,
+              description: input.description,
+              creditMicroUsdc: toMicroUsdc(input.creditUSDC),
+              maxRedemptions: isVoucher ? 1 : input.maxRedemptions,
+              maxRedemptionsPerUser: isVoucher ? 1 : input.maxRedemptionsPerUser,
+              expiresAt: input.expiresAt,
+              createdByUserId: context.actorUserId || null,
+            },
+          })
+        )
+      );
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return {
+          success: false,
+          conflict: true,
+          error: isVoucher ? 'Generated voucher code collided, please retry' : 'A promo code with this code already exists',
+        };
+      }
+      throw error;
+    }
+
+    const [first] = promoCodes;
+    await auditService.record(context, {
+      action: 'PROMO_CODE_CREATED',
+      targetType: 'PromoCode',
+      targetId: promoCodes.length === 1 ? first.id : null,
+      after: toAuditSnapshot(first),
+      metadata: isVoucher ? { count: promoCodes.length } : { code: first.code },
+    });
+
+    Logger.info(`${promoCodes.length} ${input.type} code(s) created by ${context.actorUserId}`);
+    return { success: true, promoCodes };
+  }
+
+  /**
+   * List promo codes, newest first
+   */
+  async listPromoCodes(filters: { type?: PromoCodeType; limit: number }): Promise<PromoCode[]> {
+    return prisma.promoCode.findMany({
+      where: { type: filters.type },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+    });
+  }
+
+  /**
+   * Deactivate a code or change its expiry and redemption limit (admin action)
+   */
+  async updatePromoCode(id: string, input: UpdatePromoCodeInput, context: AuditContext): Promise<PromoCode | null> {
+    const existing = await prisma.promoCode.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await prisma.promoCode.update({
+      where: { id },
+      data: {
+        description: input.description,
+        maxRedemptions: input.maxRedemptions,
+        expiresAt: input.expiresAt,
+        isActive: input.isActive,
+      },
+    });
+
+    await auditService.record(context, {
+      action: 'PROMO_CODE_UPDATED',
+      targetType: 'PromoCode',
+      targetId: updated.id,
+      before: toAuditSnapshot(existing),
+      after: toAuditSnapshot(updated),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Redeem a promo code or voucher for bonus credit.
+   * The code's redemption count is claimed with a conditional update, which row-locks the
+   * code until commit, so concurrent redemptions cannot exceed its limits.
+   */
+  async redeem(userId: string, rawCode: string, context: AuditContext = {}): Promise<RedeemPromoCodeResult> {
+    const code = normalizePromoCode(rawCode);
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const now = new Date();
+        const promoCode = await tx.promoCode.findUnique({ where: { code } });
+        if (!promoCode) {
+          throw new PromoRedemptionError('not_found', 'Promo code not found');
+        }
+
+        const claimed = await tx.promoCode.updateMany({
+          where: {
+            id: promoCode.id,
+            isActive: true,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+            redemptionCount: promoCode.maxRedemptions === null ? undefined : { lt: promoCode.maxRedemptions },
+          },
+          data: { redemptionCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) {
+          const reason = promoCode.expiresAt && promoCode.expiresAt <= now ? 'has expired' : 'is no longer available';
+          throw new PromoRedemptionError('unavailable', `Promo code ${reason}`);
+        }
+
+        const previousRedemptions = await tx.promoRedemption.count({
+          where: { promoCodeId: promoCode.id, userId },
+        });
+        if (previousRedemptions >= promoCode.maxRedemptionsPerUser) {
+          throw new PromoRedemptionError('already_redeemed', 'You have already redeemed this promo code');
+        }
+
+        const entry = await gaslessCreditService.addBonusCredit(tx, userId, promoCode.creditMicroUsdc, 'PROMO_CODE', {
+          metadata: { promoCodeId: promoCode.id, type: promoCode.type },
+        });
+        await tx.promoRedemption.create({
+          data: {
+            promoCodeId: promoCode.id,
+            userId,
+            redemptionNumber: previousRedemptions + 1,
+            ledgerEntryId: entry.id,
+          },
+        });
+
+        return { promoCode, entry };
+      });
+
+      const amountUSDC = fromMicroUsdc(result.entry.amountMicroUsdc);
+      const remainingCredit = fromMicroUsdc(result.entry.balanceAfterMicroUsdc);
+      Logger.info(`Promo code ${result.promoCode.id} redeemed by user ${userId} for ${amountUSDC} USDC`);
+
+      await auditService.record(context, {
+        action: 'PROMO_CODE_REDEEMED',
+        targetType: 'PromoCode',
+        targetId: result.promoCode.id,
+        before: { redemptionCount: result.promoCode.redemptionCount },
+        after: { redemptionCount: result.promoCode.redemptionCount + 1 },
+        metadata: { userId, amountUSDC, ledgerEntryId: result.entry.id },
+      });
+
+      return {
+        success: true,
+        promoCode: { ...result.promoCode, redemptionCount: result.promoCode.redemptionCount + 1 },
+        amountUSDC,
+        remainingCredit,
+      };
+    } catch (error) {
+      if (error instanceof PromoRedemptionError) {
+        return { success: false, reason: error.reason, error: error.message };
+      }
+      // The unique redemption number rejects a concurrent redemption by the same user
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, reason: 'already_redeemed', error: 'You have already redeemed this promo code' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a code can currently be redeemed by anyone
+   */
+  isAvailable(promoCode: PromoCode): boolean {
+    return (
+      promoCode.isActive &&
+      (!promoCode.expiresAt || promoCode.expiresAt > new Date()) &&
+      (promoCode.maxRedemptions === null || promoCode.redemptionCount < promoCode.maxRedemptions)
+    );
+  }
+}
+
+// Export singleton instance
+const promoCodeService = new PromoCodeService();
+export default promoCodeService;
@@ -0,0 +1,123 @@
+// src/services/rate-limit.service.ts
+import crypto from 'crypto';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+import { getRedisClient, isRedisReady } from '../lib/redis';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Sweep idle in-memory windows every N hits
+const MEMORY_SWEEP_INTERVAL = 1000;
+
+// Sliding window log: drop expired hits, then record this hit if under the limit
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, count + 1, 0}
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, count, tonumber(oldest[2]) + window - now}
+`;
+
+export class RateLimitService {
+  private memoryWindows = new Map<string, { windowMs: number; hits: number[] }>();
+  private hitsSinceSweep = 0;
+
+  /**
+   * Record a hit against a key and report whether it is within the limit
+   */
+  async hit(key: string, windowMs: number, limit: number): Promise<RateLimitResult> {
+    if (config.rateLimit.store === 'redis' && isRedisReady()) {
+      try {
+        return await this.hitRedis(key, windowMs, limit);
+      } catch (error) {
+        Logger.warn(`Rate limit store unavailable, using in-memory fallback: ${(error as Error).message}`);
+      }
+    }
+    return this.hitMemory(key, windowMs, limit);
+  }
+
+  /**
+   * Clear all in-memory windows
+   */
+  resetMemoryStore() {
+    this.memoryWindows.clear();
+  }
+
+  private async hitRedis(key: string, windowMs: number, limit: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const member = `${now}-${crypto.randomBytes(6).toString('hex')}`;
+    const [allowed, count, retryAfterMs] = (await getRedisClient()!.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      key,
+      now,
+      windowMs,
+      limit,
+      member
+    )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      count,
+      remaining: Math.max(0, limit - count),
+      retryAfterMs: Math.max(0, retryAfterMs),
+    };
+  }
+
+  private hitMemory(key: string, windowMs: number, limit: number): RateLimitResult {
+    const now = Date.now();
+    const hits = (this.memoryWindows.get(key)?.hits || []).filter((timestamp) => timestamp > now - windowMs);
+
+    this.sweepMemory(now);
+
+    if (hits.length >= limit) {
+      this.memoryWindows.set(key, { windowMs, hits });
+      return {
+        allowed: false,
+        count: hits.length,
+        remaining: 0,
+        retryAfterMs: Math.max(0, hits[0] + windowMs - now),
+      };
+    }
+
+    hits.push(now);
+    this.memoryWindows.set(key, { windowMs, hits });
+    return {
+      allowed: true,
+      count: hits.length,
+      remaining: Math.max(0, limit - hits.length),
+      retryAfterMs: 0,
+    };
+  }
+
+  private sweepMemory(now: number) {
+    this.hitsSinceSweep++;
+    if (this.hitsSinceSweep < MEMORY_SWEEP_INTERVAL) {
+      return;
+    }
+
+    this.hitsSinceSweep = 0;
+    this.memoryWindows.forEach(({ windowMs, hits }, key) => {
+      if (hits.length === 0 || hits[hits.length - 1] <= now - windowMs) {
+        this.memoryWindows.delete(key);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+const rateLimitService = new RateLimitService();
+export default rateLimitService;
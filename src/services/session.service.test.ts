@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { prismaMock as db } from '../test/prisma-mock';
+import sessionService from './session.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const activeSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  userId: 'user-1',
+  refreshTokenHash: hash('current-token'),
+  previousTokenHash: null,
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 60_000),
+  userAgent: 'jest',
+  ipAddress: '127.0.0.1',
+  user: { isActive: true },
+  ...overrides,
+});
+
+describe('SessionService.rotateRefreshToken', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('rotates a current token and keeps the old hash for reuse detection', async () => {
+    db.authSession.findUnique.mockResolvedValue(activeSession());
+    db.authSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await sessionService.rotateRefreshToken('current-token');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.userId).toBe('user-1');
+    expect(result.session.refreshToken).not.toBe('current-token');
+    expect(db.authSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', refreshTokenHash: hash('current-token'), revokedAt: null },
+      data: expect.objectContaining({
+        refreshTokenHash: hash(result.session.refreshToken),
+        previousTokenHash: hash('current-token'),
+      }),
+    });
+  });
+
+  it('revokes the session when a rotated-out token is replayed', async () => {
+    db.authSession.findUnique.mockResolvedValue(null);
+    db.authSession.findFirst.mockResolvedValue(activeSession({ previousTokenHash: hash('stolen-token') }));
+    db.authSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await sessionService.rotateRefreshToken('stolen-token');
+
+    expect(result).toEqual({ success: false, error: 'Invalid refresh token' });
+    expect(db.authSession.findFirst).toHaveBeenCalledWith({
+      where: { previousTokenHash: hash('stolen-token'), revokedAt: null },
+    });
+    expect(db.authSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('rejects an unknown token without revoking anything', async () => {
+    db.authSession.findUnique.mockResolvedValue(null);
+    db.authSession.findFirst.mockResolvedValue(null);
+
+    const result = await sessionService.rotateRefreshToken('unknown-token');
+
+    expect(result).toEqual({ success: false, error: 'Invalid refresh token' });
+    expect(db.authSession.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of two concurrent rotations of the same token succeed', async () => {
+    db.authSession.findUnique.mockResolvedValue(activeSession());
+    db.authSession.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const results = await Promise.all([
+      sessionService.rotateRefreshToken('current-token'),
+      sessionService.rotateRefreshToken('current-token'),
+    ]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results).toContainEqual({ success: false, error: 'Invalid refresh token' });
+  });
+
+  it('rejects a token of a revoked session', async () => {
+    db.authSession.findUnique.mockResolvedValue(activeSession({ revokedAt: new Date() }));
+
+    const result = await sessionService.rotateRefreshToken('current-token');
+
+    expect(result).toEqual({ success: false, error: 'Session has been revoked' });
+    expect(db.authSession.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,245 @@
+// src/services/session.service.ts
+import crypto from 'crypto';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export type RotateRefreshTokenResult =
+  | { success: true; userId: string; session: IssuedSession }
+  | { success: false; error: string };
+
+// Cleanup interval for expired sessions and revoked tokens (1 hour)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const getRefreshTokenExpiry = (): Date =>
+  new Date(Date.now() + config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+export class SessionService {
+  /**
+   * Create a new device session and return its first refresh token
+   */
+  async createSession(userId: string, metadata: SessionMetadata = {}): Promise<IssuedSession> {
+    const refreshToken = generateRefreshToken();
+    const expiresAt = getRefreshTokenExpiry();
+
+    const session = await prisma.authSession.create({
+      data: {
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: metadata.userAgent || null,
+        ipAddress: metadata.ipAddress || null,
+        expiresAt,
+      },
+    });
+
+    Logger.info(`Created auth session ${session.id} for user ${userId}`);
+    return { sessionId: session.id, refreshToken, expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new one (rotation).
+   * Presenting an already-rotated token revokes the whole session.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    metadata: SessionMetadata = {}
+  ): Promise<RotateRefreshTokenResult> {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await prisma.authSession.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: { user: { select: { isActive: true } } },
+    });
+
+    if (!session) {
+      // A rotated-out token being replayed means it has leaked
+      const reused = await prisma.authSession.findFirst({
+        where: { previousTokenHash: tokenHash, revokedAt: null },
+      });
+
+      if (reused) {
+        Logger.warn(`Refresh token reuse detected for session ${reused.id}, revoking session`);
+        await this.revokeSession(reused.id);
+      }
+
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    if (session.revokedAt) {
+      return { success: false, error: 'Session has been revoked' };
+    }
+
+    if (session.expiresAt <= new Date()) {
+      return { success: false, error: 'Refresh token has expired' };
+    }
+
+    if (!session.user.isActive) {
+      return { success: false, error: 'User not found or inactive' };
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    const expiresAt = getRefreshTokenExpiry();
+
+    // Compare-and-swap on the current hash so concurrent refreshes cannot both succeed
+    const updated = await prisma.authSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        expiresAt,
+        lastUsedAt: new Date(),
+        userAgent: metadata.userAgent || session.userAgent,
+        ipAddress: metadata.ipAddress || session.ipAddress,
+      },
+    });
+
+    if (updated.count === 0) {
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    return {
+      success: true,
+      userId: session.userId,
+      session: { sessionId: session.id, refreshToken: nextRefreshToken, expiresAt },
+    };
+  }
+
+  /**
+   * Check whether a session is still usable for access tokens
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async listActiveSessions(userId: string) {
+    return prisma.authSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke a single session. Scoped to a user when userId is provided.
+   */
+  async revokeSession(sessionId: string, userId?: string): Promise<boolean> {
+    const result = await prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Revoked auth session ${sessionId}`);
+    }
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every session of a user except the given one
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const result = await prisma.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(currentSessionId ? { id: { not: currentSessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    Logger.info(`Revoked ${result.count} other auth sessions for user ${userId}`);
+    return result.count;
+  }
+
+  /**
+   * Add an access token to the revocation list until it would have expired
+   */
+  async revokeAccessToken(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    await prisma.revokedToken.upsert({
+      where: { jti },
+      create: { jti, userId, expiresAt },
+      update: {},
+    });
+  }
+
+  /**
+   * Check whether an access token is on the revocation list
+   */
+  async isAccessTokenRevoked(jti: string): Promise<boolean> {
+    const revoked = await prisma.revokedToken.findUnique({
+      where: { jti },
+      select: { id: true },
+    });
+    return !!revoked;
+  }
+
+  /**
+   * Remove expired sessions and revocation entries that can no longer matter
+   */
+  async purgeExpired(): Promise<void> {
+    const now = new Date();
+    const [sessions, tokens] = await Promise.all([
+      prisma.authSession.deleteMany({ where: { expiresAt: { lt: now } } }),
+      prisma.revokedToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+    ]);
+
+    if (sessions.count > 0 || tokens.count > 0) {
+      Logger.info(`Purged ${sessions.count} expired sessions and ${tokens.count} revoked tokens`);
+    }
+  }
+}
+
+// Export singleton instance
+const sessionService = new SessionService();
+export default sessionService;
+
+/**
+ * Start periodic cleanup of expired sessions and revoked tokens
+ */
+export const startSessionCleanup = (): void => {
+  const runCleanup = () => {
+    sessionService.purgeExpired().catch((error) => {
+      Logger.error('Error purging expired sessions:', error);
+    });
+  };
+
+  runCleanup();
+  setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+  Logger.info(`Session cleanup started - running every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`);
+};
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { Keypair } from '@solana/web3.js';
+import { SiwsChallenge } from '@prisma/client';
+import { prismaMock as db } from '../test/prisma-mock';
+import siwsService from './siws.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+
+const wallet = Keypair.generate();
+const address = wallet.publicKey.toBase58();
+
+// Sign a message the way a wallet adapter's signMessage does
+const signMessage = (message: string, signer: Keypair = wallet): Buffer => {
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(signer.secretKey.subarray(0, 32)).toString('base64url'),
+      x: Buffer.from(signer.publicKey.toBytes()).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return crypto.sign(null, Buffer.from(message, 'utf8'), privateKey);
+};
+
+// Issue a challenge and return the row it stored
+const issueChallenge = async (purpose: 'SIGN_IN' | 'LINK_WALLET' = 'SIGN_IN', userId?: string) => {
+  db.siwsChallenge.create.mockResolvedValueOnce({});
+  const challenge = await siwsService.createChallenge(address, purpose, userId);
+  const { data } = db.siwsChallenge.create.mock.calls[db.siwsChallenge.create.mock.calls.length - 1][0];
+  const stored: SiwsChallenge = { id: 'challenge-1', usedAt: null, createdAt: challenge.issuedAt, ...data };
+  db.siwsChallenge.findUnique.mockResolvedValue(stored);
+  return { ...challenge, stored };
+};
+
+describe('SiwsService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.siwsChallenge.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createChallenge', () => {
+    it('stores a single-use nonce with the exact message to sign', async () => {
+      const challenge = await issueChallenge();
+
+      expect(challenge.nonce).toMatch(/^[0-9a-f]{32}$/);
+      expect(challenge.message).toContain(`wants you to sign in with your Solana account:\n${address}`);
+      expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+      expect(challenge.expiresAt.getTime()).toBeGreaterThan(challenge.issuedAt.getTime());
+      expect(db.siwsChallenge.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ nonce: challenge.nonce, address, purpose: 'SIGN_IN', userId: null }),
+      });
+    });
+
+    it('issues a different nonce for every challenge', async () => {
+      const [first, second] = [await issueChallenge(), await issueChallenge()];
+
+      expect(first.nonce).not.toBe(second.nonce);
+    });
+  });
+
+  describe('verifyChallenge', () => {
+    it('accepts a base58 signature over the challenge and consumes the nonce', async () => {
+      const { nonce, message } = await issueChallenge();
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: bs58.encode(signMessage(message)) },
+        'SIGN_IN'
+      );
+
+      expect(result).toEqual({ success: true, address });
+      expect(db.siwsChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('accepts a base64 signature', async () => {
+      const { nonce, message } = await issueChallenge();
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: signMessage(message).toString('base64') },
+        'SIGN_IN'
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects a replayed nonce', async () => {
+      const { nonce, message, stored } = await issueChallenge();
+      const signed = { address, nonce, signature: bs58.encode(signMessage(message)) };
+      db.siwsChallenge.findUnique.mockResolvedValue({ ...stored, usedAt: new Date() });
+
+      expect(await siwsService.verifyChallenge(signed, 'SIGN_IN')).toEqual({
+        success: false,
+        error: 'Nonce has already been used',
+      });
+    });
+
+    it('redeems a signed message only once when verifications race', async () => {
+      const { nonce, message } = await issueChallenge();
+      db.siwsChallenge.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: bs58.encode(signMessage(message)) },
+        'SIGN_IN'
+      );
+
+      expect(result).toEqual({ success: false, error: 'Nonce has already been used' });
+    });
+
+    it('rejects a signature from another wallet and burns the nonce', async () => {
+      const { nonce, message } = await issueChallenge();
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: bs58.encode(signMessage(message, Keypair.generate())) },
+        'SIGN_IN'
+      );
+
+      expect(result).toEqual({ success: false, error: 'Invalid signature' });
+      expect(db.siwsChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a signature over a different message', async () => {
+      const { nonce, message } = await issueChallenge();
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: bs58.encode(signMessage(message.replace('Version: 1', 'Version: 2'))) },
+        'SIGN_IN'
+      );
+
+      expect(result).toEqual({ success: false, error: 'Invalid signature' });
+    });
+
+    it('rejects an expired nonce', async () => {
+      const { nonce, message, stored } = await issueChallenge();
+      db.siwsChallenge.findUnique.mockResolvedValue({ ...stored, expiresAt: new Date(Date.now() - 1000) });
+
+      const result = await siwsService.verifyChallenge(
+        { address, nonce, signature: bs58.encode(signMessage(message)) },
+        'SIGN_IN'
+      );
+
+      expect(result).toEqual({ success: false, error: 'Nonce has expired' });
+    });
+
+    it('rejects a nonce issued for another address or purpose', async () => {
+      const { nonce, message } = await issueChallenge();
+      const signature = bs58.encode(signMessage(message));
+
+      expect(
+        await siwsService.verifyChallenge({ address: Keypair.generate().publicKey.toBase58(), nonce, signature }, 'SIGN_IN')
+      ).toEqual({ success: false, error: 'Invalid or unknown nonce' });
+      expect(await siwsService.verifyChallenge({ address, nonce, signature }, 'LINK_WALLET')).toEqual({
+        success: false,
+        error: 'Invalid or unknown nonce',
+      });
+    });
+
+    it('only lets the user a link challenge was issued to redeem it', async () => {
+      const { nonce, message } = await issueChallenge('LINK_WALLET', 'user-1');
+      const signed = { address, nonce, signature: bs58.encode(signMessage(message)) };
+
+      expect(await siwsService.verifyChallenge(signed, 'LINK_WALLET', 'user-2')).toEqual({
+        success: false,
+        error: 'Nonce was issued to a different user',
+      });
+      expect(await siwsService.verifyChallenge(signed, 'LINK_WALLET', 'user-1')).toEqual({ success: true, address });
+    });
+  });
+
+  describe('linkWallet', () => {
+    it('refuses a wallet that already belongs to another account', async () => {
+      db.linkedWallet.findUnique.mockResolvedValue({ id: 'wallet-1', userId: 'user-2', address });
+
+      expect(await siwsService.linkWallet('user-1', address)).toEqual({
+        success: false,
+        error: 'This wallet is already linked to another account',
+      });
+      expect(db.linkedWallet.create).not.toHaveBeenCalled();
+    });
+  });
+});
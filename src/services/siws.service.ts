@@ -0,0 +1,281 @@
+// src/services/siws.service.ts
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+import { LinkedWallet, SiwsPurpose } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+export interface SiwsChallengeResult {
+  nonce: string;
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export interface SiwsSignedMessage {
+  address: string;
+  nonce: string;
+  // ed25519 signature over the challenge message, base58 or base64 encoded
+  signature: string;
+}
+
+export type SiwsVerificationResult =
+  | { success: true; address: string }
+  | { success: false; error: string };
+
+export type LinkWalletResult =
+  | { success: true; wallet: LinkedWallet; created: boolean }
+  | { success: false; error: string };
+
+// Cleanup interval for expired challenges (1 hour)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const SIGNATURE_BYTES = 64;
+
+const isValidSolanaAddress = (address: string): boolean => {
+  try {
+    return PublicKey.isOnCurve(new PublicKey(address).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+const decodeSignature = (signature: string): Buffer | null => {
+  try {
+    const decoded = Buffer.from(bs58.decode(signature));
+    if (decoded.length === SIGNATURE_BYTES) {
+      return decoded;
+    }
+  } catch {
+    // Not base58, try base64
+  }
+
+  const decoded = Buffer.from(signature, 'base64');
+  return decoded.length === SIGNATURE_BYTES ? decoded : null;
+};
+
+// ed25519 verification with the wallet's public key as the signer
+const verifyEd25519 = (message: string, signature: Buffer, address: string): boolean => {
+  const publicKey = crypto.createPublicKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: Buffer.from(new PublicKey(address).toBytes()).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return crypto.verify(null, Buffer.from(message, 'utf8'), publicKey, signature);
+};
+
+/**
+ * Build a Sign-In With Solana message (CAIP-122 / EIP-4361 layout)
+ */
+const buildSiwsMessage = (fields: {
+  address: string;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  statement: string;
+}): string =>
+  [
+    `${config.siws.domain} wants you to sign in with your Solana account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${config.siws.uri}`,
+    'Version: 1',
+    `Chain ID: ${config.siws.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expiresAt.toISOString()}`,
+  ].join('\n');
+
+export class SiwsService {
+  /**
+   * Check if an address is a valid Solana wallet public key
+   */
+  isValidAddress(address: string): boolean {
+    return isValidSolanaAddress(address);
+  }
+
+  /**
+   * Issue a single-use nonce and the exact message the wallet must sign
+   */
+  async createChallenge(address: string, purpose: SiwsPurpose, userId?: string): Promise<SiwsChallengeResult> {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + config.siws.nonceTtlMs);
+    const message = buildSiwsMessage({
+      address,
+      nonce,
+      issuedAt,
+      expiresAt,
+      statement: purpose === 'LINK_WALLET'
+        ? 'Link this wallet to your Solick account.'
+        : config.siws.statement,
+    });
+
+    await prisma.siwsChallenge.create({
+      data: { nonce, address, message, purpose, userId: userId || null, expiresAt },
+    });
+
+    return { nonce, message, issuedAt, expiresAt };
+  }
+
+  /**
+   * Verify a signed challenge and consume its nonce
+   */
+  async verifyChallenge(
+    signed: SiwsSignedMessage,
+    purpose: SiwsPurpose,
+    userId?: string
+  ): Promise<SiwsVerificationResult> {
+    const challenge = await prisma.siwsChallenge.findUnique({
+      where: { nonce: signed.nonce },
+    });
+
+    if (!challenge || challenge.purpose !== purpose || challenge.address !== signed.address) {
+      return { success: false, error: 'Invalid or unknown nonce' };
+    }
+    if (challenge.usedAt) {
+      return { success: false, error: 'Nonce has already been used' };
+    }
+    if (challenge.expiresAt <= new Date()) {
+      return { success: false, error: 'Nonce has expired' };
+    }
+    if (purpose === 'LINK_WALLET' && challenge.userId !== userId) {
+      return { success: false, error: 'Nonce was issued to a different user' };
+    }
+
+    const signature = decodeSignature(signed.signature);
+    if (!signature || !verifyEd25519(challenge.message, signature, challenge.address)) {
+      // Burn the nonce so a signature cannot be guessed against it
+      await prisma.siwsChallenge.updateMany({
+        where: { id: challenge.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return { success: false, error: 'Invalid signature' };
+    }
+
+    // Consume atomically so a signed message can only be redeemed once
+    const consumed = await prisma.siwsChallenge.updateMany({
+      where: { id: challenge.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (consumed.count === 0) {
+      return { success: false, error: 'Nonce has already been used' };
+    }
+
+    return { success: true, address: challenge.address };
+  }
+
+  /**
+   * Find the user who owns a wallet, via a linked wallet or their wallet address
+   */
+  async findUserIdByWallet(address: string): Promise<string | null> {
+    const linked = await prisma.linkedWallet.findUnique({
+      where: { address },
+      select: { id: true, userId: true },
+    });
+
+    if (linked) {
+      await prisma.linkedWallet.update({
+        where: { id: linked.id },
+        data: { lastUsedAt: new Date() },
+      });
+      return linked.userId;
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { walletAddress: address },
+      select: { id: true },
+    });
+    return user?.id ?? null;
+  }
+
+  /**
+   * Link a verified wallet to a user
+   */
+  async linkWallet(userId: string, address: string): Promise<LinkWalletResult> {
+    const existing = await prisma.linkedWallet.findUnique({ where: { address } });
+    if (existing) {
+      return existing.userId === userId
+        ? { success: true, wallet: existing, created: false }
+        : { success: false, error: 'This wallet is already linked to another account' };
+    }
+
+    const owner = await prisma.user.findFirst({
+      where: { walletAddress: address, id: { not: userId } },
+      select: { id: true },
+    });
+    if (owner) {
+      return { success: false, error: 'This wallet is already linked to another account' };
+    }
+
+    const wallet = await prisma.linkedWallet.create({
+      data: { userId, address },
+    });
+
+    Logger.info(`Linked wallet ${address} to user ${userId}`);
+    return { success: true, wallet, created: true };
+  }
+
+  /**
+   * Remove a linked wallet from a user
+   */
+  async unlinkWallet(userId: string, address: string): Promise<boolean> {
+    const result = await prisma.linkedWallet.deleteMany({
+      where: { userId, address },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Unlinked wallet ${address} from user ${userId}`);
+    }
+    return result.count > 0;
+  }
+
+  /**
+   * List a user's linked wallets
+   */
+  async listWallets(userId: string): Promise<LinkedWallet[]> {
+    return prisma.linkedWallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Remove expired challenges
+   */
+  async purgeExpiredChallenges(): Promise<void> {
+    const result = await prisma.siwsChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (result.count > 0) {
+      Logger.info(`Purged ${result.count} expired SIWS challenges`);
+    }
+  }
+}
+
+// Export singleton instance
+const siwsService = new SiwsService();
+export default siwsService;
+
+/**
+ * Start periodic cleanup of expired SIWS challenges
+ */
+export const startSiwsChallengeCleanup = (): void => {
+  const runCleanup = () => {
+    siwsService.purgeExpiredChallenges().catch((error) => {
+      Logger.error('Error purging SIWS challenges:', error);
+    });
+  };
+
+  runCleanup();
+  setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+  Logger.info(`SIWS challenge cleanup started - running every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`);
+};
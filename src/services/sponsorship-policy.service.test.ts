@@ -0,0 +1,202 @@
+import { ComputeBudgetProgram, Keypair, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createSetAuthorityInstruction,
+  createTransferCheckedInstruction,
+  AuthorityType,
+} from '@solana/spl-token';
+import { config } from '../config/env';
+import sponsorshipPolicyService, { findFeePayerMisuse, readComputeBudget } from './sponsorship-policy.service';
+
+const feePayer = Keypair.generate().publicKey;
+const user = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const userTokenAccount = Keypair.generate().publicKey;
+const recipientTokenAccount = Keypair.generate().publicKey;
+
+const transactionOf = (...instructions: TransactionInstruction[]): Transaction => {
+  const tx = new Transaction();
+  tx.instructions = instructions;
+  tx.feePayer = feePayer;
+  return tx;
+};
+
+const usdcTransfer = () =>
+  createTransferCheckedInstruction(userTokenAccount, mint, recipientTokenAccount, user, 1_500_000, 6);
+
+const solTransfer = (lamports: number, from = user) =>
+  SystemProgram.transfer({ fromPubkey: from, toPubkey: recipient, lamports });
+
+describe('SponsorshipPolicyService', () => {
+  beforeEach(() => {
+    Object.assign(config.sponsorshipPolicy, {
+      extraProgramIds: [],
+      maxInstructions: 4,
+      maxComputeUnits: 400_000,
+      maxComputeUnitPrice: 1_000_000,
+      maxLamports: 10_000_000,
+    });
+  });
+
+  describe('evaluate', () => {
+    it('allows a token transfer with a bounded compute budget', () => {
+      const tx = transactionOf(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5_000 }),
+        createAssociatedTokenAccountIdempotentInstruction(user, recipientTokenAccount, recipient, mint),
+        usdcTransfer()
+      );
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toEqual({
+        allowed: true,
+        summary: { instructionCount: 4, computeUnitLimit: 200_000, computeUnitPrice: 5_000, lamports: 0 },
+      });
+    });
+
+    it('allows SOL transfers up to the lamport limit and sums them', () => {
+      const result = sponsorshipPolicyService.evaluate(transactionOf(solTransfer(4_000_000), solTransfer(6_000_000)), feePayer);
+
+      expect(result).toMatchObject({ allowed: true, summary: { lamports: 10_000_000 } });
+    });
+
+    it('rejects transactions that move more lamports than allowed in total', () => {
+      const result = sponsorshipPolicyService.evaluate(transactionOf(solTransfer(6_000_000), solTransfer(6_000_000)), feePayer);
+
+      expect(result).toEqual({
+        allowed: false,
+        violation: expect.objectContaining({ rule: 'lamports', instructionIndex: 1 }),
+      });
+    });
+
+    it('rejects empty transactions and too many instructions', () => {
+      expect(sponsorshipPolicyService.evaluate(transactionOf(), feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'instruction_count' },
+      });
+
+      const tooMany = transactionOf(...Array.from({ length: 5 }, () => usdcTransfer()));
+      expect(sponsorshipPolicyService.evaluate(tooMany, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'instruction_count' },
+      });
+    });
+
+    it('rejects programs outside the allowlist unless configured or passed per call', () => {
+      const programId = Keypair.generate().publicKey;
+      const tx = transactionOf(new TransactionInstruction({ programId, keys: [], data: Buffer.from([1]) }));
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toEqual({
+        allowed: false,
+        violation: expect.objectContaining({ rule: 'program_not_allowed', programId: programId.toBase58() }),
+      });
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer, { extraProgramIds: [programId.toBase58()] }).allowed).toBe(true);
+
+      config.sponsorshipPolicy.extraProgramIds = [programId.toBase58()];
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer).allowed).toBe(true);
+    });
+
+    it('rejects instructions of an allowed program that are not on its allowlist', () => {
+      const tx = transactionOf(createSetAuthorityInstruction(userTokenAccount, user, AuthorityType.AccountOwner, recipient));
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'instruction_not_allowed', instructionIndex: 0 },
+      });
+    });
+
+    it('rejects instructions it cannot decode', () => {
+      const tx = transactionOf(
+        new TransactionInstruction({ programId: SystemProgram.programId, keys: [], data: Buffer.from([2, 0, 0, 0, 1]) })
+      );
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'malformed_instruction' },
+      });
+    });
+
+    it('rejects a compute unit limit above the maximum', () => {
+      const tx = transactionOf(ComputeBudgetProgram.setComputeUnitLimit({ units: 400_001 }), usdcTransfer());
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'compute_units', instructionIndex: 0 },
+      });
+    });
+
+    it('rejects a compute unit price above the maximum', () => {
+      const tx = transactionOf(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000_001 })
+      );
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'compute_unit_price', instructionIndex: 1 },
+      });
+    });
+
+    it('requires an explicit compute unit limit when a price is set', () => {
+      const tx = transactionOf(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5_000 }), usdcTransfer());
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toMatchObject({
+        allowed: false,
+        violation: { rule: 'compute_units' },
+      });
+    });
+
+    it('rejects instructions that spend from the fee payer', () => {
+      const tx = transactionOf(usdcTransfer(), solTransfer(1, feePayer));
+
+      expect(sponsorshipPolicyService.evaluate(tx, feePayer)).toEqual({
+        allowed: false,
+        violation: expect.objectContaining({ rule: 'fee_payer_misuse', instructionIndex: 1 }),
+      });
+    });
+  });
+
+  describe('findFeePayerMisuse', () => {
+    it('flags the fee payer as a signer or writable account', () => {
+      const signer = new TransactionInstruction({
+        programId: SystemProgram.programId,
+        keys: [{ pubkey: feePayer, isSigner: true, isWritable: false }],
+      });
+      const writable = new TransactionInstruction({
+        programId: SystemProgram.programId,
+        keys: [{ pubkey: feePayer, isSigner: false, isWritable: true }],
+      });
+
+      expect(findFeePayerMisuse([usdcTransfer(), signer], feePayer)).toMatchObject({
+        instructionIndex: 1,
+        reason: 'Instruction uses the fee payer as a signer account',
+      });
+      expect(findFeePayerMisuse([writable], feePayer)?.reason).toBe('Instruction uses the fee payer as a writable account');
+    });
+
+    it('allows the fee payer as a read-only account', () => {
+      const readOnly = new TransactionInstruction({
+        programId: SystemProgram.programId,
+        keys: [{ pubkey: feePayer, isSigner: false, isWritable: false }],
+      });
+
+      expect(findFeePayerMisuse([readOnly, usdcTransfer()], feePayer)).toBeNull();
+    });
+  });
+
+  describe('readComputeBudget', () => {
+    it('reads the requested compute unit limit and price', () => {
+      const tx = transactionOf(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 150_000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 2_500 }),
+        usdcTransfer()
+      );
+
+      expect(readComputeBudget(tx)).toEqual({ computeUnitLimit: 150_000, computeUnitPrice: 2_500 });
+    });
+
+    it('returns nulls when no compute budget is requested', () => {
+      expect(readComputeBudget(transactionOf(usdcTransfer()))).toEqual({ computeUnitLimit: null, computeUnitPrice: null });
+    });
+  });
+});
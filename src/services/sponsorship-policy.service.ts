@@ -0,0 +1,323 @@
+// src/services/sponsorship-policy.service.ts
+import { ComputeBudgetProgram, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import Logger from '../utils/logger';
+import { DecodedTransaction } from '../utils/solana-transaction';
+import { config } from '../config/env';
+
+export type SponsorshipPolicyRule =
+  | 'instruction_count'
+  | 'program_not_allowed'
+  | 'instruction_not_allowed'
+  | 'malformed_instruction'
+  | 'fee_payer_misuse'
+  | 'compute_units'
+  | 'compute_unit_price'
+  | 'lamports';
+
+export interface SponsorshipPolicyViolation {
+  rule: SponsorshipPolicyRule;
+  reason: string;
+  instructionIndex?: number;
+  programId?: string;
+}
+
+export interface SponsorshipPolicySummary {
+  instructionCount: number;
+  computeUnitLimit: number | null;
+  computeUnitPrice: number | null;
+  lamports: number;
+}
+
+export type SponsorshipPolicyResult =
+  | { allowed: true; summary: SponsorshipPolicySummary }
+  | { allowed: false; violation: SponsorshipPolicyViolation };
+
+export interface SponsorshipPolicyOptions {
+  // Programs allowed for this transaction on top of the configured allowlist
+  extraProgramIds?: string[];
+}
+
+// What an inspected instruction contributes to the transaction-wide limits
+interface InstructionEffects {
+  lamports?: number;
+  computeUnitLimit?: number;
+  computeUnitPrice?: number;
+}
+
+interface ProgramRule {
+  name: string;
+  // Width of the instruction discriminator at the start of the data
+  discriminator: 'u8' | 'u32';
+  // Instructions that may be sponsored, by discriminator; omit to allow any
+  allowedInstructions?: Record<number, string>;
+  inspect?: (type: number, data: Buffer) => InstructionEffects;
+}
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+const MEMO_V1_PROGRAM_ID = 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo';
+
+// Runtime default when a transaction sets a compute unit price without a limit
+const MAX_IMPLIED_COMPUTE_UNITS = 1_400_000;
+
+const readU32 = (data: Buffer, offset: number): number => {
+  if (data.length < offset + 4) {
+    throw new Error('Instruction data is too short');
+  }
+  return data.readUInt32LE(offset);
+};
+
+const readU64 = (data: Buffer, offset: number): number => {
+  if (data.length < offset + 8) {
+    throw new Error('Instruction data is too short');
+  }
+  return Number(data.readBigUInt64LE(offset));
+};
+
+/**
+ * Built-in per-program rules. Programs from SPONSOR_EXTRA_PROGRAM_IDS are
+ * allowed without instruction-level rules.
+ */
+const PROGRAM_RULES: Record<string, ProgramRule> = {
+  [SystemProgram.programId.toBase58()]: {
+    name: 'System Program',
+    discriminator: 'u32',
+    allowedInstructions: { 0: 'CreateAccount', 2: 'Transfer' },
+    // Both layouts carry the lamports as a u64 after the discriminator
+    inspect: (_type, data) => ({ lamports: readU64(data, 4) }),
+  },
+  [TOKEN_PROGRAM_ID.toBase58()]: {
+    name: 'SPL Token',
+    discriminator: 'u8',
+    allowedInstructions: { 3: 'Transfer', 9: 'CloseAccount', 12: 'TransferChecked', 17: 'SyncNative' },
+  },
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: {
+    name: 'Token-2022',
+    discriminator: 'u8',
+    allowedInstructions: { 3: 'Transfer', 9: 'CloseAccount', 12: 'TransferChecked', 17: 'SyncNative' },
+  },
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: {
+    name: 'Associated Token Account',
+    discriminator: 'u8',
+    allowedInstructions: { 0: 'Create', 1: 'CreateIdempotent' },
+  },
+  [ComputeBudgetProgram.programId.toBase58()]: {
+    name: 'Compute Budget',
+    discriminator: 'u8',
+    allowedInstructions: { 2: 'SetComputeUnitLimit', 3: 'SetComputeUnitPrice' },
+    inspect: (type, data) =>
+      type === 2 ? { computeUnitLimit: readU32(data, 1) } : { computeUnitPrice: readU64(data, 1) },
+  },
+  [MEMO_PROGRAM_ID]: { name: 'Memo', discriminator: 'u8' },
+  [MEMO_V1_PROGRAM_ID]: { name: 'Memo (v1)', discriminator: 'u8' },
+};
+
+const readDiscriminator = (rule: ProgramRule, data: Buffer): number => {
+  // Legacy Associated Token Account creation has no instruction data
+  if (data.length === 0) {
+    return 0;
+  }
+  return rule.discriminator === 'u32' ? readU32(data, 0) : data[0];
+};
+
+/**
+ * Compute unit limit and price requested by a transaction's Compute Budget instructions
+ */
+export const readComputeBudget = (tx: Transaction | DecodedTransaction): { computeUnitLimit: number | null; computeUnitPrice: number | null } => {
+  const rule = PROGRAM_RULES[ComputeBudgetProgram.programId.toBase58()];
+  let computeUnitLimit: number | null = null;
+  let computeUnitPrice: number | null = null;
+
+  tx.instructions
+    .filter((ix) => ix.programId.equals(ComputeBudgetProgram.programId))
+    .forEach((ix) => {
+      try {
+        const type = readDiscriminator(rule, ix.data);
+        if (type === 2 || type === 3) {
+          const effects = rule.inspect!(type, ix.data);
+          computeUnitLimit = effects.computeUnitLimit ?? computeUnitLimit;
+          computeUnitPrice = effects.computeUnitPrice ?? computeUnitPrice;
+        }
+      } catch {
+        // Malformed instructions are rejected by the policy itself
+      }
+    });
+
+  return { computeUnitLimit, computeUnitPrice };
+};
+
+/**
+ * The first instruction that uses the fee payer as a signer or writable account;
+ * the fee payer may only pay fees
+ */
+export const findFeePayerMisuse = (
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey
+): SponsorshipPolicyViolation | null => {
+  for (const [index, ix] of instructions.entries()) {
+    const feePayerKey = ix.keys.find((key) => key.pubkey.equals(feePayer) && (key.isWritable || key.isSigner));
+    if (feePayerKey) {
+      return {
+        rule: 'fee_payer_misuse',
+        reason: `Instruction uses the fee payer as a ${feePayerKey.isWritable ? 'writable' : 'signer'} account`,
+        instructionIndex: index,
+        programId: ix.programId.toBase58(),
+      };
+    }
+  }
+  return null;
+};
+
+const reject = (
+  rule: SponsorshipPolicyRule,
+  reason: string,
+  instructionIndex?: number,
+  programId?: PublicKey
+): SponsorshipPolicyResult => ({
+  allowed: false,
+  violation: {
+    rule,
+    reason,
+    ...(instructionIndex !== undefined ? { instructionIndex } : {}),
+    ...(programId ? { programId: programId.toBase58() } : {}),
+  },
+});
+
+export class SponsorshipPolicyService {
+  /**
+   * Inspect every instruction of a transaction before the server fee payer signs it.
+   * Versioned transactions must be decoded first so lookup table accounts are resolved.
+   */
+  evaluate(
+    tx: Transaction | DecodedTransaction,
+    feePayer: PublicKey,
+    options: SponsorshipPolicyOptions = {}
+  ): SponsorshipPolicyResult {
+    const policy = config.sponsorshipPolicy;
+    const instructions: TransactionInstruction[] = tx.instructions;
+    const extraProgramIds = [...policy.extraProgramIds, ...(options.extraProgramIds || [])];
+
+    if (instructions.length === 0) {
+      return reject('instruction_count', 'Transaction has no instructions');
+    }
+    if (instructions.length > policy.maxInstructions) {
+      return reject(
+        'instruction_count',
+        `Transaction has ${instructions.length} instructions; at most ${policy.maxInstructions} can be sponsored`
+      );
+    }
+
+    let lamports = 0;
+    let computeUnitLimit: number | null = null;
+    let computeUnitPrice: number | null = null;
+
+    for (const [index, ix] of instructions.entries()) {
+      const programId = ix.programId.toBase58();
+      const rule = PROGRAM_RULES[programId];
+
+      if (!rule && !extraProgramIds.includes(programId)) {
+        return reject('program_not_allowed', `Program ${programId} is not allowed in sponsored transactions`, index, ix.programId);
+      }
+
+      // The fee payer may only pay fees; it must never sign for or be debited by an instruction
+      const misuse = findFeePayerMisuse([ix], feePayer);
+      if (misuse) {
+        return reject(misuse.rule, misuse.reason, index, ix.programId);
+      }
+
+      if (!rule) {
+        continue;
+      }
+
+      let effects: InstructionEffects = {};
+      try {
+        const type = readDiscriminator(rule, ix.data);
+        if (rule.allowedInstructions && !(type in rule.allowedInstructions)) {
+          return reject(
+            'instruction_not_allowed',
+            `${rule.name} instruction ${type} is not allowed in sponsored transactions`,
+            index,
+            ix.programId
+          );
+        }
+        effects = rule.inspect ? rule.inspect(type, ix.data) : {};
+      } catch (error) {
+        return reject(
+          'malformed_instruction',
+          `Could not decode ${rule.name} instruction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          index,
+          ix.programId
+        );
+      }
+
+      if (effects.computeUnitLimit !== undefined) {
+        computeUnitLimit = Math.max(computeUnitLimit ?? 0, effects.computeUnitLimit);
+        if (computeUnitLimit > policy.maxComputeUnits) {
+          return reject(
+            'compute_units',
+            `Compute unit limit ${computeUnitLimit} exceeds the maximum of ${policy.maxComputeUnits}`,
+            index,
+            ix.programId
+          );
+        }
+      }
+
+      if (effects.computeUnitPrice !== undefined) {
+        computeUnitPrice = Math.max(computeUnitPrice ?? 0, effects.computeUnitPrice);
+        if (computeUnitPrice > policy.maxComputeUnitPrice) {
+          return reject(
+            'compute_unit_price',
+            `Compute unit price ${computeUnitPrice} micro-lamports exceeds the maximum of ${policy.maxComputeUnitPrice}`,
+            index,
+            ix.programId
+          );
+        }
+      }
+
+      if (effects.lamports !== undefined) {
+        lamports += effects.lamports;
+        if (lamports > policy.maxLamports) {
+          return reject(
+            'lamports',
+            `Transaction moves ${lamports} lamports; at most ${policy.maxLamports} can be sponsored`,
+            index,
+            ix.programId
+          );
+        }
+      }
+    }
+
+    // Without an explicit limit the runtime may bill the priority fee on up to 1.4M units
+    if (computeUnitPrice && computeUnitLimit === null && MAX_IMPLIED_COMPUTE_UNITS > policy.maxComputeUnits) {
+      return reject(
+        'compute_units',
+        'A compute unit price requires an explicit compute unit limit in sponsored transactions'
+      );
+    }
+
+    return {
+      allowed: true,
+      summary: { instructionCount: instructions.length, computeUnitLimit, computeUnitPrice, lamports },
+    };
+  }
+
+  /**
+   * Evaluate a transaction and log any rejection
+   */
+  check(
+    tx: Transaction | DecodedTransaction,
+    feePayer: PublicKey,
+    context: string,
+    options: SponsorshipPolicyOptions = {}
+  ): SponsorshipPolicyResult {
+    const result = this.evaluate(tx, feePayer, options);
+    if (!result.allowed) {
+      Logger.warn(`Sponsorship policy rejected transaction (${context}): ${result.violation.rule}`, result.violation);
+    }
+    return result;
+  }
+}
+
+// Export singleton instance
+const sponsorshipPolicyService = new SponsorshipPolicyService();
+export default sponsorshipPolicyService;
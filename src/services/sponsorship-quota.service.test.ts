@@ -0,0 +1,134 @@
+import { config } from '../config/env';
+import { prismaMock as db } from '../test/prisma-mock';
+import sponsorshipQuotaService from './sponsorship-quota.service';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+
+const RESERVED_AT = new Date('2026-03-15T12:00:00Z');
+const DAY_START = new Date('2026-03-15T00:00:00Z');
+const MONTH_START = new Date('2026-03-01T00:00:00Z');
+
+describe('SponsorshipQuotaService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: RESERVED_AT, doNotFake: ['nextTick', 'setImmediate'] });
+
+    Object.assign(config.sponsorshipQuotas, {
+      userDailyTransactions: 10,
+      userMonthlyTransactions: 100,
+      userDailyLamports: 50_000,
+      userMonthlyLamports: 0,
+      globalDailyLamports: 1_000_000,
+    });
+
+    db.sponsorshipUsage.createMany.mockResolvedValue({ count: 0 });
+    db.sponsorshipUsage.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('reserve', () => {
+    it('counts the transaction and its fee against every limited counter', async () => {
+      db.sponsorshipUsage.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await sponsorshipQuotaService.reserve('user-1', 5000.2);
+
+      expect(result.allowed).toBe(true);
+      if (!result.allowed) return;
+      expect(result.reservation).toEqual({ userId: 'user-1', lamports: 5001, reservedAt: RESERVED_AT });
+
+      expect(db.sponsorshipUsage.createMany).toHaveBeenCalledWith({
+        data: [
+          { scope: 'user-1', period: 'DAY', periodStart: DAY_START },
+          { scope: 'user-1', period: 'MONTH', periodStart: MONTH_START },
+          { scope: 'global', period: 'DAY', periodStart: DAY_START },
+        ],
+        skipDuplicates: true,
+      });
+
+      const data = { count: { increment: 1 }, lamports: { increment: BigInt(5001) } };
+      expect(db.sponsorshipUsage.updateMany.mock.calls).toEqual([
+        [{
+          where: {
+            scope: 'user-1',
+            period: 'DAY',
+            periodStart: DAY_START,
+            count: { lt: 10 },
+            lamports: { lte: BigInt(50_000 - 5001) },
+          },
+          data,
+        }],
+        // The monthly lamport limit is disabled
+        [{ where: { scope: 'user-1', period: 'MONTH', periodStart: MONTH_START, count: { lt: 100 } }, data }],
+        [{
+          where: { scope: 'global', period: 'DAY', periodStart: DAY_START, lamports: { lte: BigInt(1_000_000 - 5001) } },
+          data,
+        }],
+      ]);
+    });
+
+    it('only counts the server-wide quota for anonymous sponsorships', async () => {
+      db.sponsorshipUsage.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await sponsorshipQuotaService.reserve(null, 5000);
+
+      expect(result.allowed).toBe(true);
+      expect(db.sponsorshipUsage.updateMany).toHaveBeenCalledTimes(1);
+      expect(db.sponsorshipUsage.updateMany.mock.calls[0][0].where.scope).toBe('global');
+    });
+
+    it('rejects the reservation and reports the exhausted quota when a counter is full', async () => {
+      db.sponsorshipUsage.updateMany.mockResolvedValue({ count: 0 });
+      db.sponsorshipUsage.findMany.mockResolvedValue([
+        { scope: 'user-1', period: 'DAY', periodStart: DAY_START, count: 10, lamports: BigInt(20_000) },
+      ]);
+
+      const result = await sponsorshipQuotaService.reserve('user-1', 5000);
+
+      expect(result.allowed).toBe(false);
+      if (result.allowed) return;
+      expect(result.exceeded).toMatchObject({
+        scope: 'user',
+        period: 'DAY',
+        dimension: 'transactions',
+        limit: 10,
+        used: 10,
+        remaining: 0,
+      });
+      // The transaction threw on the first full counter, so nothing else was counted
+      expect(db.sponsorshipUsage.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('rethrows database errors instead of reporting them as an exhausted quota', async () => {
+      db.sponsorshipUsage.updateMany.mockRejectedValue(new Error('connection lost'));
+
+      await expect(sponsorshipQuotaService.reserve('user-1', 5000)).rejects.toThrow('connection lost');
+    });
+  });
+
+  describe('release', () => {
+    it('gives the reservation back to the counters of the period it was made in', async () => {
+      db.sponsorshipUsage.updateMany.mockResolvedValue({ count: 1 });
+      jest.setSystemTime(new Date('2026-03-16T00:00:05Z'));
+
+      await sponsorshipQuotaService.release({ userId: 'user-1', lamports: 5000, reservedAt: RESERVED_AT });
+
+      const data = { count: { decrement: 1 }, lamports: { decrement: BigInt(5000) } };
+      expect(db.sponsorshipUsage.updateMany.mock.calls).toEqual([
+        [{ where: { scope: 'user-1', period: 'DAY', periodStart: DAY_START, count: { gt: 0 } }, data }],
+        [{ where: { scope: 'user-1', period: 'MONTH', periodStart: MONTH_START, count: { gt: 0 } }, data }],
+        [{ where: { scope: 'global', period: 'DAY', periodStart: DAY_START, count: { gt: 0 } }, data }],
+      ]);
+    });
+
+    it('does not throw when the release fails', async () => {
+      db.sponsorshipUsage.updateMany.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        sponsorshipQuotaService.release({ userId: 'user-1', lamports: 5000, reservedAt: RESERVED_AT })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
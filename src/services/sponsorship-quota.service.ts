@@ -0,0 +1,229 @@
+// src/services/sponsorship-quota.service.ts
+import { Prisma, QuotaPeriod, SponsorshipUsage } from '@prisma/client';
+import prisma from '../lib/prisma';
+import Logger from '../utils/logger';
+import { config } from '../config/env';
+
+export type QuotaScope = 'user' | 'global';
+export type QuotaDimension = 'transactions' | 'lamports';
+
+export interface QuotaStatus {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  dimension: QuotaDimension;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+// Usage held for a sponsored transaction, released if it is never submitted
+export interface QuotaReservation {
+  userId: string | null;
+  lamports: number;
+  reservedAt: Date;
+}
+
+export type QuotaReservationResult =
+  | { allowed: true; reservation: QuotaReservation; quotas: QuotaStatus[] }
+  | { allowed: false; exceeded: QuotaStatus; quotas: QuotaStatus[] };
+
+// A usage row and the limits that apply to it; a limit of 0 is unlimited
+interface QuotaCounter {
+  scope: QuotaScope;
+  scopeKey: string;
+  period: QuotaPeriod;
+  periodStart: Date;
+  resetsAt: Date;
+  maxTransactions: number;
+  maxLamports: number;
+}
+
+const GLOBAL_SCOPE_KEY = 'global';
+
+// Thrown inside a reservation transaction to roll it back when a counter is full
+class QuotaExceededError extends Error {
+  constructor(readonly counter: QuotaCounter) {
+    super(`Sponsorship quota exceeded: ${counter.scope} ${counter.period}`);
+  }
+}
+
+const counterWhere = (counter: QuotaCounter) => ({
+  scope: counter.scopeKey,
+  period: counter.period,
+  periodStart: counter.periodStart,
+});
+
+export class SponsorshipQuotaService {
+  /**
+   * Current usage against the user's and the server-wide limits
+   */
+  async getQuotas(userId: string | null): Promise<QuotaStatus[]> {
+    const counters = this.getCounters(userId, new Date());
+    return this.toStatuses(counters, await this.readUsage(counters));
+  }
+
+  /**
+   * Count a sponsored transaction and its estimated fee against every quota,
+   * or nothing if any quota would be exceeded. Counter rows are locked while
+   * reserving so concurrent sponsorships cannot overshoot a limit.
+   */
+  async reserve(userId: string | null, estimatedLamports: number): Promise<QuotaReservationResult> {
+    const reservedAt = new Date();
+    const counters = this.getCounters(userId, reservedAt);
+    const lamports = BigInt(Math.max(0, Math.ceil(estimatedLamports)));
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.sponsorshipUsage.createMany({
+          data: counters.map(counterWhere),
+          skipDuplicates: true,
+        });
+
+        for (const counter of counters) {
+          const where: Prisma.SponsorshipUsageWhereInput = counterWhere(counter);
+          if (counter.maxTransactions > 0) {
+            where.count = { lt: counter.maxTransactions };
+          }
+          if (counter.maxLamports > 0) {
+            where.lamports = { lte: BigInt(counter.maxLamports) - lamports };
+          }
+
+          const reserved = await tx.sponsorshipUsage.updateMany({
+            where,
+            data: { count: { increment: 1 }, lamports: { increment: lamports } },
+          });
+          if (reserved.count === 0) {
+            throw new QuotaExceededError(counter);
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        throw error;
+      }
+
+      const quotas = this.toStatuses(counters, await this.readUsage(counters));
+      const { scope, period } = error.counter;
+      const candidates = quotas.filter((quota) => quota.scope === scope && quota.period === period);
+      const exceeded =
+        candidates.find((quota) => quota.remaining < (quota.dimension === 'transactions' ? 1 : Number(lamports))) ||
+        candidates[0];
+
+      Logger.warn(`Sponsorship quota exceeded for ${userId || GLOBAL_SCOPE_KEY}: ${scope} ${period} ${exceeded.dimension}`);
+      return { allowed: false, exceeded, quotas };
+    }
+
+    return {
+      allowed: true,
+      reservation: { userId, lamports: Number(lamports), reservedAt },
+      quotas: this.toStatuses(counters, await this.readUsage(counters)),
+    };
+  }
+
+  /**
+   * Give back a reservation for a transaction that was never submitted
+   */
+  async release(reservation: QuotaReservation): Promise<void> {
+    const counters = this.getCounters(reservation.userId, reservation.reservedAt);
+
+    try {
+      await prisma.$transaction(
+        counters.map((counter) =>
+          prisma.sponsorshipUsage.updateMany({
+            where: { ...counterWhere(counter), count: { gt: 0 } },
+            data: { count: { decrement: 1 }, lamports: { decrement: BigInt(reservation.lamports) } },
+          })
+        )
+      );
+    } catch (error) {
+      Logger.error('Error releasing sponsorship quota reservation:', error);
+    }
+  }
+
+  /**
+   * Counters for the user's UTC day and month, and the server-wide UTC day
+   */
+  private getCounters(userId: string | null, at: Date): QuotaCounter[] {
+    const quotas = config.sponsorshipQuotas;
+    const dayStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    const nextDay = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1));
+    const monthStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    const nextMonth = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+
+    const counters: QuotaCounter[] = [];
+    if (userId) {
+      counters.push(
+        {
+          scope: 'user',
+          scopeKey: userId,
+          period: QuotaPeriod.DAY,
+          periodStart: dayStart,
+          resetsAt: nextDay,
+          maxTransactions: quotas.userDailyTransactions,
+          maxLamports: quotas.userDailyLamports,
+        },
+        {
+          scope: 'user',
+          scopeKey: userId,
+          period: QuotaPeriod.MONTH,
+          periodStart: monthStart,
+          resetsAt: nextMonth,
+          maxTransactions: quotas.userMonthlyTransactions,
+          maxLamports: quotas.userMonthlyLamports,
+        }
+      );
+    }
+    counters.push({
+      scope: 'global',
+      scopeKey: GLOBAL_SCOPE_KEY,
+      period: QuotaPeriod.DAY,
+      periodStart: dayStart,
+      resetsAt: nextDay,
+      maxTransactions: 0,
+      maxLamports: quotas.globalDailyLamports,
+    });
+    return counters;
+  }
+
+  private async readUsage(counters: QuotaCounter[]): Promise<SponsorshipUsage[]> {
+    return prisma.sponsorshipUsage.findMany({
+      where: { OR: counters.map(counterWhere) },
+    });
+  }
+
+  private toStatuses(counters: QuotaCounter[], usage: SponsorshipUsage[]): QuotaStatus[] {
+    return counters.flatMap((counter) => {
+      const row = usage.find(
+        (entry) =>
+          entry.scope === counter.scopeKey &&
+          entry.period === counter.period &&
+          entry.periodStart.getTime() === counter.periodStart.getTime()
+      );
+      const used: Record<QuotaDimension, number> = {
+        transactions: row?.count ?? 0,
+        lamports: Number(row?.lamports ?? 0),
+      };
+      const limits: Array<[QuotaDimension, number]> = [
+        ['transactions', counter.maxTransactions],
+        ['lamports', counter.maxLamports],
+      ];
+
+      return limits
+        .filter(([, limit]) => limit > 0)
+        .map(([dimension, limit]) => ({
+          scope: counter.scope,
+          period: counter.period,
+          dimension,
+          limit,
+          used: used[dimension],
+          remaining: Math.max(0, limit - used[dimension]),
+          resetsAt: counter.resetsAt,
+        }));
+    });
+  }
+}
+
+// Export singleton instance
+const sponsorshipQuotaService = new SponsorshipQuotaService();
+export default sponsorshipQuotaService;
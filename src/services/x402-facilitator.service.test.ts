@@ -0,0 +1,183 @@
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import gaslessService from './gasless.service';
+import feePayerPoolService from './fee-payer-pool.service';
+import x402FacilitatorService, { X402_NETWORK } from './x402-facilitator.service';
+import { X402PaymentPayloadInput, X402PaymentRequirementsInput } from '../schemas/x402.schemas';
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+jest.mock('./gasless.service', () => ({
+  __esModule: true,
+  default: { getConnection: jest.fn(), simulateTransaction: jest.fn() },
+}));
+jest.mock('./fee-payer-pool.service', () => ({
+  __esModule: true,
+  default: { isActive: jest.fn(), peek: jest.fn() },
+}));
+jest.mock('./gasless-pricing.service', () => ({
+  __esModule: true,
+  default: { estimateFee: jest.fn().mockResolvedValue({ estimatedLamports: 5000 }) },
+}));
+
+const feePayer = Keypair.generate();
+const payer = Keypair.generate();
+const asset = Keypair.generate().publicKey;
+const payTo = Keypair.generate().publicKey;
+const payerTokenAccount = getAssociatedTokenAddressSync(asset, payer.publicKey);
+const payToTokenAccount = getAssociatedTokenAddressSync(asset, payTo, true);
+
+const connection = { isBlockhashValid: jest.fn() };
+
+const requirements: X402PaymentRequirementsInput = {
+  scheme: 'exact',
+  network: X402_NETWORK,
+  maxAmountRequired: '1000000',
+  resource: 'https://api.example.com/report',
+  payTo: payTo.toBase58(),
+  asset: asset.toBase58(),
+};
+
+const transfer = (amount = 1_000_000, destination = payToTokenAccount) =>
+  createTransferCheckedInstruction(payerTokenAccount, asset, destination, payer.publicKey, amount, 6);
+
+// The client's partially signed payment: everything but the fee payer signature
+const paymentOf = (
+  instructions: TransactionInstruction[],
+  { signers = [payer], txFeePayer = feePayer.publicKey }: { signers?: Keypair[]; txFeePayer?: PublicKey } = {}
+): X402PaymentPayloadInput => {
+  const tx = new Transaction({ feePayer: txFeePayer, recentBlockhash: Keypair.generate().publicKey.toBase58() });
+  tx.add(...instructions);
+  if (signers.length > 0) {
+    tx.partialSign(...signers);
+  }
+
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: X402_NETWORK,
+    payload: { transaction: tx.serialize({ requireAllSignatures: false }).toString('base64') },
+  };
+};
+
+describe('X402FacilitatorService.verify', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (gaslessService.getConnection as jest.Mock).mockReturnValue(connection);
+    (gaslessService.simulateTransaction as jest.Mock).mockResolvedValue({ success: true, unitsConsumed: 6000 });
+    (feePayerPoolService.isActive as jest.Mock).mockImplementation((key: string) => key === feePayer.publicKey.toBase58());
+    connection.isBlockhashValid.mockResolvedValue({ value: true });
+  });
+
+  it('accepts a signed transfer of the required amount to the payTo token account', async () => {
+    const result = await x402FacilitatorService.verify(paymentOf([transfer()]), requirements);
+
+    expect(result).toEqual({ isValid: true, payer: payer.publicKey.toBase58() });
+  });
+
+  it('accepts the legacy network name and serializedTransaction field', async () => {
+    const payload = paymentOf([transfer()]);
+    const legacy = {
+      ...payload,
+      network: X402_NETWORK === 'solana' ? 'solana-mainnet' : X402_NETWORK,
+      payload: { serializedTransaction: payload.payload.transaction },
+    };
+
+    expect((await x402FacilitatorService.verify(legacy, requirements)).isValid).toBe(true);
+  });
+
+  it('rejects an unsupported version, scheme or network', async () => {
+    const payload = paymentOf([transfer()]);
+
+    expect(await x402FacilitatorService.verify({ ...payload, x402Version: 2 }, requirements)).toMatchObject({
+      invalidReason: 'invalid_x402_version',
+    });
+    expect(await x402FacilitatorService.verify({ ...payload, scheme: 'upto' }, requirements)).toMatchObject({
+      invalidReason: 'invalid_scheme',
+    });
+    expect(await x402FacilitatorService.verify(payload, { ...requirements, network: 'base' })).toMatchObject({
+      invalidReason: 'invalid_network',
+    });
+  });
+
+  it('rejects a payload that is not a transaction', async () => {
+    const payload = { ...paymentOf([transfer()]), payload: { transaction: Buffer.from('not a transaction').toString('base64') } };
+
+    expect(await x402FacilitatorService.verify(payload, requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: 'invalid_payload',
+    });
+  });
+
+  it('rejects a transaction paid for by a fee payer that is not ours', async () => {
+    const result = await x402FacilitatorService.verify(
+      paymentOf([transfer()], { txFeePayer: Keypair.generate().publicKey }),
+      requirements
+    );
+
+    expect(result).toMatchObject({ isValid: false, invalidReason: 'invalid_fee_payer' });
+  });
+
+  it('rejects a fee payer other than the one the requirements named', async () => {
+    const named = { ...requirements, extra: { feePayer: Keypair.generate().publicKey.toBase58() } };
+
+    expect(await x402FacilitatorService.verify(paymentOf([transfer()]), named)).toMatchObject({
+      invalidReason: 'invalid_fee_payer',
+    });
+  });
+
+  it('rejects a transaction the payer has not signed', async () => {
+    const result = await x402FacilitatorService.verify(paymentOf([transfer()], { signers: [] }), requirements);
+
+    expect(result).toMatchObject({ isValid: false, invalidReason: 'invalid_signature' });
+  });
+
+  it('rejects a transfer to another account', async () => {
+    const elsewhere = getAssociatedTokenAddressSync(asset, Keypair.generate().publicKey);
+
+    expect(await x402FacilitatorService.verify(paymentOf([transfer(1_000_000, elsewhere)]), requirements)).toMatchObject({
+      isValid: false,
+      invalidReason: 'invalid_transfer',
+    });
+  });
+
+  it('rejects transactions with more than one transfer', async () => {
+    expect(await x402FacilitatorService.verify(paymentOf([transfer(), transfer()]), requirements)).toMatchObject({
+      invalidReason: 'invalid_transfer',
+    });
+  });
+
+  it('rejects a transfer of a different amount', async () => {
+    const result = await x402FacilitatorService.verify(paymentOf([transfer(999_999)]), requirements);
+
+    expect(result).toEqual({
+      isValid: false,
+      invalidReason: 'invalid_amount',
+      invalidMessage: 'Transfer of 999999 does not match the required 1000000',
+      payer: payer.publicKey.toBase58(),
+    });
+  });
+
+  it('rejects transactions the sponsorship policy does not allow', async () => {
+    const drain = SystemProgram.transfer({ fromPubkey: feePayer.publicKey, toPubkey: payer.publicKey, lamports: 1 });
+
+    expect(await x402FacilitatorService.verify(paymentOf([transfer(), drain]), requirements)).toMatchObject({
+      invalidReason: 'policy_violation',
+    });
+  });
+
+  it('rejects an expired blockhash', async () => {
+    connection.isBlockhashValid.mockResolvedValue({ value: false });
+
+    expect(await x402FacilitatorService.verify(paymentOf([transfer()]), requirements)).toMatchObject({
+      invalidReason: 'expired_blockhash',
+    });
+  });
+
+  it('rejects a transaction that fails simulation', async () => {
+    (gaslessService.simulateTransaction as jest.Mock).mockResolvedValue({ success: false, error: { InstructionError: [0, 'Custom'] } });
+
+    expect(await x402FacilitatorService.verify(paymentOf([transfer()]), requirements)).toMatchObject({
+      invalidReason: 'simulation_failed',
+    });
+  });
+});
@@ -0,0 +1,298 @@
+// src/services/x402-facilitator.service.ts
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import Logger from '../utils/logger';
+import {
+  AnyTransaction,
+  DecodedTransaction,
+  decodeTokenTransfer,
+  decodeTransaction,
+  deserializeTransaction,
+  signTransaction,
+  verifyTransactionSignatures,
+} from '../utils/solana-transaction';
+import gaslessService from './gasless.service';
+import feePayerPoolService from './fee-payer-pool.service';
+import sponsorshipPolicyService, { readComputeBudget } from './sponsorship-policy.service';
+import sponsorshipQuotaService from './sponsorship-quota.service';
+import gaslessPricingService from './gasless-pricing.service';
+import { config } from '../config/env';
+import { X402PaymentPayloadInput, X402PaymentRequirementsInput } from '../schemas/x402.schemas';
+
+export type X402InvalidReason =
+  | 'invalid_x402_version'
+  | 'invalid_scheme'
+  | 'invalid_network'
+  | 'invalid_payload'
+  | 'invalid_fee_payer'
+  | 'invalid_signature'
+  | 'invalid_transfer'
+  | 'invalid_amount'
+  | 'expired_blockhash'
+  | 'policy_violation'
+  | 'simulation_failed'
+  | 'unexpected_error';
+
+export interface X402VerifyResponse {
+  isValid: boolean;
+  invalidReason?: X402InvalidReason;
+  // Human-readable detail for the invalid reason
+  invalidMessage?: string;
+  payer?: string;
+}
+
+export interface X402SettleResponse {
+  success: boolean;
+  errorReason?: X402InvalidReason | 'quota_exceeded' | 'settlement_failed';
+  errorMessage?: string;
+  payer?: string;
+  transaction: string;
+  network: string;
+}
+
+export interface X402SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  extra?: { feePayer: string };
+}
+
+// Transaction that passed verification, ready for the fee payer to co-sign
+interface VerifiedPayment {
+  tx: AnyTransaction;
+  feePayer: PublicKey;
+  payer: string;
+  // Network fee the fee payer is expected to pay
+  estimatedLamports: number;
+}
+
+export const X402_VERSION = 1;
+export const EXACT_SCHEME = 'exact';
+export const X402_NETWORK = (process.env.SOLANA_NETWORK || 'mainnet') === 'devnet' ? 'solana-devnet' : 'solana';
+// Older clients of this backend send solana-mainnet
+const NETWORK_ALIASES: Record<string, string> = { 'solana-mainnet': 'solana' };
+
+const normalizeNetwork = (network: string): string => NETWORK_ALIASES[network] || network;
+
+const invalid = (invalidReason: X402InvalidReason, invalidMessage: string): X402VerifyResponse => ({
+  isValid: false,
+  invalidReason,
+  invalidMessage,
+});
+
+export class X402FacilitatorService {
+  /**
+   * Payment kinds this facilitator can verify and settle
+   */
+  getSupported(): { kinds: X402SupportedKind[] } {
+    const feePayer = feePayerPoolService.peek();
+    if (!feePayer) {
+      return { kinds: [] };
+    }
+
+    return {
+      kinds: [
+        {
+          x402Version: X402_VERSION,
+          scheme: EXACT_SCHEME,
+          network: X402_NETWORK,
+          extra: { feePayer: feePayer.toBase58() },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check a payment payload against the resource server's payment requirements without settling it
+   */
+  async verify(
+    paymentPayload: X402PaymentPayloadInput,
+    paymentRequirements: X402PaymentRequirementsInput
+  ): Promise<X402VerifyResponse> {
+    const result = await this.verifyPayment(paymentPayload, paymentRequirements);
+    return 'isValid' in result ? result : { isValid: true, payer: result.payer };
+  }
+
+  /**
+   * Verify a payment payload, co-sign it as fee payer and submit it
+   */
+  async settle(
+    paymentPayload: X402PaymentPayloadInput,
+    paymentRequirements: X402PaymentRequirementsInput
+  ): Promise<X402SettleResponse> {
+    const network = normalizeNetwork(paymentRequirements.network);
+    const result = await this.verifyPayment(paymentPayload, paymentRequirements);
+    if ('isValid' in result) {
+      return {
+        success: false,
+        errorReason: result.invalidReason,
+        errorMessage: result.invalidMessage,
+        transaction: '',
+        network,
+      };
+    }
+
+    // Settlements spend fee payer SOL, so they count against the server-wide sponsorship budget
+    const quota = await sponsorshipQuotaService.reserve(null, result.estimatedLamports);
+    if (!quota.allowed) {
+      return {
+        success: false,
+        errorReason: 'quota_exceeded',
+        errorMessage: 'The daily sponsorship budget has been used up',
+        payer: result.payer,
+        transaction: '',
+        network,
+      };
+    }
+
+    const feePayer = await feePayerPoolService.use(result.feePayer.toBase58());
+    if (!feePayer) {
+      await sponsorshipQuotaService.release(quota.reservation);
+      return {
+        success: false,
+        errorReason: 'invalid_fee_payer',
+        errorMessage: 'Fee payer is no longer in rotation',
+        payer: result.payer,
+        transaction: '',
+        network,
+      };
+    }
+
+    let signature = '';
+    try {
+      signTransaction(result.tx, feePayer);
+      const connection = gaslessService.getConnection();
+      signature = await connection.sendRawTransaction(result.tx.serialize(), {
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+      });
+
+      const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+      if (confirmation.value.err) {
+        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      }
+
+      Logger.info(`x402 payment settled for ${result.payer}: ${signature}`);
+      return { success: true, payer: result.payer, transaction: signature, network };
+    } catch (error) {
+      Logger.error('Error settling x402 payment:', error);
+      gaslessService.recheckFeePayerIfUnderfunded(feePayer, error);
+      if (!signature) {
+        await sponsorshipQuotaService.release(quota.reservation);
+      }
+      return {
+        success: false,
+        errorReason: 'settlement_failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        payer: result.payer,
+        transaction: signature,
+        network,
+      };
+    }
+  }
+
+  private async verifyPayment(
+    paymentPayload: X402PaymentPayloadInput,
+    requirements: X402PaymentRequirementsInput
+  ): Promise<VerifiedPayment | X402VerifyResponse> {
+    if (paymentPayload.x402Version !== X402_VERSION) {
+      return invalid('invalid_x402_version', `Only x402 version ${X402_VERSION} is supported`);
+    }
+    if (paymentPayload.scheme !== EXACT_SCHEME || requirements.scheme !== EXACT_SCHEME) {
+      return invalid('invalid_scheme', `Only the ${EXACT_SCHEME} scheme is supported`);
+    }
+    if (
+      normalizeNetwork(paymentPayload.network) !== X402_NETWORK ||
+      normalizeNetwork(requirements.network) !== X402_NETWORK
+    ) {
+      return invalid('invalid_network', `This facilitator settles on ${X402_NETWORK}`);
+    }
+
+    let decoded: DecodedTransaction;
+    try {
+      const serialized = paymentPayload.payload.transaction || paymentPayload.payload.serializedTransaction || '';
+      decoded = await decodeTransaction(
+        gaslessService.getConnection(),
+        deserializeTransaction(Buffer.from(serialized, 'base64'))
+      );
+    } catch (error) {
+      return invalid(
+        'invalid_payload',
+        `Payload transaction must be a base64-encoded legacy or v0 Solana transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    try {
+      // The client builds the transaction for one of our fee payers and signs everything else
+      const { tx, feePayer } = decoded;
+      if (!feePayer || !feePayerPoolService.isActive(feePayer.toBase58())) {
+        return invalid('invalid_fee_payer', 'Transaction fee payer is not one of this facilitator\'s fee payers');
+      }
+      if (requirements.extra?.feePayer && requirements.extra.feePayer !== feePayer.toBase58()) {
+        return invalid('invalid_fee_payer', 'Transaction fee payer does not match the payment requirements');
+      }
+
+      if (!verifyTransactionSignatures(decoded)) {
+        return invalid('invalid_signature', 'Transaction carries an invalid signature');
+      }
+      const unsigned = decoded.signers.find((entry) => !entry.publicKey.equals(feePayer) && !entry.signature);
+      if (unsigned) {
+        return invalid('invalid_signature', `Transaction is missing the signature of ${unsigned.publicKey.toBase58()}`);
+      }
+
+      const policy = sponsorshipPolicyService.check(decoded, feePayer, 'x402 facilitator');
+      if (!policy.allowed) {
+        return invalid('policy_violation', policy.violation.reason);
+      }
+
+      const asset = new PublicKey(requirements.asset);
+      const transfers = decoded.instructions
+        .map(decodeTokenTransfer)
+        .filter((transfer): transfer is NonNullable<typeof transfer> => transfer !== null);
+      if (transfers.length !== 1) {
+        return invalid('invalid_transfer', 'Transaction must contain exactly one token transfer');
+      }
+
+      // The payTo token account is derived for the program that moves the tokens (SPL Token or Token-2022)
+      const [transfer] = transfers;
+      const destination = await getAssociatedTokenAddress(asset, new PublicKey(requirements.payTo), true, transfer.programId);
+      if (!transfer.destination.equals(destination) || (transfer.mint && !transfer.mint.equals(asset))) {
+        return invalid('invalid_transfer', `No ${requirements.asset} transfer to ${requirements.payTo} found`);
+      }
+
+      const payer = transfer.owner.toBase58();
+      if (transfer.amount !== BigInt(requirements.maxAmountRequired)) {
+        return {
+          ...invalid('invalid_amount', `Transfer of ${transfer.amount} does not match the required ${requirements.maxAmountRequired}`),
+          payer,
+        };
+      }
+
+      const connection = gaslessService.getConnection();
+      if (!decoded.recentBlockhash || !(await connection.isBlockhashValid(decoded.recentBlockhash)).value) {
+        return { ...invalid('expired_blockhash', 'Transaction blockhash has expired'), payer };
+      }
+
+      const simulation = await gaslessService.simulateTransaction(tx);
+      if (!simulation.success) {
+        return { ...invalid('simulation_failed', JSON.stringify(simulation.error)), payer };
+      }
+
+      const { computeUnitLimit, computeUnitPrice } = readComputeBudget(decoded);
+      const estimate = await gaslessPricingService.estimateFee(connection, {
+        signatures: decoded.signers.length,
+        computeUnits: computeUnitLimit ?? simulation.unitsConsumed ?? config.gaslessPricing.defaultComputeUnits,
+        computeUnitPrice: computeUnitPrice ?? 0,
+      });
+
+      return { tx, feePayer, payer, estimatedLamports: estimate.estimatedLamports };
+    } catch (error) {
+      Logger.error('Error verifying x402 payment:', error);
+      return invalid('unexpected_error', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+// Export singleton instance
+const x402FacilitatorService = new X402FacilitatorService();
+export default x402FacilitatorService;
@@ -0,0 +1,59 @@
+// src/test/prisma-mock.ts
+import { Prisma } from '@prisma/client';
+
+const DELEGATE_METHODS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+  'count',
+  'aggregate',
+  'groupBy',
+] as const;
+
+export type PrismaDelegateMock = Record<(typeof DELEGATE_METHODS)[number], jest.Mock>;
+
+export type PrismaMock = {
+  [Model in Uncapitalize<Prisma.ModelName>]: PrismaDelegateMock;
+} & {
+  $transaction: (operations: unknown) => Promise<unknown>;
+  $queryRaw: jest.Mock;
+  $executeRaw: jest.Mock;
+};
+
+const delegates = Object.fromEntries(
+  Object.values(Prisma.ModelName).map((model) => [
+    model.charAt(0).toLowerCase() + model.slice(1),
+    Object.fromEntries(DELEGATE_METHODS.map((method) => [method, jest.fn()])),
+  ])
+);
+
+/**
+ * Stand-in for the Prisma client in service tests. Every model method is a jest.fn;
+ * interactive transactions run their callback against the same mock and batched
+ * transactions await their operations.
+ *
+ * Install it with:
+ *   jest.mock('../lib/prisma', () => ({ __esModule: true, default: require('../test/prisma-mock').prismaMock }));
+ */
+export const prismaMock = {
+  ...delegates,
+  $transaction: (operations: unknown) =>
+    typeof operations === 'function' ? operations(prismaMock) : Promise.all(operations as Promise<unknown>[]),
+  $queryRaw: jest.fn(),
+  $executeRaw: jest.fn(),
+} as PrismaMock;
+
+/**
+ * Known request error with the given Prisma error code, e.g. P2002 for a unique constraint
+ */
+export const prismaError = (code: string): Prisma.PrismaClientKnownRequestError =>
+  new Prisma.PrismaClientKnownRequestError(`Prisma error ${code}`, { code, clientVersion: 'test' });
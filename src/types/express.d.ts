@@ -1,5 +1,10 @@
 declare namespace Express {
   export interface Request {
     userId?: string;
+    userRole?: import('@prisma/client').UserRole;
+    sessionId?: string;
+    tokenId?: string;
+    tokenExpiresAt?: Date;
+    otpAttemptSettled?: boolean;
   }
 }
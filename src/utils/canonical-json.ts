@@ -0,0 +1,22 @@
+// src/utils/canonical-json.ts
+
+// Recursively sort object keys so equivalent values serialize identically
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * JSON.stringify with sorted object keys, for hashing and fingerprinting
+ */
+export const canonicalJson = (value: unknown): string => JSON.stringify(canonicalize(value ?? null));
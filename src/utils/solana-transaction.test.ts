@@ -0,0 +1,219 @@
+import bs58 from 'bs58';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  createTransferCheckedInstruction,
+  createTransferInstruction,
+} from '@solana/spl-token';
+import {
+  decodeSystemTransfer,
+  decodeTokenTransfer,
+  decodeTransaction,
+  deserializeTransaction,
+  getTransactionSignature,
+  signTransaction,
+  verifyTransactionSignatures,
+} from './solana-transaction';
+
+const feePayer = Keypair.generate();
+const owner = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const source = Keypair.generate().publicKey;
+const destination = Keypair.generate().publicKey;
+const recentBlockhash = Keypair.generate().publicKey.toBase58();
+
+const lookupTable = new AddressLookupTableAccount({
+  key: Keypair.generate().publicKey,
+  state: {
+    deactivationSlot: BigInt('18446744073709551615'),
+    lastExtendedSlot: 0,
+    lastExtendedSlotStartIndex: 0,
+    addresses: [mint, source, destination],
+  },
+});
+
+const connectionWith = (tables: AddressLookupTableAccount[]) =>
+  ({
+    getAddressLookupTable: jest.fn(async (key: PublicKey) => ({
+      context: { slot: 1 },
+      value: tables.find((table) => table.key.equals(key)) ?? null,
+    })),
+  }) as unknown as Connection;
+
+const tokenTransfer = () => createTransferCheckedInstruction(source, mint, destination, owner.publicKey, 2_500_000, 6);
+
+const legacyTransaction = (...instructions: TransactionInstruction[]) =>
+  new Transaction({ feePayer: feePayer.publicKey, recentBlockhash }).add(...instructions);
+
+// A v0 transaction whose token accounts are only reachable through the lookup table
+const v0Transaction = (...instructions: TransactionInstruction[]) =>
+  new VersionedTransaction(
+    new TransactionMessage({ payerKey: feePayer.publicKey, recentBlockhash, instructions }).compileToV0Message([lookupTable])
+  );
+
+describe('solana-transaction', () => {
+  describe('deserializeTransaction', () => {
+    it('returns legacy transactions as editable Transactions', () => {
+      const tx = legacyTransaction(tokenTransfer());
+      tx.partialSign(owner);
+
+      const decoded = deserializeTransaction(tx.serialize({ requireAllSignatures: false }));
+
+      expect(decoded).toBeInstanceOf(Transaction);
+      expect((decoded as Transaction).instructions).toHaveLength(1);
+    });
+
+    it('returns v0 transactions as VersionedTransactions', () => {
+      const decoded = deserializeTransaction(Buffer.from(v0Transaction(tokenTransfer()).serialize()));
+
+      expect(decoded).toBeInstanceOf(VersionedTransaction);
+      expect((decoded as VersionedTransaction).version).toBe(0);
+    });
+  });
+
+  describe('decodeTransaction', () => {
+    it('reads a legacy transaction without fetching lookup tables', async () => {
+      const connection = connectionWith([]);
+      const tx = deserializeTransaction(
+        legacyTransaction(tokenTransfer()).serialize({ requireAllSignatures: false, verifySignatures: false })
+      );
+
+      const decoded = await decodeTransaction(connection, tx);
+
+      expect(decoded).toMatchObject({ version: 'legacy', recentBlockhash, instructions: (tx as Transaction).instructions });
+      expect(decoded.feePayer?.equals(feePayer.publicKey)).toBe(true);
+      expect(decoded.signers.map(({ publicKey }) => publicKey.toBase58())).toEqual([
+        feePayer.publicKey.toBase58(),
+        owner.publicKey.toBase58(),
+      ]);
+      expect(connection.getAddressLookupTable).not.toHaveBeenCalled();
+    });
+
+    it('resolves accounts from address lookup tables in v0 transactions', async () => {
+      const tx = v0Transaction(tokenTransfer());
+      tx.sign([owner]);
+
+      const decoded = await decodeTransaction(connectionWith([lookupTable]), tx);
+
+      expect(decoded.version).toBe(0);
+      expect(tx.message.addressTableLookups).toHaveLength(1);
+      expect(decodeTokenTransfer(decoded.instructions[0])).toMatchObject({ amount: BigInt(2_500_000), mint, destination });
+      expect(decoded.signers).toEqual([
+        { publicKey: feePayer.publicKey, signature: null },
+        { publicKey: owner.publicKey, signature: expect.any(Buffer) },
+      ]);
+    });
+
+    it('fails when a referenced lookup table does not exist', async () => {
+      await expect(decodeTransaction(connectionWith([]), v0Transaction(tokenTransfer()))).rejects.toThrow(
+        `Address lookup table ${lookupTable.key.toBase58()} not found`
+      );
+    });
+  });
+
+  describe('verifyTransactionSignatures', () => {
+    it('accepts present signatures and allows missing ones', async () => {
+      const tx = v0Transaction(tokenTransfer());
+      tx.sign([owner]);
+
+      expect(verifyTransactionSignatures(await decodeTransaction(connectionWith([lookupTable]), tx))).toBe(true);
+    });
+
+    it('rejects a v0 signature that does not match the message', async () => {
+      const tx = v0Transaction(tokenTransfer());
+      tx.sign([owner]);
+      tx.signatures[1] = Uint8Array.from(tx.signatures[1].map((byte, index) => (index === 0 ? byte ^ 1 : byte)));
+
+      expect(verifyTransactionSignatures(await decodeTransaction(connectionWith([lookupTable]), tx))).toBe(false);
+    });
+
+    it('rejects a legacy signature made by another key', async () => {
+      const tx = legacyTransaction(tokenTransfer());
+      tx.partialSign(owner);
+      tx.signatures[1].signature = Buffer.alloc(64, 7);
+
+      expect(verifyTransactionSignatures(await decodeTransaction(connectionWith([]), tx))).toBe(false);
+    });
+  });
+
+  describe('signTransaction and getTransactionSignature', () => {
+    it('adds the fee payer signature and keeps the others', () => {
+      const legacy = legacyTransaction(tokenTransfer());
+      legacy.partialSign(owner);
+      const v0 = v0Transaction(tokenTransfer());
+      v0.sign([owner]);
+
+      expect(getTransactionSignature(legacy)).toBeNull();
+      expect(getTransactionSignature(v0)).toBeNull();
+
+      signTransaction(legacy, feePayer);
+      signTransaction(v0, feePayer);
+
+      expect(legacy.verifySignatures()).toBe(true);
+      expect(getTransactionSignature(legacy)).toBe(bs58.encode(legacy.signature!));
+      expect(getTransactionSignature(v0)).toBe(bs58.encode(v0.signatures[0]));
+      expect(v0.signatures[1].some((byte) => byte !== 0)).toBe(true);
+    });
+  });
+
+  describe('decodeTokenTransfer', () => {
+    it('reads Transfer and TransferChecked for SPL Token and Token-2022', () => {
+      expect(decodeTokenTransfer(createTransferInstruction(source, destination, owner.publicKey, 42))).toMatchObject({
+        amount: BigInt(42),
+        mint: null,
+        destination,
+        owner: owner.publicKey,
+      });
+
+      const token2022 = createTransferCheckedInstruction(source, mint, destination, owner.publicKey, 7, 6, [], TOKEN_2022_PROGRAM_ID);
+      expect(decodeTokenTransfer(token2022)).toEqual({
+        programId: TOKEN_2022_PROGRAM_ID,
+        amount: BigInt(7),
+        mint,
+        destination,
+        owner: owner.publicKey,
+      });
+    });
+
+    it('ignores other programs and instructions', () => {
+      const transfer = createTransferInstruction(source, destination, owner.publicKey, 42);
+      const otherProgram = new TransactionInstruction({ ...transfer, programId: Keypair.generate().publicKey });
+      const truncated = new TransactionInstruction({ ...transfer, data: transfer.data.subarray(0, 5) });
+
+      expect(decodeTokenTransfer(otherProgram)).toBeNull();
+      expect(decodeTokenTransfer(truncated)).toBeNull();
+      expect(decodeTokenTransfer(SystemProgram.transfer({ fromPubkey: source, toPubkey: destination, lamports: 1 }))).toBeNull();
+    });
+  });
+
+  describe('decodeSystemTransfer', () => {
+    it('reads the lamports, source and destination of a System transfer', () => {
+      const ix = SystemProgram.transfer({ fromPubkey: source, toPubkey: destination, lamports: 1_500_000 });
+
+      expect(decodeSystemTransfer(ix)).toEqual({ lamports: BigInt(1_500_000), source, destination });
+    });
+
+    it('ignores other System instructions and programs', () => {
+      const create = SystemProgram.createAccount({
+        fromPubkey: source,
+        newAccountPubkey: destination,
+        lamports: 1,
+        space: 0,
+        programId: SystemProgram.programId,
+      });
+
+      expect(decodeSystemTransfer(create)).toBeNull();
+      expect(decodeSystemTransfer(tokenTransfer())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// src/utils/solana-transaction.ts
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signature: Buffer | null;
+}
+
+/**
+ * A legacy or v0 transaction with its instructions decompiled and address
+ * lookup tables resolved
+ */
+export interface DecodedTransaction {
+  tx: AnyTransaction;
+  version: TransactionVersion;
+  feePayer: PublicKey | null;
+  recentBlockhash: string | null;
+  instructions: TransactionInstruction[];
+  // Required signers in message order; signature is null until signed
+  signers: TransactionSigner[];
+}
+
+export interface TokenTransfer {
+  programId: PublicKey;
+  amount: bigint;
+  // Only TransferChecked names the mint
+  mint: PublicKey | null;
+  destination: PublicKey;
+  owner: PublicKey;
+}
+
+export interface SystemTransfer {
+  lamports: bigint;
+  source: PublicKey;
+  destination: PublicKey;
+}
+
+const TOKEN_TRANSFER = 3;
+const TOKEN_TRANSFER_CHECKED = 12;
+const SYSTEM_TRANSFER = 2;
+
+export const isVersionedTransaction = (tx: AnyTransaction): tx is VersionedTransaction =>
+  tx instanceof VersionedTransaction;
+
+/**
+ * Deserialize a legacy or v0 wire transaction. Legacy transactions come back
+ * as Transaction so they can still be edited before signing.
+ */
+export const deserializeTransaction = (serialized: Buffer): AnyTransaction => {
+  const tx = VersionedTransaction.deserialize(serialized);
+  return tx.version === 'legacy' ? Transaction.from(serialized) : tx;
+};
+
+/**
+ * Decompile a transaction's instructions, fetching the address lookup tables a v0 message references
+ */
+export const decodeTransaction = async (connection: Connection, tx: AnyTransaction): Promise<DecodedTransaction> => {
+  if (!isVersionedTransaction(tx)) {
+    return {
+      tx,
+      version: 'legacy',
+      feePayer: tx.feePayer || null,
+      recentBlockhash: tx.recentBlockhash || null,
+      instructions: tx.instructions,
+      signers: tx.signatures.map(({ publicKey, signature }) => ({ publicKey, signature })),
+    };
+  }
+
+  const addressLookupTableAccounts = await Promise.all(
+    tx.message.addressTableLookups.map(async ({ accountKey }) => {
+      const { value } = await connection.getAddressLookupTable(accountKey);
+      if (!value) {
+        throw new Error(`Address lookup table ${accountKey.toBase58()} not found`);
+      }
+      return value;
+    })
+  );
+  const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts });
+
+  return {
+    tx,
+    version: tx.version,
+    feePayer: message.payerKey,
+    recentBlockhash: message.recentBlockhash,
+    instructions: message.instructions,
+    signers: tx.message.staticAccountKeys
+      .slice(0, tx.message.header.numRequiredSignatures)
+      .map((publicKey, index) => {
+        const signature = tx.signatures[index];
+        return { publicKey, signature: signature?.some((byte) => byte !== 0) ? Buffer.from(signature) : null };
+      }),
+  };
+};
+
+/**
+ * Check every signature present on a transaction; missing signatures are allowed
+ */
+export const verifyTransactionSignatures = (decoded: DecodedTransaction): boolean => {
+  const { tx } = decoded;
+  if (!isVersionedTransaction(tx)) {
+    return tx.verifySignatures(false);
+  }
+
+  const message = Buffer.from(tx.message.serialize());
+  return decoded.signers.every(({ publicKey, signature }) => {
+    if (!signature) {
+      return true;
+    }
+    const key = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey.toBytes()).toString('base64url') },
+      format: 'jwk',
+    });
+    return crypto.verify(null, message, key, signature);
+  });
+};
+
+/**
+ * Add a signature without touching the others
+ */
+export const signTransaction = (tx: AnyTransaction, signer: Keypair): void => {
+  if (isVersionedTransaction(tx)) {
+    tx.sign([signer]);
+  } else {
+    tx.partialSign(signer);
+  }
+};
+
+/**
+ * The transaction's id: its fee payer signature, known once signed and before it is broadcast
+ */
+export const getTransactionSignature = (tx: AnyTransaction): string | null => {
+  const signature = isVersionedTransaction(tx) ? tx.signatures[0] : tx.signature;
+  if (!signature || signature.every((byte) => byte === 0)) {
+    return null;
+  }
+  return bs58.encode(signature);
+};
+
+/**
+ * Read an SPL Token or Token-2022 transfer: [source, destination, owner] for
+ * Transfer, [source, mint, destination, owner] for TransferChecked
+ */
+export const decodeTokenTransfer = (ix: TransactionInstruction): TokenTransfer | null => {
+  const isTokenProgram = ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID);
+  if (!isTokenProgram || ix.data.length < 9) {
+    return null;
+  }
+
+  const amount = ix.data.readBigUInt64LE(1);
+  if (ix.data[0] === TOKEN_TRANSFER && ix.keys.length >= 3) {
+    return { programId: ix.programId, amount, mint: null, destination: ix.keys[1].pubkey, owner: ix.keys[2].pubkey };
+  }
+  if (ix.data[0] === TOKEN_TRANSFER_CHECKED && ix.keys.length >= 4) {
+    return {
+      programId: ix.programId,
+      amount,
+      mint: ix.keys[1].pubkey,
+      destination: ix.keys[2].pubkey,
+      owner: ix.keys[3].pubkey,
+    };
+  }
+  return null;
+};
+
+/**
+ * Read a System Program Transfer: [source, destination], lamports as a u64 after the u32 discriminator
+ */
+export const decodeSystemTransfer = (ix: TransactionInstruction): SystemTransfer | null => {
+  if (!ix.programId.equals(SystemProgram.programId) || ix.data.length < 12 || ix.keys.length < 2) {
+    return null;
+  }
+  if (ix.data.readUInt32LE(0) !== SYSTEM_TRANSFER) {
+    return null;
+  }
+  return { lamports: ix.data.readBigUInt64LE(4), source: ix.keys[0].pubkey, destination: ix.keys[1].pubkey };
+};